@@ -17,6 +17,22 @@ import { FileOperationError, ValidationError } from '@shared/errors/index'
  * @throws Error if file not found or invalid JSON
  */
 export async function readJSONFile(filePath: string, baseDir?: string): Promise<unknown> {
+  const { data } = await readJSONSource(filePath, baseDir)
+  return data
+}
+
+/**
+ * Read and parse a JSON file, keeping its text (e.g. to map JSON Pointers to lines)
+ *
+ * @param filePath - Path to JSON file (absolute or relative)
+ * @param baseDir - Base directory for resolving relative paths (defaults to cwd)
+ * @returns Parsed JSON content and the raw file text
+ * @throws Error if file not found or invalid JSON
+ */
+export async function readJSONSource(
+  filePath: string,
+  baseDir?: string,
+): Promise<{ data: unknown; text: string }> {
   const absolutePath = path.isAbsolute(filePath)
     ? filePath
     : path.resolve(baseDir ?? process.cwd(), filePath)
@@ -28,8 +44,8 @@ export async function readJSONFile(filePath: string, baseDir?: string): Promise<
   }
 
   try {
-    const content = await readFile(absolutePath, 'utf-8')
-    return JSON.parse(content)
+    const text = await readFile(absolutePath, 'utf-8')
+    return { data: JSON.parse(text) as unknown, text }
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error)
     throw new ValidationError(`Failed to read or parse file ${absolutePath}: ${errorMsg}`, [
@@ -0,0 +1,254 @@
+/**
+ * @fileoverview Persistent incremental build cache
+ * Stores resolved permutations and rendered outputs on disk, keyed by hashes of
+ * the resolver document, every `$ref`'d source file and the build config, so
+ * repeated builds skip resolution and rendering when nothing they depend on changed
+ */
+
+import { createHash } from 'node:crypto'
+import { readFile } from 'node:fs/promises'
+import * as path from 'node:path'
+
+import { writeOutputFile } from '@adapters/filesystem/file-utils'
+import type { BuildConfig, OutputConfig } from '@config/index'
+import type { BuildOutput, PermutationData } from '@renderers/types'
+import type { ResolverDocument } from '@resolution/types'
+
+import { version as DISPERSA_VERSION } from '../../package.json'
+
+/** Bump when the manifest shape or the meaning of a key changes */
+const CACHE_FORMAT_VERSION = 2
+
+const MANIFEST_FILE = 'manifest.json'
+
+/**
+ * Cache directory used when `cache: true`, relative to the working directory
+ */
+export const DEFAULT_CACHE_DIR = 'node_modules/.cache/dispersa'
+
+type CacheManifest = {
+  version: number
+  /** Hash of the resolver, source files and global config behind `permutations` */
+  inputs?: string
+  /** Content hash per absolute source file path */
+  sources: Record<string, string>
+  permutations?: PermutationData[]
+  /** Rendered outputs per output name */
+  outputs: Record<string, { key: string; outputs: BuildOutput[] }>
+}
+
+function emptyManifest(): CacheManifest {
+  return { version: CACHE_FORMAT_VERSION, sources: {}, outputs: {} }
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+/**
+ * Serialize config for hashing. Functions (transforms, filters, renderers, file
+ * patterns) contribute their source text and class instances their class source;
+ * values captured in closures do not, so renderers that delegate to a captured
+ * implementation identify it through `name` and `version`.
+ */
+function serializeConfig(value: unknown): string {
+  const seen = new WeakSet<object>()
+  return JSON.stringify(value, (_key, item: unknown) => {
+    if (typeof item === 'function' || item instanceof RegExp) {
+      return item.toString()
+    }
+    if (typeof item === 'object' && item !== null) {
+      // Custom renderers and plugins may hold references back to themselves
+      if (seen.has(item)) {
+        return '[Circular]'
+      }
+      seen.add(item)
+      const prototype: unknown = Object.getPrototypeOf(item)
+      if (prototype !== null && prototype !== Object.prototype && !Array.isArray(item)) {
+        return { class: String(item.constructor), ...item }
+      }
+    }
+    return item
+  })
+}
+
+async function hashFile(filePath: string): Promise<string | undefined> {
+  try {
+    return hash(await readFile(filePath, 'utf-8'))
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * On-disk cache for `BuildOrchestrator.build`
+ *
+ * Two levels of reuse:
+ * - **Permutations**: when the dispersa version, the resolver document, every
+ *   source file recorded by the last resolution and the global config
+ *   (transforms, filters, preprocessors, permutations, validation) hash to the
+ *   same key, the resolved
+ *   permutations are loaded from the cache instead of being resolved again.
+ *   Lint is not cached: it runs on the restored permutations on every build.
+ * - **Outputs**: when, in addition, an output's config and the build path are
+ *   unchanged, its rendered files are restored from the cache (rewritten only if
+ *   missing or modified on disk) instead of being rendered.
+ *
+ * Source files are discovered from the pipeline's parsed-file cache, whose keys
+ * are `$ref` paths relative to the resolver's directory.
+ */
+export class BuildCache {
+  private manifest: CacheManifest = emptyManifest()
+  private inputsKey: string | undefined
+
+  /**
+   * @param directory - Directory holding the cache manifest
+   * @param baseDir - Directory `$ref` paths are relative to (the resolver's directory)
+   * @param fileCache - Parsed-file cache shared with the token pipeline
+   */
+  constructor(
+    private directory: string,
+    private baseDir: string,
+    private fileCache: Map<string, unknown>,
+  ) {}
+
+  /**
+   * Load the manifest from disk. A missing, unreadable or outdated manifest
+   * starts an empty cache.
+   */
+  async load(): Promise<void> {
+    this.inputsKey = undefined
+    try {
+      const content = await readFile(path.join(this.directory, MANIFEST_FILE), 'utf-8')
+      const manifest = JSON.parse(content) as CacheManifest
+      this.manifest = manifest.version === CACHE_FORMAT_VERSION ? manifest : emptyManifest()
+    } catch {
+      this.manifest = emptyManifest()
+    }
+  }
+
+  async save(): Promise<void> {
+    await writeOutputFile(path.join(this.directory, MANIFEST_FILE), JSON.stringify(this.manifest))
+  }
+
+  /**
+   * Return the cached permutations when none of their inputs changed
+   */
+  async matchInputs(
+    resolver: string | ResolverDocument,
+    config: BuildConfig,
+  ): Promise<PermutationData[] | undefined> {
+    const { inputs, sources, permutations } = this.manifest
+    if (inputs === undefined || permutations === undefined) {
+      return undefined
+    }
+
+    const currentSources: Record<string, string> = {}
+    for (const file of Object.keys(sources)) {
+      const fileHash = await hashFile(file)
+      if (fileHash === undefined) {
+        return undefined
+      }
+      currentSources[file] = fileHash
+    }
+
+    const key = await this.computeInputsKey(resolver, config, currentSources)
+    if (key !== inputs) {
+      return undefined
+    }
+
+    this.inputsKey = key
+    return permutations
+  }
+
+  /**
+   * Record freshly resolved permutations together with the files they were read from
+   */
+  async recordInputs(
+    resolver: string | ResolverDocument,
+    config: BuildConfig,
+    permutations: PermutationData[],
+  ): Promise<void> {
+    const sources: Record<string, string> = {}
+    for (const key of this.fileCache.keys()) {
+      const file = path.resolve(this.baseDir, key)
+      const fileHash = await hashFile(file)
+      if (fileHash !== undefined) {
+        sources[file] = fileHash
+      }
+    }
+
+    this.inputsKey = await this.computeInputsKey(resolver, config, sources)
+    this.manifest = {
+      version: CACHE_FORMAT_VERSION,
+      inputs: this.inputsKey,
+      sources,
+      permutations,
+      // Entries whose key no longer matches are replaced as outputs are rendered
+      outputs: this.manifest.outputs,
+    }
+  }
+
+  /**
+   * Key for one output's rendered files, or undefined before inputs are known
+   */
+  getOutputKey(output: OutputConfig, buildPath: string): string | undefined {
+    if (this.inputsKey === undefined) {
+      return undefined
+    }
+    return hash(serializeConfig({ inputs: this.inputsKey, output, buildPath }))
+  }
+
+  /**
+   * Restore an output's files from the cache, rewriting files that are missing
+   * or were modified on disk
+   */
+  async restoreOutput(name: string, key: string): Promise<BuildOutput[] | undefined> {
+    const entry = this.manifest.outputs[name]
+    if (!entry || entry.key !== key) {
+      return undefined
+    }
+
+    await Promise.all(
+      entry.outputs.map(async (output) => {
+        if (output.path === undefined || !path.isAbsolute(output.path)) {
+          return
+        }
+        const current = await readFile(output.path, 'utf-8').catch(() => undefined)
+        if (current !== output.content) {
+          await writeOutputFile(output.path, output.content)
+        }
+      }),
+    )
+
+    return entry.outputs
+  }
+
+  storeOutput(name: string, key: string, outputs: BuildOutput[]): void {
+    this.manifest.outputs[name] = { key, outputs }
+  }
+
+  private async computeInputsKey(
+    resolver: string | ResolverDocument,
+    config: BuildConfig,
+    sources: Record<string, string>,
+  ): Promise<string> {
+    const resolverSource =
+      typeof resolver === 'string'
+        ? ((await hashFile(path.resolve(resolver))) ?? resolver)
+        : serializeConfig(resolver)
+
+    return hash(
+      serializeConfig({
+        dispersa: DISPERSA_VERSION,
+        resolver: resolverSource,
+        sources: Object.entries(sources).sort(([a], [b]) => a.localeCompare(b)),
+        transforms: config.transforms,
+        filters: config.filters,
+        preprocessors: config.preprocessors,
+        permutations: config.permutations,
+        validation: config.validation,
+      }),
+    )
+  }
+}
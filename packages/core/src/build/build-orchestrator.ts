@@ -3,15 +3,45 @@
  * Handles build execution and error collection
  */
 
+import { createHash } from 'node:crypto'
+
 import type { OutputProcessor } from '@build/output-processor'
 import type { BuildConfig } from '@config/index'
 import { buildMetadata, resolveResolverDocument } from '@renderers/bundlers/utils'
-import type { BuildResult, PermutationData, RenderContext } from '@renderers/types'
+import type { BuildOutput, BuildResult, PermutationData, RenderContext } from '@renderers/types'
 import type { ResolverDocument } from '@resolution/types'
 import { ConfigurationError } from '@shared/errors/index'
 import { toBuildError } from '@shared/utils/error-utils'
+import type { BuildCache } from './build-cache'
 import type { TokenPipeline } from './pipeline/token-pipeline'
 
+/**
+ * Last rendered result of an output, keyed by a fingerprint of its inputs
+ */
+export type CachedOutput = {
+  fingerprint: string
+  outputs: BuildOutput[]
+}
+
+export type BuildOrchestratorOptions = {
+  /**
+   * Render cache shared across builds, keyed by output name.
+   *
+   * When an output's processed permutations, resolver document and build path
+   * produce the same fingerprint as the cached entry, rendering and writing are
+   * skipped and the cached results are returned instead.
+   */
+  outputCache?: Map<string, CachedOutput>
+  /**
+   * Persistent on-disk cache (see `BuildConfig.cache`).
+   *
+   * Restores resolved permutations when the resolver, its `$ref`'d files and the
+   * global config are unchanged, and restores rendered outputs whose config is
+   * unchanged as well.
+   */
+  buildCache?: BuildCache
+}
+
 /**
  * Orchestrates the build process for design tokens
  *
@@ -29,6 +59,7 @@ export class BuildOrchestrator {
   constructor(
     private pipeline: TokenPipeline,
     private outputProcessor: OutputProcessor,
+    private options: BuildOrchestratorOptions = {},
   ) {}
 
   /**
@@ -41,6 +72,9 @@ export class BuildOrchestrator {
    *
    * This consolidates the previous `build()` and `build()` methods into one unified API.
    *
+   * With a persistent `buildCache`, resolution is skipped when no source file or
+   * global config changed, and unchanged outputs are restored instead of rendered.
+   *
    * @param resolver - Resolver configuration (file path or inline object)
    * @param buildPath - Output directory for generated files
    * @param config - Build configuration with outputs and transforms
@@ -83,25 +117,49 @@ export class BuildOrchestrator {
       await config.hooks.onBuildStart({ config, resolver })
     }
 
+    const buildCache = this.options.buildCache
+    if (buildCache) {
+      await buildCache.load()
+    }
+
+    let permutations = await buildCache?.matchInputs(resolver, config)
+    if (!permutations) {
+      permutations = await this.resolvePermutations(resolver, config)
+      await buildCache?.recordInputs(resolver, config, permutations)
+    }
+
+    // Lint restored permutations too, so warm builds report the same issues
+    if (config.lint?.enabled) {
+      await this.pipeline.runLintOnPermutations(
+        permutations.map((p) => p.tokens),
+        config.lint,
+        permutations.map((p) => p.modifierInputs),
+      )
+    }
+
+    const result = await this.executeBuild(buildPath, config, permutations, resolver)
+    await buildCache?.save()
+    return result
+  }
+
+  /**
+   * Resolve explicit or auto-discovered permutations
+   */
+  private async resolvePermutations(
+    resolver: string | ResolverDocument,
+    config: BuildConfig,
+  ): Promise<PermutationData[]> {
     if (!config.permutations || config.permutations.length === 0) {
       // Resolve all permutations without lint
-      const permutations = await this.pipeline.resolveAllPermutations(
+      return await this.pipeline.resolveAllPermutations(
         resolver,
         config.transforms,
         config.preprocessors,
         config.filters,
       )
-
-      // Run lint on all permutations with deduplication
-      if (config.lint?.enabled) {
-        const tokenSets = permutations.map((p) => p.tokens)
-        await this.pipeline.runLintOnPermutations(tokenSets, config.lint)
-      }
-
-      return this.executeBuild(buildPath, config, permutations, resolver)
     }
 
-    const permutations = await Promise.all(
+    return await Promise.all(
       config.permutations.map(async (modifierInputs) => {
         const { tokens, modifierInputs: resolvedInputs } = await this.pipeline.resolve(
           resolver,
@@ -113,13 +171,6 @@ export class BuildOrchestrator {
         return { tokens, modifierInputs: resolvedInputs }
       }),
     )
-
-    if (config.lint?.enabled) {
-      const tokenSets = permutations.map((p) => p.tokens)
-      await this.pipeline.runLintOnPermutations(tokenSets, config.lint)
-    }
-
-    return this.executeBuild(buildPath, config, permutations, resolver)
   }
 
   /**
@@ -243,8 +294,25 @@ export class BuildOrchestrator {
       throw new ConfigurationError('Renderer does not implement format()')
     }
 
+    const buildCache = this.options.buildCache
+    const cacheKey = buildCache?.getOutputKey(output, buildPath)
+    if (buildCache && cacheKey !== undefined) {
+      const restored = await buildCache.restoreOutput(output.name, cacheKey)
+      if (restored) {
+        return restored
+      }
+    }
+
     const processedPermutations = this.outputProcessor.processPermutations(permutations, output)
 
+    const fingerprint = this.options.outputCache
+      ? this.fingerprintOutput(processedPermutations, resolverDoc, buildPath)
+      : undefined
+    const cached = this.options.outputCache?.get(output.name)
+    if (cached && cached.fingerprint === fingerprint) {
+      return cached.outputs
+    }
+
     const context: RenderContext = {
       permutations: processedPermutations,
       output,
@@ -254,7 +322,30 @@ export class BuildOrchestrator {
     }
 
     const renderOutput = await output.renderer.format(context, output.options)
-    return this.outputProcessor.writeRenderOutput(renderOutput, context)
+    const results = await this.outputProcessor.writeRenderOutput(renderOutput, context)
+
+    if (fingerprint !== undefined) {
+      this.options.outputCache?.set(output.name, { fingerprint, outputs: results })
+    }
+    if (buildCache && cacheKey !== undefined) {
+      buildCache.storeOutput(output.name, cacheKey, results)
+    }
+
+    return results
+  }
+
+  /**
+   * Hash everything a renderer sees for one output. Renderer options and file
+   * patterns are part of the config, which is constant for a cache's lifetime.
+   */
+  private fingerprintOutput(
+    permutations: PermutationData[],
+    resolverDoc: ResolverDocument,
+    buildPath: string,
+  ): string {
+    return createHash('sha256')
+      .update(JSON.stringify({ permutations, resolverDoc, buildPath }))
+      .digest('hex')
   }
 
   /**
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Incremental build session
+ * Keeps parsed source files and rendered outputs between builds so that
+ * repeated builds (e.g. `dispersa build --watch`) only redo affected work
+ */
+
+import * as path from 'node:path'
+
+import type { BuildConfig } from '@config/index'
+import type { BuildResult } from '@renderers/types'
+import type { ResolverDocument } from '@resolution/types'
+import { toBuildError } from '@shared/utils/error-utils'
+
+import { BuildOrchestrator, type CachedOutput } from './build-orchestrator'
+import { OutputProcessor } from './output-processor'
+import { TokenPipeline } from './pipeline/token-pipeline'
+
+/**
+ * Long-lived build that can be re-run after source files change
+ *
+ * The session owns two caches:
+ * - the `$ref` file cache shared by every ReferenceResolver, so unchanged token
+ *   files are parsed once for the lifetime of the session
+ * - a per-output render cache, so outputs whose processed tokens are identical
+ *   to the previous build are not rendered or written again
+ *
+ * Call {@link invalidate} with the files that changed, then {@link build}.
+ *
+ * @example
+ * ```typescript
+ * const session = new BuildSession(resolver, buildPath, config)
+ * await session.build()
+ *
+ * session.invalidate(['/abs/path/tokens/colors.json'])
+ * await session.build() // re-reads colors.json, re-renders affected outputs only
+ * ```
+ */
+export class BuildSession {
+  private fileCache = new Map<string, unknown>()
+  private outputCache = new Map<string, CachedOutput>()
+  private orchestrator: BuildOrchestrator
+  private baseDir: string
+
+  constructor(
+    private resolver: string | ResolverDocument,
+    private buildPath: string,
+    private config: BuildConfig,
+  ) {
+    const pipeline = new TokenPipeline({ validation: config.validation, cache: this.fileCache })
+    this.orchestrator = new BuildOrchestrator(pipeline, new OutputProcessor(), {
+      outputCache: this.outputCache,
+    })
+    this.baseDir =
+      typeof resolver === 'string' ? path.dirname(path.resolve(resolver)) : process.cwd()
+  }
+
+  /**
+   * Run a build, reusing everything that has not been invalidated
+   *
+   * Errors are reported in the result instead of thrown, like `build()`.
+   */
+  async build(): Promise<BuildResult> {
+    try {
+      return await this.orchestrator.build(this.resolver, this.buildPath, this.config)
+    } catch (error) {
+      return {
+        success: false,
+        outputs: [],
+        errors: [toBuildError(error)],
+      }
+    }
+  }
+
+  /**
+   * Evict changed files from the file cache
+   *
+   * A change to the resolver document itself clears the whole file cache, since
+   * the set of referenced files may have changed with it.
+   *
+   * @param changedFiles - Absolute or cwd-relative paths of changed files
+   * @returns True when at least one of the files is a source of this build
+   */
+  invalidate(changedFiles: string[]): boolean {
+    const changed = new Set(changedFiles.map((file) => path.resolve(file)))
+    const resolverPath = this.getResolverPath()
+
+    if (resolverPath !== undefined && changed.has(resolverPath)) {
+      this.fileCache.clear()
+      return true
+    }
+
+    let affected = false
+    for (const key of [...this.fileCache.keys()]) {
+      if (changed.has(path.resolve(this.baseDir, key))) {
+        this.fileCache.delete(key)
+        affected = true
+      }
+    }
+    return affected
+  }
+
+  /**
+   * Absolute paths of every file the last build read: the resolver document
+   * (when loaded from disk) and all `$ref`'d token files
+   */
+  getSourceFiles(): string[] {
+    const files = new Set<string>()
+    const resolverPath = this.getResolverPath()
+    if (resolverPath !== undefined) {
+      files.add(resolverPath)
+    }
+    for (const key of this.fileCache.keys()) {
+      files.add(path.resolve(this.baseDir, key))
+    }
+    return [...files]
+  }
+
+  private getResolverPath(): string | undefined {
+    return typeof this.resolver === 'string' ? path.resolve(this.resolver) : undefined
+  }
+}
@@ -6,7 +6,10 @@
  * operations happen in the correct order.
  */
 
+import * as path from 'node:path'
+
 import { ResolverLoader } from '@adapters/filesystem/resolver-loader'
+import { applyLintBaseline, readLintBaseline } from '@lint/lint-baseline'
 import { LintRunner } from '@lint/lint-runner'
 import type { LintBuildConfig, LintResult } from '@lint/types'
 import { applyFilters, applyTransforms } from '@processing/apply'
@@ -36,6 +39,15 @@ import type {
 
 export type TokenPipelineOptions = {
   validation?: ValidationOptions
+  /**
+   * Parsed-file cache that outlives a single pipeline run.
+   *
+   * Keys are `$ref` file paths relative to the resolver's directory. When
+   * provided, every resolution engine created by this pipeline reads from
+   * (and populates) this cache, so repeated builds only re-read files that
+   * were explicitly evicted (see watch mode).
+   */
+  cache?: Map<string, unknown>
 }
 
 export type TokenPipelineResult = {
@@ -156,7 +168,7 @@ export class TokenPipeline {
   ): EngineReadyStage {
     const refResolver = new ReferenceResolver(stage.baseDir, {
       validation: this.options.validation,
-      cache: sharedCache,
+      cache: sharedCache ?? this.options.cache,
     })
     const resolutionEngine = new ResolutionEngine(stage.resolverDoc, refResolver, {
       validation: this.options.validation,
@@ -353,7 +365,7 @@ export class TokenPipeline {
 
     // Shared file cache: all per-permutation engines read/cache the same
     // parsed files, avoiding redundant I/O without sharing mutable `visited` state.
-    const sharedCache: Map<string, unknown> = new Map()
+    const sharedCache: Map<string, unknown> = this.options.cache ?? new Map()
 
     // Resolve every permutation in parallel, each with its own engine
     return await Promise.all(
@@ -384,6 +396,7 @@ export class TokenPipeline {
   async runLintOnPermutations(
     permutationTokens: InternalResolvedTokens[],
     lintConfig: LintBuildConfig,
+    permutationInputs?: ModifierInputs[],
   ): Promise<LintResult> {
     if (!lintConfig.enabled) {
       return { issues: [], errorCount: 0, warningCount: 0 }
@@ -395,7 +408,16 @@ export class TokenPipeline {
       onWarn: (msg) => this.validationHandler.warn(msg),
     })
 
-    const result = await runner.runMultiple(permutationTokens)
+    let result = await runner.runMultiple(permutationTokens, permutationInputs)
+
+    // Only report issues missing from the baseline
+    if (lintConfig.baseline !== undefined) {
+      const baselineFile = path.resolve(lintConfig.baseline)
+      const baseline = await readLintBaseline(baselineFile)
+      if (baseline) {
+        result = applyLintBaseline(result, baseline, baselineFile)
+      }
+    }
 
     // Log warnings
     for (const issue of result.issues.filter((i) => i.severity === 'warn')) {
@@ -13,20 +13,26 @@
 
 import type { FileFunction, LifecycleHooks, OutputConfig } from '@config/index'
 import type { Filter } from '@processing/filters/types'
-import { nameKebabCase } from '@processing/transforms/built-in/name-transforms'
+import { nameKebabCase, nameSnakeCase } from '@processing/transforms/built-in/name-transforms'
 import type { Transform } from '@processing/transforms/types'
 import { androidRenderer } from '@renderers/android'
+import { androidXmlRenderer } from '@renderers/android-xml'
 import { cssRenderer } from '@renderers/css'
+import { dtcgRenderer } from '@renderers/dtcg'
 import { iosRenderer } from '@renderers/ios'
 import { jsRenderer } from '@renderers/js-module'
 import { jsonRenderer } from '@renderers/json'
+import { scssRenderer } from '@renderers/scss'
 import { tailwindRenderer } from '@renderers/tailwind'
 import type {
   AndroidRendererOptions,
+  AndroidXmlRendererOptions,
   CssRendererOptions,
+  DtcgRendererOptions,
   IosRendererOptions,
   JsModuleRendererOptions,
   JsonRendererOptions,
+  ScssRendererOptions,
   TailwindRendererOptions,
 } from '@renderers/types'
 
@@ -146,6 +152,70 @@ export function css(config: CssBuilderConfig): OutputConfig<CssRendererOptions>
   }
 }
 
+// ============================================================================
+// SCSS BUILDER
+// ============================================================================
+
+/**
+ * SCSS builder configuration with flattened options
+ */
+export type ScssBuilderConfig = BuilderConfigBase & ScssRendererOptions
+
+/**
+ * Create SCSS output configuration with flattened options
+ *
+ * Creates an OutputConfig for Sass output: one `$variable` per token, a nested
+ * map following the token path, and a mixin per typography token. All
+ * SCSS-specific options (mapName, variables, maps, etc.) are provided at the top level.
+ *
+ * @param config - SCSS builder configuration with flattened options
+ * @returns Complete OutputConfig ready for use in build()
+ *
+ * @remarks
+ * The preset defaults to 'bundle' for SCSS: the base permutation provides the
+ * variables, root map and mixins, and every modifier context gets its own map
+ * (e.g. `$tokens-theme-dark`) plus an index map per modifier (`$tokens-theme`).
+ * Use preset: 'standalone' for separate files per permutation.
+ *
+ * @example Bundle with per-modifier maps
+ * ```typescript
+ * import { scss } from 'dispersa'
+ *
+ * // nameKebabCase() is applied automatically before your transforms
+ * const config = scss({
+ *   name: 'scss',
+ *   file: '_tokens.scss',
+ *   preset: 'bundle',
+ *   mapName: 'tokens',
+ * })
+ * ```
+ *
+ * @example Standalone partials per theme, overridable with !default
+ * ```typescript
+ * import { scss } from 'dispersa'
+ *
+ * const config = scss({
+ *   name: 'scss',
+ *   file: '_tokens-{theme}.scss',
+ *   preset: 'standalone',
+ *   defaultFlag: true,
+ * })
+ * ```
+ */
+export function scss(config: ScssBuilderConfig): OutputConfig<ScssRendererOptions> {
+  const { name, file, transforms, filters, hooks, preset = 'bundle', ...rendererOptions } = config
+
+  return {
+    name,
+    file,
+    renderer: scssRenderer(),
+    options: { preset, ...rendererOptions },
+    transforms: [nameKebabCase(), ...(transforms ?? [])],
+    filters,
+    hooks,
+  }
+}
+
 // ============================================================================
 // JSON BUILDER
 // ============================================================================
@@ -256,7 +326,8 @@ export type JsBuilderConfig = BuilderConfigBase & JsModuleRendererOptions
  * @remarks
  * The preset defaults to 'standalone' for JS, meaning separate files per theme.
  * Use preset: 'bundle' with generateHelper: true to create a single file with
- * a helper function for dynamic theme switching.
+ * a helper function for dynamic theme switching, or with runtime: true for a typed
+ * getTokens()/applyTheme() API and a `.d.ts` declaration file.
  *
  * The `file` property is optional. When omitted, content is returned in-memory instead
  * of being written to disk. The `file` property is required when `buildPath` is provided
@@ -346,7 +417,9 @@ export type TailwindBuilderConfig = BuilderConfigBase & TailwindRendererOptions
  *
  * @remarks
  * The preset defaults to 'bundle' for Tailwind, meaning the base permutation tokens
- * are used to define the @theme vocabulary. Use preset: 'standalone' for separate files.
+ * are used to define the @theme vocabulary. Use preset: 'standalone' for separate files,
+ * or preset: 'config' for a Tailwind v3 preset module referencing the CSS variables of
+ * a `css()` output.
  *
  * @example Bundle Tailwind theme with transforms
  * ```typescript
@@ -373,6 +446,17 @@ export type TailwindBuilderConfig = BuilderConfigBase & TailwindRendererOptions
  *   includeImport: false,
  * })
  * ```
+ *
+ * @example Tailwind v3 preset
+ * ```typescript
+ * import { tailwind } from 'dispersa'
+ *
+ * const config = tailwind({
+ *   name: 'tailwind-preset',
+ *   file: 'tailwind.preset.js',
+ *   preset: 'config',
+ * })
+ * ```
  */
 export function tailwind(config: TailwindBuilderConfig): OutputConfig<TailwindRendererOptions> {
   const { name, file, transforms, filters, hooks, preset = 'bundle', ...rendererOptions } = config
@@ -407,7 +491,9 @@ export type IosBuilderConfig = BuilderConfigBase & IosRendererOptions
  * @returns Complete OutputConfig ready for use in build()
  *
  * @remarks
- * Only standalone preset is supported. Each permutation generates a separate Swift file.
+ * The standalone preset generates a separate Swift file per permutation. The
+ * `'assetCatalog'` preset writes an `.xcassets` catalog instead: one colorset per
+ * color token, with a dark appearance taken from the dark modifier context.
  *
  * @example Enum-based SwiftUI tokens
  * ```typescript
@@ -434,6 +520,18 @@ export type IosBuilderConfig = BuilderConfigBase & IosRendererOptions
  *   colorSpace: 'displayP3',
  * })
  * ```
+ *
+ * @example Asset catalog colorsets for UIColor(named:)
+ * ```typescript
+ * import { ios } from 'dispersa'
+ *
+ * const config = ios({
+ *   name: 'ios-assets',
+ *   file: 'Assets.xcassets',
+ *   preset: 'assetCatalog',
+ *   colorSpace: 'displayP3',
+ * })
+ * ```
  */
 export function ios(config: IosBuilderConfig): OutputConfig<IosRendererOptions> {
   const {
@@ -543,3 +641,128 @@ export function android(config: AndroidBuilderConfig): OutputConfig<AndroidRende
     hooks,
   }
 }
+
+// ============================================================================
+// ANDROID XML RESOURCES BUILDER
+// ============================================================================
+
+/**
+ * Android XML resources builder configuration with flattened options
+ */
+export type AndroidXmlBuilderConfig = BuilderConfigBase & AndroidXmlRendererOptions
+
+/**
+ * Create Android XML resources output configuration with flattened options
+ *
+ * Creates an OutputConfig for View-based Android apps: `colors.xml`, `dimens.xml`,
+ * `integers.xml` and `styles.xml` (TextAppearance per typography token) inside
+ * a resource directory. The `file` option is that directory, e.g. `'app/src/main/res'`.
+ *
+ * @experimental This builder is experimental. Options and generated output may change.
+ * @param config - Android XML builder configuration with flattened options
+ * @returns Complete OutputConfig ready for use in build()
+ *
+ * @remarks
+ * The base permutation is written to `values/`. A permutation that switches a
+ * single modifier to a night context (`dark` or `night` by default, see
+ * `nightContexts`) is written to `values-night/` with only the resources that
+ * differ. Other permutations have no Android resource qualifier and are skipped.
+ *
+ * @example Resources with dark mode overrides
+ * ```typescript
+ * import { androidXml } from 'dispersa'
+ *
+ * // nameSnakeCase() is applied automatically before your transforms
+ * const config = androidXml({
+ *   name: 'android-resources',
+ *   file: 'app/src/main/res',
+ * })
+ * ```
+ *
+ * @example Custom night context and style names
+ * ```typescript
+ * import { androidXml } from 'dispersa'
+ *
+ * const config = androidXml({
+ *   name: 'android-resources',
+ *   file: 'res',
+ *   nightContexts: ['midnight'],
+ *   stylePrefix: 'TextAppearance.Acme',
+ * })
+ * ```
+ */
+export function androidXml(
+  config: AndroidXmlBuilderConfig,
+): OutputConfig<AndroidXmlRendererOptions> {
+  const { name, file, transforms, filters, hooks, ...rendererOptions } = config
+
+  return {
+    name,
+    file,
+    renderer: androidXmlRenderer(),
+    options: rendererOptions,
+    transforms: [nameSnakeCase(), ...(transforms ?? [])],
+    filters,
+    hooks,
+  }
+}
+
+// ============================================================================
+// DTCG BUILDER
+// ============================================================================
+
+/**
+ * DTCG builder configuration with flattened options
+ */
+export type DtcgBuilderConfig = BuilderConfigBase & DtcgRendererOptions
+
+/**
+ * Create DTCG output configuration with flattened options
+ *
+ * Creates an OutputConfig that writes plain DTCG token files, one per
+ * permutation, nested by token path. Use it to hand fully resolved tokens to
+ * tools that read DTCG token files but not resolver documents (e.g. Figma
+ * plugins, Penpot).
+ *
+ * @param config - DTCG builder configuration with flattened options
+ * @returns Complete OutputConfig ready for use in build()
+ *
+ * @remarks
+ * `$type`, `$description`, `$deprecated` and `$extensions` are kept. With
+ * `preserveReferences: true`, alias tokens keep their `{reference}` as long as
+ * the referenced tokens are part of the same output.
+ *
+ * @example One resolved file per theme
+ * ```typescript
+ * import { dtcg } from 'dispersa'
+ *
+ * const config = dtcg({
+ *   name: 'dtcg',
+ *   file: 'tokens-{theme}.tokens.json',
+ * })
+ * ```
+ *
+ * @example Keep alias references
+ * ```typescript
+ * import { dtcg } from 'dispersa'
+ *
+ * const config = dtcg({
+ *   name: 'dtcg',
+ *   file: 'tokens-{theme}.tokens.json',
+ *   preserveReferences: true,
+ * })
+ * ```
+ */
+export function dtcg(config: DtcgBuilderConfig): OutputConfig<DtcgRendererOptions> {
+  const { name, file, transforms, filters, hooks, ...rendererOptions } = config
+
+  return {
+    name,
+    file,
+    renderer: dtcgRenderer(),
+    options: rendererOptions,
+    transforms,
+    filters,
+    hooks,
+  }
+}
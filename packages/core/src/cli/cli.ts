@@ -1,14 +1,43 @@
-import { access } from 'node:fs/promises'
+import { watch, type FSWatcher } from 'node:fs'
+import { access, mkdir, readFile, stat, writeFile } from 'node:fs/promises'
 import { createRequire } from 'node:module'
-import { dirname, isAbsolute, resolve } from 'node:path'
+import { dirname, isAbsolute, join, relative, resolve } from 'node:path'
 import process from 'node:process'
 
-import type { LintOutputFormat } from '@lint/types'
-import { build, lint, type BuildConfig } from 'dispersa'
+import { isReleaseType } from '@diff/semver'
+import type { DiffOutputFormat } from '@diff/types'
+import type { LintFixChange, LintFormatter, LintOutputFormat } from '@lint/types'
+import { formatSourceLocation } from '@shared/utils/path-utils'
+import {
+  build,
+  checkSemver,
+  createBuildSession,
+  diffTokens,
+  lint,
+  type BuildConfig,
+  type DiffOptions,
+} from 'dispersa'
+import { migrateTokensStudio, type TokensStudioProject } from 'dispersa/preprocessors'
+import fg from 'fast-glob'
 import { createJiti } from 'jiti'
 
 import type { CliConfig } from './config'
-import { formatLintCompact, formatLintJson, formatLintStylish } from './formatters/lint-formatter'
+import {
+  formatDiffJson,
+  formatDiffMarkdown,
+  formatDiffStylish,
+  formatSemverJson,
+  formatSemverMarkdown,
+  formatSemverStylish,
+} from './formatters/diff-formatter'
+import {
+  formatLintCompact,
+  formatLintJson,
+  formatLintJunit,
+  formatLintSarif,
+  formatLintStylish,
+} from './formatters/lint-formatter'
+import { withFileAtRevision } from './git'
 
 type CliIO = {
   stdout: (message: string) => void
@@ -18,6 +47,10 @@ type CliIO = {
 type RunOptions = {
   cwd?: string
   io?: CliIO
+  /**
+   * Stops `build --watch`. Without a signal, watch mode runs until the process exits.
+   */
+  signal?: AbortSignal
 }
 
 const defaultConfigNames = [
@@ -29,6 +62,24 @@ const defaultConfigNames = [
   'dispersa.config.cjs',
 ]
 
+/**
+ * Quiet period after the last file event before rebuilding. Editors often emit
+ * several events per save (truncate + write, or write to temp + rename).
+ */
+const WATCH_DEBOUNCE_MS = 100
+
+const MIGRATE_RESOLVER_FILE = 'tokens.resolver.json'
+const TOKENS_STUDIO_THEMES_FILE = '$themes.json'
+const TOKENS_STUDIO_METADATA_FILE = '$metadata.json'
+
+const LINT_FORMATTERS: Record<LintOutputFormat, LintFormatter> = {
+  stylish: formatLintStylish,
+  json: formatLintJson,
+  compact: formatLintCompact,
+  sarif: formatLintSarif,
+  junit: formatLintJunit,
+}
+
 export async function runCli(args: string[], options: RunOptions = {}): Promise<number> {
   const cwd = options.cwd ?? process.cwd()
   const io: CliIO = options.io ?? {
@@ -46,6 +97,18 @@ export async function runCli(args: string[], options: RunOptions = {}): Promise<
     return runLintCommand(args.slice(1), cwd, io)
   }
 
+  if (command === 'diff') {
+    return runDiffCommand(args.slice(1), cwd, io)
+  }
+
+  if (command === 'semver') {
+    return runSemverCommand(args.slice(1), cwd, io)
+  }
+
+  if (command === 'migrate') {
+    return runMigrateCommand(args.slice(1), cwd, io)
+  }
+
   if (command !== 'build') {
     io.stderr(`Unknown command: ${command}`)
     printHelp(io)
@@ -69,11 +132,135 @@ export async function runCli(args: string[], options: RunOptions = {}): Promise<
     }
   }
 
+  const config = { resolver, buildPath, validation, ...buildConfig } as BuildConfig
+  if (hasFlag(args, '--no-cache')) {
+    config.cache = false
+  }
+
+  if (hasFlag(args, '--watch') || hasFlag(args, '-w')) {
+    return runWatchBuild(config, cwd, verbose, io, options.signal)
+  }
+
   const startTime = Date.now()
-  const result = await build({ resolver, buildPath, validation, ...buildConfig } as BuildConfig)
+  const result = await build(config)
   const elapsed = Date.now() - startTime
 
-  return reportBuildResult(result, verbose, elapsed, io)
+  return reportBuildResult(result, verbose, elapsed, cwd, io)
+}
+
+/**
+ * Build once, then rebuild whenever the resolver or one of its `$ref`'d files
+ * changes. Parsed files and rendered outputs are kept between builds, so a
+ * change only re-reads the touched files and re-renders outputs whose tokens
+ * actually changed. The config file itself is not watched.
+ */
+async function runWatchBuild(
+  config: BuildConfig,
+  cwd: string,
+  verbose: boolean,
+  io: CliIO,
+  signal?: AbortSignal,
+): Promise<number> {
+  let session: ReturnType<typeof createBuildSession>
+  try {
+    session = createBuildSession(config)
+  } catch (error) {
+    io.stderr('Build failed.')
+    io.stderr(`- ${error instanceof Error ? error.message : String(error)}`)
+    return 1
+  }
+
+  const runBuild = async (): Promise<boolean> => {
+    const startTime = Date.now()
+    const result = await session.build()
+    return reportBuildResult(result, verbose, Date.now() - startTime, cwd, io) === 0
+  }
+
+  let lastBuildSucceeded = await runBuild()
+
+  return new Promise<number>((resolvePromise) => {
+    // Files are only ever added: after a failed build (e.g. invalid JSON) the
+    // broken file is not in the session cache, but it must stay watched so the
+    // fix triggers a rebuild.
+    const watchedFiles = new Set<string>()
+    const watchers = new Map<string, FSWatcher>()
+    const pendingFiles = new Set<string>()
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let building = false
+    let stopped = false
+
+    const syncWatchers = () => {
+      for (const file of session.getSourceFiles()) {
+        watchedFiles.add(file)
+      }
+      // Re-create watchers after every build: editors that save via rename
+      // replace the inode, which silently ends the previous watcher.
+      for (const watcher of watchers.values()) {
+        watcher.close()
+      }
+      watchers.clear()
+      for (const file of watchedFiles) {
+        try {
+          const watcher = watch(file, () => scheduleRebuild(file))
+          watcher.on('error', () => watcher.close())
+          watchers.set(file, watcher)
+        } catch {
+          // File is missing right now; it stays in watchedFiles for the next sync
+        }
+      }
+      io.stdout(`Watching ${watchers.size} file(s) for changes...`)
+    }
+
+    const scheduleRebuild = (file: string) => {
+      pendingFiles.add(file)
+      clearTimeout(timer)
+      timer = setTimeout(() => void flush(), WATCH_DEBOUNCE_MS)
+    }
+
+    const flush = async () => {
+      if (stopped || pendingFiles.size === 0) {
+        return
+      }
+      if (building) {
+        timer = setTimeout(() => void flush(), WATCH_DEBOUNCE_MS)
+        return
+      }
+
+      const changedFiles = [...pendingFiles]
+      pendingFiles.clear()
+      const affected = session.invalidate(changedFiles)
+      if (!affected && lastBuildSucceeded) {
+        return
+      }
+
+      building = true
+      io.stdout('')
+      io.stdout(`Change detected: ${changedFiles.map((file) => relative(cwd, file)).join(', ')}`)
+      lastBuildSucceeded = await runBuild()
+      building = false
+
+      if (!stopped) {
+        syncWatchers()
+      }
+    }
+
+    const stop = () => {
+      stopped = true
+      clearTimeout(timer)
+      for (const watcher of watchers.values()) {
+        watcher.close()
+      }
+      watchers.clear()
+      resolvePromise(lastBuildSucceeded ? 0 : 1)
+    }
+
+    if (signal?.aborted) {
+      stop()
+      return
+    }
+    signal?.addEventListener('abort', stop, { once: true })
+    syncWatchers()
+  })
 }
 
 async function resolveAndLoadConfig(
@@ -110,12 +297,16 @@ function reportBuildResult(
   result: Awaited<ReturnType<typeof build>>,
   verbose: boolean,
   elapsed: number,
+  cwd: string,
   io: CliIO,
 ): number {
   if (!result.success) {
     io.stderr('Build failed.')
     for (const error of result.errors ?? []) {
       io.stderr(`- [${error.code}] ${error.message}`)
+      if (error.location) {
+        io.stderr(`  at ${formatSourceLocation(error.location, cwd)}`)
+      }
       if (verbose && error.tokenPath) {
         io.stderr(`  Token: ${error.tokenPath}`)
       }
@@ -147,9 +338,16 @@ function reportBuildResult(
 
 async function runLintCommand(args: string[], cwd: string, io: CliIO): Promise<number> {
   const verbose = hasFlag(args, '--verbose') || hasFlag(args, '-v')
-  const formatArg = getArgValue(args, '--format')
-  const format: LintOutputFormat =
-    formatArg === 'json' || formatArg === 'compact' ? formatArg : 'stylish'
+  const format = getLintOutputFormat(args)
+  const fix = hasFlag(args, '--fix-dry-run') ? 'dry-run' : hasFlag(args, '--fix')
+
+  const baselineArg = getArgValue(args, '--baseline')
+  const baselineMode =
+    baselineArg === 'create' || baselineArg === 'update' ? baselineArg : undefined
+  if (hasFlag(args, '--baseline') && !baselineMode) {
+    io.stderr('Invalid --baseline mode. Use "create" or "update".')
+    return 1
+  }
 
   const loaded = await resolveAndLoadConfig(args, cwd, io, verbose)
   if (!loaded) {
@@ -179,19 +377,30 @@ async function runLintCommand(args: string[], cwd: string, io: CliIO): Promise<n
   const startTime = Date.now()
 
   try {
-    const result = await lint({ resolver, ...lintConfig, validation })
+    const result = await lint({
+      resolver,
+      ...lintConfig,
+      validation,
+      fix,
+      writeBaseline: baselineMode,
+    })
     const elapsed = Date.now() - startTime
 
-    const formatter =
-      format === 'json'
-        ? formatLintJson
-        : format === 'compact'
-          ? formatLintCompact
-          : formatLintStylish
-
-    const output = formatter(result)
+    const output = LINT_FORMATTERS[format](result, {
+      resolver: typeof resolver === 'string' ? resolver : undefined,
+    })
     io.stdout(output)
 
+    // Keep machine-readable output parseable
+    if (result.fixes && (format === 'stylish' || format === 'compact')) {
+      reportLintFixes(result.fixes, fix === 'dry-run', cwd, io)
+    }
+    if (result.baseline && baselineMode && (format === 'stylish' || format === 'compact')) {
+      io.stdout(
+        `${baselineMode === 'create' ? 'Created' : 'Updated'} lint baseline ${relative(cwd, result.baseline.file)}`,
+      )
+    }
+
     if (verbose) {
       io.stdout(`Duration: ${elapsed}ms`)
     }
@@ -207,6 +416,301 @@ async function runLintCommand(args: string[], cwd: string, io: CliIO): Promise<n
   }
 }
 
+/**
+ * List the token file edits of `lint --fix` (made) or `lint --fix-dry-run` (planned)
+ */
+function reportLintFixes(fixes: LintFixChange[], dryRun: boolean, cwd: string, io: CliIO): void {
+  if (fixes.length === 0) {
+    io.stdout('No fixes to apply.')
+    return
+  }
+
+  const fileCount = new Set(fixes.map((change) => change.file)).size
+
+  io.stdout('')
+  io.stdout(
+    dryRun
+      ? `Would apply ${fixes.length} fix(es) to ${fileCount} file(s):`
+      : `Applied ${fixes.length} fix(es) to ${fileCount} file(s):`,
+  )
+  for (const change of fixes) {
+    io.stdout(
+      `- ${relative(cwd, change.file)}#${change.pointer}: ${change.description} [${change.ruleId}]`,
+    )
+  }
+}
+
+/**
+ * Compare resolved tokens either of two resolver files
+ * (`dispersa diff <before> <after>`) or of one resolver at two git revisions
+ * (`dispersa diff --base <rev> [--head <rev>]`, working tree when `--head` is omitted).
+ */
+async function runDiffCommand(args: string[], cwd: string, io: CliIO): Promise<number> {
+  const verbose = hasFlag(args, '--verbose') || hasFlag(args, '-v')
+  const format = getDiffOutputFormat(args)
+  const startTime = Date.now()
+
+  try {
+    const result = await compareResolvers(
+      'diff',
+      args,
+      cwd,
+      io,
+      verbose,
+      (before, after, options) => diffTokens(before, after, options),
+    )
+    if (!result) {
+      return 1
+    }
+
+    const formatter =
+      format === 'json'
+        ? formatDiffJson
+        : format === 'markdown'
+          ? formatDiffMarkdown
+          : formatDiffStylish
+
+    io.stdout(formatter(result))
+
+    if (verbose) {
+      io.stdout(`Duration: ${Date.now() - startTime}ms`)
+    }
+
+    return 0
+  } catch (error) {
+    io.stderr('Diff failed.')
+    io.stderr(`- ${error instanceof Error ? error.message : String(error)}`)
+    if (verbose) {
+      io.stderr(`Duration: ${Date.now() - startTime}ms`)
+    }
+    return 1
+  }
+}
+
+/**
+ * Classify token changes like `dispersa diff` and recommend a semver bump.
+ * Fails when `--release <type>` is lower than the bump the changes require.
+ */
+async function runSemverCommand(args: string[], cwd: string, io: CliIO): Promise<number> {
+  const verbose = hasFlag(args, '--verbose') || hasFlag(args, '-v')
+  const format = getDiffOutputFormat(args)
+  const releaseArg = getArgValue(args, '--release')
+  if (releaseArg !== undefined && !isReleaseType(releaseArg)) {
+    io.stderr(`Invalid --release "${releaseArg}". Expected major, minor or patch.`)
+    return 1
+  }
+
+  const startTime = Date.now()
+
+  try {
+    const result = await compareResolvers(
+      'semver',
+      args,
+      cwd,
+      io,
+      verbose,
+      (before, after, options) => checkSemver(before, after, { ...options, declared: releaseArg }),
+    )
+    if (!result) {
+      return 1
+    }
+
+    const formatter =
+      format === 'json'
+        ? formatSemverJson
+        : format === 'markdown'
+          ? formatSemverMarkdown
+          : formatSemverStylish
+
+    io.stdout(formatter(result))
+
+    if (verbose) {
+      io.stdout(`Duration: ${Date.now() - startTime}ms`)
+    }
+
+    return result.valid ? 0 : 1
+  } catch (error) {
+    io.stderr('Semver check failed.')
+    io.stderr(`- ${error instanceof Error ? error.message : String(error)}`)
+    if (verbose) {
+      io.stderr(`Duration: ${Date.now() - startTime}ms`)
+    }
+    return 1
+  }
+}
+
+/**
+ * Run `compare` on two resolver files (positional arguments) or on the config's
+ * resolver checked out at `--base` and `--head` (working tree when omitted).
+ * Returns undefined after reporting invalid arguments or config.
+ */
+async function compareResolvers<T>(
+  command: string,
+  args: string[],
+  cwd: string,
+  io: CliIO,
+  verbose: boolean,
+  compare: (before: string, after: string, options: DiffOptions) => Promise<T>,
+): Promise<T | undefined> {
+  const base = getArgValue(args, '--base')
+  const head = getArgValue(args, '--head')
+  const paths = getPositionalArgs(args, [
+    '--config',
+    '--format',
+    '--base',
+    '--head',
+    '--resolver',
+    '--release',
+  ])
+
+  if (paths.length === 2) {
+    const [before, after] = paths.map((path) => resolve(cwd, path)) as [string, string]
+    return compare(before, after, {})
+  }
+
+  if (!base || paths.length > 0) {
+    io.stderr(
+      `Usage: dispersa ${command} <before> <after> | dispersa ${command} --base <rev> [--head <rev>]`,
+    )
+    return undefined
+  }
+
+  const resolverArg = getArgValue(args, '--resolver')
+  const loaded = resolverArg ? undefined : await resolveAndLoadConfig(args, cwd, io, verbose)
+  const resolver = resolverArg
+    ? resolve(cwd, resolverArg)
+    : loaded && normalizeConfigPaths(loaded.config, loaded.configDir).resolver
+  if (!resolverArg && !loaded) {
+    return undefined
+  }
+  if (typeof resolver !== 'string') {
+    io.stderr(`${command} --base requires a resolver file path.`)
+    io.stderr('Set "resolver" to a file in your config or pass --resolver <path>.')
+    return undefined
+  }
+  const options: DiffOptions = { validation: loaded?.config.validation }
+
+  if (verbose) {
+    io.stdout(`Resolver: ${resolver}`)
+    io.stdout(`Comparing ${base}...${head ?? '(working tree)'}`)
+  }
+
+  return withFileAtRevision(resolver, base, (before) =>
+    head
+      ? withFileAtRevision(resolver, head, (after) => compare(before, after, options))
+      : compare(before, resolver, options),
+  )
+}
+
+/**
+ * Convert a Tokens Studio export into DTCG token files and a resolver document
+ * (`dispersa migrate <file|dir> --out <dir>`). The input is either a
+ * single-file export or a directory of token sets with `$themes.json` and
+ * `$metadata.json`.
+ */
+async function runMigrateCommand(args: string[], cwd: string, io: CliIO): Promise<number> {
+  const [input] = getPositionalArgs(args, ['--out', '--name'])
+  const out = getArgValue(args, '--out')
+  if (input === undefined || out === undefined) {
+    io.stderr('Usage: dispersa migrate <tokens-studio-file-or-dir> --out <dir>')
+    return 1
+  }
+
+  try {
+    const project = await readTokensStudioProject(resolve(cwd, input))
+    const warnings: string[] = []
+    const { files, resolver } = migrateTokensStudio(project, {
+      name: getArgValue(args, '--name'),
+      onWarn: (message) => warnings.push(message),
+    })
+
+    const outDir = resolve(cwd, out)
+    for (const [file, tokens] of Object.entries(files)) {
+      await writeJsonFile(join(outDir, file), tokens)
+    }
+    const resolverPath = join(outDir, MIGRATE_RESOLVER_FILE)
+    await writeJsonFile(resolverPath, resolver)
+
+    for (const warning of warnings) {
+      io.stderr(`- ${warning}`)
+    }
+    const setCount = Object.keys(project.sets).length
+    const themeCount = project.themes?.length ?? 0
+    io.stdout(`Migrated ${setCount} token set(s) and ${themeCount} theme(s).`)
+    io.stdout(`- Resolver: ${relative(cwd, resolverPath)}`)
+    return 0
+  } catch (error) {
+    io.stderr('Migration failed.')
+    io.stderr(`- ${error instanceof Error ? error.message : String(error)}`)
+    return 1
+  }
+}
+
+async function readTokensStudioProject(inputPath: string): Promise<TokensStudioProject> {
+  if (!(await stat(inputPath)).isDirectory()) {
+    const {
+      $themes: themes,
+      $metadata: metadata,
+      ...sets
+    } = (await readJsonFile(inputPath)) as Record<string, unknown>
+    return {
+      sets: sets as TokensStudioProject['sets'],
+      themes: themes as TokensStudioProject['themes'],
+      metadata: metadata as TokensStudioProject['metadata'],
+    }
+  }
+
+  const files = await fg('**/*.json', { cwd: inputPath, ignore: ['**/node_modules/**'] })
+  const project: TokensStudioProject = { sets: {} }
+  for (const file of files.sort()) {
+    const data = await readJsonFile(join(inputPath, file))
+    if (file === TOKENS_STUDIO_THEMES_FILE) {
+      project.themes = data as TokensStudioProject['themes']
+    } else if (file === TOKENS_STUDIO_METADATA_FILE) {
+      project.metadata = data as TokensStudioProject['metadata']
+    } else {
+      project.sets[file.replace(/\.json$/, '')] = data as Record<string, unknown>
+    }
+  }
+  return project
+}
+
+async function readJsonFile(path: string): Promise<unknown> {
+  return JSON.parse(await readFile(path, 'utf8'))
+}
+
+async function writeJsonFile(path: string, data: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, `${JSON.stringify(data, null, 2)}\n`, 'utf8')
+}
+
+function getLintOutputFormat(args: string[]): LintOutputFormat {
+  const formatArg = getArgValue(args, '--format')
+  return formatArg !== undefined && Object.hasOwn(LINT_FORMATTERS, formatArg)
+    ? (formatArg as LintOutputFormat)
+    : 'stylish'
+}
+
+function getDiffOutputFormat(args: string[]): DiffOutputFormat {
+  const formatArg = getArgValue(args, '--format')
+  return formatArg === 'json' || formatArg === 'markdown' ? formatArg : 'stylish'
+}
+
+function getPositionalArgs(args: string[], valueFlags: string[]): string[] {
+  const positional: string[] = []
+  let skipValue = false
+  for (const arg of args) {
+    if (skipValue) {
+      skipValue = false
+    } else if (valueFlags.includes(arg)) {
+      skipValue = true
+    } else if (!arg.startsWith('-')) {
+      positional.push(arg)
+    }
+  }
+  return positional
+}
+
 function getArgValue(args: string[], flag: string): string | undefined {
   const index = args.indexOf(flag)
   if (index === -1 || index === args.length - 1) {
@@ -268,12 +772,22 @@ function normalizeConfigPaths(config: CliConfig, configDir: string): CliConfig {
       : config.resolver
   const buildPath = resolveIfRelative(config.buildPath, configDir)
   const outputs = config.outputs ?? []
+  const cache =
+    typeof config.cache === 'object'
+      ? { ...config.cache, dir: resolveIfRelative(config.cache.dir, configDir) }
+      : config.cache
+  const lintConfig = config.lint && {
+    ...config.lint,
+    baseline: resolveIfRelative(config.lint.baseline, configDir),
+  }
 
   return {
     ...config,
     resolver,
     buildPath,
     outputs,
+    cache,
+    lint: lintConfig,
   }
 }
 
@@ -333,13 +847,44 @@ function printHelp(io: CliIO): void {
   io.stdout('Commands:')
   io.stdout('  build              Build design tokens')
   io.stdout('  lint               Lint design tokens without building')
+  io.stdout('  diff               Compare resolved tokens of two resolvers or git revisions')
+  io.stdout('  semver             Recommend a version bump for token changes (same inputs as diff)')
+  io.stdout('  migrate            Convert a Tokens Studio export to DTCG files and a resolver')
   io.stdout('')
   io.stdout('Build Options:')
   io.stdout('  --config <path>    Path to dispersa.config.(ts|js|mts|mjs|cts|cjs)')
+  io.stdout('  --watch, -w        Rebuild when the resolver or referenced token files change')
+  io.stdout('  --no-cache         Skip the persistent build cache (config `cache`)')
   io.stdout('  --verbose, -v      Show detailed build output (timing, error context)')
   io.stdout('')
   io.stdout('Lint Options:')
   io.stdout('  --config <path>    Path to dispersa.config.(ts|js|mts|mjs|cts|cjs)')
-  io.stdout('  --format <format>  Output format: stylish (default), json, compact')
+  io.stdout('  --format <format>  Output format: stylish (default), json, compact, sarif, junit')
+  io.stdout('  --fix              Apply rule fixes to the token files')
+  io.stdout('  --fix-dry-run      List the fixes --fix would apply without writing files')
+  io.stdout('  --baseline <mode>  Write the lint.baseline file: create (record all current')
+  io.stdout('                     issues) or update (remove fixed issues)')
   io.stdout('  --verbose, -v      Show detailed lint output')
+  io.stdout('')
+  io.stdout('Diff Usage:')
+  io.stdout('  dispersa diff <before> <after>          Compare two resolver files')
+  io.stdout('  dispersa diff --base <rev> [--head <rev>]')
+  io.stdout('                                          Compare the resolver at two git revisions')
+  io.stdout('                                          (working tree when --head is omitted)')
+  io.stdout('')
+  io.stdout('Diff Options:')
+  io.stdout('  --config <path>    Config providing the resolver for --base')
+  io.stdout('  --resolver <path>  Resolver file for --base (overrides the config)')
+  io.stdout('  --format <format>  Output format: stylish (default), json, markdown')
+  io.stdout('  --verbose, -v      Show detailed diff output')
+  io.stdout('')
+  io.stdout('Semver Options (plus the diff inputs and options):')
+  io.stdout('  --release <type>   Declared release: major, minor or patch. Fails when the')
+  io.stdout('                     changes require a larger bump')
+  io.stdout('')
+  io.stdout('Migrate Usage:')
+  io.stdout('  dispersa migrate <file|dir> --out <dir>')
+  io.stdout('                     Convert a Tokens Studio JSON file or token directory')
+  io.stdout('                     ($themes.json, $metadata.json) into <dir>')
+  io.stdout('  --name <name>      Resolver document name')
 }
@@ -0,0 +1,264 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * @fileoverview Diff and semver check output formatters
+ */
+
+import type {
+  DiffFormatter,
+  ReleaseType,
+  SemverCheckResult,
+  SemverFormatter,
+  TokenChange,
+  TokenDiffResult,
+  TokenValueDelta,
+} from '@diff/types'
+import { dtcgObjectToCulori, isColorObject } from '@processing/transforms/built-in/color-converter'
+import { isDimensionObject } from '@processing/transforms/built-in/dimension-converter'
+import type { ModifierInputs } from '@resolution/types'
+import { formatHex, formatHex8 } from 'culori'
+
+/**
+ * Format diff results as JSON
+ */
+export const formatDiffJson: DiffFormatter = (result: TokenDiffResult): string => {
+  return JSON.stringify(result, null, 2)
+}
+
+/**
+ * Format diff results in a human-readable stylish format
+ */
+export const formatDiffStylish: DiffFormatter = (result: TokenDiffResult): string => {
+  const changed = result.permutations.filter((permutation) => permutation.changes.length > 0)
+  if (changed.length === 0) {
+    return '✓ No token changes'
+  }
+
+  const lines: string[] = []
+  for (const permutation of changed) {
+    lines.push(``)
+    lines.push(`  ${formatModifierInputs(permutation.modifierInputs)}`)
+    for (const change of permutation.changes) {
+      lines.push(`    ${formatStylishChange(change)}`)
+    }
+  }
+
+  lines.push(``)
+  lines.push(`✖ ${formatSummary(result)}`)
+
+  return lines.join('\n')
+}
+
+/**
+ * Format diff results as a Markdown report (e.g. for pull request comments)
+ */
+export const formatDiffMarkdown: DiffFormatter = (result: TokenDiffResult): string => {
+  const changed = result.permutations.filter((permutation) => permutation.changes.length > 0)
+  if (changed.length === 0) {
+    return '## Token changes\n\nNo token changes.'
+  }
+
+  const lines: string[] = ['## Token changes', '', `**${formatSummary(result)}**`]
+  for (const permutation of changed) {
+    lines.push('')
+    lines.push(`### ${formatModifierInputs(permutation.modifierInputs)}`)
+    lines.push('')
+    lines.push('| Change | Token | Before | After | Details |')
+    lines.push('| --- | --- | --- | --- | --- |')
+    for (const change of permutation.changes) {
+      const [before, after] = getChangeValues(change)
+      const delta = formatChangeDetail(change)
+      lines.push(
+        `| ${CHANGE_LABELS[change.kind]} | ${formatMarkdownToken(change)} | ${markdownCode(before)} | ${markdownCode(after)} | ${delta} |`,
+      )
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Format semver check results as JSON
+ */
+export const formatSemverJson: SemverFormatter = (result: SemverCheckResult): string => {
+  return JSON.stringify(result, null, 2)
+}
+
+/**
+ * Format semver check results in a human-readable stylish format
+ */
+export const formatSemverStylish: SemverFormatter = (result: SemverCheckResult): string => {
+  const lines: string[] = []
+
+  if (result.changes.length === 0) {
+    lines.push('✓ No token changes, no release needed')
+  }
+
+  for (const releaseType of RELEASE_TYPES) {
+    const changes = result.changes.filter((entry) => entry.releaseType === releaseType)
+    if (changes.length === 0) {
+      continue
+    }
+    lines.push(``)
+    lines.push(`  ${releaseType}`)
+    for (const { change } of changes) {
+      lines.push(`    ${formatStylishChange(change)}`)
+    }
+  }
+
+  if (result.changes.length > 0) {
+    lines.push(``)
+    lines.push(`Recommended release: ${result.recommended}`)
+  }
+  const verdict = formatVerdict(result)
+  if (verdict) {
+    lines.push(`${result.valid ? '✓' : '✖'} ${verdict}`)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Format semver check results as a Markdown report
+ */
+export const formatSemverMarkdown: SemverFormatter = (result: SemverCheckResult): string => {
+  const lines: string[] = ['## Token release check', '']
+
+  if (result.changes.length === 0) {
+    lines.push('No token changes, no release needed.')
+  } else {
+    lines.push(`**Recommended release: ${result.recommended}**`)
+  }
+  const verdict = formatVerdict(result)
+  if (verdict) {
+    lines.push('')
+    lines.push(`${result.valid ? '✅' : '❌'} ${verdict}`)
+  }
+
+  if (result.changes.length > 0) {
+    lines.push('')
+    lines.push('| Release | Change | Token | Details | Permutations |')
+    lines.push('| --- | --- | --- | --- | --- |')
+    for (const { releaseType, change, permutations } of result.changes) {
+      const where = permutations.map(formatModifierInputs).join('<br>')
+      lines.push(
+        `| ${releaseType} | ${CHANGE_LABELS[change.kind]} | ${formatMarkdownToken(change)} | ${formatChangeDetail(change)} | ${where} |`,
+      )
+    }
+  }
+
+  return lines.join('\n')
+}
+
+const RELEASE_TYPES: ReleaseType[] = ['major', 'minor', 'patch']
+
+function formatVerdict(result: SemverCheckResult): string | undefined {
+  if (!result.declared) {
+    return undefined
+  }
+  return result.valid
+    ? `Declared ${result.declared} release covers these changes`
+    : `Declared ${result.declared} release, but these changes require ${result.recommended}`
+}
+
+const CHANGE_LABELS: Record<TokenChange['kind'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  renamed: 'Renamed',
+  changed: 'Changed',
+  deprecated: 'Deprecated',
+}
+
+function formatStylishChange(change: TokenChange): string {
+  switch (change.kind) {
+    case 'added':
+      return `+ ${change.name}  ${formatValue(change.after)}`
+    case 'removed':
+      return `- ${change.name}  ${formatValue(change.before)}`
+    case 'renamed':
+      return `→ ${change.from} → ${change.name}`
+    case 'changed': {
+      const type = change.previousType ? `  (type ${change.previousType} → ${change.$type})` : ''
+      const delta = change.delta ? `  (${formatDelta(change.delta)})` : ''
+      return `~ ${change.name}  ${formatValue(change.before)} → ${formatValue(change.after)}${type}${delta}`
+    }
+    case 'deprecated':
+      return `! ${change.name}  deprecated${change.reason ? `: ${change.reason}` : ''}`
+  }
+}
+
+function getChangeValues(change: TokenChange): [before: string, after: string] {
+  switch (change.kind) {
+    case 'added':
+      return ['', formatValue(change.after)]
+    case 'removed':
+      return [formatValue(change.before), '']
+    case 'renamed':
+      return [formatValue(change.value), formatValue(change.value)]
+    case 'changed':
+      return [formatValue(change.before), formatValue(change.after)]
+    case 'deprecated':
+      return ['', '']
+  }
+}
+
+function formatMarkdownToken(change: TokenChange): string {
+  return change.kind === 'renamed'
+    ? `\`${change.from}\` → \`${change.name}\``
+    : `\`${change.name}\``
+}
+
+function formatModifierInputs(modifierInputs: ModifierInputs): string {
+  const entries = Object.entries(modifierInputs)
+  return entries.length > 0
+    ? entries.map(([name, context]) => `${name}=${context}`).join(', ')
+    : '(default)'
+}
+
+function formatSummary(result: TokenDiffResult): string {
+  const { added, removed, renamed, changed, deprecated } = result.summary
+  return `${added} added, ${removed} removed, ${renamed} renamed, ${changed} changed, ${deprecated} deprecated`
+}
+
+function formatChangeDetail(change: TokenChange): string {
+  if (change.kind === 'changed') {
+    const type = change.previousType ? `type ${change.previousType} → ${change.$type}` : ''
+    return change.delta ? formatDelta(change.delta) : type
+  }
+  return change.kind === 'deprecated' ? (change.reason ?? '') : ''
+}
+
+function formatDelta(delta: TokenValueDelta): string {
+  if (delta.type === 'color') {
+    return `ΔE ${delta.deltaE}`
+  }
+  const sign = delta.value > 0 ? '+' : ''
+  return `${sign}${delta.value}${delta.unit}`
+}
+
+/**
+ * Render a token value compactly: colors as hex, dimensions as `<value><unit>`
+ */
+function formatValue(value: unknown): string {
+  if (isColorObject(value)) {
+    const color = dtcgObjectToCulori(value)
+    const hex = color.alpha !== undefined && color.alpha < 1 ? formatHex8(color) : formatHex(color)
+    if (hex) {
+      return hex
+    }
+  }
+  if (isDimensionObject(value)) {
+    return `${value.value}${value.unit}`
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function markdownCode(value: string): string {
+  return value === '' ? '' : `\`${value.replace(/\|/g, '\\|')}\``
+}
@@ -10,7 +10,15 @@
  * @fileoverview Lint output formatter interface and utilities
  */
 
-import type { LintIssue, LintResult, LintFormatter } from '@lint/types'
+import { existsSync } from 'node:fs'
+import * as path from 'node:path'
+import { pathToFileURL } from 'node:url'
+
+import type { LintIssue, LintResult, LintFormatter, LintFormatterOptions } from '@lint/types'
+import { formatSourceLocation } from '@shared/utils/path-utils'
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json'
+const SARIF_SRCROOT = '%SRCROOT%'
 
 /**
  * Format lint results as JSON
@@ -26,25 +34,31 @@ export const formatLintStylish: LintFormatter = (result: LintResult): string =>
   const lines: string[] = []
 
   if (result.issues.length === 0) {
-    return '✓ No lint issues found'
+    return ['✓ No lint issues found', ...formatBaselineSummary(result)].join('\n')
   }
 
-  // Group issues by token
+  // Group issues by token and where it is defined
   const byToken = new Map<string, LintIssue[]>()
   for (const issue of result.issues) {
-    const existing = byToken.get(issue.tokenName) ?? []
+    const location = issue.location ? `  ${formatSourceLocation(issue.location)}` : ''
+    const heading = `${issue.tokenName}${location}`
+    const existing = byToken.get(heading) ?? []
     existing.push(issue)
-    byToken.set(issue.tokenName, existing)
+    byToken.set(heading, existing)
   }
 
   // Output issues
-  for (const [tokenName, issues] of byToken) {
+  for (const [heading, issues] of byToken) {
     lines.push(``)
-    lines.push(`  ${tokenName}`)
+    lines.push(`  ${heading}`)
     for (const issue of issues) {
       const severity = issue.severity === 'error' ? '✖' : '⚠'
       const label = issue.severity === 'error' ? 'error' : 'warning'
       lines.push(`    ${severity} ${label}: ${issue.message} [${issue.ruleId}]`)
+      const affected = formatAffectedPermutations(issue, result)
+      if (affected) {
+        lines.push(`        in ${affected}`)
+      }
     }
   }
 
@@ -59,7 +73,13 @@ export const formatLintStylish: LintFormatter = (result: LintResult): string =>
       parts.push(`${result.warningCount} warning${result.warningCount === 1 ? '' : 's'}`)
     }
     lines.push(`✖ ${parts.join(', ')}`)
+
+    const fixableCount = result.issues.filter((issue) => issue.fix).length
+    if (fixableCount > 0) {
+      lines.push(`  ${fixableCount} potentially fixable with the \`--fix\` option`)
+    }
   }
+  lines.push(...formatBaselineSummary(result))
 
   return lines.join('\n')
 }
@@ -72,12 +92,209 @@ export const formatLintCompact: LintFormatter = (result: LintResult): string =>
 
   for (const issue of result.issues) {
     const severity = issue.severity.toUpperCase()
-    lines.push(`${severity}: ${issue.ruleId} - ${issue.message} (token: ${issue.tokenName})`)
+    const location = issue.location ? `, ${formatSourceLocation(issue.location)}` : ''
+    const affected = formatAffectedPermutations(issue, result)
+    const permutations = affected ? `, in ${affected}` : ''
+    lines.push(
+      `${severity}: ${issue.ruleId} - ${issue.message} (token: ${issue.tokenName}${location}${permutations})`,
+    )
   }
 
   if (result.errorCount > 0 || result.warningCount > 0) {
     lines.push(`SUMMARY: ${result.errorCount} errors, ${result.warningCount} warnings`)
   }
 
+  if (result.baseline) {
+    const { suppressedCount, fixed } = result.baseline
+    lines.push(`BASELINE: ${suppressedCount} suppressed, ${fixed.length} fixed`)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Format lint results as SARIF 2.1.0 (e.g. for GitHub code scanning)
+ *
+ * File locations are relative to the root of the git repository containing the
+ * working directory (`%SRCROOT%`), using `/` separators, as code scanning
+ * resolves them against the repository root. Issues without a source location
+ * point at the resolver file, when given.
+ */
+export const formatLintSarif: LintFormatter = (
+  result: LintResult,
+  options: LintFormatterOptions = {},
+): string => {
+  const ruleIds = [...new Set(result.issues.map((issue) => issue.ruleId))]
+  const srcRoot = findRepositoryRoot(process.cwd())
+
+  const results = result.issues.map((issue) => {
+    const logicalLocation = { fullyQualifiedName: issue.tokenName, kind: 'member' }
+    const file = issue.location?.file ?? options.resolver
+    const physicalLocation = file !== undefined && {
+      artifactLocation: toSarifArtifactLocation(path.resolve(file), srcRoot),
+      ...(issue.location?.line !== undefined && {
+        region: { startLine: issue.location.line, startColumn: issue.location.column ?? 1 },
+      }),
+    }
+
+    return {
+      ruleId: issue.ruleId,
+      ruleIndex: ruleIds.indexOf(issue.ruleId),
+      level: issue.severity === 'error' ? 'error' : 'warning',
+      message: { text: issue.message },
+      locations: [
+        {
+          ...(physicalLocation && { physicalLocation }),
+          logicalLocations: [logicalLocation],
+        },
+      ],
+      ...(issue.modifierInputs && { properties: { modifierInputs: issue.modifierInputs } }),
+    }
+  })
+
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'dispersa',
+            informationUri: 'https://dispersa.dev',
+            rules: ruleIds.map((id) => ({ id })),
+          },
+        },
+        originalUriBaseIds: {
+          [SARIF_SRCROOT]: { uri: pathToFileURL(`${srcRoot}${path.sep}`).href },
+        },
+        results,
+      },
+    ],
+  }
+
+  return JSON.stringify(log, null, 2)
+}
+
+/**
+ * Format lint results as a JUnit XML test report
+ *
+ * Each rule is a test suite and each issue a failing test case named after
+ * the token; warnings are reported as failures too.
+ */
+export const formatLintJunit: LintFormatter = (result: LintResult): string => {
+  const byRule = new Map<string, LintIssue[]>()
+  for (const issue of result.issues) {
+    const existing = byRule.get(issue.ruleId) ?? []
+    existing.push(issue)
+    byRule.set(issue.ruleId, existing)
+  }
+
+  const count = result.issues.length
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="dispersa lint" tests="${count}" failures="${count}" errors="0">`,
+  ]
+
+  for (const [ruleId, issues] of byRule) {
+    lines.push(
+      `  <testsuite name="${escapeXml(ruleId)}" tests="${issues.length}" failures="${issues.length}" errors="0">`,
+    )
+    for (const issue of issues) {
+      const file = issue.location ? ` file="${escapeXml(toRelativeUri(issue.location.file))}"` : ''
+      const at = issue.location ? `\nat ${formatSourceLocation(issue.location)}` : ''
+      lines.push(
+        `    <testcase name="${escapeXml(issue.tokenName)}" classname="${escapeXml(ruleId)}"${file}>`,
+        `      <failure message="${escapeXml(issue.message)}" type="${issue.severity}">${escapeXml(`${issue.message}${at}`)}</failure>`,
+        '    </testcase>',
+      )
+    }
+    lines.push('  </testsuite>')
+  }
+
+  lines.push('</testsuites>')
   return lines.join('\n')
 }
+
+/**
+ * List the permutations an issue occurs in (e.g. `brand=partner-a,theme=dark`),
+ * unless it occurs in every linted permutation
+ */
+function formatAffectedPermutations(issue: LintIssue, result: LintResult): string | undefined {
+  const inputs = issue.modifierInputs
+  if (!inputs || inputs.length >= (result.permutationCount ?? Infinity)) {
+    return undefined
+  }
+
+  return inputs
+    .map((modifierInputs) =>
+      Object.entries(modifierInputs)
+        .map(([modifier, context]) => `${modifier}=${context}`)
+        .join(','),
+    )
+    .join('; ')
+}
+
+/**
+ * Summarize the applied baseline: suppressed issues and fixed entries to prune
+ */
+function formatBaselineSummary(result: LintResult): string[] {
+  if (!result.baseline) {
+    return []
+  }
+
+  const { file, suppressedCount, fixed } = result.baseline
+  const lines = [`  ${suppressedCount} baselined issue(s) hidden (${formatPath(file)})`]
+  if (fixed.length > 0) {
+    lines.push(``)
+    lines.push(`  ${fixed.length} baseline entr${fixed.length === 1 ? 'y' : 'ies'} fixed:`)
+    for (const entry of fixed) {
+      lines.push(`    ✓ ${entry.tokenName} [${entry.ruleId}]`)
+    }
+    lines.push(`  Run \`dispersa lint --baseline update\` to remove them from the baseline`)
+  }
+  return lines
+}
+
+function formatPath(file: string): string {
+  return path.relative(process.cwd(), file) || file
+}
+
+function toRelativeUri(file: string): string {
+  return formatPath(file).split(path.sep).join('/')
+}
+
+/**
+ * Closest directory above `dir` holding a `.git` entry, or `dir` outside a repository
+ */
+function findRepositoryRoot(dir: string): string {
+  for (let current = dir; ; current = path.dirname(current)) {
+    if (existsSync(path.join(current, '.git'))) {
+      return current
+    }
+    if (path.dirname(current) === current) {
+      return dir
+    }
+  }
+}
+
+/**
+ * Artifact location relative to `%SRCROOT%`; files outside it keep an absolute URI
+ */
+function toSarifArtifactLocation(
+  file: string,
+  srcRoot: string,
+): { uri: string; uriBaseId?: string } {
+  const relative = path.relative(srcRoot, file)
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return { uri: pathToFileURL(file).href }
+  }
+  return { uri: relative.split(path.sep).join('/'), uriBaseId: SARIF_SRCROOT }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -0,0 +1,48 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * @fileoverview Git helpers for commands that read tokens at a revision
+ */
+
+import { execFile } from 'node:child_process'
+import { mkdtemp, realpath, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join, relative } from 'node:path'
+import { promisify } from 'node:util'
+
+const execFileAsync = promisify(execFile)
+
+async function git(args: string[], cwd: string): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd })
+  return stdout.trim()
+}
+
+/**
+ * Run `callback` with the path `filePath` has in a detached checkout of `revision`
+ *
+ * The checkout is a temporary git worktree, so `$ref`'d files resolve exactly as
+ * they did at that revision. The worktree is removed afterwards.
+ */
+export async function withFileAtRevision<T>(
+  filePath: string,
+  revision: string,
+  callback: (pathAtRevision: string) => Promise<T>,
+): Promise<T> {
+  const realFilePath = await realpath(filePath)
+  const root = await git(['rev-parse', '--show-toplevel'], dirname(realFilePath))
+  const worktree = await mkdtemp(join(tmpdir(), 'dispersa-rev-'))
+
+  await git(['worktree', 'add', '--detach', worktree, revision], root)
+  try {
+    return await callback(join(worktree, relative(root, realFilePath)))
+  } finally {
+    await git(['worktree', 'remove', '--force', worktree], root).catch(() => undefined)
+    await rm(worktree, { recursive: true, force: true })
+  }
+}
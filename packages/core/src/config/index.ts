@@ -259,7 +259,7 @@ export type OutputConfig<TOptions extends FormatOptions = FormatOptions> = Omit<
  */
 export type BuildConfig = Omit<
   BuildConfigBase,
-  'outputs' | 'filters' | 'transforms' | 'preprocessors' | 'permutations'
+  'outputs' | 'filters' | 'transforms' | 'preprocessors' | 'permutations' | 'cache'
 > & {
   /** Resolver configuration - file path or inline ResolverDocument */
   resolver?: string | ResolverDocument
@@ -290,6 +290,26 @@ export type BuildConfig = Omit<
 
   /** Global lifecycle hooks for the build process */
   hooks?: LifecycleHooks
+
+  /**
+   * Persistent incremental build cache.
+   *
+   * `true` stores the cache in `node_modules/.cache/dispersa`; `{ dir }` picks
+   * another directory. Builds then skip resolution when the resolver, its `$ref`'d
+   * files and the global config are unchanged, and restore outputs whose config
+   * is unchanged too. Lint still runs on every build, on the restored tokens.
+   * Functions in the config are compared by source text, so delete the cache
+   * directory after changing values captured in closures.
+   */
+  cache?: boolean | BuildCacheOptions
+}
+
+/**
+ * Options for the persistent build cache
+ */
+export type BuildCacheOptions = {
+  /** Cache directory (default: `node_modules/.cache/dispersa`) */
+  dir?: string
 }
 
 /**
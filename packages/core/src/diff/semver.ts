@@ -0,0 +1,92 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * @fileoverview Classify token changes by the semantic version bump they require
+ */
+
+import type {
+  ReleaseType,
+  SemverChange,
+  SemverCheckResult,
+  TokenChange,
+  TokenDiffResult,
+} from './types'
+
+const RELEASE_RANK: Record<ReleaseType | 'none', number> = {
+  none: 0,
+  patch: 1,
+  minor: 2,
+  major: 3,
+}
+
+/**
+ * Bump required by a single change
+ *
+ * Consumers break on removed or renamed tokens and on `$type` changes (major).
+ * Added and newly deprecated tokens extend the API without breaking it (minor).
+ * Value changes keep the API intact (patch).
+ */
+export function getReleaseType(change: TokenChange): ReleaseType {
+  switch (change.kind) {
+    case 'removed':
+    case 'renamed':
+      return 'major'
+    case 'changed':
+      return change.previousType !== undefined ? 'major' : 'patch'
+    case 'added':
+    case 'deprecated':
+      return 'minor'
+  }
+}
+
+/**
+ * Classify every change of a diff and recommend a version bump
+ *
+ * Changes are merged across permutations: the same kind of change to the same
+ * token is listed once, with every permutation it occurs in.
+ *
+ * @param diff - Result of `diffTokens()`
+ * @param declared - Bump the release declares; the result is invalid when it is
+ *   lower than the recommended one
+ */
+export function checkReleaseType(diff: TokenDiffResult, declared?: ReleaseType): SemverCheckResult {
+  const changes = new Map<string, SemverChange>()
+
+  for (const { modifierInputs, changes: permutationChanges } of diff.permutations) {
+    for (const change of permutationChanges) {
+      const releaseType = getReleaseType(change)
+      const from = change.kind === 'renamed' ? change.from : ''
+      const key = `${releaseType}:${change.kind}:${from}:${change.name}`
+      const existing = changes.get(key)
+      if (existing) {
+        existing.permutations.push(modifierInputs)
+      } else {
+        changes.set(key, { releaseType, change, permutations: [modifierInputs] })
+      }
+    }
+  }
+
+  const sorted = [...changes.values()].sort(
+    (a, b) =>
+      RELEASE_RANK[b.releaseType] - RELEASE_RANK[a.releaseType] ||
+      a.change.name.localeCompare(b.change.name),
+  )
+  const recommended = sorted[0]?.releaseType ?? 'none'
+
+  return {
+    recommended,
+    ...(declared ? { declared } : {}),
+    valid: declared === undefined || RELEASE_RANK[declared] >= RELEASE_RANK[recommended],
+    changes: sorted,
+  }
+}
+
+export function isReleaseType(value: unknown): value is ReleaseType {
+  return value === 'major' || value === 'minor' || value === 'patch'
+}
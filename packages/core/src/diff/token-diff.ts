@@ -0,0 +1,260 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * @fileoverview Compare resolved tokens of two builds, permutation by permutation
+ */
+
+import { dtcgObjectToCulori, isColorObject } from '@processing/transforms/built-in/color-converter'
+import {
+  convertDimension,
+  isDimensionObject,
+} from '@processing/transforms/built-in/dimension-converter'
+import { normalizeModifierInputs } from '@renderers/bundlers/utils'
+import type { ModifierInputs } from '@resolution/types'
+import type { ResolvedToken, ResolvedTokens } from '@tokens/types'
+import { differenceCiede2000, parse, type Color } from 'culori'
+
+import type {
+  PermutationDiff,
+  TokenChange,
+  TokenChangeKind,
+  TokenDiffResult,
+  TokenValueDelta,
+} from './types'
+
+/**
+ * Resolved tokens of one permutation, as returned by `resolveAllPermutations()`
+ */
+export type TokenPermutation = {
+  tokens: ResolvedTokens
+  modifierInputs: ModifierInputs
+}
+
+const deltaE = differenceCiede2000()
+
+/**
+ * Compare two sets of resolved permutations
+ *
+ * Permutations are matched by their modifier inputs (case-insensitive). A
+ * permutation present on one side only is compared against an empty token set,
+ * so all of its tokens show up as added or removed.
+ */
+export function diffPermutations(
+  before: TokenPermutation[],
+  after: TokenPermutation[],
+): TokenDiffResult {
+  const beforeByKey = new Map(before.map((p) => [permutationKey(p.modifierInputs), p]))
+  const afterByKey = new Map(after.map((p) => [permutationKey(p.modifierInputs), p]))
+  const keys = [...new Set([...afterByKey.keys(), ...beforeByKey.keys()])]
+
+  const permutations: PermutationDiff[] = keys.map((key) => {
+    const previous = beforeByKey.get(key)
+    const next = afterByKey.get(key)
+    return {
+      modifierInputs: next?.modifierInputs ?? previous?.modifierInputs ?? {},
+      changes: diffTokenSets(previous?.tokens ?? {}, next?.tokens ?? {}),
+    }
+  })
+
+  return { permutations, summary: summarize(permutations) }
+}
+
+/**
+ * Compare two resolved token sets
+ *
+ * Removed and added tokens with the same type and value are reported as a
+ * rename when their paths are similar: they share the last path segment or the
+ * parent group. Other pairs are reported as removed and added. Tokens that gain
+ * `$deprecated` are reported in addition to any value change. When several
+ * added tokens qualify, the one sharing the removed token's last path segment
+ * wins.
+ */
+export function diffTokenSets(before: ResolvedTokens, after: ResolvedTokens): TokenChange[] {
+  const changes: TokenChange[] = []
+  const removed: ResolvedToken[] = []
+  const added = new Map<string, ResolvedToken>()
+
+  for (const [name, token] of Object.entries(before)) {
+    const next = after[name]
+    if (!next) {
+      removed.push(token)
+      continue
+    }
+    const change = diffToken(name, token, next)
+    if (change) {
+      changes.push(change)
+    }
+    if (!token.$deprecated && next.$deprecated) {
+      changes.push({
+        kind: 'deprecated',
+        name,
+        $type: next.$type,
+        ...(typeof next.$deprecated === 'string' ? { reason: next.$deprecated } : {}),
+      })
+    }
+  }
+
+  for (const [name, token] of Object.entries(after)) {
+    if (!(name in before)) {
+      added.set(name, token)
+    }
+  }
+
+  for (const token of removed) {
+    const match = findRenameTarget(token, added)
+    if (match) {
+      added.delete(match.name)
+      changes.push({
+        kind: 'renamed',
+        name: match.name,
+        from: token.name,
+        $type: match.$type,
+        value: match.$value,
+      })
+    } else {
+      changes.push({ kind: 'removed', name: token.name, $type: token.$type, before: token.$value })
+    }
+  }
+
+  for (const token of added.values()) {
+    changes.push({ kind: 'added', name: token.name, $type: token.$type, after: token.$value })
+  }
+
+  return changes.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+function diffToken(name: string, before: ResolvedToken, after: ResolvedToken): TokenChange | null {
+  const typeChanged = before.$type !== after.$type
+  if (!typeChanged && isEqualValue(before.$value, after.$value)) {
+    return null
+  }
+
+  return {
+    kind: 'changed',
+    name,
+    $type: after.$type,
+    ...(typeChanged ? { previousType: before.$type } : {}),
+    before: before.$value,
+    after: after.$value,
+    ...(typeChanged ? {} : withDelta(after.$type, before.$value, after.$value)),
+  }
+}
+
+function findRenameTarget(
+  token: ResolvedToken,
+  candidates: Map<string, ResolvedToken>,
+): ResolvedToken | undefined {
+  const matches = [...candidates.values()].filter(
+    (candidate) => candidate.$type === token.$type && isEqualValue(candidate.$value, token.$value),
+  )
+  const lastSegment = token.path[token.path.length - 1]
+  const parent = token.path.slice(0, -1).join('.')
+  return (
+    matches.find((candidate) => candidate.path[candidate.path.length - 1] === lastSegment) ??
+    matches.find((candidate) => candidate.path.slice(0, -1).join('.') === parent)
+  )
+}
+
+function withDelta(
+  type: ResolvedToken['$type'],
+  before: unknown,
+  after: unknown,
+): { delta?: TokenValueDelta } {
+  const delta =
+    type === 'color'
+      ? colorDelta(before, after)
+      : type === 'dimension'
+        ? dimensionDelta(before, after)
+        : undefined
+  return delta ? { delta } : {}
+}
+
+function colorDelta(before: unknown, after: unknown): TokenValueDelta | undefined {
+  const previous = toCuloriColor(before)
+  const next = toCuloriColor(after)
+  if (!previous || !next) {
+    return undefined
+  }
+  const difference = deltaE(previous, next)
+  return Number.isFinite(difference) ? { type: 'color', deltaE: round(difference) } : undefined
+}
+
+function toCuloriColor(value: unknown): Color | undefined {
+  if (isColorObject(value)) {
+    return dtcgObjectToCulori(value)
+  }
+  return typeof value === 'string' ? parse(value) : undefined
+}
+
+function dimensionDelta(before: unknown, after: unknown): TokenValueDelta | undefined {
+  if (!isDimensionObject(before) || !isDimensionObject(after)) {
+    return undefined
+  }
+  const next = after.unit === before.unit ? after : convertDimension(after, before.unit)
+  if (next.unit !== before.unit) {
+    return undefined
+  }
+  return { type: 'dimension', value: round(next.value - before.value), unit: before.unit }
+}
+
+function summarize(permutations: PermutationDiff[]): Record<TokenChangeKind, number> {
+  const names: Record<TokenChangeKind, Set<string>> = {
+    added: new Set(),
+    removed: new Set(),
+    renamed: new Set(),
+    changed: new Set(),
+    deprecated: new Set(),
+  }
+  for (const { changes } of permutations) {
+    for (const change of changes) {
+      names[change.kind].add(
+        change.kind === 'renamed' ? `${change.from}>${change.name}` : change.name,
+      )
+    }
+  }
+  return {
+    added: names.added.size,
+    removed: names.removed.size,
+    renamed: names.renamed.size,
+    changed: names.changed.size,
+    deprecated: names.deprecated.size,
+  }
+}
+
+function permutationKey(modifierInputs: ModifierInputs): string {
+  const normalized = normalizeModifierInputs(modifierInputs)
+  return Object.keys(normalized)
+    .sort()
+    .map((key) => `${key}=${normalized[key]}`)
+    .join('|')
+}
+
+function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false
+  }
+  const aKeys = Object.keys(a)
+  const bKeys = Object.keys(b)
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) =>
+      isEqualValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]),
+    )
+  )
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
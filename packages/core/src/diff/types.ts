@@ -0,0 +1,141 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * @fileoverview Type definitions for comparing two token builds
+ */
+
+import type { ModifierInputs } from '@resolution/types'
+import type { TokenType } from '@tokens/types'
+
+// ============================================================================
+// CHANGES
+// ============================================================================
+
+/**
+ * Numeric difference between two values of a changed token
+ *
+ * - `color` - CIEDE2000 color difference (ΔE, ~1 is barely perceptible)
+ * - `dimension` - `after - before`, expressed in the unit of the previous value
+ */
+export type TokenValueDelta =
+  | { type: 'color'; deltaE: number }
+  | { type: 'dimension'; value: number; unit: string }
+
+/**
+ * A single token-level change between two builds
+ *
+ * - `added` / `removed` - token exists only after / before
+ * - `renamed` - a removed and an added token share the same type and value
+ * - `changed` - token exists in both with a different value or type
+ * - `deprecated` - token exists in both and became `$deprecated`
+ */
+export type TokenChange =
+  | { kind: 'added'; name: string; $type?: TokenType; after: unknown }
+  | { kind: 'removed'; name: string; $type?: TokenType; before: unknown }
+  | { kind: 'renamed'; name: string; from: string; $type?: TokenType; value: unknown }
+  | {
+      kind: 'changed'
+      name: string
+      $type?: TokenType
+      /** Previous `$type`, present only when the type changed */
+      previousType?: TokenType
+      before: unknown
+      after: unknown
+      delta?: TokenValueDelta
+    }
+  | {
+      kind: 'deprecated'
+      name: string
+      $type?: TokenType
+      /** Deprecation message when `$deprecated` is a string */
+      reason?: string
+    }
+
+export type TokenChangeKind = TokenChange['kind']
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+/**
+ * Changes within one permutation. Permutations that exist on one side only
+ * are compared against an empty token set.
+ */
+export type PermutationDiff = {
+  modifierInputs: ModifierInputs
+  changes: TokenChange[]
+}
+
+/**
+ * Number of distinct token names per change kind across all permutations
+ */
+export type TokenDiffSummary = Record<TokenChangeKind, number>
+
+/**
+ * Result of comparing two token builds
+ */
+export type TokenDiffResult = {
+  permutations: PermutationDiff[]
+  summary: TokenDiffSummary
+}
+
+// ============================================================================
+// FORMATTERS
+// ============================================================================
+
+/**
+ * Output formats for diff and semver results
+ */
+export type DiffOutputFormat = 'stylish' | 'json' | 'markdown'
+
+/**
+ * Formatter function that converts a diff result to an output string
+ */
+export type DiffFormatter = (result: TokenDiffResult) => string
+
+/**
+ * Formatter function that converts a semver check result to an output string
+ */
+export type SemverFormatter = (result: SemverCheckResult) => string
+
+// ============================================================================
+// SEMVER
+// ============================================================================
+
+/**
+ * Version bump a release needs
+ *
+ * - `major` - removed or renamed tokens, `$type` changes
+ * - `minor` - added or newly `$deprecated` tokens
+ * - `patch` - value changes
+ */
+export type ReleaseType = 'major' | 'minor' | 'patch'
+
+/**
+ * A token change with the bump it requires and every permutation it occurs in
+ */
+export type SemverChange = {
+  releaseType: ReleaseType
+  change: TokenChange
+  permutations: ModifierInputs[]
+}
+
+/**
+ * Result of classifying the changes between two token versions
+ */
+export type SemverCheckResult = {
+  /** Smallest bump covering every change, `'none'` when nothing changed */
+  recommended: ReleaseType | 'none'
+  /** Bump the release declares, when checked against one */
+  declared?: ReleaseType
+  /** False when the declared bump is lower than the recommended one */
+  valid: boolean
+  /** Distinct changes, most severe first */
+  changes: SemverChange[]
+}
@@ -8,13 +8,28 @@
  * @fileoverview Main Dispersa API - Functional exports
  */
 
+import * as path from 'node:path'
+
 import { TypeWriter } from '@adapters/filesystem/type-writer'
+import { BuildCache, DEFAULT_CACHE_DIR } from '@build/build-cache'
 import { BuildOrchestrator } from '@build/build-orchestrator'
+import { BuildSession } from '@build/build-session'
 import { OutputProcessor } from '@build/output-processor'
 import { TokenPipeline } from '@build/pipeline/token-pipeline'
 import type { BuildConfig, DispersaOptions } from '@config/index'
+import { checkReleaseType } from '@diff/semver'
+import { diffPermutations, type TokenPermutation } from '@diff/token-diff'
+import type { ReleaseType, SemverCheckResult, TokenDiffResult } from '@diff/types'
+import {
+  applyLintBaseline,
+  createLintBaseline,
+  pruneLintBaseline,
+  readLintBaseline,
+  writeLintBaseline,
+} from '@lint/lint-baseline'
+import { LintFixer } from '@lint/lint-fixer'
 import { LintRunner } from '@lint/lint-runner'
-import type { LintConfig, LintResult } from '@lint/types'
+import type { LintConfig, LintFixChange, LintResult } from '@lint/types'
 import type { BuildResult } from '@renderers/types'
 import type { ModifierInputs, ResolverDocument } from '@resolution/types'
 import { ConfigurationError, LintError } from '@shared/errors/index'
@@ -39,8 +54,24 @@ function createOutputProcessor(): OutputProcessor {
 function createOrchestrator(
   pipeline: TokenPipeline,
   outputProcessor: OutputProcessor,
+  buildCache?: BuildCache,
 ): BuildOrchestrator {
-  return new BuildOrchestrator(pipeline, outputProcessor)
+  return new BuildOrchestrator(pipeline, outputProcessor, { buildCache })
+}
+
+function createBuildCache(
+  config: BuildConfig,
+  resolver: string | ResolverDocument,
+  fileCache: Map<string, unknown>,
+): BuildCache | undefined {
+  if (!config.cache) {
+    return undefined
+  }
+
+  const dir = (typeof config.cache === 'object' ? config.cache.dir : undefined) ?? DEFAULT_CACHE_DIR
+  const baseDir =
+    typeof resolver === 'string' ? path.dirname(path.resolve(resolver)) : process.cwd()
+  return new BuildCache(path.resolve(dir), baseDir, fileCache)
 }
 
 function resolveConfig(
@@ -193,13 +224,45 @@ export async function buildOrThrow(config: BuildConfig): Promise<BuildResult> {
 
   const { resolver, buildPath } = resolveConfig(config)
 
-  const pipeline = createPipeline({ validation: config.validation })
+  const fileCache = new Map<string, unknown>()
+  const pipeline = new TokenPipeline({ validation: config.validation, cache: fileCache })
   const outputProcessor = createOutputProcessor()
-  const orchestrator = createOrchestrator(pipeline, outputProcessor)
+  const buildCache = createBuildCache(config, resolver, fileCache)
+  const orchestrator = createOrchestrator(pipeline, outputProcessor, buildCache)
 
   return orchestrator.build(resolver, buildPath, config)
 }
 
+/**
+ * Create a long-lived build session for repeated, incremental builds
+ *
+ * The session caches parsed `$ref` files and rendered outputs between builds.
+ * After source files change, call `session.invalidate(files)` and then
+ * `session.build()`: only the changed files are re-read, and only outputs whose
+ * tokens actually changed are re-rendered and written.
+ *
+ * The config is validated once, up front. This powers `dispersa build --watch`.
+ *
+ * @example
+ * ```typescript
+ * const session = createBuildSession({ resolver: './tokens.resolver.json', outputs })
+ * await session.build()
+ *
+ * // later, after tokens/colors.json changed on disk
+ * session.invalidate([resolve('tokens/colors.json')])
+ * await session.build()
+ * ```
+ */
+export function createBuildSession(config: BuildConfig): BuildSession {
+  const validator = createValidator()
+
+  validateBuildConfig(validator, config)
+
+  const { resolver, buildPath } = resolveConfig(config)
+
+  return new BuildSession(resolver, buildPath, config)
+}
+
 export async function buildPermutation(
   config: BuildConfig,
   modifierInputs: ModifierInputs = {},
@@ -223,32 +286,114 @@ export type LintOptions = {
   resolver: string | ResolverDocument
   modifierInputs?: ModifierInputs
   validation?: ValidationOptions
+  /**
+   * Apply rule fixes to the token files, then lint again.
+   * `'dry-run'` reports the edits in `result.fixes` without writing files.
+   */
+  fix?: boolean | 'dry-run'
+  /**
+   * Write the `baseline` file before applying it. `'create'` records all
+   * current issues; `'update'` only drops the entries that have been fixed.
+   */
+  writeBaseline?: 'create' | 'update'
 } & LintConfig
 
-export async function lint(options: LintOptions): Promise<LintResult> {
-  const { resolver, modifierInputs = {}, validation, ...lintConfig } = options
+/**
+ * Maximum lint-and-fix passes. Fixes can enable further fixes (e.g. a renamed
+ * group exposing a child name), so linting repeats until no fix applies.
+ */
+const MAX_FIX_PASSES = 10
 
-  const pipeline = createPipeline({ validation })
+export async function lint(options: LintOptions): Promise<LintResult> {
+  const {
+    resolver,
+    modifierInputs = {},
+    validation,
+    fix = false,
+    writeBaseline,
+    ...lintConfig
+  } = options
 
   const runner = new LintRunner({
     ...lintConfig,
     failOnError: lintConfig.failOnError ?? true,
   })
 
-  let tokenSets: InternalResolvedTokens[]
+  const baseDir =
+    typeof resolver === 'string' ? path.dirname(path.resolve(resolver)) : process.cwd()
+
+  const lintPermutations = async () => {
+    // Fixes rewrite token files between passes, so every pass reads them afresh
+    const fileCache = new Map<string, unknown>()
+    const pipeline = new TokenPipeline({ validation, cache: fileCache })
+    let permutations: { tokens: InternalResolvedTokens; modifierInputs: ModifierInputs }[]
+
+    if (Object.keys(modifierInputs).length > 0) {
+      // Specific modifier inputs provided - resolve only that permutation
+      permutations = [await pipeline.resolve(resolver, modifierInputs)]
+    } else {
+      // No specific modifier inputs - resolve all permutations
+      permutations = await pipeline.resolveAllPermutations(resolver)
+    }
+
+    // Use runMultiple for deduplication across permutations
+    const result = await runner.runMultiple(
+      permutations.map((p) => p.tokens),
+      permutations.map((p) => p.modifierInputs),
+    )
+
+    // Fixes must reach the files of every modifier context, not only the linted ones
+    const sourcePermutations =
+      fix !== false && Object.keys(modifierInputs).length > 0
+        ? await pipeline.resolveAllPermutations(resolver)
+        : permutations
+    return {
+      result,
+      tokenSets: sourcePermutations.map((p) => p.tokens),
+      files: [...fileCache.keys()].map((file) => path.resolve(baseDir, file)),
+    }
+  }
+
+  let linted = await lintPermutations()
+  let result = linted.result
+
+  if (fix !== false) {
+    const fixer = new LintFixer({ dryRun: fix === 'dry-run', baseDir })
+    const fixes: LintFixChange[] = []
+
+    for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+      const changes = await fixer.fix(linted.result.issues, linted.tokenSets, linted.files)
+      fixes.push(...changes)
+      if (changes.length === 0 || fix === 'dry-run') {
+        break
+      }
+      linted = await lintPermutations()
+    }
 
-  if (Object.keys(modifierInputs).length > 0) {
-    // Specific modifier inputs provided - resolve only that permutation
-    const { tokens } = await pipeline.resolve(resolver, modifierInputs)
-    tokenSets = [tokens]
-  } else {
-    // No specific modifier inputs - resolve all permutations
-    const permutations = await pipeline.resolveAllPermutations(resolver)
-    tokenSets = permutations.map((p) => p.tokens)
+    result = { ...linted.result, fixes }
   }
 
-  // Use runMultiple for deduplication across permutations
-  const result = await runner.runMultiple(tokenSets)
+  if (lintConfig.baseline !== undefined) {
+    const baselineFile = path.resolve(lintConfig.baseline)
+    let baseline = await readLintBaseline(baselineFile)
+
+    if (writeBaseline) {
+      // Updating a missing baseline creates it
+      baseline =
+        writeBaseline === 'update' && baseline
+          ? pruneLintBaseline(baseline, result.issues)
+          : createLintBaseline(result.issues)
+      await writeLintBaseline(baselineFile, baseline)
+    }
+
+    if (baseline) {
+      result = applyLintBaseline(result, baseline, baselineFile)
+    }
+  } else if (writeBaseline) {
+    throw new ConfigurationError(
+      'Cannot write a lint baseline without a baseline path. Set `lint.baseline` in the config.',
+    )
+  }
 
   if (result.errorCount > 0 && lintConfig.failOnError !== false) {
     throw new LintError(result.issues)
@@ -271,6 +416,78 @@ export async function resolveAllPermutations(resolver: string | ResolverDocument
   }))
 }
 
+async function resolveStrippedPermutations(
+  pipeline: TokenPipeline,
+  resolver: string | ResolverDocument,
+): Promise<TokenPermutation[]> {
+  const permutations = await pipeline.resolveAllPermutations(resolver)
+  return permutations.map(({ tokens, modifierInputs }) => ({
+    tokens: stripInternalTokenMetadata(tokens),
+    modifierInputs,
+  }))
+}
+
+export type DiffOptions = {
+  validation?: ValidationOptions
+}
+
+/**
+ * Compare the resolved tokens of two resolvers, permutation by permutation
+ *
+ * Reports added, removed, renamed and value-changed tokens. Changed colors carry
+ * their CIEDE2000 difference (ΔE) and changed dimensions their numeric delta.
+ *
+ * @example
+ * ```typescript
+ * import { diffTokens } from 'dispersa'
+ *
+ * const result = await diffTokens('./main/tokens.resolver.json', './tokens.resolver.json')
+ * console.log(`${result.summary.changed} tokens changed`)
+ * ```
+ */
+export async function diffTokens(
+  before: string | ResolverDocument,
+  after: string | ResolverDocument,
+  options: DiffOptions = {},
+): Promise<TokenDiffResult> {
+  const pipeline = createPipeline({ validation: options.validation })
+  const previous = await resolveStrippedPermutations(pipeline, before)
+  const next = await resolveStrippedPermutations(pipeline, after)
+  return diffPermutations(previous, next)
+}
+
+export type SemverCheckOptions = DiffOptions & {
+  /** Bump the release declares; the check fails when it is lower than required */
+  declared?: ReleaseType
+}
+
+/**
+ * Classify the changes between two token versions by the semver bump they require
+ *
+ * Removed tokens, renamed tokens and `$type` changes are major; added and newly
+ * `$deprecated` tokens are minor; value changes are patch.
+ *
+ * @example
+ * ```typescript
+ * import { checkSemver } from 'dispersa'
+ *
+ * const result = await checkSemver('./v1/tokens.resolver.json', './tokens.resolver.json', {
+ *   declared: 'minor',
+ * })
+ * if (!result.valid) {
+ *   throw new Error(`Release needs a ${result.recommended} bump`)
+ * }
+ * ```
+ */
+export async function checkSemver(
+  before: string | ResolverDocument,
+  after: string | ResolverDocument,
+  options: SemverCheckOptions = {},
+): Promise<SemverCheckResult> {
+  const diff = await diffTokens(before, after, { validation: options.validation })
+  return checkReleaseType(diff, options.declared)
+}
+
 export async function generateTypes(
   tokens: ResolvedTokens,
   fileName: string,
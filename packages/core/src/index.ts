@@ -17,13 +17,17 @@ export {
   build,
   buildOrThrow,
   buildPermutation,
+  createBuildSession,
   resolveTokens,
   lint,
   resolveAllPermutations,
+  diffTokens,
+  checkSemver,
   generateTypes,
 } from './dispersa'
 
-export type { LintOptions } from './dispersa'
+export type { DiffOptions, LintOptions, SemverCheckOptions } from './dispersa'
+export type { BuildSession } from '@build/build-session'
 
 // ============================================================================
 // PUBLIC TYPES
@@ -33,6 +37,7 @@ export type { LintOptions } from './dispersa'
 export type {
   OutputConfig,
   BuildConfig,
+  BuildCacheOptions,
   FileFunction,
   LifecycleHooks,
   DispersaOptions,
@@ -62,6 +67,7 @@ export type {
   ColorSpace,
   ColorComponent,
   DimensionValue,
+  FluidDimension,
   DurationValue,
   FontFamilyValue,
   FontWeightValue,
@@ -74,6 +80,7 @@ export type {
   TransitionValue,
   GradientValue,
   GradientStop,
+  TokenSource,
 } from '@tokens/types'
 
 // Token type guards
@@ -100,10 +107,13 @@ export type { Preprocessor } from '@processing/preprocessors/types'
 // Renderer types
 export type {
   AndroidRendererOptions,
+  AndroidXmlRendererOptions,
   BuildError,
   BuildOutput,
   BuildResult,
   CssRendererOptions,
+  CssTypographyClassOptions,
+  DtcgRendererOptions,
   ErrorCode,
   FormatOptions,
   IosRendererOptions,
@@ -116,24 +126,45 @@ export type {
   RenderContext,
   RenderMeta,
   RenderOutput,
+  ScssRendererOptions,
   SelectorFunction,
   TailwindRendererOptions,
 } from '@renderers/types'
 
 // Resolver types
+export type { PermutationConstraint } from '@resolution/permutation-constraints'
 export type { ModifierInputs, ResolverDocument } from '@resolution/types'
 
+// Diff types
+export type {
+  DiffFormatter,
+  DiffOutputFormat,
+  PermutationDiff,
+  ReleaseType,
+  SemverChange,
+  SemverCheckResult,
+  SemverFormatter,
+  TokenChange,
+  TokenChangeKind,
+  TokenDiffResult,
+  TokenDiffSummary,
+  TokenValueDelta,
+} from '@diff/types'
+
 // ============================================================================
 // OUTPUT BUILDERS
 // ============================================================================
 
-export { css, json, js, tailwind, ios, android } from './builders'
+export { css, scss, json, js, tailwind, ios, android, androidXml, dtcg } from './builders'
 export type {
   AndroidBuilderConfig,
+  AndroidXmlBuilderConfig,
   CssBuilderConfig,
+  DtcgBuilderConfig,
   IosBuilderConfig,
   JsBuilderConfig,
   JsonBuilderConfig,
+  ScssBuilderConfig,
   TailwindBuilderConfig,
 } from './builders'
 
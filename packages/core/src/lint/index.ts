@@ -63,20 +63,29 @@
 export type {
   Severity,
   LintRuleMeta,
+  LintRuleScope,
   LintRuleContext,
+  LintPermutation,
   LintReportDescriptor,
+  LintFix,
   LintRule,
   AnyLintRule,
   LintPlugin,
   RuleConfig,
+  LintPermutationSelector,
+  LintRuleTargetOptions,
   ResolvedRuleConfig,
   LintConfig,
   LintBuildConfig,
   ResolvedLintConfig,
   LintIssue,
+  LintFixChange,
+  LintBaselineEntry,
+  LintBaselineSummary,
   LintResult,
   LintOutputFormat,
   LintFormatter,
+  LintFormatterOptions,
   // Type-safe rule configuration types
   RulesRegistry,
   RuleConfigFor,
@@ -88,6 +97,15 @@ export type { LintOptions } from '../dispersa'
 // Core classes and functions
 export { createRule, type RuleOptions, type RuleMessages } from './create-rule'
 export { LintRunner, type LintRunnerOptions } from './lint-runner'
+export { LintFixer, type LintFixerOptions } from './lint-fixer'
+export {
+  createLintBaseline,
+  applyLintBaseline,
+  pruneLintBaseline,
+  readLintBaseline,
+  writeLintBaseline,
+  type LintBaseline,
+} from './lint-baseline'
 export { PluginLoader, type PluginLoaderOptions } from './plugin-loader'
 
 // Built-in rules
@@ -101,6 +119,9 @@ export {
   noDeprecatedUsage,
   noDuplicateValues,
   pathSchema,
+  colorContrast,
+  tokenTiers,
+  noUnusedTokens,
   type PathSchemaConfig,
   type SegmentDefinition,
   type TransitionRule,
@@ -109,6 +130,12 @@ export {
   type NamingConventionOptions,
   type NoDeprecatedUsageOptions,
   type NoDuplicateValuesOptions,
+  type ColorContrastAlgorithm,
+  type ColorContrastOptions,
+  type ColorContrastPair,
+  type TokenTier,
+  type TokenTiersOptions,
+  type NoUnusedTokensOptions,
 } from './rules'
 
 // Formatters
@@ -116,4 +143,6 @@ export {
   formatLintJson,
   formatLintStylish,
   formatLintCompact,
+  formatLintSarif,
+  formatLintJunit,
 } from '@cli/formatters/lint-formatter'
@@ -0,0 +1,182 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * @fileoverview Lint baseline for adopting rules incrementally
+ *
+ * A baseline records the issues that exist when a rule is adopted, by rule ID
+ * and token name. Linting against it only reports issues that are not in the
+ * baseline, so new violations fail while existing ones can be fixed over time.
+ */
+
+import { access } from 'node:fs/promises'
+
+import { readJSONFile, writeOutputFile } from '@adapters/filesystem/file-utils'
+import { ConfigurationError } from '@shared/errors/index'
+
+import type { LintBaselineEntry, LintIssue, LintResult } from './types'
+
+/**
+ * Contents of a lint baseline file
+ *
+ * Issues are counted per rule ID and token name, so a token defined in several
+ * files (e.g. once per theme) can have more than one baselined issue.
+ */
+export type LintBaseline = {
+  version: 1
+
+  /** Issue counts indexed by rule ID, then token name */
+  issues: Record<string, Record<string, number>>
+}
+
+/**
+ * Create a baseline recording the given issues
+ *
+ * Rule IDs and token names are sorted so the file diffs cleanly.
+ */
+export function createLintBaseline(issues: LintIssue[]): LintBaseline {
+  const counts = new Map<string, Map<string, number>>()
+  for (const issue of issues) {
+    const byToken = counts.get(issue.ruleId) ?? new Map<string, number>()
+    byToken.set(issue.tokenName, (byToken.get(issue.tokenName) ?? 0) + 1)
+    counts.set(issue.ruleId, byToken)
+  }
+
+  const baselineIssues: LintBaseline['issues'] = {}
+  for (const ruleId of [...counts.keys()].sort()) {
+    const byToken = counts.get(ruleId) ?? new Map<string, number>()
+    baselineIssues[ruleId] = Object.fromEntries(
+      [...byToken.entries()].sort(([a], [b]) => a.localeCompare(b)),
+    )
+  }
+
+  return { version: 1, issues: baselineIssues }
+}
+
+/**
+ * Remove baselined issues from a lint result
+ *
+ * Error and warning counts are recomputed from the remaining issues. Baseline
+ * entries with fewer current issues than recorded are reported as fixed.
+ *
+ * @param result - Lint result to filter
+ * @param baseline - Baseline to apply
+ * @param file - Path of the baseline file, reported in `result.baseline`
+ */
+export function applyLintBaseline(
+  result: LintResult,
+  baseline: LintBaseline,
+  file: string,
+): LintResult {
+  const remaining = new Map<string, number>()
+  for (const [ruleId, byToken] of Object.entries(baseline.issues)) {
+    for (const [tokenName, count] of Object.entries(byToken)) {
+      remaining.set(toKey(ruleId, tokenName), count)
+    }
+  }
+
+  const issues: LintIssue[] = []
+  let suppressedCount = 0
+  for (const issue of result.issues) {
+    const key = toKey(issue.ruleId, issue.tokenName)
+    const count = remaining.get(key) ?? 0
+    if (count > 0) {
+      remaining.set(key, count - 1)
+      suppressedCount++
+    } else {
+      issues.push(issue)
+    }
+  }
+
+  const fixed: LintBaselineEntry[] = []
+  for (const [ruleId, byToken] of Object.entries(baseline.issues)) {
+    for (const tokenName of Object.keys(byToken)) {
+      const count = remaining.get(toKey(ruleId, tokenName)) ?? 0
+      if (count > 0) {
+        fixed.push({ ruleId, tokenName, count })
+      }
+    }
+  }
+
+  return {
+    ...result,
+    issues,
+    errorCount: issues.filter((issue) => issue.severity === 'error').length,
+    warningCount: issues.filter((issue) => issue.severity === 'warn').length,
+    baseline: { file, suppressedCount, fixed },
+  }
+}
+
+/**
+ * Drop fixed issues from a baseline without recording new ones
+ *
+ * Counts are lowered to the number of matching current issues, and entries
+ * without any are removed.
+ */
+export function pruneLintBaseline(baseline: LintBaseline, issues: LintIssue[]): LintBaseline {
+  const current = createLintBaseline(issues)
+  const pruned: LintBaseline['issues'] = {}
+
+  for (const [ruleId, byToken] of Object.entries(baseline.issues)) {
+    for (const [tokenName, count] of Object.entries(byToken)) {
+      const currentCount = Math.min(count, current.issues[ruleId]?.[tokenName] ?? 0)
+      if (currentCount > 0) {
+        pruned[ruleId] = { ...pruned[ruleId], [tokenName]: currentCount }
+      }
+    }
+  }
+
+  return { version: 1, issues: pruned }
+}
+
+/**
+ * Read a baseline file
+ *
+ * @returns The baseline, or `undefined` when the file does not exist
+ * @throws {ConfigurationError} If the file is not a valid baseline
+ */
+export async function readLintBaseline(file: string): Promise<LintBaseline | undefined> {
+  try {
+    await access(file)
+  } catch {
+    return undefined
+  }
+
+  const data = await readJSONFile(file)
+  if (!isLintBaseline(data)) {
+    throw new ConfigurationError(`Invalid lint baseline file: ${file}`)
+  }
+  return data
+}
+
+/**
+ * Write a baseline file
+ */
+export async function writeLintBaseline(file: string, baseline: LintBaseline): Promise<void> {
+  await writeOutputFile(file, `${JSON.stringify(baseline, null, 2)}\n`)
+}
+
+function isLintBaseline(data: unknown): data is LintBaseline {
+  if (typeof data !== 'object' || data === null) {
+    return false
+  }
+  const { version, issues } = data as Partial<LintBaseline>
+  if (version !== 1 || typeof issues !== 'object' || issues === null) {
+    return false
+  }
+  return Object.values(issues).every(
+    (byToken) =>
+      typeof byToken === 'object' &&
+      byToken !== null &&
+      Object.values(byToken).every((count) => Number.isInteger(count) && count > 0),
+  )
+}
+
+function toKey(ruleId: string, tokenName: string): string {
+  return `${ruleId}:${tokenName}`
+}
@@ -0,0 +1,500 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * @fileoverview Lint fixer that writes rule fixes back to token files
+ *
+ * Fixes describe edits relative to a token (rename, set a property, alias).
+ * The fixer maps them to every file the token is defined in, using the
+ * source locations recorded during resolution, and keeps references to
+ * renamed tokens intact.
+ */
+
+import { readFile } from 'node:fs/promises'
+import * as path from 'node:path'
+
+import { writeOutputFile } from '@adapters/filesystem/file-utils'
+import type { InternalResolvedTokens, TokenSource } from '@tokens/types'
+import { decodePointer, encodePointer } from 'json-ptr'
+
+import type { LintFixChange, LintIssue } from './types'
+
+export type LintFixerOptions = {
+  /** Collect the edits without writing files (default: false) */
+  dryRun?: boolean
+  /** Directory file `$ref`s are relative to: the resolver's directory (default: cwd) */
+  baseDir?: string
+}
+
+type TokenFile = {
+  text: string
+  data: unknown
+  changed: boolean
+}
+
+/** Rename of a token name prefix, e.g. `['Color']` to `['color']` */
+type PrefixRename = {
+  ruleId: string
+  from: string[]
+  to: string[]
+  /** Keys to rename: one per file that defines tokens under the prefix */
+  keys: { file: string; keyPath: string[] }[]
+}
+
+type PropertyEdit = {
+  ruleId: string
+  file: string
+  tokenPath: string[]
+  property: string
+  value: unknown
+  description: string
+}
+
+const REFERENCE_PATTERN = /\{([^{}]+)\}/g
+
+/**
+ * Applies the fixes of lint issues to token files
+ *
+ * A token can be defined in several files (e.g. once per theme); fixes are
+ * applied to every definition found in the given token sets. References to
+ * renamed tokens are updated in those files and in any `referenceFiles`, so
+ * pass the token sets of every permutation and every file of the resolver to
+ * keep contexts that were not linted consistent. Fixes that cannot be applied
+ * safely (renaming onto an existing key, aliasing a token that is being aliased
+ * itself) are skipped.
+ *
+ * @example
+ * ```typescript
+ * const fixer = new LintFixer({ dryRun: true })
+ * const changes = await fixer.fix(result.issues, permutations.map((p) => p.tokens))
+ * ```
+ */
+export class LintFixer {
+  private dryRun: boolean
+  private baseDir: string
+
+  constructor(options: LintFixerOptions = {}) {
+    this.dryRun = options.dryRun ?? false
+    this.baseDir = options.baseDir ?? process.cwd()
+  }
+
+  /**
+   * Apply the fixes of the given issues
+   *
+   * @param issues - Lint issues; issues without a `fix` are ignored
+   * @param tokenSets - Token sets used to find where tokens are defined
+   * @param referenceFiles - Additional token files whose references to renamed tokens are updated
+   * @returns Edits made to token files (or that would be made, in a dry run)
+   */
+  async fix(
+    issues: LintIssue[],
+    tokenSets: InternalResolvedTokens[],
+    referenceFiles: string[] = [],
+  ): Promise<LintFixChange[]> {
+    if (!issues.some((issue) => issue.fix)) {
+      return []
+    }
+
+    const sources = this.collectSources(tokenSets)
+    const files = await this.readFiles(sources, referenceFiles)
+    const changes: LintFixChange[] = []
+
+    const edits = this.planPropertyEdits(issues, sources)
+    const renames = this.planRenames(issues, sources, files)
+
+    // Property edits first: they address tokens by their path before any rename
+    for (const edit of edits) {
+      const token = getAtPath(files.get(edit.file)?.data, edit.tokenPath)
+      if (!isObject(token) || token[edit.property] === edit.value) {
+        continue
+      }
+      token[edit.property] = edit.value
+      this.markChanged(files, edit.file)
+      changes.push({
+        ruleId: edit.ruleId,
+        file: edit.file,
+        pointer: encodePointer(edit.tokenPath),
+        description: edit.description,
+      })
+    }
+
+    // Deepest keys first, so the key paths of their parents are still valid
+    const keys = renames
+      .flatMap((rename) => rename.keys.map((key) => ({ ...key, rename })))
+      .sort((a, b) => b.keyPath.length - a.keyPath.length)
+    for (const { file, keyPath, rename } of keys) {
+      const parent = getAtPath(files.get(file)?.data, keyPath.slice(0, -1))
+      const from = rename.from[rename.from.length - 1] as string
+      const to = rename.to[rename.to.length - 1] as string
+      if (!isObject(parent)) {
+        continue
+      }
+      renameKey(parent, from, to)
+      this.markChanged(files, file)
+      changes.push({
+        ruleId: rename.ruleId,
+        file,
+        pointer: encodePointer(keyPath),
+        description: `rename '${from}' to '${to}'`,
+      })
+    }
+
+    if (renames.length > 0) {
+      const ordered = [...renames].sort((a, b) => b.from.length - a.from.length)
+      for (const [file, tokenFile] of files) {
+        if (this.updateReferences(tokenFile.data, ordered, file, [], changes)) {
+          tokenFile.changed = true
+        }
+      }
+    }
+
+    if (!this.dryRun) {
+      for (const [file, tokenFile] of files) {
+        if (tokenFile.changed) {
+          await writeOutputFile(file, stringifyLike(tokenFile.data, tokenFile.text))
+        }
+      }
+    }
+
+    return changes
+  }
+
+  /**
+   * Index the source locations of every token across all token sets
+   */
+  private collectSources(tokenSets: InternalResolvedTokens[]): Map<string, TokenSource[]> {
+    const sources = new Map<string, TokenSource[]>()
+    for (const tokens of tokenSets) {
+      for (const token of Object.values(tokens)) {
+        const source = token._source
+        if (!source) {
+          continue
+        }
+        const existing = sources.get(token.name) ?? []
+        if (!existing.some((s) => s.file === source.file && s.pointer === source.pointer)) {
+          existing.push(source)
+        }
+        sources.set(token.name, existing)
+      }
+    }
+    return sources
+  }
+
+  private async readFiles(
+    sources: Map<string, TokenSource[]>,
+    referenceFiles: string[],
+  ): Promise<Map<string, TokenFile>> {
+    const files = new Map<string, TokenFile>()
+    const paths = [...[...sources.values()].flat().map(({ file }) => file), ...referenceFiles]
+    for (const file of paths) {
+      if (!files.has(file)) {
+        const text = await readFile(file, 'utf-8')
+        files.set(file, { text, data: JSON.parse(text), changed: false })
+      }
+    }
+    return files
+  }
+
+  /**
+   * Map `set` and `alias` fixes to property edits on every definition of the token
+   */
+  private planPropertyEdits(
+    issues: LintIssue[],
+    sources: Map<string, TokenSource[]>,
+  ): PropertyEdit[] {
+    const edits: PropertyEdit[] = []
+    const aliased = new Set<string>()
+    const aliasTargets = new Set<string>()
+
+    for (const { fix, ruleId, tokenName } of issues) {
+      if (!fix || fix.type === 'rename') {
+        continue
+      }
+
+      let property = '$value'
+      let value: unknown
+      let description: string
+
+      if (fix.type === 'set') {
+        property = fix.property
+        value = fix.value
+        description = `set ${fix.property} to ${JSON.stringify(fix.value)}`
+      } else {
+        // Aliasing a token that is aliased in the same pass could create chains or cycles
+        if (aliased.has(fix.token) || aliasTargets.has(tokenName)) {
+          continue
+        }
+        aliased.add(tokenName)
+        aliasTargets.add(fix.token)
+
+        const isRoot = (sources.get(fix.token) ?? []).some((source) =>
+          source.pointer.endsWith('/$root'),
+        )
+        value = `{${fix.token}${isRoot ? '.$root' : ''}}`
+        description = `replace value with '${value as string}'`
+      }
+
+      for (const source of sources.get(tokenName) ?? []) {
+        const tokenPath = decodePointer(source.pointer) as string[]
+        edits.push({ ruleId, file: source.file, tokenPath, property, value, description })
+      }
+    }
+
+    return edits
+  }
+
+  /**
+   * Map `rename` fixes to prefix renames. Each changed path segment renames the
+   * key in every file that defines a token under it. Renames that conflict with
+   * another fix or with an existing key are skipped.
+   */
+  private planRenames(
+    issues: LintIssue[],
+    sources: Map<string, TokenSource[]>,
+    files: Map<string, TokenFile>,
+  ): PrefixRename[] {
+    const renames = new Map<string, PrefixRename | null>()
+
+    for (const { fix, ruleId, tokenPath } of issues) {
+      if (fix?.type !== 'rename') {
+        continue
+      }
+      const to = fix.name.split('.')
+      if (to.length !== tokenPath.length) {
+        continue
+      }
+
+      for (let index = 0; index < tokenPath.length; index++) {
+        if (tokenPath[index] === to[index]) {
+          continue
+        }
+        const from = tokenPath.slice(0, index + 1)
+        const target = [...tokenPath.slice(0, index), to[index] as string]
+        const key = from.join('.')
+        const existing = renames.get(key)
+        if (existing === undefined) {
+          renames.set(key, { ruleId, from, to: target, keys: [] })
+        } else if (existing !== null && !samePath(existing.to, target)) {
+          renames.set(key, null)
+        }
+      }
+    }
+
+    const planned: PrefixRename[] = []
+
+    for (const rename of renames.values()) {
+      if (rename && this.locateKeys(rename, sources, files)) {
+        planned.push(rename)
+      }
+    }
+
+    return planned
+  }
+
+  /**
+   * Find the key to rename in each file defining tokens under the prefix.
+   * Returns false when a key cannot be renamed safely.
+   */
+  private locateKeys(
+    rename: PrefixRename,
+    sources: Map<string, TokenSource[]>,
+    files: Map<string, TokenFile>,
+  ): boolean {
+    const depth = rename.from.length
+
+    for (const [name, definitions] of sources) {
+      const path = name.split('.')
+      if (!samePath(path.slice(0, depth), rename.from)) {
+        continue
+      }
+
+      for (const source of definitions) {
+        const segments = decodePointer(source.pointer) as string[]
+        const rawLength = path.length + (segments[segments.length - 1] === '$root' ? 1 : 0)
+        const keyPath = segments.slice(0, segments.length - rawLength + depth)
+        if (rename.keys.some((k) => k.file === source.file && samePath(k.keyPath, keyPath))) {
+          continue
+        }
+
+        // The key must exist under its old name (not e.g. inherited via $extends)
+        // and the new name must be free
+        const parent = getAtPath(files.get(source.file)?.data, keyPath.slice(0, -1))
+        if (
+          keyPath[keyPath.length - 1] !== rename.from[depth - 1] ||
+          !isObject(parent) ||
+          Object.hasOwn(parent, rename.to[depth - 1] as string)
+        ) {
+          return false
+        }
+        rename.keys.push({ file: source.file, keyPath })
+      }
+    }
+
+    return rename.keys.length > 0
+  }
+
+  /**
+   * Rewrite `{alias}` references in `$value` and `$extends`, and `$ref` JSON
+   * Pointers (within the file or into another file) to renamed keys
+   */
+  private updateReferences(
+    node: unknown,
+    renames: PrefixRename[],
+    file: string,
+    path: string[],
+    changes: LintFixChange[],
+    inValue = false,
+  ): boolean {
+    if (!isObject(node) && !Array.isArray(node)) {
+      return false
+    }
+
+    const container = node as Record<string, unknown>
+    let updated = false
+
+    for (const [key, value] of Object.entries(container)) {
+      const childPath = [...path, key]
+      const isValue = inValue || key === '$value'
+      if (typeof value !== 'string') {
+        updated =
+          this.updateReferences(value, renames, file, childPath, changes, isValue) || updated
+        continue
+      }
+
+      const applied: PrefixRename[] = []
+      let rewritten = value
+      if (key === '$ref') {
+        rewritten = this.renamePointer(value, renames, file, applied)
+      } else if (isValue || key === '$extends') {
+        rewritten = renameAliases(value, renames, applied)
+      }
+      if (rewritten === value) {
+        continue
+      }
+
+      container[key] = rewritten
+      updated = true
+      changes.push({
+        ruleId: applied[0]?.ruleId ?? '',
+        file,
+        pointer: encodePointer(childPath),
+        description: `update reference '${value}' to '${rewritten}'`,
+      })
+    }
+
+    return updated
+  }
+
+  /**
+   * Rename the segments of a `$ref` fragment that point at renamed keys of the
+   * referenced file (the current file for `#/` pointers)
+   */
+  private renamePointer(
+    value: string,
+    renames: PrefixRename[],
+    file: string,
+    applied: PrefixRename[],
+  ): string {
+    const [filePath = '', fragment] = value.split('#')
+    if (!fragment?.startsWith('/')) {
+      return value
+    }
+
+    const target =
+      filePath === ''
+        ? file
+        : path.isAbsolute(filePath)
+          ? filePath
+          : path.resolve(this.baseDir, filePath)
+    const segments = decodePointer(fragment) as string[]
+    const renamed = [...segments]
+    for (const rename of renames) {
+      for (const { file: keyFile, keyPath } of rename.keys) {
+        if (keyFile === target && samePath(segments.slice(0, keyPath.length), keyPath)) {
+          renamed[keyPath.length - 1] = rename.to[rename.to.length - 1] as string
+          applied.push(rename)
+        }
+      }
+    }
+
+    return samePath(renamed, segments) ? value : `${filePath}#${encodePointer(renamed)}`
+  }
+
+  private markChanged(files: Map<string, TokenFile>, file: string): void {
+    const tokenFile = files.get(file)
+    if (tokenFile) {
+      tokenFile.changed = true
+    }
+  }
+}
+
+function renameAliases(value: string, renames: PrefixRename[], applied: PrefixRename[]): string {
+  return value.replace(REFERENCE_PATTERN, (match, ref: string) => {
+    const renamed = renamePath(ref.split('.'), renames, applied)
+    return renamed ? `{${renamed.join('.')}}` : match
+  })
+}
+
+/**
+ * Apply renames (ordered deepest first) to a token path; undefined when none applies
+ */
+function renamePath(
+  path: string[],
+  renames: PrefixRename[],
+  applied: PrefixRename[],
+): string[] | undefined {
+  let current = path
+  for (const rename of renames) {
+    if (samePath(current.slice(0, rename.from.length), rename.from)) {
+      current = [...rename.to, ...current.slice(rename.from.length)]
+      applied.push(rename)
+    }
+  }
+  return current === path ? undefined : current
+}
+
+/**
+ * Rename an object key in place, keeping its position
+ */
+function renameKey(object: Record<string, unknown>, from: string, to: string): void {
+  const entries = Object.entries(object)
+  for (const key of Object.keys(object)) {
+    delete object[key]
+  }
+  for (const [key, value] of entries) {
+    object[key === from ? to : key] = value
+  }
+}
+
+function getAtPath(data: unknown, path: string[]): unknown {
+  let current = data
+  for (const segment of path) {
+    if (!isObject(current)) {
+      return undefined
+    }
+    current = current[segment]
+  }
+  return current
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function samePath(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((segment, index) => segment === b[index])
+}
+
+/**
+ * Serialize JSON with the indentation and trailing newline of the original text
+ */
+function stringifyLike(data: unknown, original: string): string {
+  const indent = /^([ \t]+)\S/m.exec(original)?.[1] ?? '  '
+  const trailingNewline = original.endsWith('\n') ? '\n' : ''
+  return `${JSON.stringify(data, null, indent)}${trailingNewline}`
+}
@@ -13,25 +13,39 @@
  * - Loading plugins and resolving rule configurations
  * - Executing rules in parallel for performance
  * - Collecting and aggregating lint issues
+ * - Filtering issues suppressed through `$extensions["dispersa.lint"]`
  * - Interpolating message templates with data
  */
 
-import type { InternalResolvedTokens, TokenType } from '@tokens/types'
+import type { ModifierInputs } from '@resolution/types'
+import type {
+  InternalResolvedToken,
+  InternalResolvedTokens,
+  TokenLintSuppression,
+  TokenSource,
+  TokenType,
+} from '@tokens/types'
 
 import { PluginLoader } from './plugin-loader'
 import type {
   AnyLintRule,
   LintConfig,
   LintIssue,
+  LintPermutation,
+  LintPermutationSelector,
   LintPlugin,
   LintReportDescriptor,
   LintResult,
   LintRuleContext,
+  LintRuleScope,
   ResolvedLintConfig,
   ResolvedRuleConfig,
   RuleConfig,
 } from './types'
 
+/** Rule ID of issues reported for suppressions that no longer suppress anything */
+const UNUSED_SUPPRESSION_RULE_ID = 'lint/unused-suppression'
+
 export type LintRunnerOptions = LintConfig & {
   /** Callback for runner warnings (e.g. unknown rule). Defaults to console.warn. */
   onWarn?: (message: string) => void
@@ -74,38 +88,83 @@ export class LintRunner {
    * Run all configured rules against the provided tokens
    *
    * Rules are executed in parallel for performance. Issues are collected
-   * and returned with counts by severity.
+   * and returned with counts by severity. Issues of rules disabled on the
+   * token or one of its groups (`$extensions["dispersa.lint"].disable`) are
+   * dropped, and suppressions of enabled rules that matched no issue are
+   * reported as `lint/unused-suppression`.
    *
    * @param tokens - Resolved tokens to lint
+   * @param modifierInputs - Modifier inputs of the permutation the tokens belong to
    * @returns Lint result with issues and counts
    */
-  async run(tokens: InternalResolvedTokens): Promise<LintResult> {
+  async run(tokens: InternalResolvedTokens, modifierInputs?: ModifierInputs): Promise<LintResult> {
+    const permutation = { tokens, modifierInputs }
+    const usedSuppressions = new Set<string>()
+    const issues = await this.runRules(permutation, [permutation], usedSuppressions)
+
+    return this.createResult([
+      ...issues,
+      ...this.findUnusedSuppressions([tokens], usedSuppressions),
+    ])
+  }
+
+  /**
+   * Run the configured rules of one scope against a token set
+   *
+   * @param target - Tokens (and modifier inputs) passed to the rules as `tokens`
+   * @param permutations - All permutations of the lint run, passed as `permutations`
+   * @param usedSuppressions - Collects the keys of suppressions that dropped an issue
+   * @param scope - Only run rules of this scope; runs every rule when omitted
+   */
+  private async runRules(
+    target: LintPermutation,
+    permutations: LintPermutation[],
+    usedSuppressions: Set<string>,
+    scope?: LintRuleScope,
+  ): Promise<LintIssue[]> {
     this.resolvedConfig ??= await this.resolveConfig()
 
     const { rules, plugins } = this.resolvedConfig
-    const issues: LintIssue[] = []
-
-    if (Object.keys(rules).length === 0) {
-      return { issues: [], errorCount: 0, warningCount: 0 }
-    }
 
     const rulePromises = Object.entries(rules).map(async ([ruleId, ruleConfig]) => {
       const { severity, options } = ruleConfig
 
       const rule = this.resolveRule(ruleId, plugins)
       if (!rule) {
-        this.warn(`[lint] Unknown rule '${ruleId}' - no plugin provides this rule`)
+        if (scope !== 'all') {
+          this.warn(`[lint] Unknown rule '${ruleId}' - no plugin provides this rule`)
+        }
+        return []
+      }
+
+      if (scope !== undefined && (rule.meta.scope ?? 'permutation') !== scope) {
+        return []
+      }
+
+      // Narrow the run to the permutations selected in the rule config
+      const selected = this.selectPermutations(permutations, ruleConfig.permutations)
+      let ruleTarget = target
+      if (scope === 'all') {
+        if (selected.length === 0) {
+          return []
+        }
+        if (selected !== permutations) {
+          ruleTarget = { tokens: this.mergeTokenSets(selected.map((p) => p.tokens)) }
+        }
+      } else if (!this.matchesSelectors(target.modifierInputs, ruleConfig.permutations)) {
         return []
       }
 
       const reports: LintReportDescriptor<string>[] = []
-      const applicableTokens = this.filterTokensByAppliesTo(tokens, rule.meta.appliesTo)
+      const applicableTokens = this.filterTokensByAppliesTo(ruleTarget.tokens, rule.meta.appliesTo)
       const mergedOptions = rule.defaultOptions ? { ...rule.defaultOptions, ...options } : options
 
       const context: LintRuleContext<string, Record<string, unknown>> = {
         id: ruleId,
         options: mergedOptions,
         tokens: applicableTokens,
+        modifierInputs: ruleTarget.modifierInputs,
+        permutations: selected,
         report: (descriptor) => {
           reports.push(descriptor)
         },
@@ -126,25 +185,172 @@ export class LintRunner {
         ]
       }
 
-      return reports.map((report) => {
+      return reports.flatMap((report): LintIssue[] => {
+        const token = report.token as InternalResolvedToken
+        const suppression = this.findSuppression(token, ruleId)
+        if (suppression) {
+          usedSuppressions.add(this.getSuppressionKey(suppression, ruleId))
+          return []
+        }
+
         const messageTemplate = rule.meta.messages[report.messageId]
         const message = messageTemplate
           ? this.interpolateMessage(messageTemplate, report.data)
           : report.messageId
 
-        return {
-          ruleId,
-          severity,
-          message,
-          tokenName: report.token.name,
-          tokenPath: report.token.path,
-        }
+        const location = token._source
+
+        // Rules across permutations report for every selected permutation defining the token
+        const modifierInputs = (
+          scope === 'all' ? selected.filter((p) => token.name in p.tokens) : [ruleTarget]
+        ).flatMap((p) => (p.modifierInputs ? [p.modifierInputs] : []))
+
+        return [
+          {
+            ruleId,
+            severity,
+            message,
+            tokenName: report.token.name,
+            tokenPath: report.token.path,
+            ...(location && { location }),
+            ...(modifierInputs.length > 0 && { modifierInputs }),
+            ...(report.fix && { fix: report.fix }),
+          },
+        ]
       })
     })
 
     const allIssues = await Promise.all(rulePromises)
-    issues.push(...allIssues.flat())
+    return allIssues.flat()
+  }
+
+  /**
+   * Permutations matching one of the selectors; all of them without selectors
+   */
+  private selectPermutations(
+    permutations: LintPermutation[],
+    selectors: LintPermutationSelector[] | undefined,
+  ): LintPermutation[] {
+    if (!selectors) {
+      return permutations
+    }
+    return permutations.filter((p) => this.matchesSelectors(p.modifierInputs, selectors))
+  }
+
+  /**
+   * Whether modifier inputs match one of the selectors. Token sets without
+   * modifier inputs only match when there are no selectors.
+   */
+  private matchesSelectors(
+    modifierInputs: ModifierInputs | undefined,
+    selectors: LintPermutationSelector[] | undefined,
+  ): boolean {
+    if (!selectors) {
+      return true
+    }
+    if (!modifierInputs) {
+      return false
+    }
+
+    const inputs = new Map(
+      Object.entries(modifierInputs).map(([modifier, context]) => [
+        modifier.toLowerCase(),
+        context.toLowerCase(),
+      ]),
+    )
+    return selectors.some((selector) =>
+      Object.entries(selector).every(([modifier, contexts]) => {
+        const context = inputs.get(modifier.toLowerCase())
+        const allowed = typeof contexts === 'string' ? [contexts] : contexts
+        return context !== undefined && allowed.some((c) => c.toLowerCase() === context)
+      }),
+    )
+  }
+
+  /**
+   * Innermost suppression of the token disabling the rule
+   */
+  private findSuppression(
+    token: InternalResolvedToken,
+    ruleId: string,
+  ): TokenLintSuppression | undefined {
+    const suppressions = token._lintSuppressions ?? []
+    return [...suppressions].reverse().find((suppression) => suppression.rules.includes(ruleId))
+  }
+
+  private getSuppressionKey(suppression: TokenLintSuppression, ruleId: string): string {
+    return `${ruleId}:${suppression.path.join('.')}`
+  }
 
+  /**
+   * Report suppressed rules that ran without dropping an issue of the
+   * declaring token or group. Suppressions of disabled or unknown rules are
+   * not reported, since the rule did not run.
+   */
+  private findUnusedSuppressions(
+    tokenSets: InternalResolvedTokens[],
+    usedSuppressions: Set<string>,
+  ): LintIssue[] {
+    const severity = this.config.reportUnusedSuppressions ?? 'warn'
+    if (severity === 'off' || !this.resolvedConfig) {
+      return []
+    }
+
+    const { rules, plugins } = this.resolvedConfig
+    const issues: LintIssue[] = []
+    const reported = new Set<string>()
+
+    for (const tokens of tokenSets) {
+      for (const token of Object.values(tokens)) {
+        for (const suppression of token._lintSuppressions ?? []) {
+          for (const ruleId of suppression.rules) {
+            const key = this.getSuppressionKey(suppression, ruleId)
+            if (
+              usedSuppressions.has(key) ||
+              reported.has(key) ||
+              !rules[ruleId] ||
+              !this.resolveRule(ruleId, plugins)
+            ) {
+              continue
+            }
+
+            reported.add(key)
+            const location = this.locateSuppression(token, suppression)
+            const name = suppression.path.join('.')
+            issues.push({
+              ruleId: UNUSED_SUPPRESSION_RULE_ID,
+              severity,
+              message: `Unused suppression: '${ruleId}' reports no issues for '${name}'`,
+              tokenName: name,
+              tokenPath: suppression.path,
+              ...(location && { location }),
+            })
+          }
+        }
+      }
+    }
+
+    return issues
+  }
+
+  /**
+   * Location of the token or group declaring a suppression, derived from
+   * the location of a token below it
+   */
+  private locateSuppression(
+    token: InternalResolvedToken,
+    suppression: TokenLintSuppression,
+  ): TokenSource | undefined {
+    const source = token._source
+    const depth = token.path.length - suppression.path.length
+    if (!source || depth <= 0) {
+      return source
+    }
+
+    return { file: source.file, pointer: source.pointer.split('/').slice(0, -depth).join('/') }
+  }
+
+  private createResult(issues: LintIssue[]): LintResult {
     const errorCount = issues.filter((i) => i.severity === 'error').length
     const warningCount = issues.filter((i) => i.severity === 'warn').length
 
@@ -162,7 +368,7 @@ export class LintRunner {
     const rules: Record<string, ResolvedRuleConfig> = {}
 
     for (const [ruleId, config] of Object.entries(ruleConfigs)) {
-      const resolved = this.resolveRuleConfig(config)
+      const resolved = this.resolveRuleConfig(ruleId, config)
       if (resolved) {
         rules[ruleId] = resolved
       }
@@ -196,7 +402,7 @@ export class LintRunner {
   /**
    * Parse rule configuration into resolved format
    */
-  private resolveRuleConfig(config: RuleConfig): ResolvedRuleConfig | null {
+  private resolveRuleConfig(ruleId: string, config: RuleConfig): ResolvedRuleConfig | null {
     // Shorthand: severity only
     if (typeof config === 'string') {
       if (config === 'off') {
@@ -206,12 +412,19 @@ export class LintRunner {
     }
 
     // Longhand: [severity, options]
-    const [severity, options = {}] = config
+    const [severity, { permutations, ...options } = {}] = config
     if (severity === 'off') {
       return null
     }
 
-    return { severity, options }
+    if (permutations === undefined) {
+      return { severity, options }
+    }
+    if (!Array.isArray(permutations)) {
+      this.warn(`[lint] Rule '${ruleId}': 'permutations' must be an array of modifier selectors`)
+      return { severity, options }
+    }
+    return { severity, options, permutations: permutations as LintPermutationSelector[] }
   }
 
   /**
@@ -265,32 +478,71 @@ export class LintRunner {
    *
    * When running lint across multiple permutations (e.g., light/dark themes),
    * the same issue may appear multiple times. This method deduplicates issues
-   * by ruleId, tokenName, and message.
+   * by ruleId, tokenName, message and source location, and lists the modifier
+   * inputs of every permutation an issue occurs in.
    *
    * Use this for both standalone lint and build lint to ensure identical output.
+   * Rules with `meta.scope: 'all'` run once with the tokens of every set combined.
    *
    * @param tokenSets - Array of resolved token sets to lint
+   * @param modifierInputs - Modifier inputs of each token set, in the same order
    * @returns Combined lint result with deduplicated issues
    */
-  async runMultiple(tokenSets: InternalResolvedTokens[]): Promise<LintResult> {
-    const results = await Promise.all(tokenSets.map((tokens) => this.run(tokens)))
-
-    const allIssues = results.flatMap((result) => result.issues)
-
-    const seen = new Set<string>()
-    const deduplicated: LintIssue[] = []
+  async runMultiple(
+    tokenSets: InternalResolvedTokens[],
+    modifierInputs?: ModifierInputs[],
+  ): Promise<LintResult> {
+    const permutations: LintPermutation[] = tokenSets.map((tokens, index) => ({
+      tokens,
+      modifierInputs: modifierInputs?.[index],
+    }))
+
+    const usedSuppressions = new Set<string>()
+    const results = await Promise.all(
+      permutations.map((permutation) =>
+        this.runRules(permutation, permutations, usedSuppressions, 'permutation'),
+      ),
+    )
+    const crossPermutationIssues = await this.runRules(
+      { tokens: this.mergeTokenSets(tokenSets) },
+      permutations,
+      usedSuppressions,
+      'all',
+    )
+
+    // A suppression is needed when it drops an issue in any permutation
+    const allIssues = [
+      ...results.flat(),
+      ...crossPermutationIssues,
+      ...this.findUnusedSuppressions(tokenSets, usedSuppressions),
+    ]
+
+    const seen = new Map<string, LintIssue>()
 
     for (const issue of allIssues) {
-      const key = `${issue.ruleId}:${issue.tokenName}:${issue.message}`
-      if (!seen.has(key)) {
-        seen.add(key)
-        deduplicated.push(issue)
+      const location = issue.location ? `${issue.location.file}#${issue.location.pointer}` : ''
+      const key = `${issue.ruleId}:${issue.tokenName}:${issue.message}:${location}`
+      const existing = seen.get(key)
+      if (!existing) {
+        seen.set(key, issue)
+      } else if (issue.modifierInputs) {
+        existing.modifierInputs = [...(existing.modifierInputs ?? []), ...issue.modifierInputs]
       }
     }
 
-    const errorCount = deduplicated.filter((i) => i.severity === 'error').length
-    const warningCount = deduplicated.filter((i) => i.severity === 'warn').length
+    return { ...this.createResult([...seen.values()]), permutationCount: tokenSets.length }
+  }
 
-    return { issues: deduplicated, errorCount, warningCount }
+  /**
+   * Combine token sets into one, keeping the first occurrence of each token
+   */
+  private mergeTokenSets(tokenSets: InternalResolvedTokens[]): InternalResolvedTokens {
+    const merged: InternalResolvedTokens = {}
+    for (const tokens of tokenSets) {
+      for (const [name, token] of Object.entries(tokens)) {
+        merged[name] ??= token
+      }
+    }
+    return merged
   }
 }
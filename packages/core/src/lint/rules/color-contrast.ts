@@ -0,0 +1,186 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * @fileoverview Rule: color-contrast
+ *
+ * Checks the contrast between foreground and background color tokens using
+ * the WCAG 2.x contrast ratio or the APCA lightness contrast (Lc).
+ */
+
+import { createRule } from '@lint/create-rule'
+import { matchesGlob } from '@lint/utils'
+import { dtcgObjectToCulori, isColorObject } from '@processing/transforms/built-in/color-converter'
+import type { ResolvedToken } from '@tokens/types'
+import { clampRgb, converter, wcagLuminance, type Rgb } from 'culori'
+
+export const ColorContrastMessages = {
+  LOW_CONTRAST: 'LOW_CONTRAST',
+} as const
+
+export type ColorContrastAlgorithm = 'wcag2' | 'apca'
+
+export type ColorContrastPair = {
+  /** Foreground token names or glob patterns (e.g. 'color.text.*') */
+  foreground: string | string[]
+  /** Background token names or glob patterns (e.g. 'color.background.*') */
+  background: string | string[]
+  /** Minimum contrast for this pair. Defaults to the rule's `min` */
+  min?: number
+}
+
+export type ColorContrastOptions = {
+  /** Foreground/background pairs to check */
+  pairs?: ColorContrastPair[]
+  /** Contrast algorithm (default: 'wcag2') */
+  algorithm?: ColorContrastAlgorithm
+  /** Minimum contrast: a ratio for 'wcag2' (default: 4.5), an absolute Lc for 'apca' (default: 60) */
+  min?: number
+}
+
+const DEFAULT_MIN: Record<ColorContrastAlgorithm, number> = {
+  wcag2: 4.5,
+  apca: 60,
+}
+
+const toRgb = converter('rgb')
+
+/**
+ * Convert a color token value to clamped sRGB, or undefined for non-color values
+ */
+function toSrgb(value: unknown): Rgb | undefined {
+  if (!isColorObject(value)) {
+    return undefined
+  }
+  return clampRgb(toRgb(dtcgObjectToCulori(value)))
+}
+
+/**
+ * Composite a translucent foreground over the background (background alpha is ignored)
+ */
+function composite(foreground: Rgb, background: Rgb): Rgb {
+  const alpha = foreground.alpha ?? 1
+  const mix = (fg: number, bg: number) => fg * alpha + bg * (1 - alpha)
+  return {
+    mode: 'rgb',
+    r: mix(foreground.r, background.r),
+    g: mix(foreground.g, background.g),
+    b: mix(foreground.b, background.b),
+  }
+}
+
+function wcagContrastRatio(foreground: Rgb, background: Rgb): number {
+  const l1 = wcagLuminance(foreground)
+  const l2 = wcagLuminance(background)
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05)
+}
+
+/**
+ * APCA screen luminance (0.0.98G-4g constants), with the soft clamp for near-black colors
+ */
+function apcaLuminance({ r, g, b }: Rgb): number {
+  const y = 0.2126729 * r ** 2.4 + 0.7151522 * g ** 2.4 + 0.072175 * b ** 2.4
+  return y < 0.022 ? y + (0.022 - y) ** 1.414 : y
+}
+
+/**
+ * APCA lightness contrast (Lc) of text on a background
+ *
+ * Positive for dark text on light backgrounds, negative for light text on dark backgrounds.
+ */
+function apcaContrast(text: Rgb, background: Rgb): number {
+  const yText = apcaLuminance(text)
+  const yBackground = apcaLuminance(background)
+  if (Math.abs(yBackground - yText) < 0.0005) {
+    return 0
+  }
+
+  if (yBackground > yText) {
+    const sapc = (yBackground ** 0.56 - yText ** 0.57) * 1.14
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100
+  }
+
+  const sapc = (yBackground ** 0.65 - yText ** 0.62) * 1.14
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100
+}
+
+function matchTokens(
+  tokens: Record<string, ResolvedToken>,
+  patterns: string | string[],
+): ResolvedToken[] {
+  const list = Array.isArray(patterns) ? patterns : [patterns]
+  return Object.values(tokens).filter((token) => matchesGlob(token.name, list))
+}
+
+/**
+ * Format a contrast value, truncated so values just below the minimum never display as equal
+ */
+function formatContrast(value: number, algorithm: ColorContrastAlgorithm): string {
+  if (algorithm === 'apca') {
+    return `Lc ${Math.floor(value * 10) / 10}`
+  }
+  return `${Math.floor(value * 100) / 100}:1`
+}
+
+export const colorContrast = createRule<
+  (typeof ColorContrastMessages)[keyof typeof ColorContrastMessages],
+  ColorContrastOptions
+>({
+  meta: {
+    name: 'color-contrast',
+    description: 'Require a minimum contrast between foreground and background color tokens',
+    messages: {
+      LOW_CONTRAST:
+        "Token '{{foreground}}' on '{{background}}' has a contrast of {{contrast}}, below {{min}}",
+    },
+    appliesTo: ['color'],
+  },
+  defaultOptions: {},
+  create({ tokens, options, report }) {
+    const algorithm = options.algorithm ?? 'wcag2'
+
+    for (const pair of options.pairs ?? []) {
+      const min = pair.min ?? options.min ?? DEFAULT_MIN[algorithm]
+      const backgrounds = matchTokens(tokens, pair.background)
+
+      for (const foreground of matchTokens(tokens, pair.foreground)) {
+        const foregroundColor = toSrgb(foreground.$value)
+        if (!foregroundColor) {
+          continue
+        }
+
+        for (const background of backgrounds) {
+          const backgroundColor = toSrgb(background.$value)
+          if (!backgroundColor || background.name === foreground.name) {
+            continue
+          }
+
+          const text = composite(foregroundColor, backgroundColor)
+          const contrast =
+            algorithm === 'apca'
+              ? Math.abs(apcaContrast(text, backgroundColor))
+              : wcagContrastRatio(text, backgroundColor)
+          if (contrast >= min) {
+            continue
+          }
+
+          report({
+            token: foreground,
+            messageId: 'LOW_CONTRAST',
+            data: {
+              foreground: foreground.name,
+              background: background.name,
+              contrast: formatContrast(contrast, algorithm),
+              min: formatContrast(min, algorithm),
+            },
+          })
+        }
+      }
+    }
+  },
+})
@@ -12,22 +12,31 @@
 
 import type { LintPlugin, LintConfig } from '@lint/types'
 
+import type { ColorContrastOptions } from './color-contrast'
+import { colorContrast } from './color-contrast'
 import type { NamingConventionOptions } from './naming-convention'
 import { namingConvention } from './naming-convention'
 import type { NoDeprecatedUsageOptions } from './no-deprecated-usage'
 import { noDeprecatedUsage } from './no-deprecated-usage'
 import type { NoDuplicateValuesOptions } from './no-duplicate-values'
 import { noDuplicateValues } from './no-duplicate-values'
+import type { NoUnusedTokensOptions } from './no-unused-tokens'
+import { noUnusedTokens } from './no-unused-tokens'
 import type { PathSchemaConfig } from './path-schema'
 import { pathSchema } from './path-schema'
 import type { RequireDescriptionOptions } from './require-description'
 import { requireDescription } from './require-description'
+import type { TokenTiersOptions } from './token-tiers'
+import { tokenTiers } from './token-tiers'
 
 // Re-export rules for direct use
 export { requireDescription } from './require-description'
 export { namingConvention } from './naming-convention'
 export { noDeprecatedUsage } from './no-deprecated-usage'
 export { noDuplicateValues } from './no-duplicate-values'
+export { colorContrast } from './color-contrast'
+export { tokenTiers } from './token-tiers'
+export { noUnusedTokens } from './no-unused-tokens'
 export {
   pathSchema,
   type PathSchemaConfig,
@@ -40,6 +49,13 @@ export type { RequireDescriptionOptions } from './require-description'
 export type { NamingConventionOptions } from './naming-convention'
 export type { NoDeprecatedUsageOptions } from './no-deprecated-usage'
 export type { NoDuplicateValuesOptions } from './no-duplicate-values'
+export type {
+  ColorContrastAlgorithm,
+  ColorContrastOptions,
+  ColorContrastPair,
+} from './color-contrast'
+export type { TokenTier, TokenTiersOptions } from './token-tiers'
+export type { NoUnusedTokensOptions } from './no-unused-tokens'
 
 /**
  * Builds the dispersa plugin with its predefined configs.
@@ -55,6 +71,9 @@ function buildDispersaPlugin() {
     'no-deprecated-usage': noDeprecatedUsage,
     'no-duplicate-values': noDuplicateValues,
     'path-schema': pathSchema,
+    'color-contrast': colorContrast,
+    'token-tiers': tokenTiers,
+    'no-unused-tokens': noUnusedTokens,
   }
 
   const plugin: LintPlugin = { meta: { name: 'dispersa' }, rules, configs: {} }
@@ -137,5 +156,8 @@ declare module '../types' {
     'dispersa/no-deprecated-usage': NoDeprecatedUsageOptions
     'dispersa/no-duplicate-values': NoDuplicateValuesOptions
     'dispersa/path-schema': PathSchemaConfig
+    'dispersa/color-contrast': ColorContrastOptions
+    'dispersa/token-tiers': TokenTiersOptions
+    'dispersa/no-unused-tokens': NoUnusedTokensOptions
   }
 }
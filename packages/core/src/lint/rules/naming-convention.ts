@@ -9,7 +9,8 @@
 /**
  * @fileoverview Rule: naming-convention
  *
- * Enforces consistent token naming conventions.
+ * Enforces consistent token naming conventions. Segments that do not match a
+ * built-in format are fixable by converting them to that format.
  */
 
 import { createRule } from '@lint/create-rule'
@@ -51,6 +52,33 @@ const PATTERNS: Record<string, RegExp> = {
 
 const DEFAULT_PATTERN = /^[a-z][a-z0-9]*(-[a-z][a-z0-9]*)*$/
 
+/**
+ * Convert a name segment to a built-in format, splitting it into words at
+ * case changes and separators (e.g. 'brandPrimary', 'brand_primary')
+ */
+function convertSegment(segment: string, format: string): string {
+  const words = segment
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter((word) => word !== '')
+    .map((word) => word.toLowerCase())
+  const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1)
+
+  switch (format) {
+    case 'camelCase':
+      return words.map((word, index) => (index === 0 ? word : capitalize(word))).join('')
+    case 'PascalCase':
+      return words.map(capitalize).join('')
+    case 'snake_case':
+      return words.join('_')
+    case 'screaming-snake':
+      return words.join('_').toUpperCase()
+    default:
+      return words.join('-')
+  }
+}
+
 export const namingConvention = createRule<
   (typeof NamingConventionMessages)[keyof typeof NamingConventionMessages],
   NamingConventionOptions
@@ -81,6 +109,21 @@ export const namingConvention = createRule<
 
     // Pattern for pure numeric segments (common in design systems: spacing.0, spacing.1)
     const numericPattern = /^\d+$/
+    const isValidSegment = (segment: string) =>
+      (allowNumericSegments && numericPattern.test(segment)) || segmentPattern.test(segment)
+
+    // Rename every invalid segment, unless a custom pattern is used or a segment cannot be converted
+    const createFix = (segments: string[]) => {
+      if (customPattern) {
+        return undefined
+      }
+      const fixed = segments.map((segment) =>
+        isValidSegment(segment) ? segment : convertSegment(segment, format),
+      )
+      return fixed.every(isValidSegment)
+        ? { type: 'rename' as const, name: fixed.join('.') }
+        : undefined
+    }
 
     for (const token of Object.values(tokens)) {
       // Skip ignored tokens
@@ -93,16 +136,12 @@ export const namingConvention = createRule<
       let hasError = false
 
       for (const segment of segments) {
-        // Allow pure numeric segments if option is enabled
-        if (allowNumericSegments && numericPattern.test(segment)) {
-          continue
-        }
-
-        if (!segmentPattern.test(segment)) {
+        if (!isValidSegment(segment)) {
           report({
             token,
             messageId: 'INVALID_SEGMENT',
             data: { name: token.name, segment, format: customPattern ?? format },
+            fix: createFix(segments),
           })
           hasError = true
           break
@@ -9,7 +9,9 @@
 /**
  * @fileoverview Rule: no-duplicate-values
  *
- * Detects tokens with duplicate values (excluding aliases).
+ * Detects tokens with duplicate values (excluding aliases). Duplicates are
+ * fixable by aliasing the first token with the value when both tokens have
+ * equal values in every permutation.
  */
 
 import { createRule } from '@lint/create-rule'
@@ -66,8 +68,19 @@ export const noDuplicateValues = createRule<
     },
   },
   defaultOptions: {},
-  create({ tokens, options, report }) {
+  create({ tokens, permutations, options, report }) {
     const ignore = options.ignore ?? []
+
+    // An alias is only safe if it does not change the token in any permutation
+    const equalEverywhere = (name: string, target: string) =>
+      permutations.every(({ tokens: permutationTokens }) => {
+        const token = permutationTokens[name]
+        const targetToken = permutationTokens[target]
+        if (!token) {
+          return true
+        }
+        return !!targetToken && valueKey(token.$value) === valueKey(targetToken.$value)
+      })
     const types = options.types
 
     const valueMap = new Map<string, (typeof tokens)[string][]>()
@@ -108,6 +121,9 @@ export const noDuplicateValues = createRule<
               token: current,
               messageId: 'DUPLICATE_VALUE',
               data: { name: current.name, duplicate: first.name },
+              fix: equalEverywhere(current.name, first.name)
+                ? { type: 'alias', token: first.name }
+                : undefined,
             })
           }
         }
@@ -0,0 +1,89 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * @fileoverview Rule: no-unused-tokens
+ *
+ * Detects primitive tokens that no other token references in any permutation.
+ */
+
+import { createRule } from '@lint/create-rule'
+import { extractReferences, matchesGlob } from '@lint/utils'
+
+export const NoUnusedTokensMessages = {
+  UNUSED_TOKEN: 'UNUSED_TOKEN',
+} as const
+
+export type NoUnusedTokensOptions = {
+  /** Tokens that must be referenced to count as used (glob patterns). Unset disables the rule */
+  primitives?: string[]
+  /** Public tokens consumed directly by products, never reported (glob patterns) */
+  allow?: string[]
+}
+
+export const noUnusedTokens = createRule<
+  (typeof NoUnusedTokensMessages)[keyof typeof NoUnusedTokensMessages],
+  NoUnusedTokensOptions
+>({
+  meta: {
+    name: 'no-unused-tokens',
+    description: 'Disallow primitive tokens that are not referenced in any permutation',
+    messages: {
+      UNUSED_TOKEN:
+        "Token '{{name}}' is not referenced by any token. Remove it or allow it as a public token.",
+    },
+    scope: 'all',
+  },
+  defaultOptions: {},
+  create({ tokens, permutations, options, report }) {
+    const primitives = options.primitives ?? []
+    const allow = options.allow ?? []
+    if (primitives.length === 0) {
+      return
+    }
+
+    // Alias graph across all permutations: token name -> referenced token names
+    const references = new Map<string, Set<string>>()
+    for (const permutation of permutations) {
+      for (const token of Object.values(permutation.tokens)) {
+        const refs = references.get(token.name) ?? new Set<string>()
+        for (const ref of extractReferences(token.originalValue)) {
+          refs.add(ref)
+        }
+        references.set(token.name, refs)
+      }
+    }
+
+    // Tokens outside the primitives and public tokens are used by definition;
+    // everything they reference, directly or through other aliases, is used too
+    const isPrimitive = (name: string) => matchesGlob(name, primitives)
+    const used = new Set<string>()
+    const pending = [...references.keys()].filter(
+      (name) => !isPrimitive(name) || (allow.length > 0 && matchesGlob(name, allow)),
+    )
+
+    while (pending.length > 0) {
+      const name = pending.pop()
+      if (name === undefined || used.has(name)) {
+        continue
+      }
+      used.add(name)
+      for (const ref of references.get(name) ?? []) {
+        if (!used.has(ref)) {
+          pending.push(ref)
+        }
+      }
+    }
+
+    for (const token of Object.values(tokens)) {
+      if (!used.has(token.name)) {
+        report({ token, messageId: 'UNUSED_TOKEN', data: { name: token.name } })
+      }
+    }
+  },
+})
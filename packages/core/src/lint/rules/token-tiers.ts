@@ -0,0 +1,136 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * @fileoverview Rule: token-tiers
+ *
+ * Enforces a tiered token architecture (e.g. primitive → semantic → component):
+ * tokens may only reference the tier directly below their own, and tiers above
+ * the first must alias instead of hard-coding values.
+ */
+
+import { createRule } from '@lint/create-rule'
+import { extractReferences, matchesGlob } from '@lint/utils'
+
+export const TokenTiersMessages = {
+  RAW_VALUE: 'RAW_VALUE',
+  UPWARD_REFERENCE: 'UPWARD_REFERENCE',
+  SAME_TIER_REFERENCE: 'SAME_TIER_REFERENCE',
+  SKIPPED_TIER: 'SKIPPED_TIER',
+} as const
+
+export type TokenTier = {
+  /** Tier name used in messages (e.g. 'semantic') */
+  name: string
+  /** Token names or glob patterns belonging to this tier (e.g. 'color.semantic.*') */
+  tokens: string | string[]
+  /** Require tokens to reference another token. Default: true for every tier but the first */
+  requireAlias?: boolean
+}
+
+export type TokenTiersOptions = {
+  /** Tiers from lowest to highest (e.g. primitive, semantic, component) */
+  tiers?: TokenTier[]
+  /** Allow references that skip a tier, e.g. component → primitive (default: false) */
+  allowSkip?: boolean
+  /** Allow references within the same tier (default: true) */
+  allowSameTier?: boolean
+  /** Token name patterns to ignore (glob patterns) */
+  ignore?: string[]
+}
+
+export const tokenTiers = createRule<
+  (typeof TokenTiersMessages)[keyof typeof TokenTiersMessages],
+  TokenTiersOptions
+>({
+  meta: {
+    name: 'token-tiers',
+    description: 'Enforce that tokens only reference the tier directly below their own',
+    messages: {
+      RAW_VALUE:
+        "Token '{{name}}' in tier '{{tier}}' has a raw value. Reference a '{{expected}}' token instead.",
+      UPWARD_REFERENCE:
+        "Token '{{name}}' in tier '{{tier}}' references '{{ref}}' from the higher tier '{{refTier}}'",
+      SAME_TIER_REFERENCE:
+        "Token '{{name}}' in tier '{{tier}}' references '{{ref}}' from the same tier",
+      SKIPPED_TIER:
+        "Token '{{name}}' in tier '{{tier}}' references '{{ref}}' from tier '{{refTier}}', skipping '{{skipped}}'",
+    },
+  },
+  defaultOptions: {},
+  create({ tokens, options, report }) {
+    const tiers = options.tiers ?? []
+    const ignore = options.ignore ?? []
+    const allowSameTier = options.allowSameTier ?? true
+
+    if (tiers.length === 0) {
+      return
+    }
+
+    const tierIndexCache = new Map<string, number>()
+    const tierIndexOf = (name: string): number => {
+      let index = tierIndexCache.get(name)
+      if (index === undefined) {
+        index = tiers.findIndex((tier) =>
+          matchesGlob(name, Array.isArray(tier.tokens) ? tier.tokens : [tier.tokens]),
+        )
+        tierIndexCache.set(name, index)
+      }
+      return index
+    }
+
+    for (const token of Object.values(tokens)) {
+      if (ignore.length > 0 && matchesGlob(token.name, ignore)) {
+        continue
+      }
+
+      const index = tierIndexOf(token.name)
+      const tier = tiers[index]
+      if (!tier) {
+        continue
+      }
+
+      const refs = extractReferences(token.originalValue)
+
+      if (refs.length === 0) {
+        const requireAlias = tier.requireAlias ?? index > 0
+        const expected = tiers[Math.max(index - 1, 0)]
+        if (requireAlias && expected) {
+          report({
+            token,
+            messageId: 'RAW_VALUE',
+            data: { name: token.name, tier: tier.name, expected: expected.name },
+          })
+        }
+        continue
+      }
+
+      for (const ref of new Set(refs)) {
+        const refIndex = tierIndexOf(ref)
+        const refTier = tiers[refIndex]
+        if (!refTier) {
+          continue
+        }
+
+        const data = { name: token.name, tier: tier.name, ref, refTier: refTier.name }
+
+        if (refIndex > index) {
+          report({ token, messageId: 'UPWARD_REFERENCE', data })
+        } else if (refIndex === index && !allowSameTier) {
+          report({ token, messageId: 'SAME_TIER_REFERENCE', data })
+        } else if (refIndex < index - 1 && options.allowSkip !== true) {
+          const skipped = tiers
+            .slice(refIndex + 1, index)
+            .map((t) => t.name)
+            .join("', '")
+          report({ token, messageId: 'SKIPPED_TIER', data: { ...data, skipped } })
+        }
+      }
+    }
+  },
+})
@@ -13,7 +13,8 @@
  * architecture for validating design tokens against semantic rules.
  */
 
-import type { TokenType, InternalResolvedTokens, ResolvedToken } from '@tokens/types'
+import type { ModifierInputs } from '@resolution/types'
+import type { TokenType, InternalResolvedTokens, ResolvedToken, TokenSource } from '@tokens/types'
 
 // ============================================================================
 // SEVERITY
@@ -52,6 +53,32 @@ export type LintRuleMeta<MessageIds extends string = string> = {
 
   /** Token types this rule applies to. Default: 'all' */
   appliesTo?: TokenType[] | 'all'
+
+  /**
+   * Whether the rule runs once per permutation (default) or once across all
+   * permutations. Rules with scope `'all'` receive the tokens of every
+   * permutation combined in `tokens`.
+   */
+  scope?: LintRuleScope
+}
+
+/**
+ * How often a rule runs when linting several permutations
+ *
+ * - `'permutation'` - Once per permutation
+ * - `'all'` - Once across all permutations
+ */
+export type LintRuleScope = 'permutation' | 'all'
+
+/**
+ * Resolved tokens of one permutation
+ */
+export type LintPermutation = {
+  /** All resolved tokens of the permutation */
+  tokens: InternalResolvedTokens
+
+  /** Modifier inputs of the permutation, when known */
+  modifierInputs?: ModifierInputs
 }
 
 /**
@@ -75,6 +102,15 @@ export type LintRuleContext<
   /** All resolved tokens to validate */
   tokens: InternalResolvedTokens
 
+  /** Modifier inputs of the permutation being linted (e.g. `{ theme: 'dark' }`), when known */
+  modifierInputs?: ModifierInputs
+
+  /**
+   * Every permutation of the lint run, with all of its tokens (not filtered by `appliesTo`).
+   * Contains only the current permutation when linting a single token set.
+   */
+  permutations: LintPermutation[]
+
   /**
    * Report a lint issue
    *
@@ -97,8 +133,34 @@ export type LintReportDescriptor<MessageIds extends string = string> = {
 
   /** Data to interpolate into the message (replaces {{key}} placeholders) */
   data?: Record<string, string | number>
+
+  /** Edit to the token's source file that resolves the issue (applied by `dispersa lint --fix`) */
+  fix?: LintFix
 }
 
+/**
+ * An edit to the token file a reported token is defined in
+ *
+ * - `rename` - Rename the token to `name`. Every changed path segment renames the
+ *   matching key (a group key for parent segments), and references to the old
+ *   name are updated in all token files.
+ * - `set` - Set a token property, e.g. `$description`
+ * - `alias` - Replace the token's value with a reference to the `token` token
+ *
+ * @example
+ * ```typescript
+ * report({
+ *   token,
+ *   messageId: 'INVALID_NAME',
+ *   fix: { type: 'rename', name: 'color.brand-primary' },
+ * })
+ * ```
+ */
+export type LintFix =
+  | { type: 'rename'; name: string }
+  | { type: 'set'; property: string; value: unknown }
+  | { type: 'alias'; token: string }
+
 /**
  * A lint rule definition
  *
@@ -212,16 +274,41 @@ export type LintPlugin = {
  *
  * // Severity with options
  * ['error', { format: 'kebab-case' }]
+ *
+ * // Only in dark themes
+ * ['error', { permutations: [{ theme: 'dark' }] }]
  * ```
  */
 export type RuleConfig = Severity | [Severity, Record<string, unknown>]
 
+/**
+ * Modifier contexts selecting permutations, e.g. `{ theme: 'dark' }` or
+ * `{ brand: ['partner-a', 'partner-b'], theme: 'dark' }`
+ *
+ * Matches a permutation when every listed modifier has one of the given
+ * contexts. Names are compared case-insensitively.
+ */
+export type LintPermutationSelector = Record<string, string | string[]>
+
+/**
+ * Options accepted by every rule, handled by the lint runner
+ */
+export type LintRuleTargetOptions = {
+  /**
+   * Only run the rule in permutations matching one of the selectors.
+   * Rules with scope `'all'` receive only the matching permutations.
+   */
+  permutations?: LintPermutationSelector[]
+}
+
 /**
  * Resolved rule configuration with parsed severity and options
  */
 export type ResolvedRuleConfig = {
   severity: Exclude<Severity, 'off'>
   options: Record<string, unknown>
+  /** Permutations the rule runs in; every permutation when omitted */
+  permutations?: LintPermutationSelector[]
 }
 
 // ============================================================================
@@ -252,7 +339,9 @@ export interface RulesRegistry {}
  *
  * @template K - The rule ID key from RulesRegistry
  */
-export type RuleConfigFor<K extends keyof RulesRegistry> = Severity | [Severity, RulesRegistry[K]]
+export type RuleConfigFor<K extends keyof RulesRegistry> =
+  | Severity
+  | [Severity, RulesRegistry[K] & LintRuleTargetOptions]
 
 /**
  * Typed rules configuration with intellisense for all registered rules.
@@ -297,6 +386,18 @@ export type LintConfig<Rules extends Record<string, RuleConfig> = TypedRulesConf
 
   /** Fail build on lint errors (default: true) */
   failOnError?: boolean
+
+  /**
+   * Severity of `lint/unused-suppression` issues, reported for rules disabled
+   * through `$extensions["dispersa.lint"]` that report nothing (default: 'warn')
+   */
+  reportUnusedSuppressions?: Severity
+
+  /**
+   * Path to a baseline file of accepted issues (see `dispersa lint --baseline create`).
+   * Only issues missing from the baseline are reported.
+   */
+  baseline?: string
 }
 
 /**
@@ -351,6 +452,60 @@ export type LintIssue = {
 
   /** Token path segments (e.g., ['color', 'brand', 'primary']) */
   tokenPath: string[]
+
+  /** Token file, JSON Pointer and line/column the token is defined at, when known */
+  location?: TokenSource
+
+  /** Modifier inputs of every permutation the issue occurs in, when known */
+  modifierInputs?: ModifierInputs[]
+
+  /** Fix for the issue, when the rule provides one */
+  fix?: LintFix
+}
+
+/**
+ * An edit made (or planned, in a dry run) to a token file by `--fix`
+ */
+export type LintFixChange = {
+  /** Rule whose fix caused the edit */
+  ruleId: string
+
+  /** Absolute path of the edited token file */
+  file: string
+
+  /** JSON Pointer of the edited token or key, before the edit */
+  pointer: string
+
+  /** Human-readable summary (e.g., "rename 'Brand' to 'brand'") */
+  description: string
+}
+
+/**
+ * Baseline entry whose issues (or some of them) no longer occur
+ */
+export type LintBaselineEntry = {
+  /** Rule ID of the baselined issues */
+  ruleId: string
+
+  /** Token the baselined issues were reported for */
+  tokenName: string
+
+  /** Number of baselined issues that no longer occur */
+  count: number
+}
+
+/**
+ * Outcome of applying a lint baseline
+ */
+export type LintBaselineSummary = {
+  /** Path of the baseline file */
+  file: string
+
+  /** Number of issues hidden because they are in the baseline */
+  suppressedCount: number
+
+  /** Baseline entries that have been fixed and can be pruned */
+  fixed: LintBaselineEntry[]
 }
 
 /**
@@ -365,6 +520,15 @@ export type LintResult = {
 
   /** Count of warning-severity issues */
   warningCount: number
+
+  /** Edits made to token files, when linting with `fix` */
+  fixes?: LintFixChange[]
+
+  /** Baseline that was applied, when linting with `baseline` */
+  baseline?: LintBaselineSummary
+
+  /** Number of permutations linted, when linting several at once */
+  permutationCount?: number
 }
 
 // ============================================================================
@@ -374,9 +538,17 @@ export type LintResult = {
 /**
  * Output format for lint results
  */
-export type LintOutputFormat = 'json' | 'stylish' | 'compact'
+export type LintOutputFormat = 'json' | 'stylish' | 'compact' | 'sarif' | 'junit'
+
+/**
+ * Context passed to lint formatters
+ */
+export type LintFormatterOptions = {
+  /** Resolver file, reported as the location of issues that have no source location */
+  resolver?: string
+}
 
 /**
  * Formatter function that converts lint result to output string
  */
-export type LintFormatter = (result: LintResult) => string
+export type LintFormatter = (result: LintResult, options?: LintFormatterOptions) => string
@@ -6,5 +6,5 @@
  * LICENSE file in the root directory of this source tree.
  */
 
-export { globToRegex, matchesGlob, clearGlobCache } from './glob-matcher'
+export { globToRegex, matchesGlob, clearGlobCache } from '@shared/utils/glob-matcher'
 export { extractReferences } from './reference-extractor'
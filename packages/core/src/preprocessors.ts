@@ -9,6 +9,8 @@
  * Import preprocessors from: dispersa/preprocessors
  */
 
+import { tokensStudio } from '@processing/preprocessors/built-in/tokens-studio'
+
 // ============================================================================
 // PREPROCESSOR TYPE
 // ============================================================================
@@ -16,9 +18,30 @@
 export type { Preprocessor } from '@processing/preprocessors/types'
 
 // ============================================================================
-// BUILT-IN PREPROCESSORS
+// BUILT-IN PREPROCESSORS AND IMPORTERS
 // ============================================================================
 
-// No built-in preprocessors currently - users can create custom ones inline.
-// Runtime marker to prevent an empty chunk warning during build.
-export const preprocessors = [] as const
+export { importFigmaVariables } from '@processing/preprocessors/built-in/figma-variables'
+export type {
+  FigmaColor,
+  FigmaVariable,
+  FigmaVariableAlias,
+  FigmaVariableCollection,
+  FigmaVariablesExport,
+  FigmaVariablesImportOptions,
+  FigmaVariablesMeta,
+  FigmaVariableValue,
+} from '@processing/preprocessors/built-in/figma-variables'
+export { migrateTokensStudio, tokensStudio } from '@processing/preprocessors/built-in/tokens-studio'
+export type {
+  TokensStudioMetadata,
+  TokensStudioMigration,
+  TokensStudioMigrationOptions,
+  TokensStudioOptions,
+  TokensStudioProject,
+  TokensStudioTheme,
+  TokensStudioTokenSetStatus,
+} from '@processing/preprocessors/built-in/tokens-studio'
+
+/** Built-in preprocessor factories */
+export const preprocessors = [tokensStudio] as const
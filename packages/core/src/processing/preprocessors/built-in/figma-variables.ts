@@ -0,0 +1,368 @@
+/**
+ * @fileoverview Figma Variables importer
+ *
+ * Converts a Figma Variables REST export (`GET /v1/files/:key/variables/local`)
+ * into a resolver document. Each collection becomes a set holding the values of
+ * its default mode. Collections with several modes also become a modifier whose
+ * contexts hold the values that differ from the default mode.
+ */
+
+import type { ResolverDocument } from '@resolution/types'
+import { ConfigurationError } from '@shared/errors/index'
+import type { TokenType } from '@tokens/types'
+import { kebabCase } from 'change-case'
+
+// ============================================================================
+// FIGMA EXPORT TYPES
+// ============================================================================
+
+/**
+ * RGBA color of a Figma variable, channels from 0 to 1
+ */
+export type FigmaColor = { r: number; g: number; b: number; a: number }
+
+/**
+ * Reference from one Figma variable to another
+ */
+export type FigmaVariableAlias = { type: 'VARIABLE_ALIAS'; id: string }
+
+export type FigmaVariableValue = boolean | number | string | FigmaColor | FigmaVariableAlias
+
+export type FigmaVariable = {
+  id: string
+  /** Slash-separated name, e.g. `color/brand/primary` */
+  name: string
+  variableCollectionId: string
+  resolvedType: 'BOOLEAN' | 'FLOAT' | 'STRING' | 'COLOR'
+  valuesByMode: Record<string, FigmaVariableValue>
+  description?: string
+  scopes?: string[]
+  codeSyntax?: Record<string, string>
+  remote?: boolean
+  hiddenFromPublishing?: boolean
+}
+
+export type FigmaVariableCollection = {
+  id: string
+  name: string
+  modes: { modeId: string; name: string }[]
+  defaultModeId: string
+  variableIds: string[]
+  remote?: boolean
+  hiddenFromPublishing?: boolean
+}
+
+/**
+ * Response of the Figma Variables REST API, or just its `meta` object
+ */
+export type FigmaVariablesExport =
+  | { meta: FigmaVariablesMeta; status?: number; error?: boolean }
+  | FigmaVariablesMeta
+
+export type FigmaVariablesMeta = {
+  variables: Record<string, FigmaVariable>
+  variableCollections: Record<string, FigmaVariableCollection>
+}
+
+// ============================================================================
+// OPTIONS
+// ============================================================================
+
+export type FigmaVariablesImportOptions = {
+  /** Resolver document `name` */
+  name?: string
+  /** Resolver document `description` */
+  description?: string
+  /**
+   * Called for every variable that cannot be imported (e.g. boolean variables,
+   * which have no DTCG type) and for variable names used in several
+   * collections. Defaults to `console.warn`.
+   */
+  onWarn?: (message: string) => void
+}
+
+// ============================================================================
+// IMPORTER
+// ============================================================================
+
+const DIMENSION_SCOPES = new Set([
+  'CORNER_RADIUS',
+  'WIDTH_HEIGHT',
+  'GAP',
+  'STROKE_FLOAT',
+  'EFFECT_FLOAT',
+  'FONT_SIZE',
+  'LINE_HEIGHT',
+  'LETTER_SPACING',
+  'PARAGRAPH_SPACING',
+  'PARAGRAPH_INDENT',
+])
+
+type TokenObject = Record<string, unknown>
+
+/**
+ * Convert a saved Figma Variables export into a resolver document
+ *
+ * - Collections become sets (`#/sets/<collection>`) with their default mode values
+ * - Collections with several modes become modifiers; each mode is a context
+ * - `VARIABLE_ALIAS` values become `{path}` references
+ * - Variable names (`color/brand/primary`) become token paths (`color.brand.primary`)
+ *
+ * Collection and mode names are kebab-cased so they can be used in `$ref`
+ * pointers and file name patterns (`Color Mode` → `color-mode`). `$type` is
+ * derived from the variable type and its scopes: colors become `color`, floats
+ * scoped to sizes and spacing `dimension` (px), font weights `fontWeight`, other
+ * floats `number`, and strings scoped to font families `fontFamily`. Boolean and
+ * other string variables are skipped.
+ *
+ * @param data - Parsed JSON of the Figma Variables REST response
+ * @param options - Import options
+ * @returns Resolver document with inline token sources
+ * @throws {ConfigurationError} If the data is not a Figma Variables export
+ *
+ * @example
+ * ```typescript
+ * import { readFile, writeFile } from 'node:fs/promises'
+ * import { importFigmaVariables } from 'dispersa/preprocessors'
+ *
+ * const data = JSON.parse(await readFile('figma-variables.json', 'utf-8'))
+ * const resolver = importFigmaVariables(data, { name: 'Design System' })
+ * await writeFile('tokens.resolver.json', JSON.stringify(resolver, null, 2))
+ * ```
+ */
+export function importFigmaVariables(
+  data: FigmaVariablesExport,
+  options: FigmaVariablesImportOptions = {},
+): ResolverDocument {
+  const meta = getMeta(data)
+  // eslint-disable-next-line no-console
+  const warn = options.onWarn ?? console.warn
+  const paths = collectTokenPaths(meta, warn)
+
+  const sets: NonNullable<ResolverDocument['sets']> = {}
+  const modifiers: NonNullable<ResolverDocument['modifiers']> = {}
+  const setRefs: { $ref: string }[] = []
+  const modifierRefs: { $ref: string }[] = []
+
+  for (const collection of Object.values(meta.variableCollections)) {
+    const name = kebabCase(collection.name)
+    const variables = collection.variableIds
+      .map((id) => meta.variables[id])
+      .filter(
+        (variable): variable is FigmaVariable => variable !== undefined && paths.has(variable.id),
+      )
+
+    const defaults = buildTokens(variables, collection.defaultModeId, paths)
+    sets[name] = { sources: [defaults.tree] }
+    setRefs.push({ $ref: `#/sets/${name}` })
+
+    if (collection.modes.length > 1) {
+      const defaultMode = collection.modes.find((mode) => mode.modeId === collection.defaultModeId)
+      const contexts: Record<string, TokenObject[]> = {}
+      for (const mode of collection.modes) {
+        const tokens = buildTokens(variables, mode.modeId, paths, defaults.values)
+        contexts[kebabCase(mode.name)] = tokens.count > 0 ? [tokens.tree] : []
+      }
+      modifiers[name] = {
+        contexts,
+        ...(defaultMode && { default: kebabCase(defaultMode.name) }),
+      }
+      modifierRefs.push({ $ref: `#/modifiers/${name}` })
+    }
+  }
+
+  return {
+    ...(options.name !== undefined && { name: options.name }),
+    version: '2025.10',
+    ...(options.description !== undefined && { description: options.description }),
+    sets,
+    ...(modifierRefs.length > 0 && { modifiers }),
+    resolutionOrder: [...setRefs, ...modifierRefs],
+  }
+}
+
+function getMeta(data: FigmaVariablesExport): FigmaVariablesMeta {
+  const meta = data != null && typeof data === 'object' && 'meta' in data ? data.meta : data
+  if (
+    meta == null ||
+    typeof meta.variables !== 'object' ||
+    typeof meta.variableCollections !== 'object'
+  ) {
+    throw new ConfigurationError(
+      'Invalid Figma Variables export: expected "variables" and "variableCollections" (or a "meta" object containing them)',
+    )
+  }
+  return meta
+}
+
+/**
+ * Map every importable variable id to its token path. Variables without a DTCG
+ * type, and aliases that (transitively) point to one, are left out.
+ */
+function collectTokenPaths(
+  meta: FigmaVariablesMeta,
+  warn: (message: string) => void,
+): Map<string, string> {
+  const paths = new Map<string, string>()
+  const owners = new Map<string, string>()
+
+  for (const variable of Object.values(meta.variables)) {
+    if (getTokenType(variable) === undefined) {
+      warn(`Skipping Figma variable "${variable.name}": ${variable.resolvedType} has no DTCG type`)
+      continue
+    }
+    const path = toTokenPath(variable.name)
+    const owner = owners.get(path)
+    if (owner !== undefined && owner !== variable.variableCollectionId) {
+      warn(
+        `Figma variable "${variable.name}" exists in several collections; later sets override it`,
+      )
+    }
+    owners.set(path, variable.variableCollectionId)
+    paths.set(variable.id, path)
+  }
+
+  // Repeat until stable so aliases of skipped aliases are skipped as well
+  let skipped = true
+  while (skipped) {
+    skipped = false
+    for (const variable of Object.values(meta.variables)) {
+      const references = Object.values(variable.valuesByMode).filter(isAlias)
+      if (paths.has(variable.id) && references.some((alias) => !paths.has(alias.id))) {
+        warn(
+          `Skipping Figma variable "${variable.name}": it references a variable that is not part of the export or cannot be imported`,
+        )
+        paths.delete(variable.id)
+        skipped = true
+      }
+    }
+  }
+
+  return paths
+}
+
+/**
+ * Build the token tree of one mode. When `baseline` is given, only tokens whose
+ * value differs from it are included.
+ */
+function buildTokens(
+  variables: FigmaVariable[],
+  modeId: string,
+  paths: Map<string, string>,
+  baseline?: Map<string, string>,
+): { tree: TokenObject; values: Map<string, string>; count: number } {
+  const tree: TokenObject = {}
+  const values = new Map<string, string>()
+  let count = 0
+
+  for (const variable of variables) {
+    const path = paths.get(variable.id)
+    const value = variable.valuesByMode[modeId]
+    if (path === undefined || value === undefined) {
+      continue
+    }
+    const $value = convertValue(variable, value, paths)
+    const serialized = JSON.stringify($value)
+    values.set(variable.id, serialized)
+    if (baseline?.get(variable.id) === serialized) {
+      continue
+    }
+    setToken(tree, path.split('.'), toToken(variable, $value))
+    count++
+  }
+
+  return { tree, values, count }
+}
+
+function toToken(variable: FigmaVariable, $value: unknown): TokenObject {
+  const figma = {
+    variableId: variable.id,
+    ...(variable.scopes && variable.scopes.length > 0 && { scopes: variable.scopes }),
+    ...(variable.codeSyntax &&
+      Object.keys(variable.codeSyntax).length > 0 && { codeSyntax: variable.codeSyntax }),
+  }
+  return {
+    $type: getTokenType(variable),
+    $value,
+    ...(variable.description && { $description: variable.description }),
+    $extensions: { 'com.figma': figma },
+  }
+}
+
+function convertValue(
+  variable: FigmaVariable,
+  value: FigmaVariableValue,
+  paths: Map<string, string>,
+): unknown {
+  if (isAlias(value)) {
+    return `{${paths.get(value.id)}}`
+  }
+  switch (getTokenType(variable)) {
+    case 'color':
+      return toColorValue(value as FigmaColor)
+    case 'dimension':
+      return { value: round(value as number), unit: 'px' }
+    case 'fontFamily':
+    case 'fontWeight':
+      return value
+    default:
+      return typeof value === 'number' ? round(value) : value
+  }
+}
+
+function getTokenType(variable: FigmaVariable): TokenType | undefined {
+  const scopes = variable.scopes ?? []
+  switch (variable.resolvedType) {
+    case 'COLOR':
+      return 'color'
+    case 'FLOAT':
+      if (scopes.includes('FONT_WEIGHT')) {
+        return 'fontWeight'
+      }
+      return scopes.length > 0 && scopes.every((scope) => DIMENSION_SCOPES.has(scope))
+        ? 'dimension'
+        : 'number'
+    case 'STRING':
+      return scopes.includes('FONT_FAMILY') ? 'fontFamily' : undefined
+    default:
+      return undefined
+  }
+}
+
+function toColorValue(color: FigmaColor): TokenObject {
+  return {
+    colorSpace: 'srgb',
+    components: [round(color.r), round(color.g), round(color.b)],
+    ...(color.a < 1 && { alpha: round(color.a) }),
+  }
+}
+
+function setToken(tree: TokenObject, path: string[], token: TokenObject): void {
+  let group = tree
+  for (const segment of path.slice(0, -1)) {
+    group[segment] ??= {}
+    group = group[segment] as TokenObject
+  }
+  group[path[path.length - 1] ?? ''] = token
+}
+
+/**
+ * `color/Brand Primary` → `color.Brand Primary`. Characters DTCG reserves in
+ * names (`.`, `{`, `}`) are replaced with `-`.
+ */
+function toTokenPath(name: string): string {
+  return name
+    .split('/')
+    .map((segment) => segment.trim().replace(/[.{}]/g, '-').replace(/^\$/, ''))
+    .filter((segment) => segment !== '')
+    .join('.')
+}
+
+function isAlias(value: FigmaVariableValue): value is FigmaVariableAlias {
+  return typeof value === 'object' && 'type' in value && value.type === 'VARIABLE_ALIAS'
+}
+
+/** Drop float noise from Figma's 32-bit values (e.g. `0.20000000298`) */
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6
+}
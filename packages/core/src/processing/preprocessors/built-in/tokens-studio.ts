@@ -0,0 +1,658 @@
+/**
+ * @fileoverview Tokens Studio migration
+ *
+ * Converts Tokens Studio (legacy format) tokens, which use `value`/`type`
+ * without `$` and Tokens Studio specific types (`spacing`, `fontSizes`,
+ * `boxShadow`, ...), into DTCG tokens. Token sets, `$themes.json` and
+ * `$metadata.json` are turned into a 2025.10 resolver document.
+ */
+
+import type { Preprocessor } from '@processing/preprocessors/types'
+import type { ResolverDocument, TokenSource } from '@resolution/types'
+import type { InternalTokenDocument, TokenType } from '@tokens/types'
+import { kebabCase } from 'change-case'
+import { converter, formatHex, parse } from 'culori'
+
+// ============================================================================
+// TOKENS STUDIO TYPES
+// ============================================================================
+
+/**
+ * Token set state in a Tokens Studio theme
+ */
+export type TokensStudioTokenSetStatus = 'enabled' | 'disabled' | 'source'
+
+/**
+ * Entry of `$themes.json`
+ */
+export type TokensStudioTheme = {
+  id?: string
+  name: string
+  /** Themes sharing a group are alternatives of the same modifier */
+  group?: string
+  selectedTokenSets: Record<string, TokensStudioTokenSetStatus>
+}
+
+/**
+ * Content of `$metadata.json`
+ */
+export type TokensStudioMetadata = {
+  tokenSetOrder?: string[]
+}
+
+/**
+ * A Tokens Studio project: token sets by name plus optional themes and metadata
+ *
+ * For a single-file export, every top-level key other than `$themes` and
+ * `$metadata` is a token set. For a multi-file export, the set name is the
+ * file path relative to the token directory, without `.json`.
+ */
+export type TokensStudioProject = {
+  sets: Record<string, Record<string, unknown>>
+  themes?: TokensStudioTheme[]
+  metadata?: TokensStudioMetadata
+}
+
+// ============================================================================
+// OPTIONS AND RESULT
+// ============================================================================
+
+export type TokensStudioOptions = {
+  /**
+   * Called for every token that cannot be converted (e.g. math expressions or
+   * types without a DTCG equivalent). Defaults to `console.warn`.
+   */
+  onWarn?: (message: string) => void
+}
+
+export type TokensStudioMigrationOptions = TokensStudioOptions & {
+  /** Resolver document `name` */
+  name?: string
+  /**
+   * Put the converted tokens inline into the resolver instead of referencing
+   * one file per token set. Default: `false`
+   */
+  inline?: boolean
+}
+
+/**
+ * Result of `migrateTokensStudio()`
+ */
+export type TokensStudioMigration = {
+  /** Converted token sets, keyed by file path relative to the resolver. Empty with `inline`. */
+  files: Record<string, InternalTokenDocument>
+  resolver: ResolverDocument
+}
+
+// ============================================================================
+// PREPROCESSOR
+// ============================================================================
+
+/**
+ * Preprocessor that converts Tokens Studio tokens to DTCG before parsing
+ *
+ * Use it to build Tokens Studio files directly. To move to DTCG files and a
+ * resolver permanently, use `migrateTokensStudio()` or `dispersa migrate`.
+ *
+ * @example
+ * ```typescript
+ * import { tokensStudio } from 'dispersa/preprocessors'
+ *
+ * await build({
+ *   resolver: './tokens.resolver.json',
+ *   preprocessors: [tokensStudio()],
+ *   outputs: [css({ name: 'css', file: 'tokens.css' })],
+ * })
+ * ```
+ */
+export function tokensStudio(options: TokensStudioOptions = {}): Preprocessor {
+  return {
+    name: 'tokens-studio',
+    preprocess: (rawTokens) => convertTokensStudioTokens(rawTokens, options),
+  }
+}
+
+/**
+ * Convert a Tokens Studio token tree to DTCG
+ *
+ * Tokens that already use `$value` are kept, apart from mapping Tokens Studio
+ * types. Top-level `$themes` and `$metadata` keys are dropped.
+ */
+export function convertTokensStudioTokens(
+  tokens: Record<string, unknown>,
+  options: TokensStudioOptions = {},
+): InternalTokenDocument {
+  // eslint-disable-next-line no-console
+  const warn = options.onWarn ?? console.warn
+  const { $themes: _themes, $metadata: _metadata, ...rest } = tokens
+  return convertGroup(rest, [], warn) as InternalTokenDocument
+}
+
+// ============================================================================
+// MIGRATION
+// ============================================================================
+
+/**
+ * Convert a Tokens Studio project into DTCG token files and a resolver document
+ *
+ * - Themes sharing a `group` form one modifier (`theme` for themes without a
+ *   group) with one context per theme. The first theme is the default.
+ * - Token sets that are always active (enabled in every theme of a group, or
+ *   all sets without themes) become resolver sets, in `$metadata.json` token
+ *   set order. A context holds the remaining sets its theme enables.
+ * - Groups with a single theme only contribute resolver sets, since a modifier
+ *   needs at least two contexts
+ * - `source` sets are treated like `enabled` ones
+ *
+ * Set, modifier and context names are kebab-cased (`Core/Base Colors` →
+ * `core-base-colors`, file `core/base-colors.json`).
+ *
+ * @param project - Token sets, themes and metadata of the Tokens Studio export
+ * @param options - Migration options
+ * @returns Converted token files and a resolver referencing them
+ *
+ * @example
+ * ```typescript
+ * const { files, resolver } = migrateTokensStudio({
+ *   sets: { global, light, dark },
+ *   themes: JSON.parse(await readFile('$themes.json', 'utf-8')),
+ * })
+ * ```
+ */
+export function migrateTokensStudio(
+  project: TokensStudioProject,
+  options: TokensStudioMigrationOptions = {},
+): TokensStudioMigration {
+  const order = getTokenSetOrder(project)
+  const themes = project.themes ?? []
+
+  const converted = new Map(
+    order.map((set) => [set, convertTokensStudioTokens(project.sets[set] ?? {}, options)]),
+  )
+  const files: Record<string, InternalTokenDocument> = {}
+  const sourceOf = (set: string): TokenSource => {
+    if (options.inline) {
+      return converted.get(set) ?? {}
+    }
+    return { $ref: toFilePath(set) }
+  }
+  if (!options.inline) {
+    for (const [set, tokens] of converted) {
+      files[toFilePath(set)] = tokens
+    }
+  }
+
+  const enabledIn = (theme: TokensStudioTheme) =>
+    order.filter((set) => {
+      const status = theme.selectedTokenSets[set]
+      return status === 'enabled' || status === 'source'
+    })
+  const groups = groupThemes(themes)
+  // A set is always active when one group enables it in each of its themes
+  const baseSets =
+    groups.size === 0
+      ? order
+      : order.filter((set) =>
+          [...groups.values()].some((group) =>
+            group.every((theme) => enabledIn(theme).includes(set)),
+          ),
+        )
+
+  const sets: NonNullable<ResolverDocument['sets']> = {}
+  for (const set of baseSets) {
+    sets[kebabCase(set)] = { sources: [sourceOf(set)] }
+  }
+
+  const modifiers: NonNullable<ResolverDocument['modifiers']> = {}
+  for (const [group, members] of groups) {
+    const [defaultTheme] = members
+    if (members.length < 2 || defaultTheme === undefined) {
+      continue
+    }
+    const contexts: Record<string, TokenSource[]> = {}
+    for (const theme of members) {
+      contexts[kebabCase(theme.name)] = enabledIn(theme)
+        .filter((set) => !baseSets.includes(set))
+        .map(sourceOf)
+    }
+    modifiers[kebabCase(group)] = { contexts, default: kebabCase(defaultTheme.name) }
+  }
+
+  const modifierNames = Object.keys(modifiers)
+  return {
+    files,
+    resolver: {
+      ...(options.name !== undefined && { name: options.name }),
+      version: '2025.10',
+      sets,
+      ...(modifierNames.length > 0 && { modifiers }),
+      resolutionOrder: [
+        ...baseSets.map((set) => ({ $ref: `#/sets/${kebabCase(set)}` })),
+        ...modifierNames.map((name) => ({ $ref: `#/modifiers/${name}` })),
+      ],
+    },
+  }
+}
+
+/**
+ * Token sets in `$metadata.json` order, followed by sets missing from it
+ */
+function getTokenSetOrder(project: TokensStudioProject): string[] {
+  const names = Object.keys(project.sets)
+  const ordered = (project.metadata?.tokenSetOrder ?? []).filter((set) => set in project.sets)
+  return [...ordered, ...names.filter((set) => !ordered.includes(set))]
+}
+
+/**
+ * Themes by group, in order of appearance. Themes without a group form the
+ * `theme` group.
+ */
+function groupThemes(themes: TokensStudioTheme[]): Map<string, TokensStudioTheme[]> {
+  const groups = new Map<string, TokensStudioTheme[]>()
+  for (const theme of themes) {
+    const group = theme.group ?? 'theme'
+    groups.set(group, [...(groups.get(group) ?? []), theme])
+  }
+  return groups
+}
+
+function toFilePath(set: string): string {
+  return `${set
+    .split('/')
+    .map((segment) => kebabCase(segment))
+    .join('/')}.json`
+}
+
+// ============================================================================
+// TOKEN CONVERSION
+// ============================================================================
+
+type Warn = (message: string) => void
+
+const DIMENSION_TYPES = new Set([
+  'dimension',
+  'spacing',
+  'sizing',
+  'borderRadius',
+  'borderWidth',
+  'fontSizes',
+  'letterSpacing',
+  'paragraphSpacing',
+  'paragraphIndent',
+])
+
+const TYPE_MAP: Record<string, TokenType> = {
+  color: 'color',
+  fontFamilies: 'fontFamily',
+  fontFamily: 'fontFamily',
+  fontWeights: 'fontWeight',
+  fontWeight: 'fontWeight',
+  lineHeights: 'number',
+  opacity: 'number',
+  number: 'number',
+  duration: 'duration',
+  cubicBezier: 'cubicBezier',
+  boxShadow: 'shadow',
+  shadow: 'shadow',
+  typography: 'typography',
+  border: 'border',
+}
+
+const FONT_WEIGHTS = new Set([
+  'thin',
+  'hairline',
+  'extra-light',
+  'ultra-light',
+  'light',
+  'normal',
+  'regular',
+  'book',
+  'medium',
+  'semi-bold',
+  'demi-bold',
+  'bold',
+  'extra-bold',
+  'ultra-bold',
+  'black',
+  'heavy',
+  'extra-black',
+  'ultra-black',
+])
+
+const STROKE_STYLES = new Set([
+  'solid',
+  'dashed',
+  'dotted',
+  'double',
+  'groove',
+  'ridge',
+  'outset',
+  'inset',
+])
+
+const toRgb = converter('rgb')
+
+function convertGroup(
+  group: Record<string, unknown>,
+  path: string[],
+  warn: Warn,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const [key, node] of Object.entries(group)) {
+    if (!isObject(node) || key.startsWith('$')) {
+      result[key] = node
+      continue
+    }
+    const nodePath = [...path, key]
+    if (!('value' in node) && !('$value' in node)) {
+      result[key] = convertGroup(node, nodePath, warn)
+      continue
+    }
+    const token = convertToken(node, nodePath.join('.'), warn)
+    if (token) {
+      result[key] = token
+    }
+  }
+  return result
+}
+
+function convertToken(
+  node: Record<string, unknown>,
+  name: string,
+  warn: Warn,
+): Record<string, unknown> | undefined {
+  const {
+    value,
+    type,
+    description,
+    $value = value,
+    $type = type,
+    $description = description,
+    ...rest
+  } = node
+  const tokenType = typeof $type === 'string' ? $type : undefined
+  const converted = convertValue(tokenType, $value)
+
+  if (converted === undefined) {
+    warn(
+      `Skipping Tokens Studio token "${name}": cannot convert ${tokenType ?? 'untyped'} value ${JSON.stringify($value)}`,
+    )
+    return undefined
+  }
+
+  // Keep `$extensions`, `$deprecated`, ...; drop Tokens Studio properties such as `id`
+  const properties = Object.fromEntries(Object.entries(rest).filter(([key]) => key.startsWith('$')))
+  return {
+    ...(converted.type !== undefined && { $type: converted.type }),
+    $value: converted.value,
+    ...(typeof $description === 'string' && $description !== '' && { $description }),
+    ...properties,
+  }
+}
+
+function convertValue(
+  type: string | undefined,
+  value: unknown,
+): { type: TokenType | undefined; value: unknown } | undefined {
+  const reference = toReference(value)
+  if (type === undefined) {
+    return reference !== undefined ? { type: undefined, value: reference } : undefined
+  }
+  if (DIMENSION_TYPES.has(type)) {
+    const dimension = reference ?? toDimension(value)
+    return dimension !== undefined ? { type: 'dimension', value: dimension } : undefined
+  }
+  // Line heights are ratios (`150%`, `1.5`) or absolute lengths (`24px`)
+  if (type === 'lineHeights' && reference === undefined && toRatio(value) === undefined) {
+    const dimension = toDimension(value)
+    return dimension !== undefined ? { type: 'dimension', value: dimension } : undefined
+  }
+
+  const tokenType = TYPE_MAP[type]
+  if (tokenType === undefined) {
+    return undefined
+  }
+  const converted = reference ?? convertTypedValue(type, value)
+  return converted !== undefined ? { type: tokenType, value: converted } : undefined
+}
+
+function convertTypedValue(type: string, value: unknown): unknown {
+  switch (type) {
+    case 'color':
+      return toColor(value)
+    case 'fontFamilies':
+    case 'fontFamily':
+      return toFontFamily(value)
+    case 'fontWeights':
+    case 'fontWeight':
+      return toFontWeight(value)
+    case 'lineHeights':
+    case 'opacity':
+      return toRatio(value)
+    case 'number':
+      return toNumber(value)
+    case 'duration':
+      return toDuration(value)
+    case 'cubicBezier':
+      return Array.isArray(value) && value.length === 4
+        ? allDefined(value.map(toNumber))
+        : undefined
+    case 'boxShadow':
+    case 'shadow':
+      return Array.isArray(value) ? allDefined(value.map(toShadow)) : toShadow(value)
+    case 'typography':
+      return toTypography(value)
+    case 'border':
+      return toBorder(value)
+    default:
+      return undefined
+  }
+}
+
+/**
+ * `{color.primary}` is kept; Tokens Studio's legacy `$color.primary` becomes
+ * `{color.primary}`. Anything else (math, embedded references) is not a reference.
+ */
+function toReference(value: unknown): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined
+  }
+  const trimmed = value.trim()
+  if (/^\{[^{}]+\}$/.test(trimmed)) {
+    return trimmed
+  }
+  const legacy = /^\$([\w-]+(?:\.[\w-]+)*)$/.exec(trimmed)
+  return legacy ? `{${legacy[1]}}` : undefined
+}
+
+function toColor(value: unknown): unknown {
+  const reference = toReference(value)
+  if (reference !== undefined) {
+    return reference
+  }
+  const color = typeof value === 'string' ? parse(value.trim()) : undefined
+  if (!color) {
+    return undefined
+  }
+  const rgb = toRgb(color)
+  const alpha = rgb.alpha ?? 1
+  return {
+    colorSpace: 'srgb',
+    components: [round(rgb.r), round(rgb.g), round(rgb.b)],
+    ...(alpha < 1 && { alpha: round(alpha) }),
+    hex: formatHex(rgb),
+  }
+}
+
+function toDimension(value: unknown): unknown {
+  const reference = toReference(value)
+  if (reference !== undefined) {
+    return reference
+  }
+  const parsed = parseNumberWithUnit(value)
+  if (!parsed) {
+    return undefined
+  }
+  if (parsed.unit === '' || parsed.unit === 'px' || parsed.unit === 'rem') {
+    return { value: parsed.value, unit: parsed.unit === 'rem' ? 'rem' : 'px' }
+  }
+  // DTCG dimensions only know px and rem; 0% or 0em is still 0
+  return parsed.value === 0 ? { value: 0, unit: 'px' } : undefined
+}
+
+function toDuration(value: unknown): unknown {
+  const parsed = parseNumberWithUnit(value)
+  if (!parsed) {
+    return undefined
+  }
+  if (parsed.unit === 's' || parsed.unit === 'ms') {
+    return { value: parsed.value, unit: parsed.unit }
+  }
+  return parsed.unit === '' ? { value: parsed.value, unit: 'ms' } : undefined
+}
+
+/** `150%` → 1.5, `1.5` → 1.5 */
+function toRatio(value: unknown): number | undefined {
+  const parsed = parseNumberWithUnit(value)
+  if (!parsed) {
+    return undefined
+  }
+  if (parsed.unit === '%') {
+    return round(parsed.value / 100)
+  }
+  return parsed.unit === '' ? parsed.value : undefined
+}
+
+function toNumber(value: unknown): number | undefined {
+  const parsed = parseNumberWithUnit(value)
+  return parsed?.unit === '' ? parsed.value : undefined
+}
+
+function toFontFamily(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.every((family) => typeof family === 'string') ? value : undefined
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined
+  }
+  const families = value.split(',').map((family) => family.trim().replace(/^["']|["']$/g, ''))
+  return families.length === 1 ? families[0] : families
+}
+
+function toFontWeight(value: unknown): unknown {
+  const numeric = toNumber(value)
+  if (numeric !== undefined) {
+    return numeric
+  }
+  if (typeof value !== 'string') {
+    return undefined
+  }
+  const name = kebabCase(value)
+  return FONT_WEIGHTS.has(name) ? name : undefined
+}
+
+function toShadow(value: unknown): unknown {
+  const reference = toReference(value)
+  if (reference !== undefined) {
+    return reference
+  }
+  if (!isObject(value)) {
+    return undefined
+  }
+  const shadow = {
+    color: toColor(value.color ?? '#000000'),
+    offsetX: toDimension(value.x ?? 0),
+    offsetY: toDimension(value.y ?? 0),
+    blur: toDimension(value.blur ?? 0),
+    spread: toDimension(value.spread ?? 0),
+  }
+  if (Object.values(shadow).some((field) => field === undefined)) {
+    return undefined
+  }
+  return value.type === 'innerShadow' ? { ...shadow, inset: true } : shadow
+}
+
+function toBorder(value: unknown): unknown {
+  if (!isObject(value)) {
+    return undefined
+  }
+  const style = value.style ?? 'solid'
+  const border = {
+    color: toColor(value.color),
+    width: toDimension(value.width),
+    style:
+      toReference(style) ??
+      (typeof style === 'string' && STROKE_STYLES.has(style) ? style : undefined),
+  }
+  return Object.values(border).some((field) => field === undefined) ? undefined : border
+}
+
+/**
+ * DTCG typography needs all of fontFamily, fontSize, fontWeight, letterSpacing
+ * and lineHeight. Missing letter spacing defaults to 0; percentages of the font
+ * size are resolved when the font size is a literal px value.
+ */
+function toTypography(value: unknown): unknown {
+  if (!isObject(value)) {
+    return undefined
+  }
+  const fontSize = toReference(value.fontSize) ?? toDimension(value.fontSize)
+  const fontSizePx =
+    isObject(fontSize) && fontSize.unit === 'px' ? (fontSize.value as number) : undefined
+
+  const typography = {
+    fontFamily: toReference(value.fontFamily) ?? toFontFamily(value.fontFamily),
+    fontSize,
+    fontWeight: toReference(value.fontWeight) ?? toFontWeight(value.fontWeight),
+    letterSpacing:
+      toReference(value.letterSpacing) ??
+      toRelativeDimension(value.letterSpacing ?? 0, fontSizePx, 'dimension'),
+    lineHeight:
+      toReference(value.lineHeight) ?? toRelativeDimension(value.lineHeight, fontSizePx, 'ratio'),
+  }
+  return Object.values(typography).some((field) => field === undefined) ? undefined : typography
+}
+
+function toRelativeDimension(
+  value: unknown,
+  fontSizePx: number | undefined,
+  as: 'dimension' | 'ratio',
+): unknown {
+  const parsed = parseNumberWithUnit(value)
+  if (!parsed) {
+    return undefined
+  }
+  if (as === 'ratio') {
+    if (parsed.unit === 'px' && fontSizePx) {
+      return round(parsed.value / fontSizePx)
+    }
+    return toRatio(value)
+  }
+  if (parsed.unit === '%' && fontSizePx !== undefined) {
+    return { value: round((parsed.value / 100) * fontSizePx), unit: 'px' }
+  }
+  return toDimension(value)
+}
+
+function parseNumberWithUnit(value: unknown): { value: number; unit: string } | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? { value, unit: '' } : undefined
+  }
+  if (typeof value !== 'string') {
+    return undefined
+  }
+  const match = /^(-?\d*\.?\d+)\s*(px|rem|em|%|ms|s)?$/.exec(value.trim())
+  return match ? { value: Number(match[1]), unit: match[2] ?? '' } : undefined
+}
+
+function allDefined(values: unknown[]): unknown[] | undefined {
+  return values.length > 0 && values.every((value) => value !== undefined) ? values : undefined
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6
+}
@@ -4,7 +4,7 @@
  */
 
 import { DEFAULT_BASE_FONT_SIZE_PX } from '@shared/constants'
-import type { DimensionValue } from '@tokens/types'
+import type { DimensionValue, FluidDimension } from '@tokens/types'
 /**
  * Check if a value is in dimension object format
  */
@@ -58,3 +58,41 @@ export function convertDimension(
     unit: toUnit,
   }
 }
+
+/**
+ * Convert a fluid dimension to a CSS `clamp()` expression
+ *
+ * The preferred value grows linearly between the two viewports, e.g.
+ * `clamp(1rem, 0.6667rem + 1.6667vw, 2rem)` for 1rem–2rem over 320px–1280px.
+ * The intercept uses the unit of `min`.
+ *
+ * @param fluid - Fluid range with px or rem dimensions
+ * @param baseFontSize - Base font size in px used for rem conversions
+ */
+export function fluidDimensionToClamp(
+  fluid: FluidDimension,
+  baseFontSize = DEFAULT_BASE_FONT_SIZE_PX,
+): string {
+  const toPx = (dimension: DimensionValue) => convertDimension(dimension, 'px', baseFontSize).value
+  const minPx = toPx(fluid.min)
+  const maxPx = toPx(fluid.max)
+  const minViewportPx = toPx(fluid.minViewport)
+  const maxViewportPx = toPx(fluid.maxViewport)
+
+  const slope = (maxPx - minPx) / (maxViewportPx - minViewportPx)
+  const intercept = convertDimension(
+    { value: minPx - slope * minViewportPx, unit: 'px' },
+    fluid.min.unit,
+    baseFontSize,
+  )
+  const operator = slope < 0 ? '-' : '+'
+  const preferred = `${roundFluidValue(intercept.value)}${intercept.unit} ${operator} ${roundFluidValue(Math.abs(slope) * 100)}vw`
+
+  // clamp() expects the lower bound first, also for values shrinking with the viewport
+  const [lower, upper] = minPx <= maxPx ? [fluid.min, fluid.max] : [fluid.max, fluid.min]
+  return `clamp(${dimensionObjectToString(lower)}, ${preferred}, ${dimensionObjectToString(upper)})`
+}
+
+function roundFluidValue(value: number): number {
+  return Number(value.toFixed(4))
+}
@@ -5,6 +5,7 @@
  */
 
 import { DEFAULT_BASE_FONT_SIZE_PX } from '@shared/constants'
+import { FLUID_EXTENSION, getFluidDimension } from '@shared/utils/token-utils'
 import type { DimensionValue, ResolvedToken } from '@tokens/types'
 
 import type { Transform } from '../types'
@@ -27,7 +28,11 @@ export function dimensionToPx(): Transform {
       // Convert dimension object to px
       if (isDimensionObject(value)) {
         const converted = convertDimension(value as DimensionValue, 'px', DEFAULT_BASE_FONT_SIZE_PX)
-        return { ...token, $value: dimensionObjectToString(converted) }
+        return {
+          ...token,
+          $value: dimensionObjectToString(converted),
+          ...convertFluidRange(token, 'px'),
+        }
       }
 
       return token
@@ -56,7 +61,11 @@ export function dimensionToRem(): Transform {
           'rem',
           DEFAULT_BASE_FONT_SIZE_PX,
         )
-        return { ...token, $value: dimensionObjectToString(converted) }
+        return {
+          ...token,
+          $value: dimensionObjectToString(converted),
+          ...convertFluidRange(token, 'rem'),
+        }
       }
 
       return token
@@ -88,3 +97,27 @@ export function dimensionToUnitless(): Transform {
     },
   }
 }
+
+/**
+ * Convert the bounds of a fluid dimension, so its `clamp()` uses the same unit
+ */
+function convertFluidRange(
+  token: ResolvedToken,
+  unit: DimensionValue['unit'],
+): Pick<ResolvedToken, '$extensions'> {
+  const fluid = getFluidDimension(token)
+  if (!fluid) {
+    return {}
+  }
+
+  return {
+    $extensions: {
+      ...token.$extensions,
+      [FLUID_EXTENSION]: {
+        ...fluid,
+        min: convertDimension(fluid.min, unit, DEFAULT_BASE_FONT_SIZE_PX),
+        max: convertDimension(fluid.max, unit, DEFAULT_BASE_FONT_SIZE_PX),
+      },
+    },
+  }
+}
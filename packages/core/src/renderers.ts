@@ -18,10 +18,13 @@
 
 export type {
   AndroidRendererOptions,
+  AndroidXmlRendererOptions,
+  DtcgRendererOptions,
   BuildError,
   BuildOutput,
   BuildResult,
   CssRendererOptions,
+  CssTypographyClassOptions,
   ErrorCode,
   FormatOptions,
   IosRendererOptions,
@@ -34,6 +37,7 @@ export type {
   RenderContext,
   RenderMeta,
   RenderOutput,
+  ScssRendererOptions,
   SelectorFunction,
   TailwindRendererOptions,
 } from '@renderers/types'
@@ -0,0 +1,483 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa Contributors
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * @fileoverview Android XML resources renderer for design tokens
+ * Generates `res/values` resource files for View-based Android apps.
+ *
+ * @experimental This renderer is experimental. Its API, generated resources,
+ * and options may change in future releases.
+ *
+ * Writes one file per resource kind, skipping kinds without tokens:
+ * - `colors.xml` — `<color>` for color tokens
+ * - `dimens.xml` — `<dimen>` for dimensions, float `<item>` for fractional numbers
+ * - `integers.xml` — `<integer>` for integral numbers, font weights and durations (ms)
+ * - `styles.xml` — a `TextAppearance` `<style>` per typography token
+ *
+ * The base permutation is written to `values/`. Permutations that differ from
+ * the base by a single modifier whose context is a night context (default
+ * `dark` or `night`) are written to `values-night/`, containing only the
+ * resources whose value differs from the base.
+ */
+
+import { colorObjectToHex, isColorObject } from '@processing/transforms/built-in/color-converter'
+import { isDimensionObject } from '@processing/transforms/built-in/dimension-converter'
+import { isDurationObject } from '@processing/transforms/built-in/duration-converter'
+import { ConfigurationError } from '@shared/errors/index'
+import { getSortedTokenEntries } from '@shared/utils/token-utils'
+import type { ResolvedToken, ResolvedTokens } from '@tokens/types'
+
+import {
+  assertFileRequired,
+  findContextPermutation,
+  isBasePermutation,
+  resolveOutputDirectory,
+  stripInternalMetadata,
+  toSafeIdentifier,
+} from './bundlers/utils'
+import { buildTokenDeprecationComment, buildTokenDescriptionComment } from './metadata'
+import { outputTree } from './output-tree'
+import type { RenderContext, RenderOutput, Renderer } from './types'
+
+/**
+ * Options for the Android XML resources renderer
+ *
+ * The output `file` is the resource directory (e.g. `'app/src/main/res'`);
+ * `values/` and `values-night/` are created inside it.
+ *
+ * @experimental This type is experimental. Properties and behavior may change.
+ */
+export type AndroidXmlRendererOptions = {
+  /**
+   * Modifier contexts written to `values-night/` (case-insensitive).
+   * Defaults to `['dark', 'night']`.
+   */
+  nightContexts?: string[]
+  /**
+   * Parent name for typography styles, e.g. `TextAppearance.DesignTokens.TypographyHeading`.
+   * Defaults to `'TextAppearance.DesignTokens'`.
+   */
+  stylePrefix?: string
+  /**
+   * Map custom font families to `@font/<name>` resources, which the app must
+   * provide in `res/font/`. When disabled, styles use the first generic family
+   * of the font stack (`sans-serif`, `serif`, `monospace`, `cursive`) or omit
+   * `android:fontFamily`. Defaults to `false`.
+   */
+  fontResources?: boolean
+}
+
+type ResolvedOptions = {
+  nightContexts: string[]
+  stylePrefix: string
+  fontResources: boolean
+}
+
+type ResourceKind = 'colors' | 'dimens' | 'integers' | 'styles'
+
+type ResourceEntry = {
+  /** Resource element without comments, used to diff night resources against the base */
+  xml: string
+  /** Name of the token the resource was generated from */
+  tokenName: string
+  comments: string[]
+}
+
+type ResourceSet = Record<ResourceKind, Map<string, ResourceEntry>>
+
+const RESOURCE_KINDS: ResourceKind[] = ['colors', 'dimens', 'integers', 'styles']
+
+const INDENT = '    '
+
+/** Root font size used to convert rem values to dp/sp, matching the Compose renderer */
+const REM_BASE = 16
+
+const GENERIC_FONT_FAMILIES = new Set(['sans-serif', 'serif', 'monospace', 'cursive'])
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toResourceName(name: string): string {
+  const cleaned = name
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+  return /^\d/.test(cleaned) ? `_${cleaned}` : cleaned
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000)
+}
+
+/**
+ * Convert a dimension (object or `'16px'` / `'1rem'` string) to density-independent units
+ */
+function toDensityIndependent(value: unknown): number | undefined {
+  if (isDimensionObject(value)) {
+    return value.unit === 'rem' ? value.value * REM_BASE : value.value
+  }
+  if (typeof value === 'string') {
+    const match = value.trim().match(/^(-?\d*\.?\d+)(px|rem|dp|sp)?$/)
+    if (match) {
+      const amount = Number(match[1])
+      return match[2] === 'rem' ? amount * REM_BASE : amount
+    }
+  }
+  return typeof value === 'number' ? value : undefined
+}
+
+/**
+ * Format a color as `#RRGGBB`, or `#AARRGGBB` when translucent (Android puts alpha first)
+ */
+function toAndroidColor(value: unknown): string | undefined {
+  const hex = isColorObject(value) ? colorObjectToHex(value) : value
+  if (typeof hex !== 'string' || !/^#?([0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/.test(hex)) {
+    return undefined
+  }
+
+  const clean = hex.replace('#', '').toUpperCase()
+  if (clean.length === 8) {
+    const alpha = clean.slice(6, 8)
+    return alpha === 'FF' ? `#${clean.slice(0, 6)}` : `#${alpha}${clean.slice(0, 6)}`
+  }
+  return `#${clean}`
+}
+
+function toMilliseconds(value: unknown): number | undefined {
+  if (isDurationObject(value)) {
+    return value.unit === 's' ? value.value * 1000 : value.value
+  }
+  return typeof value === 'number' ? value : undefined
+}
+
+// ---------------------------------------------------------------------------
+// Renderer
+// ---------------------------------------------------------------------------
+
+export class AndroidXmlRenderer implements Renderer<AndroidXmlRendererOptions> {
+  format(context: RenderContext, options?: AndroidXmlRendererOptions): RenderOutput {
+    const opts: ResolvedOptions = {
+      nightContexts: (options?.nightContexts ?? ['dark', 'night']).map((c) => c.toLowerCase()),
+      stylePrefix: options?.stylePrefix ?? 'TextAppearance.DesignTokens',
+      fontResources: options?.fontResources ?? false,
+    }
+
+    assertFileRequired(
+      context.buildPath,
+      context.output.file,
+      context.output.name,
+      'Android XML resources',
+    )
+
+    const dir = resolveOutputDirectory(context, context.output.name)
+    const resourceDir = dir === '' || dir === '.' ? '' : `${dir}/`
+    const basePermutation =
+      context.permutations.find(({ modifierInputs }) =>
+        isBasePermutation(modifierInputs, context.meta.defaults),
+      ) ?? context.permutations[0]
+
+    const files: Record<string, string> = {}
+    if (!basePermutation) {
+      return outputTree(files)
+    }
+
+    const baseResources = this.collectResources(
+      context.output.name,
+      stripInternalMetadata(basePermutation.tokens),
+      opts,
+    )
+    this.writeResources(files, `${resourceDir}values`, baseResources)
+
+    const nightPermutation = findContextPermutation(
+      context.permutations,
+      basePermutation,
+      opts.nightContexts,
+    )
+    if (nightPermutation) {
+      const nightResources = this.collectResources(
+        context.output.name,
+        stripInternalMetadata(nightPermutation.tokens),
+        opts,
+      )
+      this.writeResources(
+        files,
+        `${resourceDir}values-night`,
+        this.diffResources(nightResources, baseResources),
+      )
+    }
+
+    return outputTree(files)
+  }
+
+  // -----------------------------------------------------------------------
+  // Resource collection
+  // -----------------------------------------------------------------------
+
+  private collectResources(
+    outputName: string,
+    tokens: ResolvedTokens,
+    options: ResolvedOptions,
+  ): ResourceSet {
+    const resources: ResourceSet = {
+      colors: new Map(),
+      dimens: new Map(),
+      integers: new Map(),
+      styles: new Map(),
+    }
+
+    for (const [, token] of getSortedTokenEntries(tokens)) {
+      const resource = this.formatResource(token, options)
+      if (!resource) {
+        continue
+      }
+
+      const comments = [
+        buildTokenDeprecationComment(token, 'xml'),
+        buildTokenDescriptionComment(token, 'xml'),
+      ].filter((comment): comment is string => comment !== undefined)
+
+      const existing = resources[resource.kind].get(resource.name)
+      if (existing) {
+        throw new ConfigurationError(
+          `Output "${outputName}": tokens "${existing.tokenName}" and "${token.name}" both map to the Android resource "${resource.name}"`,
+        )
+      }
+      resources[resource.kind].set(resource.name, {
+        xml: resource.xml,
+        tokenName: token.name,
+        comments,
+      })
+    }
+
+    return resources
+  }
+
+  private formatResource(
+    token: ResolvedToken,
+    options: ResolvedOptions,
+  ): { kind: ResourceKind; name: string; xml: string } | undefined {
+    const name = toResourceName(token.name)
+    const value = token.$value
+
+    switch (token.$type) {
+      case 'color': {
+        const color = toAndroidColor(value)
+        return color
+          ? { kind: 'colors', name, xml: `<color name="${name}">${color}</color>` }
+          : undefined
+      }
+      case 'dimension': {
+        const dp = toDensityIndependent(value)
+        return dp !== undefined
+          ? { kind: 'dimens', name, xml: `<dimen name="${name}">${formatNumber(dp)}dp</dimen>` }
+          : undefined
+      }
+      case 'number':
+        return this.formatNumberResource(name, value)
+      case 'fontWeight':
+        return typeof value === 'number'
+          ? {
+              kind: 'integers',
+              name,
+              xml: `<integer name="${name}">${Math.round(value)}</integer>`,
+            }
+          : undefined
+      case 'duration': {
+        const ms = toMilliseconds(value)
+        return ms !== undefined
+          ? { kind: 'integers', name, xml: `<integer name="${name}">${Math.round(ms)}</integer>` }
+          : undefined
+      }
+      case 'typography':
+        return this.formatTextAppearance(token, options)
+      default:
+        return undefined
+    }
+  }
+
+  private formatNumberResource(
+    name: string,
+    value: unknown,
+  ): { kind: ResourceKind; name: string; xml: string } | undefined {
+    if (typeof value !== 'number') {
+      return undefined
+    }
+    if (Number.isInteger(value)) {
+      return { kind: 'integers', name, xml: `<integer name="${name}">${value}</integer>` }
+    }
+    return {
+      kind: 'dimens',
+      name,
+      xml: `<item name="${name}" format="float" type="dimen">${formatNumber(value)}</item>`,
+    }
+  }
+
+  /**
+   * Map a typography composite to a TextAppearance style
+   *
+   * Font sizes use `sp`, letter spacing is converted to `em` relative to the
+   * font size, and unitless line heights are multiplied by the font size.
+   */
+  private formatTextAppearance(
+    token: ResolvedToken,
+    options: ResolvedOptions,
+  ): { kind: ResourceKind; name: string; xml: string } | undefined {
+    if (typeof token.$value !== 'object' || token.$value === null) {
+      return undefined
+    }
+
+    const typography = token.$value as Record<string, unknown>
+    const items: string[] = []
+
+    const fontFamily = this.formatFontFamily(typography.fontFamily, options.fontResources)
+    if (fontFamily) {
+      items.push(`<item name="android:fontFamily">${fontFamily}</item>`)
+    }
+
+    const fontSize = toDensityIndependent(typography.fontSize)
+    if (fontSize !== undefined) {
+      items.push(`<item name="android:textSize">${formatNumber(fontSize)}sp</item>`)
+    }
+
+    if (typeof typography.fontWeight === 'number') {
+      items.push(`<item name="android:textFontWeight">${Math.round(typography.fontWeight)}</item>`)
+    }
+
+    const lineHeight =
+      typeof typography.lineHeight === 'number'
+        ? fontSize !== undefined
+          ? fontSize * typography.lineHeight
+          : undefined
+        : toDensityIndependent(typography.lineHeight)
+    if (lineHeight !== undefined) {
+      items.push(`<item name="android:lineHeight">${formatNumber(lineHeight)}sp</item>`)
+    }
+
+    const letterSpacing = this.formatLetterSpacing(typography.letterSpacing, fontSize)
+    if (letterSpacing !== undefined) {
+      items.push(`<item name="android:letterSpacing">${letterSpacing}</item>`)
+    }
+
+    if (items.length === 0) {
+      return undefined
+    }
+
+    const styleName = `${options.stylePrefix}.${toSafeIdentifier(token.name, new Set(), true)}`
+    const body = items.map((item) => `${INDENT}${INDENT}${item}`).join('\n')
+    return {
+      kind: 'styles',
+      name: styleName,
+      xml: `<style name="${escapeXml(styleName)}">\n${body}\n${INDENT}</style>`,
+    }
+  }
+
+  /**
+   * Map a font stack to `android:fontFamily`: the primary family as a font
+   * resource when `fontResources` is enabled, else the first generic family
+   */
+  private formatFontFamily(value: unknown, fontResources: boolean): string | undefined {
+    const families = (Array.isArray(value) ? value : [value])
+      .filter((family): family is string => typeof family === 'string')
+      .map((family) => family.replace(/['"]/g, '').trim())
+
+    const primary = families[0]
+    if (primary === undefined) {
+      return undefined
+    }
+    if (fontResources && !GENERIC_FONT_FAMILIES.has(primary.toLowerCase())) {
+      return `@font/${toResourceName(primary)}`
+    }
+    return families
+      .map((family) => family.toLowerCase())
+      .find((family) => GENERIC_FONT_FAMILIES.has(family))
+  }
+
+  private formatLetterSpacing(value: unknown, fontSize: number | undefined): string | undefined {
+    const spacing = toDensityIndependent(value)
+    if (spacing === undefined || !fontSize) {
+      return undefined
+    }
+    return formatNumber(spacing / fontSize)
+  }
+
+  // -----------------------------------------------------------------------
+  // Output
+  // -----------------------------------------------------------------------
+
+  private diffResources(resources: ResourceSet, base: ResourceSet): ResourceSet {
+    const diff = {} as ResourceSet
+    for (const kind of RESOURCE_KINDS) {
+      diff[kind] = new Map(
+        [...resources[kind]].filter(([name, entry]) => base[kind].get(name)?.xml !== entry.xml),
+      )
+    }
+    return diff
+  }
+
+  private writeResources(files: Record<string, string>, dir: string, resources: ResourceSet): void {
+    for (const kind of RESOURCE_KINDS) {
+      const entries = resources[kind]
+      if (entries.size === 0) {
+        continue
+      }
+      files[`${dir}/${kind}.xml`] = this.buildResourceFile(entries)
+    }
+  }
+
+  private buildResourceFile(entries: Map<string, ResourceEntry>): string {
+    const lines = [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<!-- Generated by Dispersa - do not edit manually -->',
+      '<resources>',
+    ]
+
+    for (const { xml, comments } of entries.values()) {
+      for (const comment of comments) {
+        lines.push(`${INDENT}${comment}`)
+      }
+      lines.push(`${INDENT}${xml}`)
+    }
+
+    lines.push('</resources>', '')
+    return lines.join('\n')
+  }
+}
+
+/**
+ * Android XML resources renderer factory function.
+ *
+ * @example
+ * ```typescript
+ * outputs: [{
+ *   name: 'android-resources',
+ *   renderer: androidXmlRenderer(),
+ *   options: { nightContexts: ['dark'] },
+ *   file: 'app/src/main/res'
+ * }]
+ * ```
+ */
+export function androidXmlRenderer(): Renderer<AndroidXmlRendererOptions> {
+  const rendererInstance = new AndroidXmlRenderer()
+  return {
+    name: 'android-xml',
+    format: (context, options) =>
+      rendererInstance.format(
+        context,
+        options ?? (context.output.options as AndroidXmlRendererOptions | undefined),
+      ),
+  }
+}
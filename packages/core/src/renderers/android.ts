@@ -1002,6 +1002,7 @@ export class AndroidRenderer implements Renderer<AndroidRendererOptions> {
 export function androidRenderer(): Renderer<AndroidRendererOptions> {
   const rendererInstance = new AndroidRenderer()
   return {
+    name: 'android',
     format: (context, options) =>
       rendererInstance.format(
         context,
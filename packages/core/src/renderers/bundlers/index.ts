@@ -5,4 +5,5 @@
 export { bundleAsCss } from './css'
 export { bundleAsJson } from './json'
 export { bundleAsJsModule } from './js'
+export { bundleAsScss } from './scss'
 export type { BundleDataItem } from './types'
@@ -8,11 +8,16 @@
 
 /**
  * @fileoverview JavaScript module bundler for multi-theme output
+ *
+ * With the `runtime` option, the bundle also exports `getTokens()` and
+ * `applyTheme()` and ships with a `.d.ts` declaration typing both per
+ * modifier combination.
  */
 
 import type { JsModuleRendererOptions } from '@renderers/types'
 import type { ResolverDocument } from '@resolution/types'
 import { ConfigurationError } from '@shared/errors/index'
+import { buildNestedTokenObject, getSortedTokenEntries } from '@shared/utils/token-utils'
 import type { ResolvedTokens } from '@tokens/types'
 
 import { buildModifierComment } from '../metadata'
@@ -127,21 +132,74 @@ function buildHelperFunction(dimensions: string[]): string {
   ].join('\n')
 }
 
+/**
+ * Map each CSS custom property to the path of its token in the bundled token
+ * objects, named like the tokens of a `css()` output
+ */
+function buildCssVariablePaths(
+  bundleData: BundleDataItem[],
+  structure: 'flat' | 'nested',
+): Record<string, string[]> {
+  const paths: Record<string, string[]> = {}
+  for (const { tokens } of bundleData) {
+    for (const [, token] of getSortedTokenEntries(stripInternalMetadata(tokens))) {
+      paths[`--${token.name}`] = structure === 'flat' ? [token.name] : token.path
+    }
+  }
+  return paths
+}
+
+/** Generate the applyTheme function source and the CSS variable paths it reads */
+function buildApplyThemeFunction(cssVariablePaths: Record<string, string[]>): string {
+  return [
+    `const cssVariables = {`,
+    ...Object.entries(cssVariablePaths).map(
+      ([name, path]) => `  ${JSON.stringify(name)}: ${JSON.stringify(path)},`,
+    ),
+    `}`,
+    ``,
+    `/**`,
+    ` * Set the CSS custom properties of a modifier combination on an element`,
+    ` * @param {Object} element - Element to theme (e.g., document.documentElement)`,
+    ` * @param {Object} modifiers - Modifier values (e.g., { theme: 'dark', brand: 'partner-a' })`,
+    ` */`,
+    `export function applyTheme(element, modifiers = {}) {`,
+    `  const tokens = getTokens(modifiers)`,
+    `  if (!tokens) {`,
+    `    return`,
+    `  }`,
+    `  for (const [name, path] of Object.entries(cssVariables)) {`,
+    `    const value = path.reduce((node, key) => node?.[key], tokens)`,
+    `    if (typeof value === 'string' || typeof value === 'number') {`,
+    `      element.style.setProperty(name, String(value))`,
+    `    }`,
+    `  }`,
+    `}`,
+    ``,
+    ``,
+  ].join('\n')
+}
+
 /** Assemble the final JS bundle output string */
 function assembleJsBundle(
   metadata: BundleMetadata,
   jsBlocks: string[],
   generateHelper: boolean,
+  cssVariablePaths?: Record<string, string[]>,
 ): string {
   let output = `const tokenBundle = {\n`
   output += `  _meta: ${JSON.stringify(metadata, null, 2).replace(/\n/g, '\n  ')},\n`
   output += `  tokens: {\n${jsBlocks.join(',\n')}\n  }\n`
   output += `}\n\n`
 
-  if (generateHelper) {
+  if (generateHelper || cssVariablePaths) {
     output += buildHelperFunction(metadata.dimensions)
   }
 
+  if (cssVariablePaths) {
+    output += buildApplyThemeFunction(cssVariablePaths)
+  }
+
   output += `export default tokenBundle\n`
   return output
 }
@@ -153,6 +211,7 @@ function assembleJsBundle(
  * - Includes metadata with dimensions and defaults
  * - All permutations included (no filtering)
  * - Optional helper function for key generation
+ * - Optional runtime API (`getTokens()` and `applyTheme()`)
  */
 export async function bundleAsJsModule(
   bundleData: BundleDataItem[],
@@ -205,5 +264,147 @@ export async function bundleAsJsModule(
     jsBlocks.push(`  ${comment}\n  ${JSON.stringify(camelKey)}: ${indentedObject}`)
   }
 
-  return assembleJsBundle(metadata, jsBlocks, options?.generateHelper ?? false)
+  const cssVariablePaths = options?.runtime
+    ? buildCssVariablePaths(bundleData, options.structure ?? 'nested')
+    : undefined
+  return assembleJsBundle(metadata, jsBlocks, options?.generateHelper ?? false, cssVariablePaths)
+}
+
+/**
+ * Build the `.d.ts` declaration of a JS bundle with the runtime API
+ *
+ * `ModifierInputs` lists the contexts of every modifier, and `getTokens()`
+ * returns the token type of the combination it is called with. Token types
+ * describe the bundled values, with one alias per distinct shape.
+ */
+export function bundleAsJsDeclarations(
+  bundleData: BundleDataItem[],
+  resolver: ResolverDocument,
+  options: JsModuleRendererOptions | undefined,
+): string {
+  const metadata = buildMetadata(resolver)
+  const structure = options?.structure ?? 'nested'
+
+  const shapes = new Map<string, string>()
+  const permutations: Array<{ key: string; camelKey: string; typeName: string }> = []
+  for (const { tokens, modifierInputs } of bundleData) {
+    const key = buildStableDashKey({
+      modifierInputs,
+      dimensions: metadata.dimensions,
+      defaults: metadata.defaults,
+    })
+    const shape = toTypeLiteral(buildTokenObject(stripInternalMetadata(tokens), structure))
+    const typeName = shapes.get(shape) ?? `Tokens${shapes.size + 1}`
+    shapes.set(shape, typeName)
+    permutations.push({ key, camelKey: toCamelKey(key), typeName })
+  }
+
+  // A single shape is the common case: name it plainly
+  const rename = (typeName: string) => (shapes.size === 1 ? 'Tokens' : typeName)
+
+  const modifierContexts = Object.entries(resolver.modifiers ?? {}).map(
+    ([name, modifier]) =>
+      `${quoteKey(name.toLowerCase())}?: ${toLiteralUnion(Object.keys(modifier.contexts).map((c) => c.toLowerCase()))}`,
+  )
+  const defaults = metadata.dimensions.map(
+    (dimension) => `${quoteKey(dimension)}: ${JSON.stringify(metadata.defaults[dimension] ?? '')}`,
+  )
+  const permutationKey =
+    metadata.dimensions.length > 0
+      ? `\`${metadata.dimensions.map((dimension) => `\${ContextOf<I, ${JSON.stringify(dimension)}>}`).join('-')}\``
+      : `''`
+
+  return [
+    `/** Modifier contexts to get tokens for; omitted modifiers use their default */`,
+    modifierContexts.length > 0
+      ? `export type ModifierInputs = { ${modifierContexts.join('; ')} }`
+      : `export type ModifierInputs = Record<string, never>`,
+    ``,
+    `/** Default context of each modifier */`,
+    `export type ModifierDefaults = { ${defaults.join('; ')} }`,
+    ``,
+    `type ContextOf<I extends ModifierInputs, K extends keyof ModifierDefaults> = K extends keyof I`,
+    `  ? NonNullable<I[K]> | (undefined extends I[K] ? ModifierDefaults[K] : never)`,
+    `  : ModifierDefaults[K]`,
+    ``,
+    `/** Permutation key of a modifier combination: its contexts joined with \`-\` */`,
+    `export type PermutationKey<I extends ModifierInputs = ModifierInputs> = ${permutationKey}`,
+    ``,
+    ...[...shapes].map(([shape, typeName]) => `export type ${rename(typeName)} = ${shape}\n`),
+    `/** Tokens of each permutation in the bundle */`,
+    `export type TokensByPermutation = { ${permutations.map(({ key, typeName }) => `${JSON.stringify(key)}: ${rename(typeName)}`).join('; ')} }`,
+    ``,
+    `type TokensForKey<K> = K extends keyof TokensByPermutation ? TokensByPermutation[K] : undefined`,
+    ``,
+    `/** Tokens of a modifier combination (\`undefined\` if it is not in the bundle) */`,
+    `export type TokensFor<I extends ModifierInputs> = TokensForKey<PermutationKey<I>>`,
+    ``,
+    `/** Element whose CSS custom properties \`applyTheme()\` sets */`,
+    `export type ThemeTarget = { style: { setProperty(name: string, value: string): void } }`,
+    ``,
+    `declare const tokenBundle: {`,
+    `  _meta: { dimensions: ${JSON.stringify(metadata.dimensions)}; defaults: ModifierDefaults }`,
+    `  tokens: { ${permutations.map(({ camelKey, typeName }) => `${JSON.stringify(camelKey)}: ${rename(typeName)}`).join('; ')} }`,
+    `}`,
+    ``,
+    `/** Get tokens for a specific modifier combination */`,
+    `export declare function getTokens<I extends ModifierInputs = {}>(modifiers?: I): TokensFor<I>`,
+    ``,
+    `/** Set the CSS custom properties of a modifier combination on an element */`,
+    `export declare function applyTheme(element: ThemeTarget, modifiers?: ModifierInputs): void`,
+    ``,
+    `export default tokenBundle`,
+    ``,
+  ].join('\n')
+}
+
+function buildTokenObject(
+  tokens: ResolvedTokens,
+  structure: 'flat' | 'nested',
+): Record<string, unknown> {
+  if (structure === 'nested') {
+    return buildNestedTokenObject(tokens, (token) => token.$value)
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const [name, token] of getSortedTokenEntries(tokens)) {
+    result[name] = token.$value
+  }
+  return result
+}
+
+/** Describe a bundled value as a TypeScript type literal */
+function toTypeLiteral(value: unknown): string {
+  if (Array.isArray(value)) {
+    const itemTypes = [...new Set(value.map(toTypeLiteral))]
+    if (itemTypes.length === 0) {
+      return 'unknown[]'
+    }
+    return itemTypes.length === 1 ? `${itemTypes[0]}[]` : `Array<${itemTypes.join(' | ')}>`
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const properties = Object.entries(value)
+      .sort(([keyA], [keyB]) => keyA.localeCompare(keyB))
+      .map(([key, item]) => `${quoteKey(key)}: ${toTypeLiteral(item)}`)
+    return `{ ${properties.join('; ')} }`
+  }
+
+  if (value === null) {
+    return 'null'
+  }
+
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return typeof value
+  }
+
+  return 'unknown'
+}
+
+function toLiteralUnion(values: string[]): string {
+  return values.length > 0 ? values.map((value) => JSON.stringify(value)).join(' | ') : 'never'
+}
+
+function quoteKey(key: string): string {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key) ? key : JSON.stringify(key)
 }
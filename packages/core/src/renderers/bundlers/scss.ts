@@ -0,0 +1,131 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa Contributors
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * @fileoverview SCSS bundler for multi-theme output
+ *
+ * Bundles multiple permutations into a single SCSS file. The base permutation
+ * provides variables, the root map and mixins. Every permutation that differs
+ * from the base by a single modifier gets its own full map, and each modifier
+ * gets an index map from context name to map so consumers can switch themes
+ * with `map.get()`.
+ */
+
+import type { ResolvedScssOptions } from '@renderers/scss'
+import { BasePermutationError } from '@shared/errors/index'
+import type { ResolvedTokens } from '@tokens/types'
+
+import type { BundleDataItem } from './types'
+import {
+  countModifierDifferences,
+  getExpectedSource,
+  normalizeModifierInputs,
+  parseModifierSource,
+  stripInternalMetadata,
+} from './utils'
+
+type ScssFormatters = {
+  formatTokens: (tokens: ResolvedTokens, options: ResolvedScssOptions) => string
+  formatMap: (tokens: ResolvedTokens, variableName: string, options: ResolvedScssOptions) => string
+}
+
+/**
+ * Bundle tokens as a single SCSS file with per-modifier maps
+ *
+ * @example Output shape for a `theme` modifier (default `light`)
+ * ```scss
+ * $color-primary: #0066cc;
+ * $tokens: ('color': ('primary': #0066cc));
+ *
+ * // Modifier: theme=dark
+ * $tokens-theme-dark: ('color': ('primary': #66aaff));
+ *
+ * $tokens-theme: ('light': $tokens, 'dark': $tokens-theme-dark);
+ * ```
+ */
+export function bundleAsScss(
+  bundleData: BundleDataItem[],
+  options: ResolvedScssOptions,
+  formatters: ScssFormatters,
+): string {
+  const baseItem = bundleData.find((item) => item.isBase)
+  if (!baseItem) {
+    throw new BasePermutationError('Base permutation not found in bundle data')
+  }
+
+  const blocks: string[] = [
+    formatters.formatTokens(stripInternalMetadata(baseItem.tokens), options),
+  ]
+
+  if (!options.maps) {
+    return blocks.join('\n')
+  }
+
+  // modifier -> context -> map variable name (insertion order = permutation order)
+  const modifierIndex = new Map<string, Map<string, string>>()
+  const baseInputs = normalizeModifierInputs(baseItem.modifierInputs)
+  for (const [modifier, context] of Object.entries(baseInputs)) {
+    modifierIndex.set(modifier, new Map([[context, options.mapName]]))
+  }
+
+  for (const item of bundleData) {
+    if (item.isBase || countModifierDifferences(item.modifierInputs, baseItem.modifierInputs) > 1) {
+      continue
+    }
+
+    const expectedSource = getExpectedSource(item.modifierInputs, baseItem.modifierInputs)
+    const [modifier, context] = parseModifierSource(expectedSource)
+    const variableName = toSassIdentifier(`${options.mapName}-${modifier}-${context}`)
+
+    const map = formatters.formatMap(stripInternalMetadata(item.tokens), variableName, options)
+    blocks.push(`// Modifier: ${modifier}=${context}\n${map}\n`)
+
+    const contexts = modifierIndex.get(modifier) ?? new Map<string, string>()
+    contexts.set(context, variableName)
+    modifierIndex.set(modifier, contexts)
+  }
+
+  const indexMaps = buildModifierIndexMaps(modifierIndex, options)
+  if (indexMaps) {
+    blocks.push(`${indexMaps}\n`)
+  }
+
+  return blocks.join('\n')
+}
+
+/**
+ * Restrict a name to characters valid in Sass identifiers
+ */
+export function toSassIdentifier(name: string): string {
+  return name
+    .trim()
+    .replace(/[^a-zA-Z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+function buildModifierIndexMaps(
+  modifierIndex: Map<string, Map<string, string>>,
+  options: ResolvedScssOptions,
+): string | undefined {
+  const flag = options.defaultFlag ? ' !default' : ''
+  const declarations: string[] = []
+
+  for (const [modifier, contexts] of modifierIndex) {
+    // A modifier whose only context is the default has nothing to switch between
+    if (contexts.size < 2) {
+      continue
+    }
+    const entries = [...contexts].map(
+      ([context, variableName]) => `  '${context}': $${variableName},`,
+    )
+    const variableName = toSassIdentifier(`${options.mapName}-${modifier}`)
+    declarations.push(`$${variableName}: (\n${entries.join('\n')}\n)${flag};`)
+  }
+
+  return declarations.length > 0 ? declarations.join('\n\n') : undefined
+}
@@ -12,7 +12,8 @@
  * Bundles multiple permutations into a single Tailwind @theme file.
  * The base permutation tokens are included in @theme to define the utility
  * vocabulary. Non-base permutations (e.g., dark mode) are appended as plain
- * CSS custom property overrides with configurable selectors/media queries.
+ * CSS custom property overrides with configurable selectors/media queries,
+ * optionally repeated as `@utility` classes.
  */
 
 import type { TailwindRendererOptions } from '@renderers/tailwind'
@@ -32,12 +33,14 @@ import {
 } from './utils'
 
 type ResolvedTailwindOptions = {
-  preset: 'bundle' | 'standalone'
+  preset: 'bundle' | 'standalone' | 'config'
   includeImport: boolean
   namespace: string
   minify: boolean
   selector?: string | SelectorFunction
   mediaQuery?: string | MediaQueryFunction
+  namespaces: Record<string, string>
+  contextUtilities: boolean
   variantDeclarations: string[]
 }
 
@@ -139,7 +142,19 @@ async function formatModifierOverride(
   )
 
   const css = await formatOverrideBlock(cleanTokens, selector, mediaQuery, options.minify)
-  return `/* Modifier: ${modifier}=${context} */\n${css}`
+  const block = `/* Modifier: ${modifier}=${context} */\n${css}`
+  if (!options.contextUtilities) {
+    return block
+  }
+
+  // The same overrides as a utility class, to apply the context to a subtree
+  const utility = await formatOverrideBlock(
+    cleanTokens,
+    `@utility ${toVariantName(modifier, context)}`,
+    '',
+    options.minify,
+  )
+  return `${block}\n${utility}`
 }
 
 /**
@@ -175,7 +190,8 @@ function filterTokensByValueChange(
  * For each non-base permutation that differs by a single modifier,
  * builds a Tailwind v4 @custom-variant line using the resolved selector
  * or media query. Variant names follow the {modifier}-{context} format
- * (e.g. "theme-dark") to avoid collisions across modifier dimensions.
+ * (e.g. "theme-dark") to avoid collisions across modifier dimensions. With
+ * context utilities, selector variants also match the utility class.
  */
 function collectVariantDeclarations(
   bundleData: BundleDataItem[],
@@ -196,7 +212,7 @@ function collectVariantDeclarations(
 
     const expectedSource = getExpectedSource(item.modifierInputs, baseItem.modifierInputs)
     const [modifier, context] = parseModifierSource(expectedSource)
-    const variantName = `${modifier}-${context}`
+    const variantName = toVariantName(modifier, context)
     const normalized = normalizeModifierInputs(item.modifierInputs)
 
     const mediaQuery = resolveMediaQuery(options.mediaQuery, modifier, context, false, normalized)
@@ -206,12 +222,19 @@ function collectVariantDeclarations(
     }
 
     const selector = resolveSelector(options.selector, modifier, context, false, normalized)
-    declarations.push(`@custom-variant ${variantName} (&:where(${selector}, ${selector} *));`)
+    const utilitySelectors = options.contextUtilities ? `, .${variantName}, .${variantName} *` : ''
+    declarations.push(
+      `@custom-variant ${variantName} (&:where(${selector}, ${selector} *${utilitySelectors}));`,
+    )
   }
 
   return declarations
 }
 
+function toVariantName(modifier: string, context: string): string {
+  return `${modifier}-${context}`
+}
+
 function resolveOptions(
   options: ResolvedTailwindOptions | TailwindRendererOptions,
 ): ResolvedTailwindOptions {
@@ -222,6 +245,8 @@ function resolveOptions(
     minify: options.minify ?? false,
     selector: options.selector,
     mediaQuery: options.mediaQuery,
+    namespaces: options.namespaces ?? {},
+    contextUtilities: options.contextUtilities ?? false,
     variantDeclarations: [],
   }
 }
@@ -10,7 +10,12 @@
  * @fileoverview Shared utilities for bundlers
  */
 
-import type { MediaQueryFunction, SelectorFunction } from '@renderers/types'
+import type {
+  MediaQueryFunction,
+  PermutationData,
+  RenderContext,
+  SelectorFunction,
+} from '@renderers/types'
 import type { ModifierInputs, ResolverDocument } from '@resolution/types'
 import { ConfigurationError } from '@shared/errors/index'
 import { getSortedTokenEntries, stripInternalTokenMetadata } from '@shared/utils/token-utils'
@@ -317,6 +322,52 @@ export function countModifierDifferences(
   return count
 }
 
+/**
+ * Find the permutation that switches a single modifier of the base permutation
+ * to one of `contexts` (e.g. the dark or night appearance of a theme)
+ *
+ * @param permutations - Permutations available to the renderer
+ * @param basePermutation - Permutation holding the default modifier contexts
+ * @param contexts - Lower-case modifier contexts to look for
+ */
+export function findContextPermutation(
+  permutations: PermutationData[],
+  basePermutation: PermutationData,
+  contexts: string[],
+): PermutationData | undefined {
+  const baseInputs = normalizeModifierInputs(basePermutation.modifierInputs)
+
+  return permutations.find(({ modifierInputs }) => {
+    if (countModifierDifferences(modifierInputs, basePermutation.modifierInputs) !== 1) {
+      return false
+    }
+    return Object.entries(normalizeModifierInputs(modifierInputs)).some(
+      ([modifier, value]) => baseInputs[modifier] !== value && contexts.includes(value),
+    )
+  })
+}
+
+/**
+ * Resolve the directory of a renderer that writes a tree of files
+ *
+ * The output `file` is a directory path, a `{modifier}` pattern or a function,
+ * all resolved against the base permutation's modifier inputs. Trailing slashes
+ * are removed.
+ *
+ * @param context - Render context of the output
+ * @param fallback - Directory used when the output has no `file`
+ */
+export function resolveOutputDirectory(context: RenderContext, fallback: string): string {
+  const { file } = context.output
+  const basePermutation = context.meta.basePermutation
+  if (!file) {
+    return fallback
+  }
+  const dir =
+    typeof file === 'function' ? file(basePermutation) : interpolatePattern(file, basePermutation)
+  return dir.replace(/\/+$/, '')
+}
+
 /**
  * Determine which modifier source this permutation represents
  * Returns source tag like "theme-dark" or "platform-mobile"
@@ -6,6 +6,7 @@
 import { colorObjectToHex, isColorObject } from '@processing/transforms/built-in/color-converter'
 import {
   dimensionObjectToString,
+  fluidDimensionToClamp,
   isDimensionObject,
 } from '@processing/transforms/built-in/dimension-converter'
 import {
@@ -13,7 +14,11 @@ import {
   isDurationObject,
 } from '@processing/transforms/built-in/duration-converter'
 import { ConfigurationError } from '@shared/errors/index'
-import { getPureAliasReferenceName, getSortedTokenEntries } from '@shared/utils/token-utils'
+import {
+  getFluidDimension,
+  getPureAliasReferenceName,
+  getSortedTokenEntries,
+} from '@shared/utils/token-utils'
 import type {
   DimensionValue,
   DurationValue,
@@ -21,6 +26,7 @@ import type {
   ResolvedTokens,
   ShadowValueObject,
 } from '@tokens/types'
+import { kebabCase } from 'change-case'
 import prettier from 'prettier'
 
 import { buildSetLayerBlocks, bundleAsCss } from './bundlers/css'
@@ -56,6 +62,9 @@ type CompositeLeaf = {
   value: unknown
 }
 
+/** Typography sub-values combined into the `font` shorthand, in shorthand order */
+const FONT_SHORTHAND_KEYS = ['fontStyle', 'fontWeight', 'fontSize', 'lineHeight', 'fontFamily']
+
 export class CssRenderer implements Renderer<CssRendererOptions> {
   async format(context: RenderContext, options?: CssRendererOptions): Promise<RenderOutput> {
     const opts: CssRendererOptions = {
@@ -64,6 +73,7 @@ export class CssRenderer implements Renderer<CssRendererOptions> {
       mediaQuery: options?.mediaQuery,
       minify: options?.minify ?? false,
       preserveReferences: options?.preserveReferences ?? false,
+      typographyClasses: options?.typographyClasses ?? false,
     }
 
     if (opts.preset === 'bundle') {
@@ -103,6 +113,7 @@ export class CssRenderer implements Renderer<CssRendererOptions> {
       mediaQuery: '',
       minify: false,
       preserveReferences: false,
+      typographyClasses: false,
       ...options,
       referenceTokens: options?.referenceTokens ?? tokens,
     }
@@ -154,7 +165,148 @@ export class CssRenderer implements Renderer<CssRendererOptions> {
     if (hasMediaQuery) {
       lines.push(`${indent}}${newline}`)
     }
-    lines.push(`}${newline}${newline}`)
+
+    const classLines = this.buildTypographyClasses(
+      groupTokens,
+      selector,
+      tokens,
+      referenceTokens,
+      opts,
+      hasMediaQuery ? indent : '',
+    )
+
+    if (hasMediaQuery) {
+      lines.push(...classLines)
+      lines.push(`}${newline}${newline}`)
+    } else {
+      lines.push(`}${newline}${newline}`)
+      lines.push(...classLines)
+    }
+  }
+
+  /**
+   * Build utility classes for the typography tokens of a block
+   *
+   * Declarations reference the token's custom properties, and classes are scoped
+   * to the block's selector, so they apply wherever the properties are defined.
+   */
+  private buildTypographyClasses(
+    groupTokens: ResolvedToken[],
+    selector: string,
+    tokens: ResolvedTokens,
+    referenceTokens: ResolvedTokens,
+    opts: Required<ResolvedCssOptions>,
+    baseIndent: string,
+  ): string[] {
+    if (!opts.typographyClasses) {
+      return []
+    }
+
+    const typographyTokens = groupTokens.filter(
+      (token) => token.$type === 'typography' && this.isCompositeToken(token),
+    )
+    if (typographyTokens.length === 0) {
+      return []
+    }
+
+    const { prefix = '', layer } = opts.typographyClasses === true ? {} : opts.typographyClasses
+    const indent = opts.minify ? '' : '  '
+    const newline = opts.minify ? '' : '\n'
+    const space = opts.minify ? '' : ' '
+    const classIndent = layer ? baseIndent + indent : baseIndent
+    const lines: string[] = []
+
+    if (layer) {
+      lines.push(`${baseIndent}@layer ${layer}${space}{${newline}`)
+    }
+
+    for (const token of typographyTokens) {
+      const baseName = this.resolveLeafBaseName(
+        token,
+        tokens,
+        referenceTokens,
+        opts.preserveReferences,
+      )
+      const className = `.${prefix}${token.name}`
+      const classSelector = selector === ':root' ? className : `:where(${selector}) ${className}`
+
+      lines.push(`${classIndent}${classSelector}${space}{${newline}`)
+      for (const [property, value] of this.buildTypographyDeclarations(token, baseName)) {
+        lines.push(`${classIndent}${indent}${property}:${space}${value};${newline}`)
+      }
+      lines.push(`${classIndent}}${newline}${newline}`)
+    }
+
+    if (layer) {
+      lines.push(`${baseIndent}}${newline}${newline}`)
+    }
+
+    return lines
+  }
+
+  /**
+   * Build the declarations of a typography class
+   *
+   * Sub-values are combined into the `font` shorthand when both `fontSize` and
+   * `fontFamily` are present; the others become longhand properties.
+   */
+  private buildTypographyDeclarations(
+    token: ResolvedToken,
+    baseName: string,
+  ): Array<[property: string, value: string]> {
+    const value = token.$value as Record<string, unknown>
+    const keys = Object.keys(value)
+    const toVar = (key: string): string =>
+      this.collectCompositeLeaves(value[key])
+        .map((leaf) =>
+          this.buildCompositeVar(baseName, [this.normalizePathSegment(key), ...leaf.path]),
+        )
+        .join(', ')
+
+    const declarations: Array<[property: string, value: string]> = []
+    let longhandKeys = keys
+
+    if (keys.includes('fontSize') && keys.includes('fontFamily')) {
+      const size = keys.includes('lineHeight')
+        ? `${toVar('fontSize')}/${toVar('lineHeight')}`
+        : toVar('fontSize')
+      const parts = ['fontStyle', 'fontWeight']
+        .filter((key) => keys.includes(key))
+        .map((key) => toVar(key))
+      declarations.push(['font', [...parts, size, toVar('fontFamily')].join(' ')])
+      longhandKeys = keys.filter((key) => !FONT_SHORTHAND_KEYS.includes(key))
+    }
+
+    for (const key of longhandKeys) {
+      declarations.push([kebabCase(key), toVar(key)])
+    }
+
+    return declarations
+  }
+
+  /**
+   * Name of the token whose custom properties hold a token's composite leaves
+   *
+   * With preserveReferences, a pure alias is emitted as a single reference, so
+   * its leaves are those of the token it (transitively) points to.
+   */
+  private resolveLeafBaseName(
+    token: ResolvedToken,
+    tokens: ResolvedTokens,
+    referenceTokens: ResolvedTokens,
+    preserveReferences: boolean,
+  ): string {
+    let current = token
+    while (preserveReferences) {
+      const refName = getPureAliasReferenceName(current.originalValue)
+      const referenced =
+        refName === undefined ? undefined : (referenceTokens[refName] ?? tokens[refName])
+      if (!referenced) {
+        break
+      }
+      current = referenced
+    }
+    return current.name
   }
 
   private pushTokenLines(
@@ -206,7 +358,10 @@ export class CssRenderer implements Renderer<CssRendererOptions> {
   ): CssEntry[] {
     if (preserveReferences) {
       const refName = getPureAliasReferenceName(token.originalValue)
-      if (refName !== undefined) {
+      if (
+        refName !== undefined &&
+        !this.hasOwnFluidRange(token, refName, referenceTokens, tokens)
+      ) {
         return [
           {
             name: token.name,
@@ -467,6 +622,25 @@ export class CssRenderer implements Renderer<CssRendererOptions> {
     return this.buildCssVarReference(refName, referenceTokens, tokens)
   }
 
+  /**
+   * Whether a fluid alias scales differently from the token it references, so
+   * a `var()` reference would lose its own `clamp()`
+   */
+  private hasOwnFluidRange(
+    token: ResolvedToken,
+    refName: string,
+    referenceTokens: ResolvedTokens,
+    tokens: ResolvedTokens,
+  ): boolean {
+    const fluid = getFluidDimension(token)
+    if (!fluid) {
+      return false
+    }
+    const referencedToken = referenceTokens[refName] ?? tokens[refName]
+    const referencedFluid = referencedToken ? getFluidDimension(referencedToken) : undefined
+    return JSON.stringify(fluid) !== JSON.stringify(referencedFluid)
+  }
+
   private buildCssVarReference(
     refName: string,
     referenceTokens: ResolvedTokens,
@@ -518,11 +692,17 @@ export class CssRenderer implements Renderer<CssRendererOptions> {
 
   /**
    * Format token value for CSS
-   * Handles DTCG 2025.10 object formats for colors and dimensions
+   * Handles DTCG 2025.10 object formats for colors and dimensions, and emits
+   * `clamp()` for fluid dimensions
    */
   private formatValue(token: ResolvedToken): string {
     const value = token.$value
 
+    const fluid = getFluidDimension(token)
+    if (fluid) {
+      return fluidDimensionToClamp(fluid)
+    }
+
     const typed = this.formatTypedValue(token.$type, value)
     if (typed !== undefined) {
       return typed
@@ -689,6 +869,7 @@ export class CssRenderer implements Renderer<CssRendererOptions> {
       return await this.formatTokens(tokens, {
         ...resolved,
         preserveReferences: options.preserveReferences ?? false,
+        typographyClasses: options.typographyClasses ?? false,
       })
     })
   }
@@ -751,6 +932,7 @@ export class CssRenderer implements Renderer<CssRendererOptions> {
       mediaQuery,
       minify: options.minify ?? false,
       preserveReferences: options.preserveReferences ?? false,
+      typographyClasses: options.typographyClasses ?? false,
       referenceTokens: tokens,
     })
 
@@ -879,6 +1061,7 @@ export class CssRenderer implements Renderer<CssRendererOptions> {
         mediaQuery,
         minify: options.minify ?? false,
         preserveReferences: options.preserveReferences ?? false,
+        typographyClasses: options.typographyClasses ?? false,
         referenceTokens,
       })
       const header = block.description
@@ -949,6 +1132,7 @@ export class CssRenderer implements Renderer<CssRendererOptions> {
       mediaQuery,
       minify: options.minify ?? false,
       preserveReferences: options.preserveReferences ?? false,
+      typographyClasses: options.typographyClasses ?? false,
       referenceTokens,
     })
 
@@ -1022,6 +1206,7 @@ export class CssRenderer implements Renderer<CssRendererOptions> {
 export function cssRenderer(): Renderer<CssRendererOptions> {
   const rendererInstance = new CssRenderer()
   return {
+    name: 'css',
     format: (context, options) =>
       rendererInstance.format(
         context,
@@ -0,0 +1,152 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa Contributors
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * @fileoverview DTCG renderer for design tokens
+ * Writes one plain DTCG token file per permutation, for tools that read DTCG
+ * token files but not resolver documents.
+ *
+ * Tokens are nested by their `path`, so the output mirrors the source group
+ * structure. Each token keeps `$type`, `$description`, `$deprecated` and
+ * `$extensions`. Token names and transforms that rename tokens have no effect
+ * on the structure; value transforms do apply to `$value`.
+ */
+
+import { buildNestedTokenObject } from '@shared/utils/token-utils'
+import type { InternalResolvedToken, InternalResolvedTokens } from '@tokens/types'
+import prettier from 'prettier'
+
+import { assertFileRequired, buildInMemoryOutputKey, resolveFileName } from './bundlers/utils'
+import { outputTree } from './output-tree'
+import type { RenderContext, RenderOutput, Renderer } from './types'
+
+/**
+ * Options for the DTCG renderer
+ */
+export type DtcgRendererOptions = {
+  /**
+   * Write alias tokens with their reference (`originalValue`, e.g.
+   * `"{color.blue.500}"`) instead of the resolved `$value`.
+   *
+   * A reference is only kept when every token it points to is part of the
+   * same output; otherwise the resolved value is written so the file stays
+   * self-contained. Default: `false`.
+   */
+  preserveReferences?: boolean
+  /** Write compact JSON without whitespace. Default: `false` */
+  minify?: boolean
+}
+
+const REFERENCE_PATTERN = /\{([^{}]+)\}/g
+
+/** `{group.$root}` and `{group}` refer to the same token */
+function toReferencePath(path: string): string {
+  return path.replace(/\.\$root$/, '')
+}
+
+export class DtcgRenderer implements Renderer<DtcgRendererOptions> {
+  async format(context: RenderContext, options?: DtcgRendererOptions): Promise<RenderOutput> {
+    const opts: Required<DtcgRendererOptions> = {
+      preserveReferences: options?.preserveReferences ?? false,
+      minify: options?.minify ?? false,
+    }
+
+    assertFileRequired(context.buildPath, context.output.file, context.output.name, 'DTCG')
+
+    const files: Record<string, string> = {}
+    for (const { tokens, modifierInputs } of context.permutations) {
+      const fileName = context.output.file
+        ? resolveFileName(context.output.file, modifierInputs)
+        : buildInMemoryOutputKey({
+            outputName: context.output.name,
+            extension: 'json',
+            modifierInputs,
+            resolver: context.resolver,
+            defaults: context.meta.defaults,
+          })
+      files[fileName] = await this.formatTokens(tokens, opts)
+    }
+
+    return outputTree(files)
+  }
+
+  private async formatTokens(
+    tokens: InternalResolvedTokens,
+    options: Required<DtcgRendererOptions>,
+  ): Promise<string> {
+    const paths = new Set(
+      Object.values(tokens).map((token) => toReferencePath(token.path.join('.'))),
+    )
+    const valueOf = (token: InternalResolvedToken): unknown =>
+      options.preserveReferences && token._isAlias && this.canKeepReferences(token, paths)
+        ? token.originalValue
+        : token.$value
+
+    // Serialize explicitly so internal metadata (`_isAlias`, ...) is never written
+    const output = buildNestedTokenObject(tokens, (token) => {
+      return {
+        $value: valueOf(token),
+        ...(typeof token.$type === 'string' && { $type: token.$type }),
+        ...(token.$description != null &&
+          token.$description !== '' && { $description: token.$description }),
+        ...(token.$deprecated != null &&
+          token.$deprecated !== false && { $deprecated: token.$deprecated }),
+        ...(token.$extensions != null && { $extensions: token.$extensions }),
+      }
+    })
+
+    const jsonString = JSON.stringify(output)
+    if (options.minify) {
+      return jsonString
+    }
+
+    return await prettier.format(jsonString, {
+      parser: 'json',
+      printWidth: 80,
+      tabWidth: 2,
+      useTabs: false,
+    })
+  }
+
+  /**
+   * Whether every `{path}` reference in the token's original value points to
+   * a token in the same output
+   */
+  private canKeepReferences(token: InternalResolvedToken, paths: Set<string>): boolean {
+    const serialized = JSON.stringify(token.originalValue)
+    const references = [...serialized.matchAll(REFERENCE_PATTERN)].map((match) =>
+      toReferencePath((match[1] ?? '').trim()),
+    )
+    return references.length > 0 && references.every((reference) => paths.has(reference))
+  }
+}
+
+/**
+ * DTCG renderer factory function
+ *
+ * @example
+ * ```typescript
+ * outputs: [{
+ *   name: 'dtcg',
+ *   renderer: dtcgRenderer(),
+ *   options: { preserveReferences: true },
+ *   file: 'tokens-{theme}.tokens.json'
+ * }]
+ * ```
+ */
+export function dtcgRenderer(): Renderer<DtcgRendererOptions> {
+  const rendererInstance = new DtcgRenderer()
+  return {
+    name: 'dtcg',
+    format: (context, options) =>
+      rendererInstance.format(
+        context,
+        options ?? (context.output.options as DtcgRendererOptions | undefined),
+      ),
+  }
+}
@@ -3,17 +3,22 @@
  */
 
 export { cssRenderer } from './css'
+export { scssRenderer } from './scss'
 export { jsRenderer } from './js-module'
 export { jsonRenderer } from './json'
 export { tailwindRenderer } from './tailwind'
 export { iosRenderer } from './ios'
 export { androidRenderer } from './android'
+export { androidXmlRenderer } from './android-xml'
+export { dtcgRenderer } from './dtcg'
 export { outputTree, isOutputTree } from './output-tree'
 
 export type {
   BuildOutput,
   BuildResult,
   CssRendererOptions,
+  CssTypographyClassOptions,
+  ScssRendererOptions,
   FormatOptions,
   OutputTree,
   Renderer,
@@ -25,4 +30,6 @@ export type {
   TailwindRendererOptions,
   IosRendererOptions,
   AndroidRendererOptions,
+  AndroidXmlRendererOptions,
+  DtcgRendererOptions,
 } from './types'
@@ -8,12 +8,15 @@
 
 /**
  * @fileoverview iOS/SwiftUI renderer for design tokens
- * Generates Swift code targeting SwiftUI (iOS 17+)
+ * Generates Swift code targeting SwiftUI (iOS 17+), or an `.xcassets` asset
+ * catalog with one colorset per color token for Interface Builder and
+ * `UIColor(named:)`.
  */
 
 import { isColorObject, dtcgObjectToCulori } from '@processing/transforms/built-in/color-converter'
 import { isDimensionObject } from '@processing/transforms/built-in/dimension-converter'
 import { isDurationObject } from '@processing/transforms/built-in/duration-converter'
+import { ConfigurationError } from '@shared/errors/index'
 import type {
   ColorValueObject,
   DimensionValue,
@@ -23,15 +26,18 @@ import type {
   ResolvedTokens,
 } from '@tokens/types'
 import { isBorderToken, isShadowToken, isTypographyToken } from '@tokens/types'
-import { converter } from 'culori'
+import { converter, parse } from 'culori'
 
 import {
   assertFileRequired,
   buildGeneratedFileHeader,
   buildInMemoryOutputKey,
+  findContextPermutation,
   groupTokensByType,
   indentStr,
+  isBasePermutation,
   resolveFileName,
+  resolveOutputDirectory,
   stripInternalMetadata,
   toSafeIdentifier,
 } from './bundlers/utils'
@@ -43,7 +49,13 @@ import type { RenderContext, RenderOutput, Renderer } from './types'
  * Options for iOS/SwiftUI renderer
  */
 export type IosRendererOptions = {
-  preset?: 'standalone'
+  /**
+   * Output preset:
+   * - `'standalone'` (default) — one Swift file per permutation
+   * - `'assetCatalog'` — an `.xcassets` tree with a `.colorset` per color token;
+   *   `file` is the catalog directory (e.g. `'Assets.xcassets'`)
+   */
+  preset?: 'standalone' | 'assetCatalog'
   accessLevel?: 'public' | 'internal'
   /**
    * Output structure:
@@ -66,8 +78,27 @@ export type IosRendererOptions = {
   indent?: number
   /** Add @frozen annotation to enums and structs for ABI stability (default false) */
   frozen?: boolean
+  /**
+   * Modifier contexts mapped to the dark appearance in asset catalog output
+   * (case-insensitive, default `['dark', 'night']`)
+   */
+  darkContexts?: string[]
 }
 
+type ColorsetColor = {
+  'color-space': 'srgb' | 'display-p3'
+  components: { alpha: string; blue: string; green: string; red: string }
+}
+
+type ColorsetEntry = {
+  appearances?: Array<{ appearance: 'luminosity'; value: 'dark' }>
+  color: ColorsetColor
+  idiom: 'universal'
+}
+
+/** Xcode writes this `info` block into every Contents.json */
+const ASSET_CATALOG_INFO = { author: 'xcode', version: 1 }
+
 const toSRGB = converter('rgb')
 const toP3 = converter('p3')
 
@@ -157,6 +188,11 @@ export class IosRenderer implements Renderer<IosRendererOptions> {
       swiftVersion: options?.swiftVersion ?? '5.9',
       indent: options?.indent ?? 4,
       frozen: options?.frozen ?? false,
+      darkContexts: (options?.darkContexts ?? ['dark', 'night']).map((c) => c.toLowerCase()),
+    }
+
+    if (opts.preset === 'assetCatalog') {
+      return this.formatAssetCatalog(context, opts)
     }
 
     return await this.formatStandalone(context, opts)
@@ -775,6 +811,120 @@ export class IosRenderer implements Renderer<IosRendererOptions> {
 
     return outputTree(files)
   }
+
+  // -----------------------------------------------------------------------
+  // Output: asset catalog
+  // -----------------------------------------------------------------------
+
+  /**
+   * Write an asset catalog with one colorset per color token
+   *
+   * The base permutation provides the "Any Appearance" color. A permutation that
+   * switches a single modifier to a dark context adds the dark appearance when
+   * its color differs. Other permutations have no appearance and are skipped.
+   */
+  private formatAssetCatalog(
+    context: RenderContext,
+    options: Required<IosRendererOptions>,
+  ): RenderOutput {
+    assertFileRequired(
+      context.buildPath,
+      context.output.file,
+      context.output.name,
+      'iOS asset catalog',
+    )
+
+    const catalogDir = resolveOutputDirectory(context, `${context.output.name}.xcassets`)
+    const files: Record<string, string> = {
+      [`${catalogDir}/Contents.json`]: this.formatContentsJson({ info: ASSET_CATALOG_INFO }),
+    }
+
+    const basePermutation =
+      context.permutations.find(({ modifierInputs }) =>
+        isBasePermutation(modifierInputs, context.meta.defaults),
+      ) ?? context.permutations[0]
+    if (!basePermutation) {
+      return outputTree(files)
+    }
+
+    const darkPermutation = findContextPermutation(
+      context.permutations,
+      basePermutation,
+      options.darkContexts,
+    )
+    const baseTokens = stripInternalMetadata(basePermutation.tokens)
+    const darkTokens = darkPermutation ? stripInternalMetadata(darkPermutation.tokens) : {}
+
+    const assetTokens = new Map<string, string>()
+    for (const [key, token] of Object.entries(baseTokens)) {
+      if (token.$type !== 'color') {
+        continue
+      }
+      const color = this.formatColorsetColor(token.$value, options)
+      if (!color) {
+        continue
+      }
+
+      const colors: ColorsetEntry[] = [{ color, idiom: 'universal' }]
+      const darkToken = darkTokens[key]
+      const darkColor = darkToken ? this.formatColorsetColor(darkToken.$value, options) : undefined
+      if (darkColor && JSON.stringify(darkColor) !== JSON.stringify(color)) {
+        colors.push({
+          appearances: [{ appearance: 'luminosity', value: 'dark' }],
+          color: darkColor,
+          idiom: 'universal',
+        })
+      }
+
+      const assetName = toSafeIdentifier(token.name, new Set(), false)
+      const existing = assetTokens.get(assetName)
+      if (existing !== undefined) {
+        throw new ConfigurationError(
+          `Output "${context.output.name}": tokens "${existing}" and "${token.name}" both map to the colorset "${assetName}"`,
+        )
+      }
+      assetTokens.set(assetName, token.name)
+      files[`${catalogDir}/${assetName}.colorset/Contents.json`] = this.formatContentsJson({
+        colors,
+        info: ASSET_CATALOG_INFO,
+      })
+    }
+
+    return outputTree(files)
+  }
+
+  private formatColorsetColor(
+    value: unknown,
+    options: Required<IosRendererOptions>,
+  ): ColorsetColor | undefined {
+    const source = isColorObject(value)
+      ? dtcgObjectToCulori(value)
+      : typeof value === 'string'
+        ? parse(value)
+        : undefined
+    if (!source) {
+      return undefined
+    }
+
+    const displayP3 = options.colorSpace === 'displayP3'
+    const color = displayP3 ? toP3(source) : toSRGB(source)
+    const component = (channel: number | undefined): string =>
+      Math.min(1, Math.max(0, channel ?? 0)).toFixed(3)
+
+    return {
+      'color-space': displayP3 ? 'display-p3' : 'srgb',
+      components: {
+        alpha: component(color.alpha ?? 1),
+        blue: component(color.b),
+        green: component(color.g),
+        red: component(color.r),
+      },
+    }
+  }
+
+  private formatContentsJson(contents: Record<string, unknown>): string {
+    return `${JSON.stringify(contents, null, 2)}\n`
+  }
 }
 
 /**
@@ -798,6 +948,7 @@ export class IosRenderer implements Renderer<IosRendererOptions> {
 export function iosRenderer(): Renderer<IosRendererOptions> {
   const rendererInstance = new IosRenderer()
   return {
+    name: 'ios',
     format: (context, options) =>
       rendererInstance.format(
         context,
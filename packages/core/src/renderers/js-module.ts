@@ -13,6 +13,7 @@ import { buildNestedTokenObject, getSortedTokenEntries } from '@shared/utils/tok
 import type { ResolvedToken, ResolvedTokens } from '@tokens/types'
 import prettier from 'prettier'
 
+import type { BundleDataItem } from './bundlers/types'
 import { buildTokenDeprecationComment, buildTokenDescriptionComment } from './metadata'
 import { outputTree } from './output-tree'
 import type { JsModuleRendererOptions, RenderContext, RenderOutput, Renderer } from './types'
@@ -25,6 +26,7 @@ export class JsModuleRenderer implements Renderer<JsModuleRendererOptions> {
       minify: options?.minify ?? false,
       moduleName: options?.moduleName ?? 'tokens',
       generateHelper: options?.generateHelper ?? false,
+      runtime: options?.runtime ?? false,
     }
 
     if (opts.preset === 'bundle') {
@@ -35,9 +37,14 @@ export class JsModuleRenderer implements Renderer<JsModuleRendererOptions> {
         isBase: isBasePermutation(modifierInputs, context.meta.defaults),
       }))
 
-      return await bundleAsJsModule(bundleData, context.resolver, opts, async (tokens) => {
+      const bundle = await bundleAsJsModule(bundleData, context.resolver, opts, async (tokens) => {
         return await this.formatTokens(tokens, opts)
       })
+      if (!opts.runtime) {
+        return bundle
+      }
+
+      return await this.formatRuntimeBundle(context, bundleData, bundle, opts)
     }
 
     assertFileRequired(context.buildPath, context.output.file, context.output.name, 'JS module')
@@ -61,6 +68,50 @@ export class JsModuleRenderer implements Renderer<JsModuleRendererOptions> {
     return outputTree(files)
   }
 
+  /**
+   * Pair a bundle with the runtime API with its `.d.ts` declaration file
+   */
+  private async formatRuntimeBundle(
+    context: RenderContext,
+    bundleData: BundleDataItem[],
+    bundle: string,
+    options: Required<JsModuleRendererOptions>,
+  ): Promise<RenderOutput> {
+    assertFileRequired(context.buildPath, context.output.file, context.output.name, 'JS runtime')
+
+    const { bundleAsJsDeclarations } = await import('@renderers/bundlers/js')
+    const declarations = bundleAsJsDeclarations(bundleData, context.resolver, options)
+
+    const { file } = context.output
+    const fileName =
+      typeof file === 'string' && !/\{.+?\}/.test(file)
+        ? file
+        : file
+          ? resolveFileName(file, context.meta.basePermutation)
+          : buildInMemoryOutputKey({
+              outputName: context.output.name,
+              extension: 'js',
+              modifierInputs: context.meta.basePermutation,
+              resolver: context.resolver,
+              defaults: context.meta.defaults,
+            })
+
+    return outputTree({
+      [fileName]: bundle,
+      [toDeclarationFileName(fileName)]: options.minify
+        ? declarations
+        : await prettier.format(declarations, {
+            parser: 'typescript',
+            printWidth: 80,
+            tabWidth: 2,
+            useTabs: false,
+            semi: false,
+            singleQuote: true,
+            trailingComma: 'es5',
+          }),
+    })
+  }
+
   private async formatTokens(
     tokens: ResolvedTokens,
     options: Required<JsModuleRendererOptions>,
@@ -208,6 +259,7 @@ export class JsModuleRenderer implements Renderer<JsModuleRendererOptions> {
 export function jsRenderer(): Renderer<JsModuleRendererOptions> {
   const rendererInstance = new JsModuleRenderer()
   return {
+    name: 'js',
     format: (context, options) =>
       rendererInstance.format(
         context,
@@ -215,3 +267,15 @@ export function jsRenderer(): Renderer<JsModuleRendererOptions> {
       ),
   }
 }
+
+/**
+ * Name the declaration file of a JS module, e.g. `tokens.d.ts` for `tokens.js`
+ * and `tokens.d.mts` for `tokens.mjs`
+ */
+function toDeclarationFileName(fileName: string): string {
+  const match = /\.([cm]?)js$/.exec(fileName)
+  if (!match) {
+    return `${fileName}.d.ts`
+  }
+  return `${fileName.slice(0, -match[0].length)}.d.${match[1]}ts`
+}
@@ -160,6 +160,7 @@ export class JsonRenderer implements Renderer<JsonRendererOptions> {
 export function jsonRenderer(): Renderer<JsonRendererOptions> {
   const rendererInstance = new JsonRenderer()
   return {
+    name: 'json',
     format: (context, options) =>
       rendererInstance.format(
         context,
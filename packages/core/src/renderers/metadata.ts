@@ -12,7 +12,7 @@
 
 import type { ResolvedToken } from '@tokens/types'
 
-export type CommentFormat = 'css' | 'js' | 'swift' | 'kotlin' | 'tailwind'
+export type CommentFormat = 'css' | 'js' | 'swift' | 'kotlin' | 'tailwind' | 'scss' | 'xml'
 
 function sanitizeText(text: string, format: CommentFormat): string {
   switch (format) {
@@ -23,7 +23,11 @@ function sanitizeText(text: string, format: CommentFormat): string {
       return text.replace(/\*\//g, '* /').replace(/\r?\n/g, ' ').trim()
     case 'js':
     case 'swift':
+    case 'scss':
       return text.replace(/\r?\n/g, ' ').trim()
+    case 'xml':
+      // `--` is not allowed inside XML comments
+      return text.replace(/-{2,}/g, '-').replace(/\r?\n/g, ' ').trim()
     default:
       return text.trim()
   }
@@ -53,11 +57,14 @@ export function buildTokenDescriptionComment(
     case 'tailwind':
       return `/* ${text} */`
     case 'js':
+    case 'scss':
       return `// ${text}`
     case 'swift':
       return `/// ${text}`
     case 'kotlin':
       return `/** ${text} */`
+    case 'xml':
+      return `<!-- ${text} -->`
     default:
       return undefined
   }
@@ -77,11 +84,14 @@ export function buildTokenDeprecationComment(
     case 'tailwind':
       return `/* ${text} */`
     case 'js':
+    case 'scss':
       return `// ${text}`
     case 'swift':
       return `/// ${text}`
     case 'kotlin':
       return `/** ${text} */`
+    case 'xml':
+      return `<!-- ${text} -->`
     default:
       return undefined
   }
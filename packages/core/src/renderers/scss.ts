@@ -0,0 +1,472 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa Contributors
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * @fileoverview SCSS renderer for Sass-based projects
+ * Generates `$variables`, nested Sass maps following the token path, and
+ * mixins for typography tokens
+ */
+
+import { colorObjectToHex, isColorObject } from '@processing/transforms/built-in/color-converter'
+import {
+  dimensionObjectToString,
+  isDimensionObject,
+} from '@processing/transforms/built-in/dimension-converter'
+import {
+  durationObjectToString,
+  isDurationObject,
+} from '@processing/transforms/built-in/duration-converter'
+import { getSortedTokenEntries } from '@shared/utils/token-utils'
+import type { ResolvedToken, ResolvedTokens } from '@tokens/types'
+import { kebabCase } from 'change-case'
+
+import { bundleAsScss, toSassIdentifier } from './bundlers/scss'
+import {
+  assertFileRequired,
+  buildGeneratedFileHeader,
+  buildInMemoryOutputKey,
+  isBasePermutation,
+  resolveFileName,
+  stripInternalMetadata,
+} from './bundlers/utils'
+import { buildTokenDeprecationComment, buildTokenDescriptionComment } from './metadata'
+import { outputTree } from './output-tree'
+import type { RenderContext, RenderOutput, Renderer } from './types'
+
+/**
+ * Options for SCSS renderer
+ *
+ * Controls which Sass constructs are generated. Variables use the (kebab-cased)
+ * token name, maps mirror the token path, and typography tokens become mixins.
+ *
+ * @example Bundle with per-modifier maps
+ * ```typescript
+ * scss({
+ *   name: 'scss',
+ *   file: '_tokens.scss',
+ *   preset: 'bundle',
+ *   mapName: 'tokens',
+ * })
+ * // $tokens, $tokens-theme-dark, $tokens-theme: ('light': $tokens, 'dark': $tokens-theme-dark)
+ * ```
+ */
+export type ScssRendererOptions = {
+  preset?: 'bundle' | 'standalone'
+  /** Name of the root Sass map (default: 'tokens') */
+  mapName?: string
+  /** Emit one `$variable` per token (default: true) */
+  variables?: boolean
+  /** Emit a nested Sass map following the token path (default: true) */
+  maps?: boolean
+  /** Emit typography tokens as mixins (default: true) */
+  mixins?: boolean
+  /** Append `!default` to variables and maps so consumers can override them (default: false) */
+  defaultFlag?: boolean
+}
+
+export type ResolvedScssOptions = {
+  preset: 'bundle' | 'standalone'
+  mapName: string
+  variables: boolean
+  maps: boolean
+  mixins: boolean
+  defaultFlag: boolean
+}
+
+/**
+ * Map tree node. A node can carry both a value and children when a group has a
+ * `$root` token; the value is then emitted under the `'$root'` key.
+ */
+type MapNode = {
+  value?: string
+  children: Map<string, MapNode>
+}
+
+const INDENT = '  '
+
+export class ScssRenderer implements Renderer<ScssRendererOptions> {
+  async format(context: RenderContext, options?: ScssRendererOptions): Promise<RenderOutput> {
+    const opts: ResolvedScssOptions = {
+      preset: options?.preset ?? 'bundle',
+      mapName: toSassIdentifier(options?.mapName ?? 'tokens'),
+      variables: options?.variables ?? true,
+      maps: options?.maps ?? true,
+      mixins: options?.mixins ?? true,
+      defaultFlag: options?.defaultFlag ?? false,
+    }
+
+    if (opts.preset === 'bundle') {
+      return this.formatBundle(context, opts)
+    }
+
+    return this.formatStandalone(context, opts)
+  }
+
+  /**
+   * Format tokens as a complete SCSS document (variables, root map, mixins)
+   */
+  formatTokens(tokens: ResolvedTokens, options: ResolvedScssOptions): string {
+    const sections: string[] = [buildGeneratedFileHeader()]
+    const sortedTokens = getSortedTokenEntries(tokens).map(([, token]) => token)
+
+    if (options.variables && sortedTokens.length > 0) {
+      sections.push(this.formatVariables(sortedTokens, options))
+    }
+
+    if (options.maps) {
+      sections.push(this.formatMap(tokens, options.mapName, options))
+    }
+
+    const typographyTokens = sortedTokens.filter((token) => this.isTypographyToken(token))
+    if (options.mixins && typographyTokens.length > 0) {
+      sections.push(typographyTokens.map((token) => this.formatMixin(token)).join('\n\n'))
+    }
+
+    return `${sections.join('\n\n')}\n`
+  }
+
+  /**
+   * Format tokens as a single nested Sass map declaration
+   */
+  formatMap(tokens: ResolvedTokens, variableName: string, options: ResolvedScssOptions): string {
+    const root: MapNode = { children: new Map() }
+
+    for (const [, token] of getSortedTokenEntries(tokens)) {
+      let node = root
+      for (const segment of token.path) {
+        let child = node.children.get(segment)
+        if (!child) {
+          child = { children: new Map() }
+          node.children.set(segment, child)
+        }
+        node = child
+      }
+      node.value = this.formatMapValue(token)
+    }
+
+    const flag = options.defaultFlag ? ' !default' : ''
+    return `$${variableName}: ${this.formatMapNode(root, 0)}${flag};`
+  }
+
+  private formatVariables(tokens: ResolvedToken[], options: ResolvedScssOptions): string {
+    const flag = options.defaultFlag ? ' !default' : ''
+    const lines: string[] = []
+
+    for (const token of tokens) {
+      const deprecationComment = buildTokenDeprecationComment(token, 'scss')
+      if (deprecationComment) {
+        lines.push(deprecationComment)
+      }
+
+      const descriptionComment = buildTokenDescriptionComment(token, 'scss')
+      if (descriptionComment) {
+        lines.push(descriptionComment)
+      }
+
+      const value = this.isTypographyToken(token)
+        ? this.formatMapValue(token)
+        : this.formatValue(token)
+      lines.push(`$${toSassIdentifier(token.name)}: ${value}${flag};`)
+    }
+
+    return lines.join('\n')
+  }
+
+  private formatMapNode(node: MapNode, depth: number): string {
+    const entries: string[] = []
+    const indent = INDENT.repeat(depth + 1)
+
+    if (node.value !== undefined && node.children.size > 0) {
+      entries.push(`${indent}'$root': ${node.value},`)
+    }
+
+    for (const [key, child] of node.children) {
+      const value =
+        child.children.size > 0 ? this.formatMapNode(child, depth + 1) : (child.value ?? '()')
+      entries.push(`${indent}${quoteSassString(key)}: ${value},`)
+    }
+
+    if (entries.length === 0) {
+      return '()'
+    }
+
+    return `(\n${entries.join('\n')}\n${INDENT.repeat(depth)})`
+  }
+
+  /**
+   * Typography tokens become a mixin applying each sub-value as a CSS property
+   */
+  private formatMixin(token: ResolvedToken): string {
+    const lines: string[] = []
+
+    const deprecationComment = buildTokenDeprecationComment(token, 'scss')
+    if (deprecationComment) {
+      lines.push(deprecationComment)
+    }
+
+    const descriptionComment = buildTokenDescriptionComment(token, 'scss')
+    if (descriptionComment) {
+      lines.push(descriptionComment)
+    }
+
+    lines.push(`@mixin ${toSassIdentifier(token.name)} {`)
+    for (const [key, value] of Object.entries(token.$value as Record<string, unknown>)) {
+      lines.push(`${INDENT}${kebabCase(key)}: ${this.formatLeafValue(value)};`)
+    }
+    lines.push('}')
+
+    return lines.join('\n')
+  }
+
+  private isTypographyToken(token: ResolvedToken): boolean {
+    return (
+      token.$type === 'typography' &&
+      typeof token.$value === 'object' &&
+      token.$value !== null &&
+      !Array.isArray(token.$value)
+    )
+  }
+
+  /**
+   * Format a token value for use inside a Sass map. Comma-separated lists are
+   * wrapped in parentheses so they are not parsed as separate map entries, and
+   * objects without a CSS shorthand become nested maps.
+   */
+  private formatMapValue(token: ResolvedToken): string {
+    const value = token.$value
+
+    if (this.hasShorthand(token) || typeof value !== 'object' || value === null) {
+      return wrapCommaList(this.formatValue(token))
+    }
+
+    return this.formatStructuredValue(value)
+  }
+
+  private formatStructuredValue(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `(${value.map((item) => this.formatStructuredValue(item)).join(', ')})`
+    }
+
+    if (typeof value === 'object' && value !== null && !this.isLeafObject(value)) {
+      const entries = Object.entries(value).map(
+        ([key, child]) =>
+          `${quoteSassString(kebabCase(key))}: ${this.formatStructuredValue(child)}`,
+      )
+      return `(${entries.join(', ')})`
+    }
+
+    return wrapCommaList(this.formatLeafValue(value))
+  }
+
+  private hasShorthand(token: ResolvedToken): boolean {
+    if (token.$type === 'shadow' || token.$type === 'transition') {
+      return true
+    }
+    if (token.$type === 'border') {
+      return typeof (token.$value as { style?: unknown }).style === 'string'
+    }
+    return token.$type === 'gradient' && Array.isArray(token.$value)
+  }
+
+  private isLeafObject(value: unknown): boolean {
+    return isColorObject(value) || isDimensionObject(value) || isDurationObject(value)
+  }
+
+  /**
+   * Format a token value as a plain Sass/CSS value (used for variables)
+   */
+  private formatValue(token: ResolvedToken): string {
+    const value = token.$value
+
+    if (token.$type === 'shadow') {
+      const layers = Array.isArray(value) ? value : [value]
+      return layers.map((layer) => this.formatShadowLayer(layer)).join(', ')
+    }
+
+    if (token.$type === 'border' && this.hasShorthand(token)) {
+      const border = value as Record<string, unknown>
+      return [border.width, border.style, border.color]
+        .filter((part) => part != null)
+        .map((part) => this.formatLeafValue(part))
+        .join(' ')
+    }
+
+    if (token.$type === 'transition' && typeof value === 'object' && value !== null) {
+      const transition = value as Record<string, unknown>
+      return [transition.duration, transition.timingFunction, transition.delay]
+        .filter((part) => part != null)
+        .map((part) => this.formatLeafValue(part))
+        .join(' ')
+    }
+
+    if (token.$type === 'gradient' && Array.isArray(value)) {
+      return value
+        .map((item) => {
+          const stop = item as Record<string, unknown>
+          const position =
+            typeof stop.position === 'number' ? ` ${Math.round(stop.position * 10000) / 100}%` : ''
+          return `${this.formatLeafValue(stop.color)}${position}`
+        })
+        .join(', ')
+    }
+
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      if (this.isLeafObject(value)) {
+        return this.formatLeafValue(value)
+      }
+      return this.formatStructuredValue(value)
+    }
+
+    return this.formatLeafValue(value)
+  }
+
+  private formatShadowLayer(layer: unknown): string {
+    if (typeof layer !== 'object' || layer === null) {
+      return String(layer)
+    }
+
+    const shadow = layer as Record<string, unknown>
+    const parts: string[] = []
+    if (shadow.inset === true) {
+      parts.push('inset')
+    }
+    for (const key of ['offsetX', 'offsetY', 'blur', 'spread', 'color']) {
+      if (shadow[key] != null) {
+        parts.push(this.formatLeafValue(shadow[key]))
+      }
+    }
+    return parts.join(' ')
+  }
+
+  private formatLeafValue(value: unknown): string {
+    if (isColorObject(value)) {
+      return colorObjectToHex(value)
+    }
+
+    if (isDimensionObject(value)) {
+      return dimensionObjectToString(value)
+    }
+
+    if (isDurationObject(value)) {
+      return durationObjectToString(value)
+    }
+
+    if (Array.isArray(value)) {
+      if (value.length === 4 && value.every((item) => typeof item === 'number')) {
+        return `cubic-bezier(${value.join(', ')})`
+      }
+      // Font family stacks and other lists
+      return value
+        .map((item) =>
+          typeof item === 'string' && item.includes(' ') ? `"${item}"` : this.formatLeafValue(item),
+        )
+        .join(', ')
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      return this.formatStructuredValue(value)
+    }
+
+    return String(value)
+  }
+
+  private formatBundle(context: RenderContext, options: ResolvedScssOptions): string {
+    const bundleData = context.permutations.map(({ tokens, modifierInputs }) => ({
+      tokens,
+      modifierInputs,
+      isBase: isBasePermutation(modifierInputs, context.meta.defaults),
+    }))
+
+    return bundleAsScss(bundleData, options, {
+      formatTokens: (tokens, opts) => this.formatTokens(tokens, opts),
+      formatMap: (tokens, variableName, opts) => this.formatMap(tokens, variableName, opts),
+    })
+  }
+
+  private formatStandalone(context: RenderContext, options: ResolvedScssOptions): RenderOutput {
+    assertFileRequired(
+      context.buildPath,
+      context.output.file,
+      context.output.name,
+      'standalone SCSS',
+    )
+
+    const files: Record<string, string> = {}
+    for (const { tokens, modifierInputs } of context.permutations) {
+      const content = this.formatTokens(stripInternalMetadata(tokens), options)
+      const fileName = context.output.file
+        ? resolveFileName(context.output.file, modifierInputs)
+        : buildInMemoryOutputKey({
+            outputName: context.output.name,
+            extension: 'scss',
+            modifierInputs,
+            resolver: context.resolver,
+            defaults: context.meta.defaults,
+          })
+      files[fileName] = content
+    }
+
+    return outputTree(files)
+  }
+}
+
+function quoteSassString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+/**
+ * Wrap a top-level comma-separated list in parentheses so it stays a single
+ * value inside map literals
+ */
+function wrapCommaList(value: string): string {
+  let depth = 0
+  let quote: string | undefined
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) {
+        quote = undefined
+      }
+      continue
+    }
+    if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '(') {
+      depth++
+    } else if (char === ')') {
+      depth--
+    } else if (char === ',' && depth === 0) {
+      return `(${value})`
+    }
+  }
+  return value
+}
+
+/**
+ * SCSS renderer factory function.
+ *
+ * @example
+ * ```typescript
+ * outputs: [{
+ *   name: 'scss',
+ *   renderer: scssRenderer(),
+ *   options: { preset: 'bundle', mapName: 'tokens' },
+ *   file: '_tokens.scss'
+ * }]
+ * ```
+ */
+export function scssRenderer(): Renderer<ScssRendererOptions> {
+  const rendererInstance = new ScssRenderer()
+  return {
+    name: 'scss',
+    format: (context, options) =>
+      rendererInstance.format(
+        context,
+        options ?? (context.output.options as ScssRendererOptions | undefined),
+      ),
+  }
+}
@@ -8,19 +8,22 @@
 
 /**
  * @fileoverview Tailwind CSS v4 renderer using @theme directive
- * Generates CSS with @theme blocks for Tailwind v4+ design token integration
+ * Generates CSS with @theme blocks for Tailwind v4+ design token integration,
+ * or a Tailwind v3 preset module referencing the tokens' CSS variables
  */
 
 import { colorObjectToHex, isColorObject } from '@processing/transforms/built-in/color-converter'
 import {
   dimensionObjectToString,
+  fluidDimensionToClamp,
   isDimensionObject,
 } from '@processing/transforms/built-in/dimension-converter'
 import {
   durationObjectToString,
   isDurationObject,
 } from '@processing/transforms/built-in/duration-converter'
-import { getSortedTokenEntries } from '@shared/utils/token-utils'
+import { globToRegex } from '@shared/utils/glob-matcher'
+import { getFluidDimension, getSortedTokenEntries } from '@shared/utils/token-utils'
 import type { DimensionValue, ResolvedToken, ResolvedTokens } from '@tokens/types'
 import prettier from 'prettier'
 
@@ -59,14 +62,50 @@ import type {
  *   },
  * })
  * ```
+ *
+ * @example Route radii and breakpoints to their Tailwind namespaces
+ * ```typescript
+ * tailwind({
+ *   name: 'tailwind',
+ *   file: 'theme.css',
+ *   namespaces: { 'radius.*': 'radius', 'breakpoint.*': 'breakpoint' },
+ * })
+ * ```
+ *
+ * @example Tailwind v3 preset for the variables of a `css()` output
+ * ```typescript
+ * tailwind({
+ *   name: 'tailwind-preset',
+ *   file: 'tailwind.preset.js',
+ *   preset: 'config',
+ * })
+ * ```
  */
 export type TailwindRendererOptions = {
-  preset?: 'bundle' | 'standalone'
+  /**
+   * Output preset:
+   * - `'bundle'` (default) — one v4 `@theme` file with modifier overrides
+   * - `'standalone'` — one v4 `@theme` file per permutation
+   * - `'config'` — a Tailwind v3 preset module whose `theme.extend` values
+   *   reference the CSS variables of a `css()` output, e.g. `var(--color-primary)`
+   */
+  preset?: 'bundle' | 'standalone' | 'config'
   includeImport?: boolean
   namespace?: string
   minify?: boolean
   selector?: string | SelectorFunction
   mediaQuery?: string | MediaQueryFunction
+  /**
+   * Theme namespaces by token path, e.g. `{ 'radius.*': 'radius' }`
+   *
+   * Keys are glob patterns matched against the token path (e.g. `radius.sm`),
+   * where `*` matches any characters. The first matching pattern wins; other
+   * tokens use the namespace of their type. Mapped tokens are named after the
+   * part of the path matched by the wildcards, so `radius.sm` becomes `--radius-sm`.
+   */
+  namespaces?: Record<string, string>
+  /** Emit an `@utility` class per modifier context applying its overrides (bundle preset) */
+  contextUtilities?: boolean
 }
 
 /**
@@ -81,6 +120,51 @@ const TAILWIND_NAMESPACE_MAP: Record<string, string> = {
   shadow: 'shadow',
   number: 'number',
   cubicBezier: 'ease',
+  typography: 'text',
+}
+
+/**
+ * Typography sub-values emitted as Tailwind `--text-*` sub-properties
+ */
+const TAILWIND_TEXT_SUB_PROPERTIES: Record<string, string> = {
+  lineHeight: 'line-height',
+  letterSpacing: 'letter-spacing',
+  fontWeight: 'font-weight',
+}
+
+/**
+ * Mapping from Tailwind v4 namespaces to Tailwind v3 theme keys (config preset).
+ * Other namespaces are used as theme keys as-is.
+ */
+const TAILWIND_V3_THEME_KEY_MAP: Record<string, string> = {
+  color: 'colors',
+  spacing: 'spacing',
+  font: 'fontFamily',
+  'font-weight': 'fontWeight',
+  duration: 'transitionDuration',
+  shadow: 'boxShadow',
+  ease: 'transitionTimingFunction',
+  text: 'fontSize',
+  radius: 'borderRadius',
+  leading: 'lineHeight',
+  tracking: 'letterSpacing',
+  blur: 'blur',
+  'drop-shadow': 'dropShadow',
+}
+
+/**
+ * Typography sub-values added to a Tailwind v3 `fontSize` entry
+ */
+const TAILWIND_V3_FONT_SIZE_PROPERTIES = ['lineHeight', 'letterSpacing', 'fontWeight'] as const
+
+type ThemeVariable = {
+  name: string
+  value: string
+}
+
+type ThemeKey = {
+  namespace: string
+  key: string
 }
 
 /**
@@ -89,12 +173,14 @@ const TAILWIND_NAMESPACE_MAP: Record<string, string> = {
  * variantDeclarations is populated by the bundler from non-base permutations.
  */
 type ResolvedTailwindOptions = {
-  preset: 'bundle' | 'standalone'
+  preset: 'bundle' | 'standalone' | 'config'
   includeImport: boolean
   namespace: string
   minify: boolean
   selector?: string | SelectorFunction
   mediaQuery?: string | MediaQueryFunction
+  namespaces: Record<string, string>
+  contextUtilities: boolean
   variantDeclarations: string[]
 }
 
@@ -107,6 +193,8 @@ export class TailwindRenderer implements Renderer<TailwindRendererOptions> {
       minify: options?.minify ?? false,
       selector: options?.selector,
       mediaQuery: options?.mediaQuery,
+      namespaces: options?.namespaces ?? {},
+      contextUtilities: options?.contextUtilities ?? false,
       variantDeclarations: [],
     }
 
@@ -114,6 +202,10 @@ export class TailwindRenderer implements Renderer<TailwindRendererOptions> {
       return await this.formatBundle(context, opts)
     }
 
+    if (opts.preset === 'config') {
+      return await this.formatConfig(context, opts)
+    }
+
     return await this.formatStandalone(context, opts)
   }
 
@@ -149,9 +241,6 @@ export class TailwindRenderer implements Renderer<TailwindRendererOptions> {
     lines.push(`${themeDirective}${space}{${newline}`)
 
     for (const [, token] of getSortedTokenEntries(tokens)) {
-      const varName = this.buildVariableName(token)
-      const varValue = this.formatValue(token)
-
       const deprecationComment = buildTokenDeprecationComment(token, 'tailwind')
       if (deprecationComment) {
         lines.push(`${indent}${deprecationComment}${newline}`)
@@ -162,7 +251,9 @@ export class TailwindRenderer implements Renderer<TailwindRendererOptions> {
         lines.push(`${indent}${descriptionComment}${newline}`)
       }
 
-      lines.push(`${indent}--${varName}:${space}${varValue};${newline}`)
+      for (const variable of this.buildThemeVariables(token, options.namespaces)) {
+        lines.push(`${indent}--${variable.name}:${space}${variable.value};${newline}`)
+      }
     }
 
     lines.push(`}${newline}`)
@@ -180,6 +271,7 @@ export class TailwindRenderer implements Renderer<TailwindRendererOptions> {
     selector: string,
     mediaQuery: string,
     minify: boolean,
+    namespaces: Record<string, string> = {},
   ): Promise<string> {
     const indent = minify ? '' : '  '
     const newline = minify ? '' : '\n'
@@ -197,9 +289,6 @@ export class TailwindRenderer implements Renderer<TailwindRendererOptions> {
     }
 
     for (const [, token] of getSortedTokenEntries(tokens)) {
-      const varName = this.buildVariableName(token)
-      const varValue = this.formatValue(token)
-
       const deprecationComment = buildTokenDeprecationComment(token, 'tailwind')
       if (deprecationComment) {
         lines.push(`${tokenIndent}${deprecationComment}${newline}`)
@@ -210,7 +299,9 @@ export class TailwindRenderer implements Renderer<TailwindRendererOptions> {
         lines.push(`${tokenIndent}${descriptionComment}${newline}`)
       }
 
-      lines.push(`${tokenIndent}--${varName}:${space}${varValue};${newline}`)
+      for (const variable of this.buildThemeVariables(token, namespaces)) {
+        lines.push(`${tokenIndent}--${variable.name}:${space}${variable.value};${newline}`)
+      }
     }
 
     if (hasMediaQuery) {
@@ -223,7 +314,49 @@ export class TailwindRenderer implements Renderer<TailwindRendererOptions> {
     return lines.join('')
   }
 
-  private buildVariableName(token: ResolvedToken): string {
+  /**
+   * Build the theme variables for a token
+   *
+   * Typography tokens become a `--text-*` font size with `--line-height`,
+   * `--letter-spacing` and `--font-weight` sub-properties, and are skipped
+   * without a font size.
+   */
+  private buildThemeVariables(
+    token: ResolvedToken,
+    namespaces: Record<string, string>,
+  ): ThemeVariable[] {
+    const name = this.buildVariableName(token, namespaces)
+    if (token.$type !== 'typography') {
+      return [{ name, value: this.formatValue(token) }]
+    }
+
+    const value = token.$value as Record<string, unknown> | null
+    if (value?.fontSize == null) {
+      return []
+    }
+
+    const variables: ThemeVariable[] = [{ name, value: this.formatTypographyValue(value.fontSize) }]
+    for (const [key, subProperty] of Object.entries(TAILWIND_TEXT_SUB_PROPERTIES)) {
+      if (value[key] != null) {
+        variables.push({
+          name: `${name}--${subProperty}`,
+          value: this.formatTypographyValue(value[key]),
+        })
+      }
+    }
+    return variables
+  }
+
+  private formatTypographyValue(value: unknown): string {
+    return isDimensionObject(value) ? dimensionObjectToString(value) : String(value)
+  }
+
+  private buildVariableName(token: ResolvedToken, namespaces: Record<string, string>): string {
+    const mapped = this.matchNamespace(token, namespaces)
+    if (mapped) {
+      return `${mapped.namespace}-${mapped.key}`
+    }
+
     const prefix = TAILWIND_NAMESPACE_MAP[token.$type ?? '']
     if (!prefix) {
       return token.name
@@ -239,9 +372,91 @@ export class TailwindRenderer implements Renderer<TailwindRendererOptions> {
     return `${prefix}-${token.name}`
   }
 
+  /**
+   * Find the namespace a token is routed to by the `namespaces` option, keyed by
+   * the path segments matched by the pattern's wildcards (or its last segment)
+   */
+  private matchNamespace(
+    token: ResolvedToken,
+    namespaces: Record<string, string>,
+  ): ThemeKey | undefined {
+    const tokenPath = token.path.join('.')
+    for (const [pattern, namespace] of Object.entries(namespaces)) {
+      const match = globToRegex(pattern).exec(tokenPath)
+      if (!match) {
+        continue
+      }
+
+      const captured = match
+        .slice(1)
+        .filter((part) => part !== '')
+        .join('-')
+      const suffix = captured || (token.path[token.path.length - 1] ?? token.name)
+      return { namespace, key: suffix.replace(/\./g, '-') }
+    }
+    return undefined
+  }
+
+  /**
+   * Find the namespace and key of a token in the theme, or `undefined` for
+   * tokens without a namespace
+   */
+  private buildThemeKey(
+    token: ResolvedToken,
+    namespaces: Record<string, string>,
+  ): ThemeKey | undefined {
+    const mapped = this.matchNamespace(token, namespaces)
+    if (mapped) {
+      return mapped
+    }
+
+    const prefix = TAILWIND_NAMESPACE_MAP[token.$type ?? '']
+    if (!prefix) {
+      return undefined
+    }
+
+    const name = this.buildVariableName(token, namespaces)
+    const nameLower = name.toLowerCase()
+    const prefixLower = prefix.toLowerCase()
+    const isPrefixed =
+      nameLower.startsWith(`${prefixLower}-`) || nameLower.startsWith(`${prefixLower}.`)
+    const key = isPrefixed ? name.slice(prefix.length + 1) : name
+    return { namespace: prefix, key: key.replace(/\./g, '-') }
+  }
+
+  /**
+   * Build a Tailwind v3 theme value referencing the token's CSS variables
+   *
+   * Typography tokens become a `[fontSize, { lineHeight, ... }]` tuple of their
+   * sub-value variables, and are skipped without a font size.
+   */
+  private buildConfigValue(token: ResolvedToken): unknown {
+    if (token.$type !== 'typography') {
+      return `var(--${token.name})`
+    }
+
+    const value = token.$value as Record<string, unknown> | null
+    if (value?.fontSize == null) {
+      return undefined
+    }
+
+    const properties: Record<string, string> = {}
+    for (const key of TAILWIND_V3_FONT_SIZE_PROPERTIES) {
+      if (value[key] != null) {
+        properties[key] = `var(--${token.name}-${key})`
+      }
+    }
+    return [`var(--${token.name}-fontSize)`, properties]
+  }
+
   private formatValue(token: ResolvedToken): string {
     const value = token.$value
 
+    const fluid = getFluidDimension(token)
+    if (fluid) {
+      return fluidDimensionToClamp(fluid)
+    }
+
     if (token.$type === 'color' && isColorObject(value)) {
       return colorObjectToHex(value)
     }
@@ -350,7 +565,7 @@ export class TailwindRenderer implements Renderer<TailwindRendererOptions> {
       options,
       async (tokens, opts) => await this.formatTokens(tokens, opts),
       async (tokens, selector, mediaQuery, minify) =>
-        await this.formatOverrideBlock(tokens, selector, mediaQuery, minify),
+        await this.formatOverrideBlock(tokens, selector, mediaQuery, minify, options.namespaces),
     )
   }
 
@@ -383,6 +598,51 @@ export class TailwindRenderer implements Renderer<TailwindRendererOptions> {
 
     return outputTree(files)
   }
+
+  /**
+   * Format the base permutation as a Tailwind v3 preset module
+   *
+   * Values reference CSS variables, so modifier contexts apply at runtime
+   * through the `css()` output's selectors.
+   */
+  private async formatConfig(
+    context: RenderContext,
+    options: ResolvedTailwindOptions,
+  ): Promise<string> {
+    const basePermutation =
+      context.permutations.find(({ modifierInputs }) =>
+        isBasePermutation(modifierInputs, context.meta.defaults),
+      ) ?? context.permutations[0]
+    const tokens = stripInternalMetadata(basePermutation?.tokens ?? {})
+
+    const extend: Record<string, Record<string, unknown>> = {}
+    for (const [, token] of getSortedTokenEntries(tokens)) {
+      const themeKey = this.buildThemeKey(token, options.namespaces)
+      const value = this.buildConfigValue(token)
+      if (!themeKey || value === undefined) {
+        continue
+      }
+
+      const section = TAILWIND_V3_THEME_KEY_MAP[themeKey.namespace] ?? themeKey.namespace
+      extend[section] = { ...extend[section], [themeKey.key]: value }
+    }
+
+    const preset = JSON.stringify({ theme: { extend } }, null, options.minify ? 0 : 2)
+    const code = `const preset = ${preset}\n\nexport default preset\n`
+    if (options.minify) {
+      return code
+    }
+
+    return await prettier.format(code, {
+      parser: 'babel',
+      printWidth: 80,
+      tabWidth: 2,
+      useTabs: false,
+      semi: false,
+      singleQuote: true,
+      trailingComma: 'es5',
+    })
+  }
 }
 
 /**
@@ -404,6 +664,7 @@ export class TailwindRenderer implements Renderer<TailwindRendererOptions> {
 export function tailwindRenderer(): Renderer<TailwindRendererOptions> {
   const rendererInstance = new TailwindRenderer()
   return {
+    name: 'tailwind',
     format: (context, options) =>
       rendererInstance.format(
         context,
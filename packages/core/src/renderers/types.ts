@@ -9,7 +9,7 @@
 
 import type { OutputConfig } from '@config/index'
 import type { ModifierInputs, ResolverDocument } from '@resolution/types'
-import type { ResolvedTokens } from '@tokens/types'
+import type { ResolvedTokens, TokenSource } from '@tokens/types'
 
 /**
  * Generic options object for renderers
@@ -85,6 +85,18 @@ export type BuildOutput = {
  * ```
  */
 export type Renderer<TOptions extends FormatOptions = FormatOptions> = {
+  /**
+   * Renderer identifier (e.g., 'css', 'scss'). Part of the build cache key.
+   */
+  name?: string
+
+  /**
+   * Implementation version. Part of the build cache key: bump it when `format()`
+   * delegates to code the cache cannot see (such as an instance captured in a
+   * closure) and that code's output changes.
+   */
+  version?: string
+
   /**
    * Preset identifier (e.g., 'bundle', 'standalone', 'modifier')
    * Indicates which variant of the renderer this is
@@ -211,6 +223,32 @@ export type CssRendererOptions = {
   mediaQuery?: string | MediaQueryFunction
   minify?: boolean
   preserveReferences?: boolean
+  /** Emit a utility class per typography token (default: false) */
+  typographyClasses?: boolean | CssTypographyClassOptions
+}
+
+/**
+ * Options for the typography utility classes emitted by the CSS renderer
+ *
+ * Each typography token becomes a class applying the `font` shorthand and any
+ * remaining sub-values (e.g. `letter-spacing`) through the token's custom
+ * properties. Classes are emitted next to those properties, scoped to the same
+ * selector and media query, so they follow modifier contexts.
+ *
+ * @example
+ * ```typescript
+ * css({
+ *   name: 'tokens',
+ *   file: 'tokens.css',
+ *   typographyClasses: { prefix: 'text-', layer: 'utilities' },
+ * })
+ * ```
+ */
+export type CssTypographyClassOptions = {
+  /** Prefix for class names; without one, classes are named after the token */
+  prefix?: string
+  /** Cascade layer to wrap the classes in (e.g. `utilities`) */
+  layer?: string
 }
 
 /**
@@ -246,6 +284,13 @@ export type { JsonRendererOptions } from '@validation/config-schemas'
  */
 export type { JsModuleRendererOptions } from '@validation/config-schemas'
 
+/**
+ * Options for SCSS renderer
+ *
+ * Generates Sass variables, nested maps and typography mixins.
+ */
+export type { ScssRendererOptions } from './scss'
+
 /**
  * Options for Tailwind CSS v4 renderer
  *
@@ -269,6 +314,22 @@ export type { IosRendererOptions } from './ios'
  */
 export type { AndroidRendererOptions } from './android'
 
+/**
+ * Options for Android XML resources renderer
+ *
+ * Generates `values/` and `values-night/` resource files for View-based apps.
+ *
+ * @experimental This type is experimental. Properties and behavior may change.
+ */
+export type { AndroidXmlRendererOptions } from './android-xml'
+
+/**
+ * Options for DTCG renderer
+ *
+ * Writes plain DTCG token files, one per permutation.
+ */
+export type { DtcgRendererOptions } from './dtcg'
+
 /**
  * Result of a token build operation
  *
@@ -318,6 +379,9 @@ export type BuildError = {
   /** Token path where the error occurred (e.g. 'color.primary') */
   tokenPath?: string
 
+  /** Token file, JSON Pointer and line/column the error relates to, when known */
+  location?: TokenSource
+
   /** Error severity */
   severity: 'error' | 'warning'
 
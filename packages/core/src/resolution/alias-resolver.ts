@@ -4,10 +4,15 @@
  */
 
 import { DEFAULT_MAX_ALIAS_DEPTH } from '@shared/constants'
-import { CircularReferenceError, TokenReferenceError, ValidationError } from '@shared/errors/index'
+import {
+  CircularReferenceError,
+  DispersaError,
+  TokenReferenceError,
+  ValidationError,
+} from '@shared/errors/index'
 import type { ValidationOptions } from '@shared/types/validation'
 import { findSimilar } from '@shared/utils/string-similarity'
-import { getPureAliasReferenceName } from '@shared/utils/token-utils'
+import { FLUID_EXTENSION, getPureAliasReferenceName, isFluidBound } from '@shared/utils/token-utils'
 import { ValidationHandler } from '@shared/utils/validation-handler'
 import type { InternalResolvedToken, InternalResolvedTokens, TokenValue } from '@tokens/types'
 
@@ -130,10 +135,12 @@ export class AliasResolver {
         referenceName,
       )
 
+      const extensions = this.resolveFluidExtension(name, token, updatedType, referencedToken)
       return this.withAliasMarker(
         {
           ...token,
           $type: updatedType,
+          ...(extensions !== undefined && { $extensions: extensions }),
         },
         (referencedToken.$value ?? '') as TokenValue,
         hadAlias,
@@ -143,6 +150,46 @@ export class AliasResolver {
     }
   }
 
+  /**
+   * Carry fluid ranges through aliases: an alias without `$extensions["dispersa.fluid"]`
+   * inherits the range of the referenced token, and a fluid alias takes `min` from
+   * the referenced value, which the parser could not check before resolution
+   */
+  private resolveFluidExtension(
+    name: string,
+    token: InternalResolvedToken,
+    type: InternalResolvedToken['$type'],
+    referencedToken: InternalResolvedToken,
+  ): InternalResolvedToken['$extensions'] {
+    const extensions = token.$extensions
+    const fluid = extensions?.[FLUID_EXTENSION] as Record<string, unknown> | undefined
+    if (fluid === undefined) {
+      const inherited = referencedToken.$extensions?.[FLUID_EXTENSION]
+      return inherited === undefined ? extensions : { ...extensions, [FLUID_EXTENSION]: inherited }
+    }
+    if (fluid.min !== undefined) {
+      return extensions
+    }
+
+    const min = referencedToken.$value
+    if (type !== 'dimension' || !isFluidBound(min)) {
+      const problem =
+        type !== 'dimension'
+          ? 'only dimension tokens can be fluid.'
+          : '"min" must be a dimension object in px or rem.'
+      const message = `Invalid $extensions["${FLUID_EXTENSION}"] at "${name}": ${problem}`
+      const error = new ValidationError(message, [{ message }])
+      error.location = token._source
+      this.validationHandler.handleIssue(error)
+
+      const remaining = { ...extensions }
+      delete remaining[FLUID_EXTENSION]
+      return remaining
+    }
+
+    return { ...extensions, [FLUID_EXTENSION]: { ...fluid, min } }
+  }
+
   private resolveInlineAliasToken(
     name: string,
     token: InternalResolvedToken,
@@ -369,6 +416,11 @@ export class AliasResolver {
     token: InternalResolvedToken,
     hadAlias: boolean,
   ): InternalResolvedToken {
+    // The innermost token handling the error is the one containing the failing reference
+    if (error instanceof DispersaError && error.location === undefined) {
+      error.location = token._source
+    }
+
     if (error instanceof Error) {
       this.validationHandler.handleIssue(error)
     } else {
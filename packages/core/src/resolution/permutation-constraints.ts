@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Permutation constraints declared on resolver modifiers
+ *
+ * A modifier can restrict its contexts depending on the contexts of other
+ * modifiers through `$extensions["dispersa.permutations"]`:
+ *
+ * ```json
+ * "theme": {
+ *   "contexts": { "light": [], "dark": [] },
+ *   "$extensions": {
+ *     "dispersa.permutations": [
+ *       { "when": { "brand": "partner-b" }, "allow": ["light"] }
+ *     ]
+ *   }
+ * }
+ * ```
+ *
+ * Permutations violating a constraint are skipped when generating permutations
+ * and rejected when passed as explicit modifier inputs.
+ */
+
+import { ConfigurationError } from '@shared/errors/index'
+import { ValidationHandler } from '@shared/utils/validation-handler'
+
+import type { Modifier, ModifierInputs, ResolverDocument } from './types'
+
+export const PERMUTATION_CONSTRAINTS_EXTENSION = 'dispersa.permutations'
+
+/**
+ * Restricts the contexts of the modifier declaring it
+ *
+ * The constraint applies when every modifier listed in `when` has one of the
+ * given contexts. It then allows only the contexts in `allow` and rejects
+ * the contexts in `deny`.
+ */
+export type PermutationConstraint = {
+  /** Modifier contexts the constraint applies to, e.g. `{ brand: 'partner-b' }` */
+  when: Record<string, string | string[]>
+  /** Contexts of this modifier allowed when the constraint applies */
+  allow?: string[]
+  /** Contexts of this modifier rejected when the constraint applies */
+  deny?: string[]
+}
+
+type NormalizedConstraint = {
+  modifier: string
+  when: Map<string, Set<string>>
+  allow?: Set<string>
+  deny?: Set<string>
+}
+
+export class PermutationConstraints {
+  private constraints: NormalizedConstraint[]
+
+  constructor(modifiers: ResolverDocument['modifiers'], validationHandler: ValidationHandler) {
+    this.constraints = []
+
+    for (const [name, modifier] of Object.entries(modifiers ?? {})) {
+      const declared = (modifier as Modifier).$extensions?.[PERMUTATION_CONSTRAINTS_EXTENSION]
+      if (declared === undefined) {
+        continue
+      }
+      if (!Array.isArray(declared)) {
+        validationHandler.handleIssue(
+          new ConfigurationError(
+            `Modifier "${name}": $extensions["${PERMUTATION_CONSTRAINTS_EXTENSION}"] must be an array of constraints`,
+          ),
+        )
+        continue
+      }
+      for (const constraint of declared as unknown[]) {
+        const normalized = this.normalize(name, constraint, modifiers ?? {}, validationHandler)
+        if (normalized) {
+          this.constraints.push(normalized)
+        }
+      }
+    }
+  }
+
+  /**
+   * Whether any constraint is declared
+   */
+  hasConstraints(): boolean {
+    return this.constraints.length > 0
+  }
+
+  /**
+   * Check normalized (lowercased) modifier inputs against all constraints
+   *
+   * @returns A description of the first violated constraint, or undefined when allowed
+   */
+  findViolation(inputs: ModifierInputs): string | undefined {
+    for (const constraint of this.constraints) {
+      const context = inputs[constraint.modifier]
+      if (context === undefined || !this.applies(constraint, inputs)) {
+        continue
+      }
+
+      const allowed =
+        (constraint.allow === undefined || constraint.allow.has(context)) &&
+        !constraint.deny?.has(context)
+      if (!allowed) {
+        const condition = [...constraint.when]
+          .map(([modifier, contexts]) => `${modifier}=${[...contexts].join('|')}`)
+          .join(', ')
+        return `${constraint.modifier}=${context} is not allowed when ${condition}`
+      }
+    }
+
+    return undefined
+  }
+
+  private applies(constraint: NormalizedConstraint, inputs: ModifierInputs): boolean {
+    for (const [modifier, contexts] of constraint.when) {
+      const context = inputs[modifier]
+      if (context === undefined || !contexts.has(context)) {
+        return false
+      }
+    }
+    return true
+  }
+
+  private normalize(
+    modifierName: string,
+    constraint: unknown,
+    modifiers: Record<string, Modifier>,
+    validationHandler: ValidationHandler,
+  ): NormalizedConstraint | undefined {
+    const fail = (message: string): undefined => {
+      validationHandler.handleIssue(
+        new ConfigurationError(
+          `Invalid permutation constraint on modifier "${modifierName}": ${message}`,
+        ),
+      )
+      return undefined
+    }
+
+    if (typeof constraint !== 'object' || constraint === null) {
+      return fail('expected an object with "when" and "allow" or "deny"')
+    }
+    const { when, allow, deny } = constraint as Partial<PermutationConstraint>
+    if (typeof when !== 'object' || when === null || Object.keys(when).length === 0) {
+      return fail('"when" must map at least one modifier to its contexts')
+    }
+    if (allow === undefined && deny === undefined) {
+      return fail('expected "allow" or "deny"')
+    }
+
+    const contextsOf = (name: string): Set<string> | undefined => {
+      const entry = Object.entries(modifiers).find(([key]) => key.toLowerCase() === name)
+      return entry ? new Set(Object.keys(entry[1].contexts).map((c) => c.toLowerCase())) : undefined
+    }
+
+    const normalizeContexts = (
+      modifier: string,
+      contexts: unknown,
+      field: string,
+    ): Set<string> | string => {
+      const list = typeof contexts === 'string' ? [contexts] : contexts
+      if (!Array.isArray(list) || list.some((context) => typeof context !== 'string')) {
+        return `"${field}" must list context names`
+      }
+      const available = contextsOf(modifier)
+      const normalized = new Set(list.map((context: string) => context.toLowerCase()))
+      const unknown = [...normalized].filter((context) => !available?.has(context))
+      if (unknown.length > 0) {
+        return `unknown context "${unknown[0]}" of modifier "${modifier}" in "${field}"`
+      }
+      return normalized
+    }
+
+    const ownName = modifierName.toLowerCase()
+    const normalizedWhen = new Map<string, Set<string>>()
+    for (const [modifier, contexts] of Object.entries(when)) {
+      const name = modifier.toLowerCase()
+      if (name === ownName) {
+        return fail(`"when" cannot refer to the modifier itself`)
+      }
+      if (contextsOf(name) === undefined) {
+        return fail(`unknown modifier "${modifier}" in "when"`)
+      }
+      const result = normalizeContexts(name, contexts, `when.${modifier}`)
+      if (typeof result === 'string') {
+        return fail(result)
+      }
+      normalizedWhen.set(name, result)
+    }
+
+    const normalized: NormalizedConstraint = { modifier: ownName, when: normalizedWhen }
+    for (const [field, contexts] of [
+      ['allow', allow],
+      ['deny', deny],
+    ] as const) {
+      if (contexts === undefined) {
+        continue
+      }
+      const result = normalizeContexts(ownName, contexts, field)
+      if (typeof result === 'string') {
+        return fail(result)
+      }
+      normalized[field] = result
+    }
+
+    return normalized
+  }
+}
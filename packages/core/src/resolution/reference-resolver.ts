@@ -3,11 +3,15 @@
  * Supports JSON Pointer (RFC6901) and external file references
  */
 
-import { readJSONFile } from '@adapters/filesystem/file-utils'
+import * as path from 'node:path'
+
+import { readJSONSource } from '@adapters/filesystem/file-utils'
 import { ValidationError } from '@shared/errors/index'
 import type { ValidationOptions } from '@shared/types/validation'
+import { getJsonPositions, type JsonPosition } from '@shared/utils/json-position-utils'
 import { ValidationHandler } from '@shared/utils/validation-handler'
-import { JsonPointer } from 'json-ptr'
+import type { TokenSource } from '@tokens/types'
+import { encodePointer, JsonPointer } from 'json-ptr'
 
 import type { ReferenceObject } from './types'
 
@@ -34,6 +38,17 @@ type DeepResolutionContext = {
   inTokenValue: boolean
 }
 
+type FileSource = {
+  text: string
+  positions?: Map<string, JsonPosition>
+}
+
+/**
+ * Raw text of every parsed file, keyed by the parsed document. Kept beside the
+ * (possibly shared) file cache so evicting a cache entry also drops its text.
+ */
+const fileSources = new WeakMap<object, FileSource>()
+
 export class ReferenceResolver {
   private context: ResolverContext
   private validationHandler: ValidationHandler
@@ -135,6 +150,52 @@ export class ReferenceResolver {
     return fragment ? this.resolveFragment(`#${fragment}`, resolved) : resolved
   }
 
+  /**
+   * Locate the file a reference points to, or a token within it
+   *
+   * Returns the absolute file path and the JSON Pointer of the referenced
+   * fragment (empty for the whole file) followed by `tokenPath`, plus its
+   * line and column once the file has been resolved. Returns undefined for
+   * fragment-only references into the current document.
+   *
+   * @param ref - File reference (e.g. `./tokens/base.json#/color`)
+   * @param tokenPath - Key path of a token relative to the referenced fragment
+   */
+  locate(
+    ref: string | ReferenceObject | Record<string, unknown>,
+    tokenPath: string[] = [],
+  ): TokenSource | undefined {
+    const refString = typeof ref === 'string' ? ref : (ref as ReferenceObject).$ref
+    if (typeof refString !== 'string' || refString.startsWith('#')) {
+      return undefined
+    }
+
+    const [filePath, fragment] = refString.split('#')
+    if (!filePath) {
+      return undefined
+    }
+
+    const file = path.isAbsolute(filePath) ? filePath : path.resolve(this.context.baseDir, filePath)
+    const pointer = `${fragment ?? ''}${encodePointer(tokenPath)}`
+    const position = this.getPosition(filePath, pointer)
+    return position ? { file, pointer, ...position } : { file, pointer }
+  }
+
+  /**
+   * Look up the line and column of a JSON Pointer in a resolved file
+   */
+  private getPosition(filePath: string, pointer: string): JsonPosition | undefined {
+    const document = this.context.cache.get(filePath)
+    const source =
+      typeof document === 'object' && document !== null ? fileSources.get(document) : undefined
+    if (!source) {
+      return undefined
+    }
+
+    source.positions ??= getJsonPositions(source.text)
+    return source.positions.get(pointer)
+  }
+
   /**
    * Resolve a JSON Pointer fragment
    */
@@ -171,8 +232,11 @@ export class ReferenceResolver {
       return this.context.cache.get(filePath)
     }
 
-    // Read and parse file using shared utility
-    const parsed = await readJSONFile(filePath, this.context.baseDir)
+    // Read and parse file using shared utility, keeping the text for source positions
+    const { data: parsed, text } = await readJSONSource(filePath, this.context.baseDir)
+    if (typeof parsed === 'object' && parsed !== null) {
+      fileSources.set(parsed, { text })
+    }
 
     // Cache the result
     this.context.cache.set(filePath, parsed)
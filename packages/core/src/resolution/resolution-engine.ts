@@ -9,6 +9,7 @@ import { ValidationHandler } from '@shared/utils/validation-handler'
 import type { InternalTokenDocument } from '@tokens/types'
 
 import { ModifierInputProcessor } from './modifier-input-processor'
+import { PermutationConstraints } from './permutation-constraints'
 import { ReferenceResolver } from './reference-resolver'
 import type { Modifier, ModifierInputs, ReferenceObject, ResolverDocument, Set } from './types'
 
@@ -25,6 +26,7 @@ export class ResolutionEngine {
   private refResolver: ReferenceResolver
   private validationHandler: ValidationHandler
   private inputProcessor: ModifierInputProcessor
+  private constraints?: PermutationConstraints
 
   /** Pre-built reverse lookup from Modifier reference → modifier name */
   private modifierNameCache: Map<Modifier, string>
@@ -84,7 +86,26 @@ export class ResolutionEngine {
     normalizedInputs: ModifierInputs
     resolvedInputs: ModifierInputs
   } {
-    return this.inputProcessor.prepare(modifierInputs)
+    const prepared = this.inputProcessor.prepare(modifierInputs)
+
+    const violation = this.getConstraints().findViolation(prepared.normalizedInputs)
+    if (violation !== undefined) {
+      this.validationHandler.handleIssue(
+        new ConfigurationError(
+          `Modifier inputs excluded by a permutation constraint: ${violation}`,
+        ),
+      )
+    }
+
+    return prepared
+  }
+
+  /**
+   * Permutation constraints declared on the resolver's modifiers (parsed on first use)
+   */
+  private getConstraints(): PermutationConstraints {
+    this.constraints ??= new PermutationConstraints(this.resolver.modifiers, this.validationHandler)
+    return this.constraints
   }
 
   private async resolveWithPreparedInputs(inputs: ModifierInputs): Promise<InternalTokenDocument> {
@@ -121,6 +142,9 @@ export class ResolutionEngine {
 
   /**
    * Generate all possible permutations based on modifiers
+   *
+   * Permutations excluded by a permutation constraint
+   * (`$extensions["dispersa.permutations"]` on a modifier) are skipped.
    */
   generatePermutations(): ModifierInputs[] {
     if (!this.resolver.modifiers) {
@@ -152,7 +176,20 @@ export class ResolutionEngine {
       combinations.push(...newCombinations)
     }
 
-    return combinations
+    const constraints = this.getConstraints()
+    if (!constraints.hasConstraints()) {
+      return combinations
+    }
+
+    return combinations.filter((combination) => {
+      const normalized = Object.fromEntries(
+        Object.entries(combination).map(([name, context]) => [
+          name.toLowerCase(),
+          context.toLowerCase(),
+        ]),
+      )
+      return constraints.findViolation(normalized) === undefined
+    })
   }
 
   private getOrderedModifierEntries(): [string, Modifier][] {
@@ -214,7 +251,7 @@ export class ResolutionEngine {
     }
 
     // Assume it's a token collection
-    return resolved as InternalTokenDocument
+    return this.tagSources(resolved as InternalTokenDocument, ref)
   }
 
   /**
@@ -231,7 +268,7 @@ export class ResolutionEngine {
       let sourceTokens: InternalTokenDocument
       if (ReferenceResolver.isReference(source)) {
         const resolved = await this.refResolver.resolve(source, this.resolver)
-        sourceTokens = resolved as InternalTokenDocument
+        sourceTokens = this.tagSources(resolved as InternalTokenDocument, source)
       } else {
         sourceTokens = source as InternalTokenDocument
       }
@@ -339,7 +376,7 @@ export class ResolutionEngine {
   private async resolveSourceTokens(source: unknown): Promise<InternalTokenDocument> {
     if (ReferenceResolver.isReference(source)) {
       const resolved = await this.refResolver.resolve(source, this.resolver)
-      return resolved as InternalTokenDocument
+      return this.tagSources(resolved as InternalTokenDocument, source)
     }
 
     return source as InternalTokenDocument
@@ -347,6 +384,9 @@ export class ResolutionEngine {
 
   /**
    * Merge two token objects (later values override earlier ones)
+   *
+   * Tokens are replaced as a whole, so the `_source` of a merged token points
+   * at the definition that wins (e.g. the modifier context overriding a base set).
    */
   private mergeTokens(
     target: InternalTokenDocument,
@@ -426,6 +466,39 @@ export class ResolutionEngine {
     return result
   }
 
+  /**
+   * Tag all tokens of a referenced token file with the file, JSON Pointer,
+   * line and column they are defined at. Used to map lint issues, build
+   * errors and lint fixes back to the source files.
+   */
+  private tagSources(
+    tokens: InternalTokenDocument,
+    ref: ReferenceObject | Record<string, unknown>,
+    path: string[] = [],
+  ): InternalTokenDocument {
+    if (path.length === 0 && this.refResolver.locate(ref) === undefined) {
+      return tokens
+    }
+
+    const result: InternalTokenDocument = {}
+
+    for (const [key, entry] of Object.entries(tokens)) {
+      if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+        result[key] = entry
+        continue
+      }
+
+      const currentPath = [...path, key]
+      if ('$value' in entry || '$ref' in entry) {
+        result[key] = { ...entry, _source: this.refResolver.locate(ref, currentPath) }
+      } else {
+        result[key] = this.tagSources(entry as InternalTokenDocument, ref, currentPath)
+      }
+    }
+
+    return result
+  }
+
   /**
    * Type guard for Set
    */
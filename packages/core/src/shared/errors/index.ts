@@ -6,10 +6,15 @@
  * sites to keep the error hierarchy dependency-free.
  */
 
+import type { TokenSource } from '@tokens/types'
+
 /**
  * Base error class for all Dispersa errors
  */
 export class DispersaError extends Error {
+  /** Token file and line/column the error relates to, when known */
+  location?: TokenSource
+
   constructor(message: string) {
     super(message)
     this.name = 'DispersaError'
@@ -7,6 +7,7 @@ import {
   BasePermutationError,
   CircularReferenceError,
   ConfigurationError,
+  DispersaError,
   FileOperationError,
   ModifierError,
   TokenReferenceError,
@@ -27,15 +28,23 @@ export function getErrorMessage(error: unknown): string {
 /**
  * Convert an unknown error into a structured BuildError.
  *
- * Extracts typed context (error code, token path, file path) from
- * the dispersa error hierarchy so that BuildResult consumers can
- * programmatically react to specific failure modes.
+ * Extracts typed context (error code, token path, file path, source
+ * location) from the dispersa error hierarchy so that BuildResult consumers
+ * can programmatically react to specific failure modes.
  *
  * @param error - The caught error value
  * @param outputName - Optional output name to prefix the message
  * @returns A structured BuildError with code, paths, and severity
  */
 export function toBuildError(error: unknown, outputName?: string): BuildError {
+  const buildError = classifyError(error, outputName)
+  if (error instanceof DispersaError && error.location) {
+    buildError.location = error.location
+  }
+  return buildError
+}
+
+function classifyError(error: unknown, outputName?: string): BuildError {
   const rawMessage = getErrorMessage(error)
   const message = outputName ? `Failed to build output '${outputName}': ${rawMessage}` : rawMessage
 
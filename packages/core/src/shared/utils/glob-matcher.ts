@@ -7,7 +7,7 @@
  */
 
 /**
- * @fileoverview Shared glob pattern matching utilities for lint rules
+ * @fileoverview Glob pattern matching for token names and paths
  *
  * Provides bounded caching to prevent memory leaks in long-running processes.
  */
@@ -19,7 +19,7 @@ const cache = new Map<string, RegExp>()
 /**
  * Convert a glob pattern to a RegExp
  *
- * Supports `*` as a wildcard that matches any characters.
+ * Supports `*` as a wildcard that matches any characters, captured as a group.
  * Results are cached with a bounded cache to prevent memory leaks.
  *
  * @param pattern - Glob pattern (e.g., 'color-*', '*.primary')
@@ -45,7 +45,7 @@ export function globToRegex(pattern: string): RegExp {
       pattern
         .split('*')
         .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
-        .join('.*') +
+        .join('(.*)') +
       '$',
   )
 
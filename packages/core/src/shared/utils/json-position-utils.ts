@@ -0,0 +1,123 @@
+/**
+ * @fileoverview JSON source position utilities
+ *
+ * Maps JSON Pointers to the line and column they are defined at in a JSON
+ * text, so tokens, lint issues and build errors can point at the source.
+ */
+
+import { encodePointer } from 'json-ptr'
+
+/**
+ * 1-based line and column in a text
+ */
+export type JsonPosition = {
+  line: number
+  column: number
+}
+
+/**
+ * Map every object member and array item of a JSON text to its position
+ *
+ * Members are located at their key, array items at the start of their value.
+ * The text is expected to be valid JSON (e.g. already accepted by `JSON.parse`).
+ *
+ * @param text - JSON text
+ * @returns Positions indexed by JSON Pointer (e.g. `/color/brand/primary`)
+ */
+export function getJsonPositions(text: string): Map<string, JsonPosition> {
+  const positions = new Map<string, JsonPosition>()
+  let index = 0
+  let line = 1
+  let lineStart = 0
+
+  const currentPosition = (): JsonPosition => ({ line, column: index - lineStart + 1 })
+
+  const skipWhitespace = (): void => {
+    while (index < text.length) {
+      const char = text[index]
+      if (char === '\n') {
+        line++
+        lineStart = index + 1
+      } else if (char !== ' ' && char !== '\t' && char !== '\r') {
+        return
+      }
+      index++
+    }
+  }
+
+  const readString = (): string => {
+    const start = index
+    index++
+    while (index < text.length && text[index] !== '"') {
+      index += text[index] === '\\' ? 2 : 1
+    }
+    index++
+    return JSON.parse(text.slice(start, index)) as string
+  }
+
+  // Reads the separator after a member or item; false at the end of the container
+  const skipSeparator = (close: string): boolean => {
+    skipWhitespace()
+    if (text[index] === ',') {
+      index++
+      skipWhitespace()
+      return true
+    }
+    if (text[index] === close) {
+      index++
+    }
+    return false
+  }
+
+  const readValue = (pointer: string): void => {
+    skipWhitespace()
+    const char = text[index]
+
+    if (char === '{') {
+      index++
+      skipWhitespace()
+      if (text[index] === '}') {
+        index++
+        return
+      }
+      do {
+        const position = currentPosition()
+        const memberPointer = `${pointer}${encodePointer([readString()])}`
+        positions.set(memberPointer, position)
+        skipWhitespace()
+        index++ // ':'
+        readValue(memberPointer)
+      } while (skipSeparator('}'))
+      return
+    }
+
+    if (char === '[') {
+      index++
+      skipWhitespace()
+      if (text[index] === ']') {
+        index++
+        return
+      }
+      let itemIndex = 0
+      do {
+        const itemPointer = `${pointer}/${itemIndex++}`
+        positions.set(itemPointer, currentPosition())
+        readValue(itemPointer)
+      } while (skipSeparator(']'))
+      return
+    }
+
+    if (char === '"') {
+      readString()
+      return
+    }
+
+    // Number, boolean or null
+    while (index < text.length && !/[\s,\]}]/.test(text[index] as string)) {
+      index++
+    }
+  }
+
+  readValue('')
+  return positions
+}
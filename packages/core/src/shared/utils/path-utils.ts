@@ -2,6 +2,10 @@
  * @fileoverview Path utilities for token path formatting
  */
 
+import * as path from 'node:path'
+
+import type { TokenSource } from '@tokens/types'
+
 /**
  * Format a token path for error messages
  * Provides consistent path formatting across the codebase
@@ -16,3 +20,18 @@ export function formatTokenPath(parentPath: string[], name?: string): string {
   }
   return parentPath.length > 0 ? `${parentPath.join('.')}.${name}` : name
 }
+
+/**
+ * Format a token source location for messages
+ *
+ * @param location - Token file, JSON Pointer and optional line/column
+ * @param cwd - Directory the file path is shown relative to (default: process.cwd())
+ * @returns Formatted location (e.g., "tokens/base.json:12:5" or "tokens/base.json#/color")
+ */
+export function formatSourceLocation(location: TokenSource, cwd = process.cwd()): string {
+  const file = path.relative(cwd, location.file) || location.file
+  if (location.line === undefined) {
+    return location.pointer === '' ? file : `${file}#${location.pointer}`
+  }
+  return `${file}:${location.line}:${location.column ?? 1}`
+}
@@ -3,12 +3,17 @@
  */
 
 import type {
+  DimensionValue,
+  FluidDimension,
   InternalResolvedTokens,
   ResolvedToken,
   ResolvedTokens,
   TokenValue,
 } from '@tokens/types'
 
+/** `$extensions` key declaring a fluid dimension token */
+export const FLUID_EXTENSION = 'dispersa.fluid'
+
 /**
  * Format deprecation message for a token
  *
@@ -59,7 +64,14 @@ export function stripInternalTokenMetadata(tokens: InternalResolvedTokens): Reso
   const cleaned: ResolvedTokens = {}
 
   for (const [name, token] of Object.entries(tokens)) {
-    const { _isAlias: _alias, _sourceModifier: _source, _sourceSet: _sourceSet, ...rest } = token
+    const {
+      _isAlias: _alias,
+      _sourceModifier: _sourceModifier,
+      _sourceSet: _sourceSet,
+      _source: _source,
+      _lintSuppressions: _lintSuppressions,
+      ...rest
+    } = token
     cleaned[name] = rest
   }
 
@@ -139,6 +151,31 @@ export function getPureAliasReferenceName(value: unknown): string | undefined {
   return match?.[1]?.trim()
 }
 
+/**
+ * Get the fluid range of a dimension token, if it declares a complete one
+ *
+ * The parser validates `$extensions["dispersa.fluid"]` and fills in `min`, so
+ * this only checks the shape.
+ */
+export function getFluidDimension(token: ResolvedToken): FluidDimension | undefined {
+  if (token.$type !== 'dimension') {
+    return undefined
+  }
+  const fluid = token.$extensions?.[FLUID_EXTENSION] as Partial<FluidDimension> | undefined
+  const isComplete = [fluid?.min, fluid?.max, fluid?.minViewport, fluid?.maxViewport].every(
+    (value) => typeof value === 'object' && value !== null && 'value' in value && 'unit' in value,
+  )
+  return isComplete ? (fluid as FluidDimension) : undefined
+}
+
+/**
+ * Check that a bound of a fluid range is a dimension object in px or rem
+ */
+export function isFluidBound(value: unknown): value is DimensionValue {
+  const bound = value as Partial<DimensionValue> | undefined
+  return typeof bound?.value === 'number' && (bound.unit === 'px' || bound.unit === 'rem')
+}
+
 const ROOT_REF_PATTERN = /\.\$root\}/g
 
 /**
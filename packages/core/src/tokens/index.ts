@@ -31,6 +31,7 @@ export type {
   Token,
   TokenCollection,
   TokenGroup,
+  TokenSource,
   TokenType,
   TokenValue,
   TokenValueReference,
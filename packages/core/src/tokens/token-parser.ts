@@ -5,16 +5,23 @@
 import * as path from 'node:path'
 
 import { readJSONFile } from '@adapters/filesystem/file-utils'
+import { convertDimension } from '@processing/transforms/built-in/dimension-converter'
 import { ValidationError } from '@shared/errors/index'
 import type { ValidationOptions } from '@shared/types/validation'
 import { getErrorMessage } from '@shared/utils/error-utils'
 import { formatTokenPath } from '@shared/utils/path-utils'
-import { isTokenLike } from '@shared/utils/token-utils'
+import {
+  FLUID_EXTENSION,
+  getPureAliasReferenceName,
+  isFluidBound,
+  isTokenLike,
+} from '@shared/utils/token-utils'
 import { ValidationHandler } from '@shared/utils/validation-handler'
 import { SchemaValidator } from '@validation/validator'
 
 import { GroupExtensionResolver } from './group-extension-resolver'
 import type {
+  DimensionValue,
   InternalResolvedToken,
   InternalResolvedTokens,
   InternalTokenDocument,
@@ -22,6 +29,8 @@ import type {
   Token,
   TokenCollection,
   TokenGroup,
+  TokenLintSuppression,
+  TokenSource,
   TokenType,
   TokenValue,
 } from './types'
@@ -29,6 +38,9 @@ import type {
 /** Characters forbidden in DTCG token/group names: `{`, `}`, and `.` */
 const INVALID_NAME_CHARS_REGEX = /[{}.]/
 
+/** `$extensions` key disabling lint rules for a token or group subtree */
+const LINT_EXTENSION = 'dispersa.lint'
+
 export type TokenParserOptions = {
   preserveExtensions?: boolean
   warnOnCaseSensitiveNames?: boolean
@@ -107,16 +119,20 @@ export class TokenParser {
    *
    * Recursively processes a nested token structure and converts it into a flat
    * collection of resolved tokens with fully qualified paths and names.
+   * Resolved tokens keep the `_source` location recorded during resolution,
+   * which is also attached to the validation errors raised for them.
    *
    * @param tokens - Token collection or record to flatten
    * @param parentPath - Parent path segments for nested tokens (default: [])
    * @param inheritedType - Type inherited from parent group (optional)
+   * @param inheritedSuppressions - Lint suppressions declared on parent groups (optional)
    * @returns Flat collection of resolved tokens indexed by dotted path
    */
   flatten(
     tokens: TokenCollection | InternalTokenDocument | TokenGroup,
     parentPath: string[] = [],
     inheritedType?: TokenType,
+    inheritedSuppressions: TokenLintSuppression[] = [],
   ): InternalResolvedTokens {
     const result: InternalResolvedTokens = {}
 
@@ -126,6 +142,7 @@ export class TokenParser {
         value,
         parentPath,
         inheritedType,
+        inheritedSuppressions,
         result,
       })
     }
@@ -144,9 +161,10 @@ export class TokenParser {
     value: unknown
     parentPath: string[]
     inheritedType?: TokenType
+    inheritedSuppressions: TokenLintSuppression[]
     result: InternalResolvedTokens
   }): void {
-    const { key, value, parentPath, inheritedType, result } = params
+    const { key, value, parentPath, inheritedType, inheritedSuppressions, result } = params
 
     if (this.looksLikeToken(value) && key.startsWith('$')) {
       // Only $root is allowed as a $ prefixed token name
@@ -165,14 +183,19 @@ export class TokenParser {
     }
 
     if (this.isToken(value)) {
-      const resolvedToken = this.buildResolvedToken(value, currentPath, inheritedType)
+      const resolvedToken = this.buildResolvedToken(
+        value,
+        currentPath,
+        inheritedType,
+        inheritedSuppressions,
+      )
       this.ensureTokenType(resolvedToken, currentPath)
       result[resolvedToken.name] = resolvedToken
       return
     }
 
     if (this.isTokenGroup(value)) {
-      this.flattenGroup(value, currentPath, inheritedType, result)
+      this.flattenGroup(value, currentPath, inheritedType, inheritedSuppressions, result)
     }
   }
 
@@ -191,7 +214,8 @@ export class TokenParser {
   private buildResolvedToken(
     token: InternalToken,
     currentPath: string[],
-    inheritedType?: TokenType,
+    inheritedType: TokenType | undefined,
+    inheritedSuppressions: TokenLintSuppression[],
   ): InternalResolvedToken {
     this.validateResolvedToken(token, currentPath)
 
@@ -207,6 +231,13 @@ export class TokenParser {
       resolvedToken.$type = inheritedType
     }
 
+    this.applyFluidExtension(resolvedToken, currentPath)
+
+    const suppressions = this.collectLintSuppressions(token, currentPath, inheritedSuppressions)
+    if (suppressions.length > 0) {
+      resolvedToken._lintSuppressions = suppressions
+    }
+
     return resolvedToken
   }
 
@@ -223,7 +254,10 @@ export class TokenParser {
     }
 
     const errorMsg = this.validator.getErrorMessage(errors)
-    this.handleValidationIssue(`Invalid token at ${currentPath.join('.')}: ${errorMsg}`)
+    this.handleValidationIssue(
+      `Invalid token at ${currentPath.join('.')}: ${errorMsg}`,
+      token._source,
+    )
   }
 
   private ensureTokenType(token: InternalResolvedToken, currentPath: string[]): void {
@@ -240,6 +274,7 @@ export class TokenParser {
     this.handleValidationIssue(
       `Token at ${currentPath.join('.')} has no $type property. ` +
         `Tokens must have an explicit $type, inherit it from a parent group, or be a reference to another token.`,
+      token._source,
     )
   }
 
@@ -247,14 +282,112 @@ export class TokenParser {
     value: TokenGroup,
     currentPath: string[],
     inheritedType: TokenType | undefined,
+    inheritedSuppressions: TokenLintSuppression[],
     result: InternalResolvedTokens,
   ): void {
     const groupType = (value as Record<string, unknown>).$type as TokenType | undefined
     const typeToInherit = groupType ?? inheritedType
-    const flattened = this.flatten(value, currentPath, typeToInherit)
+    const suppressions = this.collectLintSuppressions(value, currentPath, inheritedSuppressions)
+    const flattened = this.flatten(value, currentPath, typeToInherit, suppressions)
     Object.assign(result, flattened)
   }
 
+  /**
+   * Add the rules disabled by `$extensions["dispersa.lint"].disable` on a token
+   * or group to the suppressions inherited from its parent groups
+   */
+  private collectLintSuppressions(
+    node: InternalToken | TokenGroup,
+    currentPath: string[],
+    inheritedSuppressions: TokenLintSuppression[],
+  ): TokenLintSuppression[] {
+    const extension = node.$extensions?.[LINT_EXTENSION]
+    if (extension === undefined) {
+      return inheritedSuppressions
+    }
+
+    const disable = (extension as { disable?: unknown } | null)?.disable
+    if (!Array.isArray(disable) || !disable.every((rule) => typeof rule === 'string')) {
+      this.handleValidationIssue(
+        `Invalid $extensions["${LINT_EXTENSION}"] at "${formatTokenPath(currentPath)}": ` +
+          `"disable" must be an array of rule IDs.`,
+        (node as InternalToken)._source,
+      )
+      return inheritedSuppressions
+    }
+
+    return [...inheritedSuppressions, { path: currentPath, rules: disable as string[] }]
+  }
+
+  /**
+   * Validate `$extensions["dispersa.fluid"]` on a dimension token and fill in `min`
+   *
+   * `min` defaults to `$value`. An explicit `min` replaces `$value`, so outputs
+   * without fluid support use the minimum. Invalid ranges are dropped. When
+   * `$value` is an alias, `min` and the type are left to the alias resolver.
+   */
+  private applyFluidExtension(token: InternalResolvedToken, currentPath: string[]): void {
+    const extensions = token.$extensions
+    const extension = extensions?.[FLUID_EXTENSION]
+    if (extensions === undefined || extension === undefined) {
+      return
+    }
+
+    const isAlias = getPureAliasReferenceName(token.$value as TokenValue) !== undefined
+    const fluid: Record<string, unknown> =
+      typeof extension === 'object' && extension !== null && !Array.isArray(extension)
+        ? { ...(!isAlias && { min: token.$value }), ...extension }
+        : {}
+    const deferred = isAlias && fluid.min === undefined
+    const problem = this.getFluidExtensionProblem(token, fluid, deferred)
+    if (problem !== undefined) {
+      this.handleValidationIssue(
+        `Invalid $extensions["${FLUID_EXTENSION}"] at "${formatTokenPath(currentPath)}": ${problem}`,
+        token._source,
+      )
+      const remaining = { ...extensions }
+      delete remaining[FLUID_EXTENSION]
+      token.$extensions = remaining
+      return
+    }
+
+    if (!deferred) {
+      token.$value = fluid.min as DimensionValue
+      token.originalValue = fluid.min as DimensionValue
+    }
+    token.$extensions = { ...extensions, [FLUID_EXTENSION]: fluid }
+  }
+
+  /**
+   * @param deferred - Skip the checks that depend on the aliased value (`min` and an
+   *   inherited type)
+   */
+  private getFluidExtensionProblem(
+    token: InternalResolvedToken,
+    fluid: Record<string, unknown>,
+    deferred: boolean,
+  ): string | undefined {
+    if (token.$type !== 'dimension' && !(deferred && token.$type === undefined)) {
+      return 'only dimension tokens can be fluid.'
+    }
+
+    for (const key of ['min', 'max', 'minViewport', 'maxViewport']) {
+      if (key === 'min' && deferred) {
+        continue
+      }
+      if (!isFluidBound(fluid[key])) {
+        return `"${key}" must be a dimension object in px or rem.`
+      }
+    }
+
+    const toPx = (key: string) => convertDimension(fluid[key] as DimensionValue, 'px').value
+    if (toPx('maxViewport') <= toPx('minViewport')) {
+      return '"maxViewport" must be larger than "minViewport".'
+    }
+
+    return undefined
+  }
+
   /**
    * Type guard: check if value is a token
    */
@@ -321,9 +454,11 @@ export class TokenParser {
    */
   private validateGroupStructure(value: Record<string, unknown>, path: string[]): void {
     const hasValue = '$value' in value || '$ref' in value
+    // `_source` is the internal source location recorded during resolution, not a child
     const hasChildren = Object.keys(value).some(
       (key) =>
         (!key.startsWith('$') || key === '$root') &&
+        key !== '_source' &&
         typeof value[key] === 'object' &&
         value[key] !== null,
     )
@@ -332,6 +467,14 @@ export class TokenParser {
       this.handleValidationIssue(
         `Invalid structure at "${formatTokenPath(path)}": Object contains both $value/$ref and child tokens/groups. ` +
           `Per DTCG specification, groups cannot have both a value and children.`,
+        (value as InternalToken)._source,
+      )
+    }
+
+    if (!hasValue && 'value' in value && typeof value.type === 'string') {
+      this.handleValidationIssue(
+        `Token at "${formatTokenPath(path)}" uses the Tokens Studio format ("value"/"type" without "$"). ` +
+          `Convert it with the tokensStudio() preprocessor or "dispersa migrate".`,
       )
     }
   }
@@ -376,8 +519,10 @@ export class TokenParser {
     }
   }
 
-  private handleValidationIssue(message: string): void {
-    this.validationHandler.handleIssue(new ValidationError(message, [{ message }]))
+  private handleValidationIssue(message: string, location?: TokenSource): void {
+    const error = new ValidationError(message, [{ message }])
+    error.location = location
+    this.validationHandler.handleIssue(error)
   }
 
   private reportWarning(message: string): void {
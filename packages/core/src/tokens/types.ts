@@ -31,6 +31,22 @@ export type Token = {
 export type InternalToken = Token & {
   /** Internal: Source modifier tag for bundle outputs (not part of DTCG spec) */
   _sourceModifier?: string
+  /** Internal: Token file and location the token is defined in (not part of DTCG spec) */
+  _source?: TokenSource
+}
+
+/**
+ * Location of a token definition in a token file
+ */
+export type TokenSource = {
+  /** Absolute path of the token file */
+  file: string
+  /** JSON Pointer to the token within the file (e.g. `/color/brand/primary`) */
+  pointer: string
+  /** 1-based line of the token's key in the file */
+  line?: number
+  /** 1-based column of the token's key in the file */
+  column?: number
 }
 
 type TokenGroupMetadataValue = string | boolean | Record<string, unknown> | undefined
@@ -554,6 +570,34 @@ export type InternalResolvedToken = ResolvedToken & {
   _sourceModifier?: string
   /** Internal: Source set name for bundle outputs (not part of DTCG spec) */
   _sourceSet?: string
+  /** Internal: Token file and location the token is defined in (not part of DTCG spec) */
+  _source?: TokenSource
+  /** Internal: Lint rules disabled for the token or its groups (not part of DTCG spec) */
+  _lintSuppressions?: TokenLintSuppression[]
+}
+
+/**
+ * Lint rules disabled through `$extensions["dispersa.lint"].disable` on a
+ * token or one of its parent groups
+ */
+export type TokenLintSuppression = {
+  /** Path of the token or group declaring the suppression */
+  path: string[]
+  /** IDs of the disabled rules */
+  rules: string[]
+}
+
+/**
+ * Fluid dimension declared through `$extensions["dispersa.fluid"]`
+ *
+ * CSS outputs scale the value linearly from `min` to `max` while the viewport
+ * grows from `minViewport` to `maxViewport`; other outputs use `min`.
+ */
+export type FluidDimension = {
+  min: DimensionValue
+  max: DimensionValue
+  minViewport: DimensionValue
+  maxViewport: DimensionValue
 }
 
 /**
@@ -41,11 +41,49 @@ export const cssRendererOptionsSchema = {
     selector: { type: 'string' },
     mediaQuery: { type: 'string' },
     preserveReferences: { type: 'boolean' },
+    typographyClasses: {
+      oneOf: [
+        { type: 'boolean' },
+        {
+          type: 'object',
+          properties: {
+            prefix: { type: 'string' },
+            layer: { type: 'string', minLength: 1 },
+          },
+          additionalProperties: false,
+        },
+      ],
+      description: 'Emit a utility class per typography token (true or { prefix, layer })',
+    },
     ...commonRendererOptionsProperties,
   },
   additionalProperties: true, // Allow custom properties for extended renderers
 } as const
 
+/**
+ * SCSS Renderer Options Schema
+ */
+export const scssRendererOptionsSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  type: 'object',
+  properties: {
+    preset: { type: 'string', enum: ['bundle', 'standalone'] },
+    mapName: {
+      type: 'string',
+      minLength: 1,
+      description: 'Name of the root Sass map (default: tokens)',
+    },
+    variables: { type: 'boolean', description: 'Emit one $variable per token (default: true)' },
+    maps: { type: 'boolean', description: 'Emit nested Sass maps (default: true)' },
+    mixins: { type: 'boolean', description: 'Emit typography tokens as mixins (default: true)' },
+    defaultFlag: {
+      type: 'boolean',
+      description: 'Append !default to variables and maps (default: false)',
+    },
+  },
+  additionalProperties: true,
+} as const
+
 /**
  * JSON Renderer Options Schema
  */
@@ -75,6 +113,11 @@ export const jsModuleRendererOptionsSchema = {
       type: 'boolean',
       description: 'Generate helper function for token lookup (bundle mode only)',
     },
+    runtime: {
+      type: 'boolean',
+      description:
+        'Generate a typed getTokens()/applyTheme() runtime API with a .d.ts file (bundle mode only)',
+    },
     ...commonRendererOptionsProperties,
   },
   additionalProperties: true, // Allow custom properties for extended renderers
@@ -87,7 +130,7 @@ export const tailwindRendererOptionsSchema = {
   $schema: 'http://json-schema.org/draft-07/schema#',
   type: 'object',
   properties: {
-    preset: { type: 'string', enum: ['bundle', 'standalone'] },
+    preset: { type: 'string', enum: ['bundle', 'standalone', 'config'] },
     includeImport: {
       type: 'boolean',
       description: 'Prepend @import "tailwindcss" to the output',
@@ -96,6 +139,15 @@ export const tailwindRendererOptionsSchema = {
       type: 'string',
       description: 'Optional Tailwind namespace prefix for @theme',
     },
+    namespaces: {
+      type: 'object',
+      additionalProperties: { type: 'string', minLength: 1 },
+      description: 'Theme namespaces by token path glob (e.g. { "radius.*": "radius" })',
+    },
+    contextUtilities: {
+      type: 'boolean',
+      description: 'Emit an @utility class per modifier context (bundle preset)',
+    },
     selector: { type: 'string' },
     mediaQuery: { type: 'string' },
     ...commonRendererOptionsProperties,
@@ -110,7 +162,7 @@ export const iosRendererOptionsSchema = {
   $schema: 'http://json-schema.org/draft-07/schema#',
   type: 'object',
   properties: {
-    preset: { type: 'string', enum: ['standalone'] },
+    preset: { type: 'string', enum: ['standalone', 'assetCatalog'] },
     accessLevel: { type: 'string', enum: ['public', 'internal'] },
     structure: { type: 'string', enum: ['enum', 'grouped'] },
     enumName: {
@@ -140,6 +192,12 @@ export const iosRendererOptionsSchema = {
       type: 'boolean',
       description: 'Add @frozen annotation to enums and structs for ABI stability (default: false)',
     },
+    darkContexts: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      description:
+        'Modifier contexts mapped to the dark appearance in asset catalogs (default: dark, night)',
+    },
   },
   additionalProperties: true,
 } as const
@@ -198,6 +256,47 @@ export const androidRendererOptionsSchema = {
   },
 } as const
 
+/**
+ * Android XML Resources Renderer Options Schema
+ */
+export const androidXmlRendererOptionsSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  type: 'object',
+  properties: {
+    nightContexts: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      description: 'Modifier contexts written to values-night/ (default: dark, night)',
+    },
+    stylePrefix: {
+      type: 'string',
+      minLength: 1,
+      description: 'Parent name for typography styles (default: TextAppearance.DesignTokens)',
+    },
+    fontResources: {
+      type: 'boolean',
+      description: 'Map custom font families to @font/ resources (default: false)',
+    },
+  },
+  additionalProperties: true,
+} as const
+
+/**
+ * DTCG Renderer Options Schema
+ */
+export const dtcgRendererOptionsSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  type: 'object',
+  properties: {
+    preserveReferences: {
+      type: 'boolean',
+      description: 'Write alias references instead of resolved values (default: false)',
+    },
+    ...commonRendererOptionsProperties,
+  },
+  additionalProperties: true,
+} as const
+
 /**
  * Transform Plugin Schema
  *
@@ -246,6 +345,10 @@ export const rendererPluginSchema = {
       type: 'string',
       description: 'Preset identifier (e.g., "bundle", "standalone", "modifier")',
     },
+    version: {
+      type: 'string',
+      description: 'Implementation version, part of the build cache key',
+    },
     format: {
       description: 'Format function for token-to-output conversion (validated at runtime)',
     },
@@ -324,6 +427,15 @@ export const lintConfigSchema = {
       type: 'boolean',
       description: 'Fail build on lint errors (default: true)',
     },
+    reportUnusedSuppressions: {
+      type: 'string',
+      enum: ['off', 'warn', 'error'],
+      description: 'Severity of unused $extensions["dispersa.lint"] suppressions (default: warn)',
+    },
+    baseline: {
+      type: 'string',
+      description: 'Path to a baseline file of accepted lint issues',
+    },
     plugins: {
       type: 'object',
       description: 'Plugins to load (by object or module path string)',
@@ -501,6 +613,19 @@ export const buildConfigSchema = {
       ...lintConfigSchema,
       description: 'Linting configuration',
     },
+    cache: {
+      oneOf: [
+        { type: 'boolean' },
+        {
+          type: 'object',
+          properties: {
+            dir: { type: 'string', minLength: 1 },
+          },
+          additionalProperties: false,
+        },
+      ],
+      description: 'Persistent incremental build cache (true or { dir })',
+    },
   },
   additionalProperties: false,
 } as const
@@ -554,6 +679,11 @@ export type BuildConfigBase = FromSchema<typeof buildConfigSchema>
  */
 export type PreprocessorPluginBase = FromSchema<typeof preprocessorPluginSchema>
 
+/**
+ * SCSS Renderer Options type generated from scssRendererOptionsSchema
+ */
+export type ScssRendererOptionsBase = FromSchema<typeof scssRendererOptionsSchema>
+
 /**
  * Tailwind CSS v4 Renderer Options type generated from tailwindRendererOptionsSchema
  */
@@ -569,6 +699,16 @@ export type IosRendererOptionsBase = FromSchema<typeof iosRendererOptionsSchema>
  */
 export type AndroidRendererOptionsBase = FromSchema<typeof androidRendererOptionsSchema>
 
+/**
+ * Android XML Resources Renderer Options type generated from androidXmlRendererOptionsSchema
+ */
+export type AndroidXmlRendererOptionsBase = FromSchema<typeof androidXmlRendererOptionsSchema>
+
+/**
+ * DTCG Renderer Options type generated from dtcgRendererOptionsSchema
+ */
+export type DtcgRendererOptionsBase = FromSchema<typeof dtcgRendererOptionsSchema>
+
 /**
  * Lint Config type generated from lintConfigSchema
  *
@@ -25,9 +25,12 @@ describe('Public API Contract Tests', () => {
     it('should export core functions', () => {
       expect(DispersaAPI).toHaveProperty('build')
       expect(DispersaAPI).toHaveProperty('buildOrThrow')
+      expect(DispersaAPI).toHaveProperty('createBuildSession')
       expect(DispersaAPI).toHaveProperty('resolveTokens')
       expect(DispersaAPI).toHaveProperty('lint')
       expect(DispersaAPI).toHaveProperty('resolveAllPermutations')
+      expect(DispersaAPI).toHaveProperty('diffTokens')
+      expect(DispersaAPI).toHaveProperty('checkSemver')
       expect(DispersaAPI).toHaveProperty('generateTypes')
     })
   })
@@ -38,11 +41,14 @@ describe('Public API Contract Tests', () => {
 
       expect(actualExports).toContain('build')
       expect(actualExports).toContain('css')
+      expect(actualExports).toContain('scss')
       expect(actualExports).toContain('json')
       expect(actualExports).toContain('js')
       expect(actualExports).toContain('tailwind')
       expect(actualExports).toContain('ios')
       expect(actualExports).toContain('android')
+      expect(actualExports).toContain('androidXml')
+      expect(actualExports).toContain('dtcg')
       expect(actualExports).toContain('outputTree')
       expect(actualExports).toContain('isOutputTree')
       expect(actualExports).toContain('defineRenderer')
@@ -55,11 +61,14 @@ describe('Public API Contract Tests', () => {
 
       expect(actualExports).toContain('build')
       expect(actualExports).toContain('css')
+      expect(actualExports).toContain('scss')
       expect(actualExports).toContain('json')
       expect(actualExports).toContain('js')
       expect(actualExports).toContain('tailwind')
       expect(actualExports).toContain('ios')
       expect(actualExports).toContain('android')
+      expect(actualExports).toContain('androidXml')
+      expect(actualExports).toContain('dtcg')
       expect(actualExports).toContain('outputTree')
       expect(actualExports).toContain('isOutputTree')
       expect(actualExports).toContain('defineRenderer')
@@ -138,18 +147,24 @@ describe('Public API Contract Tests', () => {
   describe('Subpath Exports - dispersa/builders', () => {
     it('should export all output builder functions', () => {
       expect(BuildersAPI).toHaveProperty('css')
+      expect(BuildersAPI).toHaveProperty('scss')
       expect(BuildersAPI).toHaveProperty('json')
       expect(BuildersAPI).toHaveProperty('js')
       expect(BuildersAPI).toHaveProperty('tailwind')
       expect(BuildersAPI).toHaveProperty('ios')
       expect(BuildersAPI).toHaveProperty('android')
+      expect(BuildersAPI).toHaveProperty('androidXml')
+      expect(BuildersAPI).toHaveProperty('dtcg')
 
       expect(typeof BuildersAPI.css).toBe('function')
+      expect(typeof BuildersAPI.scss).toBe('function')
       expect(typeof BuildersAPI.json).toBe('function')
       expect(typeof BuildersAPI.js).toBe('function')
       expect(typeof BuildersAPI.tailwind).toBe('function')
       expect(typeof BuildersAPI.ios).toBe('function')
       expect(typeof BuildersAPI.android).toBe('function')
+      expect(typeof BuildersAPI.androidXml).toBe('function')
+      expect(typeof BuildersAPI.dtcg).toBe('function')
     })
 
     it('css builder should return valid output config', () => {
@@ -234,9 +249,20 @@ describe('Public API Contract Tests', () => {
 
   describe('Subpath Exports - dispersa/preprocessors', () => {
     it('should be importable (exports Preprocessor type)', () => {
-      // No built-in preprocessors exist, but the module and type should be available
-      // This test just verifies the subpath export works
       expect(PreprocessorsAPI).toBeDefined()
     })
+
+    it('should export built-in preprocessors and importers', () => {
+      expect(Object.keys(PreprocessorsAPI).sort()).toEqual([
+        'importFigmaVariables',
+        'migrateTokensStudio',
+        'preprocessors',
+        'tokensStudio',
+      ])
+    })
+
+    it('should list the built-in preprocessors', () => {
+      expect(PreprocessorsAPI.preprocessors).toEqual([PreprocessorsAPI.tokensStudio])
+    })
   })
 })
@@ -1,4 +1,5 @@
-import { rm } from 'node:fs/promises'
+import { mkdir, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
 
 import { afterEach, describe, expect, it } from 'vitest'
 
@@ -104,4 +105,58 @@ describe('Build Error Handling', () => {
       expect(result.errors![0]!.message).toContain('Transform error')
     })
   })
+
+  describe('Source Locations', () => {
+    const tokensDir = '/tmp/test-build-error-locations-' + Date.now()
+
+    afterEach(async () => {
+      await rm(tokensDir, { recursive: true, force: true })
+    })
+
+    it('reports the file and line of the token with a broken reference', async () => {
+      const color = { $type: 'color', $value: { colorSpace: 'srgb', components: [0, 0, 0] } }
+      await mkdir(tokensDir, { recursive: true })
+      await writeFile(
+        join(tokensDir, 'base.json'),
+        JSON.stringify({ color: { text: color, link: { $value: '{color.text}' } } }, null, 2),
+      )
+      await writeFile(
+        join(tokensDir, 'dark.json'),
+        JSON.stringify({ color: { link: { $value: '{color.txt}' } } }, null, 2),
+      )
+      await writeFile(
+        join(tokensDir, 'tokens.resolver.json'),
+        JSON.stringify({
+          version: '2025.10',
+          sets: { base: { sources: [{ $ref: './base.json' }] } },
+          modifiers: {
+            theme: {
+              default: 'light',
+              contexts: { light: [], dark: [{ $ref: './dark.json' }] },
+            },
+          },
+          resolutionOrder: [{ $ref: '#/sets/base' }, { $ref: '#/modifiers/theme' }],
+        }),
+      )
+
+      const result = await build({
+        resolver: join(tokensDir, 'tokens.resolver.json'),
+        buildPath: testBuildPath,
+        outputs: [css({ name: 'css', file: 'tokens-{theme}.css', preset: 'standalone' })],
+        permutations: [{ theme: 'dark' }],
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.errors![0]).toMatchObject({
+        code: 'TOKEN_REFERENCE',
+        tokenPath: 'color.txt',
+        location: {
+          file: join(tokensDir, 'dark.json'),
+          pointer: '/color/link',
+          line: 3,
+          column: 5,
+        },
+      })
+    })
+  })
 })
@@ -6,11 +6,12 @@
  * LICENSE file in the root directory of this source tree.
  */
 
-import { rm } from 'node:fs/promises'
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
 
 import { afterEach, describe, expect, it } from 'vitest'
 
-import { build, BuildConfig, json, lint } from '../../../src/index'
+import { build, BuildConfig, json, lint, LintError } from '../../../src/index'
 import { recommendedConfig } from '../../../src/lint'
 import { getFixturePath } from '../../utils/test-helpers'
 
@@ -75,6 +76,203 @@ describe('Lint Integration', () => {
 
       expect(result).toBeDefined()
     })
+
+    it('runs rules only in the selected permutations and lists them per issue', async () => {
+      const result = await lint({
+        resolver: resolverPath,
+        plugins: { dispersa: recommendedConfig.plugins?.dispersa },
+        rules: {
+          'dispersa/require-description': [
+            'warn',
+            { permutations: [{ theme: 'dark', scale: ['mobile', 'tablet'] }] },
+          ],
+        },
+      })
+
+      expect(result.permutationCount).toBe(6)
+      expect(result.warningCount).toBeGreaterThan(0)
+      for (const issue of result.issues) {
+        expect(issue.modifierInputs?.length).toBeGreaterThan(0)
+        for (const inputs of issue.modifierInputs ?? []) {
+          expect(inputs.theme).toBe('dark')
+          expect(inputs.scale).not.toBe('desktop')
+        }
+      }
+    })
+
+    it('creates a baseline and only fails on issues missing from it', async () => {
+      const baseline = join(testBuildPath, 'lint-baseline.json')
+      const options = {
+        resolver: resolverPath,
+        plugins: { dispersa: recommendedConfig.plugins?.dispersa },
+        rules: { 'dispersa/require-description': 'error' as const },
+        baseline,
+      }
+
+      const created = await lint({ ...options, writeBaseline: 'create' })
+      const written = JSON.parse(await readFile(baseline, 'utf8'))
+
+      expect(created.errorCount).toBe(0)
+      expect(created.baseline?.suppressedCount).toBeGreaterThan(0)
+      expect(Object.keys(written.issues)).toEqual(['dispersa/require-description'])
+
+      const result = await lint(options)
+      expect(result.issues).toHaveLength(0)
+      expect(result.baseline?.fixed).toEqual([])
+
+      await expect(
+        lint({
+          ...options,
+          rules: { 'dispersa/naming-convention': ['error', { format: 'snake_case' }] },
+        }),
+      ).rejects.toThrow(LintError)
+    })
+
+    it('skips rules disabled through $extensions on tokens and groups', async () => {
+      const red = { colorSpace: 'srgb', components: [1, 0, 0] }
+      const disable = (rules: string[]) => ({ 'dispersa.lint': { disable: rules } })
+
+      const result = await lint({
+        resolver: {
+          version: '2025.10',
+          sets: {
+            base: {
+              sources: [
+                {
+                  legacy: {
+                    $type: 'color',
+                    $extensions: disable(['dispersa/require-description']),
+                    red: { $value: red },
+                  },
+                  color: {
+                    $type: 'color',
+                    red: { $value: red, $extensions: disable(['dispersa/require-description']) },
+                    blue: { $value: red, $extensions: disable(['dispersa/no-duplicate-values']) },
+                    green: { $value: red, $description: 'Green' },
+                  },
+                },
+              ],
+            },
+          },
+          resolutionOrder: [{ $ref: '#/sets/base' }],
+        },
+        plugins: { dispersa: recommendedConfig.plugins?.dispersa },
+        rules: { 'dispersa/require-description': 'warn' },
+      })
+
+      expect(result.issues.map((issue) => [issue.ruleId, issue.tokenName])).toEqual([
+        ['dispersa/require-description', 'color.blue'],
+      ])
+    })
+
+    it('reports suppressions that are no longer needed', async () => {
+      const result = await lint({
+        resolver: {
+          version: '2025.10',
+          sets: {
+            base: {
+              sources: [
+                {
+                  spacing: {
+                    $type: 'dimension',
+                    $extensions: { 'dispersa.lint': { disable: ['dispersa/require-description'] } },
+                    sm: { $value: { value: 4, unit: 'px' }, $description: 'Small' },
+                  },
+                },
+              ],
+            },
+          },
+          resolutionOrder: [{ $ref: '#/sets/base' }],
+        },
+        plugins: { dispersa: recommendedConfig.plugins?.dispersa },
+        rules: { 'dispersa/require-description': 'warn' },
+      })
+
+      expect(result.issues).toMatchObject([
+        { ruleId: 'lint/unused-suppression', severity: 'warn', tokenName: 'spacing' },
+      ])
+    })
+
+    it('rejects suppressions that are not a list of rule IDs', async () => {
+      await expect(
+        lint({
+          resolver: {
+            version: '2025.10',
+            sets: {
+              base: {
+                sources: [
+                  {
+                    size: {
+                      $type: 'dimension',
+                      $value: { value: 4, unit: 'px' },
+                      $extensions: { 'dispersa.lint': { disable: 'dispersa/require-description' } },
+                    },
+                  },
+                ],
+              },
+            },
+            resolutionOrder: [{ $ref: '#/sets/base' }],
+          },
+          plugins: { dispersa: recommendedConfig.plugins?.dispersa },
+        }),
+      ).rejects.toThrow('"disable" must be an array of rule IDs')
+    })
+
+    it('rejects writing a baseline without a baseline path', async () => {
+      await expect(
+        lint({
+          resolver: resolverPath,
+          plugins: { dispersa: recommendedConfig.plugins?.dispersa },
+          writeBaseline: 'create',
+        }),
+      ).rejects.toThrow('lint.baseline')
+    })
+
+    it('applies rename fixes to the files of contexts that were not linted', async () => {
+      const dir = join(testBuildPath, 'fix')
+      const red = { colorSpace: 'srgb', components: [1, 0, 0] }
+      const writeJson = (name: string, data: unknown) =>
+        writeFile(join(dir, name), `${JSON.stringify(data, null, 2)}\n`, 'utf8')
+      const readJson = async (name: string) =>
+        JSON.parse(await readFile(join(dir, name), 'utf8')) as Record<string, any>
+
+      await mkdir(dir, { recursive: true })
+      await writeJson('base.json', { color: { brandPrimary: { $type: 'color', $value: red } } })
+      await writeJson('light.json', {
+        color: { text: { $type: 'color', $value: '{color.brandPrimary}' } },
+      })
+      await writeJson('dark.json', {
+        color: {
+          brandPrimary: { $type: 'color', $value: red },
+          text: { $type: 'color', $value: '{color.brandPrimary}' },
+        },
+      })
+      await writeJson('tokens.resolver.json', {
+        version: '2025.10',
+        sets: { base: { sources: [{ $ref: 'base.json' }] } },
+        modifiers: {
+          theme: {
+            contexts: { light: [{ $ref: 'light.json' }], dark: [{ $ref: 'dark.json' }] },
+            default: 'light',
+          },
+        },
+        resolutionOrder: [{ $ref: '#/sets/base' }, { $ref: '#/modifiers/theme' }],
+      })
+
+      await lint({
+        resolver: join(dir, 'tokens.resolver.json'),
+        modifierInputs: { theme: 'light' },
+        plugins: { dispersa: recommendedConfig.plugins?.dispersa },
+        rules: { 'dispersa/naming-convention': ['warn', { format: 'kebab-case' }] },
+        fix: true,
+      })
+
+      const dark = await readJson('dark.json')
+      expect(Object.keys(dark.color)).toEqual(['brand-primary', 'text'])
+      expect(dark.color.text.$value).toBe('{color.brand-primary}')
+      expect((await readJson('light.json')).color.text.$value).toBe('{color.brand-primary}')
+      expect(Object.keys((await readJson('base.json')).color)).toEqual(['brand-primary'])
+    })
   })
 
   describe('build() with lint config', () => {
@@ -161,6 +359,26 @@ describe('Lint Integration', () => {
       expect(result.errors).toBeUndefined()
     })
 
+    it('succeeds when lint errors are in the baseline', async () => {
+      const lintConfig = {
+        plugins: { dispersa: recommendedConfig.plugins?.dispersa },
+        rules: { 'dispersa/require-description': 'error' as const },
+        baseline: join(testBuildPath, 'lint-baseline.json'),
+      }
+      await lint({ resolver: resolverPath, ...lintConfig, writeBaseline: 'create' })
+
+      const result = await build({
+        resolver: resolverPath,
+        buildPath: testBuildPath,
+        outputs: [
+          json({ name: 'json', preset: 'standalone', structure: 'flat', file: 'tokens.json' }),
+        ],
+        lint: { enabled: true, ...lintConfig },
+      })
+
+      expect(result.success).toBe(true)
+    })
+
     it('succeeds when linting is disabled', async () => {
       const config: BuildConfig = {
         resolver: resolverPath,
@@ -8,7 +8,7 @@ import {
     css,
     json,
 } from '../../../src/index'
-import { colorToHex, nameKebabCase } from '../../../src/transforms'
+import { colorToHex, dimensionToPx, nameKebabCase } from '../../../src/transforms'
 import { getFixturePath } from '../../utils/test-helpers'
 
 describe('Build Transform Integration', () => {
@@ -158,4 +158,59 @@ describe('Build Transform Integration', () => {
       expect(result.outputs[0]!.content).toContain('tokens')
     })
   })
+
+  describe('Fluid Dimensions', () => {
+    it('emits clamp() in CSS and the minimum elsewhere', async () => {
+      const config: BuildConfig = {
+        resolver: {
+          version: '2025.10',
+          sets: {
+            base: {
+              sources: [
+                {
+                  font: {
+                    size: {
+                      lg: {
+                        $type: 'dimension',
+                        $value: { value: 1, unit: 'rem' },
+                        $extensions: {
+                          'dispersa.fluid': {
+                            max: { value: 2, unit: 'rem' },
+                            minViewport: { value: 320, unit: 'px' },
+                            maxViewport: { value: 1280, unit: 'px' },
+                          },
+                        },
+                      },
+                      heading: { $value: '{font.size.lg}' },
+                    },
+                  },
+                },
+              ],
+            },
+          },
+          resolutionOrder: [{ $ref: '#/sets/base' }],
+        },
+        outputs: [
+          css({ name: 'css', preset: 'standalone', transforms: [dimensionToPx()] }),
+          json({ name: 'json', preset: 'standalone', structure: 'flat' }),
+        ],
+      }
+
+      const result = await build(config)
+
+      expect(result.success).toBe(true)
+      const cssOutput = result.outputs.find((o) => o.name === 'css')
+      const jsonOutput = result.outputs.find((o) => o.name === 'json')
+      expect(cssOutput?.content).toContain(
+        '--font-size-lg: clamp(16px, 10.6667px + 1.6667vw, 32px);',
+      )
+      expect(cssOutput?.content).toContain(
+        '--font-size-heading: clamp(16px, 10.6667px + 1.6667vw, 32px);',
+      )
+      expect(JSON.parse(jsonOutput?.content ?? '{}')).toEqual({
+        'font.size.lg': { value: 1, unit: 'rem' },
+        'font.size.heading': { value: 1, unit: 'rem' },
+      })
+    })
+  })
 })
@@ -1,4 +1,4 @@
-import { mkdir, rm, writeFile } from 'node:fs/promises'
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
 
@@ -79,4 +79,139 @@ describe('Dispersa CLI', () => {
 
     await rm(tempDir, { recursive: true, force: true })
   })
+
+  it('rebuilds in watch mode when a referenced token file changes', async () => {
+    const tempDir = join(tmpdir(), `dispersa-cli-watch-${Date.now()}`)
+    await mkdir(tempDir, { recursive: true })
+
+    const tokensPath = join(tempDir, 'tokens.json')
+    const resolverPath = join(tempDir, 'tokens.resolver.json')
+    const configPath = join(tempDir, 'dispersa.config.ts')
+    const writeTokens = (blue: number) =>
+      writeFile(
+        tokensPath,
+        JSON.stringify({
+          color: {
+            primary: {
+              $type: 'color',
+              $value: { colorSpace: 'srgb', components: [0, 0.5, blue] },
+            },
+          },
+        }),
+        'utf8',
+      )
+
+    await writeTokens(1)
+    await writeFile(
+      resolverPath,
+      JSON.stringify({
+        version: '2025.10',
+        sets: { base: { sources: [{ $ref: './tokens.json' }] } },
+        resolutionOrder: [{ $ref: '#/sets/base' }],
+      }),
+      'utf8',
+    )
+    await writeFile(
+      configPath,
+      [
+        "import { json } from 'dispersa'",
+        '',
+        'export default {',
+        "  resolver: './tokens.resolver.json',",
+        "  buildPath: './dist',",
+        '  outputs: [',
+        "    json({ name: 'json', file: 'tokens.json', preset: 'standalone', structure: 'flat' }),",
+        '  ],',
+        '}',
+        '',
+      ].join('\n'),
+      'utf8',
+    )
+
+    const stdout: string[] = []
+    const controller = new AbortController()
+    const waitForOutput = async (text: string, count: number) => {
+      for (let i = 0; i < 60; i++) {
+        if (stdout.filter((line) => line.includes(text)).length >= count) {
+          return
+        }
+        await new Promise((resolve) => setTimeout(resolve, 50))
+      }
+      throw new Error(`Timed out waiting for "${text}":\n${stdout.join('\n')}`)
+    }
+
+    const run = runCli(['build', '--config', configPath, '--watch'], {
+      cwd: tempDir,
+      signal: controller.signal,
+      io: {
+        stdout: (message) => stdout.push(message),
+        stderr: (message) => stdout.push(message),
+      },
+    })
+
+    await waitForOutput('Watching 2 file(s)', 1)
+    await writeTokens(0)
+    await waitForOutput('Build succeeded.', 2)
+    controller.abort()
+
+    expect(await run).toBe(0)
+    expect(stdout.join('\n')).toContain('Change detected: tokens.json')
+
+    const output = JSON.parse(await readFile(join(tempDir, 'dist', 'tokens.json'), 'utf8'))
+    expect(output['color.primary'].components).toEqual([0, 0.5, 0])
+
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('writes the build cache relative to the config file unless --no-cache is passed', async () => {
+    const tempDir = join(tmpdir(), `dispersa-cli-cache-${Date.now()}`)
+    await mkdir(tempDir, { recursive: true })
+
+    const configPath = join(tempDir, 'dispersa.config.ts')
+    const manifestPath = join(tempDir, '.cache', 'manifest.json')
+
+    await writeFile(
+      join(tempDir, 'tokens.json'),
+      JSON.stringify({ spacing: { sm: { $type: 'dimension', $value: { value: 4, unit: 'px' } } } }),
+      'utf8',
+    )
+    await writeFile(
+      join(tempDir, 'tokens.resolver.json'),
+      JSON.stringify({
+        version: '2025.10',
+        sets: { base: { sources: [{ $ref: './tokens.json' }] } },
+        resolutionOrder: [{ $ref: '#/sets/base' }],
+      }),
+      'utf8',
+    )
+    await writeFile(
+      configPath,
+      [
+        "import { json } from 'dispersa'",
+        '',
+        'export default {',
+        "  resolver: './tokens.resolver.json',",
+        "  buildPath: './dist',",
+        "  cache: { dir: './.cache' },",
+        '  outputs: [',
+        "    json({ name: 'json', file: 'tokens.json', preset: 'standalone', structure: 'flat' }),",
+        '  ],',
+        '}',
+        '',
+      ].join('\n'),
+      'utf8',
+    )
+
+    const io = { stdout: () => {}, stderr: () => {} }
+
+    expect(
+      await runCli(['build', '--config', configPath, '--no-cache'], { cwd: tmpdir(), io }),
+    ).toBe(0)
+    await expect(readFile(manifestPath, 'utf8')).rejects.toThrow()
+
+    expect(await runCli(['build', '--config', configPath], { cwd: tmpdir(), io })).toBe(0)
+    expect(JSON.parse(await readFile(manifestPath, 'utf8')).outputs).toHaveProperty('json')
+
+    await rm(tempDir, { recursive: true, force: true })
+  })
 })
@@ -0,0 +1,135 @@
+import { execFileSync } from 'node:child_process'
+import { mkdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { runCli } from '../../../src/cli/cli'
+
+describe('Dispersa CLI diff', () => {
+  let tempDir: string
+  let stdout: string[]
+  let stderr: string[]
+
+  const io = {
+    stdout: (message: string) => stdout.push(message),
+    stderr: (message: string) => stderr.push(message),
+  }
+
+  const writeProject = async (dir: string, blue: number, extra: Record<string, unknown> = {}) => {
+    await mkdir(dir, { recursive: true })
+    await writeFile(
+      join(dir, 'tokens.json'),
+      JSON.stringify({
+        color: {
+          primary: { $type: 'color', $value: { colorSpace: 'srgb', components: [0, 0, blue] } },
+        },
+        ...extra,
+      }),
+      'utf8',
+    )
+    await writeFile(
+      join(dir, 'tokens.resolver.json'),
+      JSON.stringify({
+        version: '2025.10',
+        sets: { base: { sources: [{ $ref: './tokens.json' }] } },
+        resolutionOrder: [{ $ref: '#/sets/base' }],
+      }),
+      'utf8',
+    )
+  }
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `dispersa-cli-diff-${Date.now()}`)
+    stdout = []
+    stderr = []
+    await mkdir(tempDir, { recursive: true })
+  })
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('compares two resolver files', async () => {
+    await writeProject(join(tempDir, 'before'), 1)
+    await writeProject(join(tempDir, 'after'), 0.5, {
+      spacing: { sm: { $type: 'dimension', $value: { value: 4, unit: 'px' } } },
+    })
+
+    const code = await runCli(
+      ['diff', 'before/tokens.resolver.json', 'after/tokens.resolver.json', '--format', 'markdown'],
+      { cwd: tempDir, io },
+    )
+
+    expect(code).toBe(0)
+    expect(stderr).toEqual([])
+    const output = stdout.join('\n')
+    expect(output).toContain('**1 added, 0 removed, 0 renamed, 1 changed, 0 deprecated**')
+    expect(output).toContain('| Changed | `color.primary` | `#0000ff` | `#000080` | ΔE')
+    expect(output).toContain('| Added | `spacing.sm` |  | `4px` |  |')
+  })
+
+  it('compares the resolver at a git revision with the working tree', async () => {
+    const git = (...args: string[]) =>
+      execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+        cwd: tempDir,
+        stdio: 'ignore',
+      })
+
+    await writeProject(tempDir, 1)
+    git('init', '-q')
+    git('add', '-A')
+    git('commit', '-q', '-m', 'tokens')
+    await writeProject(tempDir, 0)
+
+    const code = await runCli(
+      ['diff', '--base', 'HEAD', '--resolver', 'tokens.resolver.json', '--format', 'json'],
+      { cwd: tempDir, io },
+    )
+
+    expect(stderr).toEqual([])
+    expect(code).toBe(0)
+    const result = JSON.parse(stdout.join('\n'))
+    expect(result.summary).toMatchObject({ added: 0, removed: 0, renamed: 0, changed: 1 })
+    expect(result.permutations[0].changes[0]).toMatchObject({
+      kind: 'changed',
+      name: 'color.primary',
+      before: { components: [0, 0, 1] },
+      after: { components: [0, 0, 0] },
+    })
+  })
+
+  it('fails with usage when neither two paths nor --base are given', async () => {
+    const code = await runCli(['diff', 'only-one.json'], { cwd: tempDir, io })
+
+    expect(code).toBe(1)
+    expect(stderr.join('\n')).toContain('Usage: dispersa diff')
+  })
+
+  it('fails semver when the declared release is lower than required', async () => {
+    await writeProject(join(tempDir, 'before'), 1, {
+      spacing: { sm: { $type: 'dimension', $value: { value: 4, unit: 'px' } } },
+    })
+    await writeProject(join(tempDir, 'after'), 0.5)
+
+    const args = ['semver', 'before/tokens.resolver.json', 'after/tokens.resolver.json']
+
+    expect(await runCli([...args, '--release', 'minor'], { cwd: tempDir, io })).toBe(1)
+    expect(stdout.join('\n')).toContain('Declared minor release, but these changes require major')
+
+    stdout = []
+    expect(await runCli([...args, '--release', 'major'], { cwd: tempDir, io })).toBe(0)
+    expect(stdout.join('\n')).toContain('Recommended release: major')
+  })
+
+  it('rejects an unknown --release value', async () => {
+    const code = await runCli(['semver', 'a.json', 'b.json', '--release', 'huge'], {
+      cwd: tempDir,
+      io,
+    })
+
+    expect(code).toBe(1)
+    expect(stderr.join('\n')).toContain('Invalid --release "huge"')
+  })
+})
@@ -1,4 +1,4 @@
-import { mkdir, rm, writeFile } from 'node:fs/promises'
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
 import { tmpdir } from 'node:os'
 import { dirname, join } from 'node:path'
 
@@ -69,6 +69,27 @@ describe('Dispersa CLI Lint', () => {
     await rm(join(resolverDir, 'dist'), { recursive: true, force: true })
   })
 
+  it('runs lint with sarif format', async () => {
+    const stdout: string[] = []
+    const code = await runCli(
+      ['lint', '--config', getFixturePath('lint-warning.config.ts'), '--format', 'sarif'],
+      {
+        cwd: resolverDir,
+        io: { stdout: (message) => stdout.push(message), stderr: () => {} },
+      },
+    )
+
+    expect(code).toBe(0)
+    const sarif = JSON.parse(stdout.join('\n'))
+    expect(sarif.version).toBe('2.1.0')
+    const [result] = sarif.runs[0].results
+    expect(result.ruleId).toBe('dispersa/require-description')
+    expect(result.locations[0].physicalLocation.artifactLocation.uri).toMatch(/\.json$/)
+    expect(result.locations[0].physicalLocation.region.startLine).toBeGreaterThan(0)
+
+    await rm(join(resolverDir, 'dist'), { recursive: true, force: true })
+  })
+
   it('returns error when no lint config found', async () => {
     const tempDir = join(tmpdir(), `dispersa-cli-lint-no-config-${Date.now()}`)
     await mkdir(tempDir, { recursive: true })
@@ -137,6 +158,234 @@ describe('Dispersa CLI Lint', () => {
     await rm(tempDir, { recursive: true, force: true })
   })
 
+  describe('--fix', () => {
+    const createProject = async () => {
+      const tempDir = join(tmpdir(), `dispersa-cli-lint-fix-${Date.now()}`)
+      await mkdir(join(tempDir, 'tokens'), { recursive: true })
+
+      const red = { colorSpace: 'srgb', components: [1, 0, 0] }
+      const white = { colorSpace: 'srgb', components: [1, 1, 1] }
+      const black = { colorSpace: 'srgb', components: [0, 0, 0] }
+      const files: Record<string, unknown> = {
+        'tokens.resolver.json': {
+          version: '2025.10',
+          sets: { base: { sources: [{ $ref: 'tokens/base.json' }] } },
+          modifiers: {
+            theme: {
+              default: 'light',
+              contexts: {
+                light: [{ $ref: 'tokens/light.json' }],
+                dark: [{ $ref: 'tokens/dark.json' }],
+              },
+            },
+          },
+          resolutionOrder: [{ $ref: '#/sets/base' }, { $ref: '#/modifiers/theme' }],
+        },
+        'tokens/base.json': {
+          palette: { $type: 'color', red: { $value: red }, danger: { $value: red } },
+          button: { $type: 'color', bg: { $value: '{Brand.Primary}' } },
+        },
+        'tokens/light.json': { Brand: { $type: 'color', Primary: { $value: white } } },
+        'tokens/dark.json': { Brand: { $type: 'color', Primary: { $value: black } } },
+      }
+      for (const [file, data] of Object.entries(files)) {
+        await writeFile(join(tempDir, file), `${JSON.stringify(data, null, 2)}\n`, 'utf8')
+      }
+
+      await writeFile(
+        join(tempDir, 'dispersa.config.ts'),
+        [
+          "import { dispersaPlugin } from 'dispersa/lint'",
+          '',
+          'export default {',
+          "  resolver: './tokens.resolver.json',",
+          '  lint: {',
+          '    plugins: { dispersa: dispersaPlugin },',
+          '    rules: {',
+          "      'dispersa/naming-convention': 'warn',",
+          "      'dispersa/no-duplicate-values': 'warn',",
+          '    },',
+          '  },',
+          '}',
+          '',
+        ].join('\n'),
+        'utf8',
+      )
+
+      return tempDir
+    }
+
+    const readJson = async (path: string) => JSON.parse(await readFile(path, 'utf8'))
+
+    it('writes rule fixes to every token file and updates references', async () => {
+      const tempDir = await createProject()
+      const stdout: string[] = []
+      const code = await runCli(['lint', '--fix'], {
+        cwd: tempDir,
+        io: { stdout: (message) => stdout.push(message), stderr: () => {} },
+      })
+
+      expect(code).toBe(0)
+      expect(stdout.join('\n')).toContain('No lint issues found')
+      expect(stdout.join('\n')).toContain('Applied 6 fix(es) to 3 file(s):')
+      expect(await readJson(join(tempDir, 'tokens/light.json'))).toEqual({
+        brand: {
+          $type: 'color',
+          primary: { $value: { colorSpace: 'srgb', components: [1, 1, 1] } },
+        },
+      })
+      expect(Object.keys((await readJson(join(tempDir, 'tokens/dark.json'))).brand)).toEqual([
+        '$type',
+        'primary',
+      ])
+      const base = await readJson(join(tempDir, 'tokens/base.json'))
+      expect(base.button.bg.$value).toBe('{brand.primary}')
+      expect(base.palette.danger.$value).toBe('{palette.red}')
+
+      await rm(tempDir, { recursive: true, force: true })
+    })
+
+    it('lists fixes without writing files in a dry run', async () => {
+      const tempDir = await createProject()
+      const before = await readFile(join(tempDir, 'tokens/base.json'), 'utf8')
+      const stdout: string[] = []
+      const code = await runCli(['lint', '--fix-dry-run'], {
+        cwd: tempDir,
+        io: { stdout: (message) => stdout.push(message), stderr: () => {} },
+      })
+
+      const output = stdout.join('\n')
+      expect(code).toBe(0)
+      expect(output).toContain('potentially fixable with the `--fix` option')
+      expect(output).toMatch(/palette\.danger {2}\S*tokens\/base\.json:\d+:\d+/)
+      expect(output).toContain('Would apply')
+      expect(output).toContain(
+        "- tokens/base.json#/palette/danger: replace value with '{palette.red}' [dispersa/no-duplicate-values]",
+      )
+      expect(output).toContain(
+        "- tokens/light.json#/Brand: rename 'Brand' to 'brand' [dispersa/naming-convention]",
+      )
+      expect(await readFile(join(tempDir, 'tokens/base.json'), 'utf8')).toBe(before)
+
+      await rm(tempDir, { recursive: true, force: true })
+    })
+  })
+
+  describe('--baseline', () => {
+    const createProject = async () => {
+      const tempDir = join(tmpdir(), `dispersa-cli-lint-baseline-${Date.now()}`)
+      await mkdir(join(tempDir, 'tokens'), { recursive: true })
+
+      const red = { colorSpace: 'srgb', components: [1, 0, 0] }
+      await writeFile(
+        join(tempDir, 'tokens.resolver.json'),
+        JSON.stringify({
+          version: '2025.10',
+          sets: { base: { sources: [{ $ref: 'tokens/base.json' }] } },
+          resolutionOrder: [{ $ref: '#/sets/base' }],
+        }),
+        'utf8',
+      )
+      await writeFile(
+        join(tempDir, 'tokens/base.json'),
+        JSON.stringify({
+          red: { $type: 'color', $value: red },
+          blue: { $type: 'color', $value: red },
+        }),
+        'utf8',
+      )
+      await writeFile(
+        join(tempDir, 'dispersa.config.ts'),
+        [
+          "import { dispersaPlugin } from 'dispersa/lint'",
+          '',
+          'export default {',
+          "  resolver: './tokens.resolver.json',",
+          '  lint: {',
+          '    plugins: { dispersa: dispersaPlugin },',
+          "    rules: { 'dispersa/require-description': 'error' },",
+          "    baseline: './lint-baseline.json',",
+          '  },',
+          '}',
+          '',
+        ].join('\n'),
+        'utf8',
+      )
+
+      return tempDir
+    }
+
+    const runLint = async (cwd: string, args: string[] = []) => {
+      const stdout: string[] = []
+      const stderr: string[] = []
+      const code = await runCli(['lint', ...args], {
+        cwd,
+        io: {
+          stdout: (message) => stdout.push(message),
+          stderr: (message) => stderr.push(message),
+        },
+      })
+      return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n') }
+    }
+
+    it('creates a baseline, then only fails on new issues', async () => {
+      const tempDir = await createProject()
+
+      const created = await runLint(tempDir, ['--baseline', 'create'])
+      expect(created.code).toBe(0)
+      expect(created.stdout).toContain('2 baselined issue(s) hidden')
+      expect(created.stdout).toContain('Created lint baseline lint-baseline.json')
+      expect(JSON.parse(await readFile(join(tempDir, 'lint-baseline.json'), 'utf8'))).toEqual({
+        version: 1,
+        issues: { 'dispersa/require-description': { blue: 1, red: 1 } },
+      })
+
+      expect((await runLint(tempDir)).code).toBe(0)
+
+      const base = JSON.parse(await readFile(join(tempDir, 'tokens/base.json'), 'utf8'))
+      base.green = base.red
+      base.blue.$description = 'Blue'
+      await writeFile(join(tempDir, 'tokens/base.json'), JSON.stringify(base), 'utf8')
+
+      const linted = await runLint(tempDir)
+      expect(linted.code).toBe(1)
+      expect(linted.stderr).toContain('Lint failed')
+
+      await rm(tempDir, { recursive: true, force: true })
+    })
+
+    it('reports fixed baseline entries and removes them on update', async () => {
+      const tempDir = await createProject()
+      await runLint(tempDir, ['--baseline', 'create'])
+
+      const base = JSON.parse(await readFile(join(tempDir, 'tokens/base.json'), 'utf8'))
+      base.blue.$description = 'Blue'
+      await writeFile(join(tempDir, 'tokens/base.json'), JSON.stringify(base), 'utf8')
+
+      const linted = await runLint(tempDir)
+      expect(linted.code).toBe(0)
+      expect(linted.stdout).toContain('1 baseline entry fixed:')
+      expect(linted.stdout).toContain('✓ blue [dispersa/require-description]')
+
+      const updated = await runLint(tempDir, ['--baseline', 'update'])
+      expect(updated.code).toBe(0)
+      expect(updated.stdout).toContain('Updated lint baseline lint-baseline.json')
+      expect(JSON.parse(await readFile(join(tempDir, 'lint-baseline.json'), 'utf8'))).toEqual({
+        version: 1,
+        issues: { 'dispersa/require-description': { red: 1 } },
+      })
+
+      await rm(tempDir, { recursive: true, force: true })
+    })
+
+    it('rejects an unknown baseline mode', async () => {
+      const { code, stderr } = await runLint(resolverDir, ['--baseline', 'refresh'])
+
+      expect(code).toBe(1)
+      expect(stderr).toContain('Invalid --baseline mode')
+    })
+  })
+
   it('shows help for lint command', async () => {
     const stdout: string[] = []
     const stderr: string[] = []
@@ -150,5 +399,7 @@ describe('Dispersa CLI Lint', () => {
     expect(code).toBe(0)
     expect(stdout.join('\n')).toContain('lint')
     expect(stdout.join('\n')).toContain('--format')
+    expect(stdout.join('\n')).toContain('--fix-dry-run')
+    expect(stdout.join('\n')).toContain('--baseline <mode>')
   })
 })
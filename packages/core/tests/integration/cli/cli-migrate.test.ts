@@ -0,0 +1,115 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { runCli } from '../../../src/cli/cli'
+import { resolveAllPermutations } from '../../../src/dispersa'
+
+describe('Dispersa CLI migrate', () => {
+  let tempDir: string
+  let stdout: string[]
+  let stderr: string[]
+
+  const io = {
+    stdout: (message: string) => stdout.push(message),
+    stderr: (message: string) => stderr.push(message),
+  }
+
+  const writeJson = async (path: string, data: unknown) => {
+    await mkdir(join(path, '..'), { recursive: true })
+    await writeFile(path, JSON.stringify(data), 'utf8')
+  }
+
+  const readJson = async (path: string) => JSON.parse(await readFile(path, 'utf8'))
+
+  const sets = {
+    'core/colors': { color: { blue: { value: '#0066ff', type: 'color' } } },
+    light: { color: { background: { value: '#ffffff', type: 'color' } } },
+    dark: { color: { background: { value: '{color.blue}', type: 'color' } } },
+  }
+  const themes = [
+    { name: 'Light', selectedTokenSets: { 'core/colors': 'source', light: 'enabled' } },
+    { name: 'Dark', selectedTokenSets: { 'core/colors': 'enabled', dark: 'enabled' } },
+  ]
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `dispersa-cli-migrate-${Date.now()}`)
+    stdout = []
+    stderr = []
+    await mkdir(tempDir, { recursive: true })
+  })
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('migrates a multi-file Tokens Studio directory', async () => {
+    const input = join(tempDir, 'studio')
+    for (const [name, tokens] of Object.entries(sets)) {
+      await writeJson(join(input, `${name}.json`), tokens)
+    }
+    await writeJson(join(input, '$themes.json'), themes)
+    await writeJson(join(input, '$metadata.json'), {
+      tokenSetOrder: ['core/colors', 'light', 'dark'],
+    })
+
+    const code = await runCli(['migrate', 'studio', '--out', 'tokens'], { cwd: tempDir, io })
+
+    expect(code).toBe(0)
+    expect(stdout).toContain('Migrated 3 token set(s) and 2 theme(s).')
+    const resolver = await readJson(join(tempDir, 'tokens', 'tokens.resolver.json'))
+    expect(resolver.sets).toEqual({ 'core-colors': { sources: [{ $ref: 'core/colors.json' }] } })
+    expect(resolver.modifiers.theme.contexts).toEqual({
+      light: [{ $ref: 'light.json' }],
+      dark: [{ $ref: 'dark.json' }],
+    })
+    expect(await readJson(join(tempDir, 'tokens', 'dark.json'))).toEqual({
+      color: { background: { $type: 'color', $value: '{color.blue}' } },
+    })
+
+    const permutations = await resolveAllPermutations(
+      join(tempDir, 'tokens', 'tokens.resolver.json'),
+    )
+    const dark = permutations.find((p) => p.modifierInputs.theme === 'dark')
+    expect(dark?.tokens['color.background']?.$value).toMatchObject({ components: [0, 0.4, 1] })
+  })
+
+  it('migrates a single-file export and reports skipped tokens', async () => {
+    await writeJson(join(tempDir, 'tokens.json'), {
+      ...sets,
+      extra: { text: { upper: { value: 'uppercase', type: 'textCase' } } },
+      $themes: themes,
+      $metadata: { tokenSetOrder: ['core/colors', 'light', 'dark', 'extra'] },
+    })
+
+    const code = await runCli(['migrate', 'tokens.json', '--out', 'out', '--name', 'DS'], {
+      cwd: tempDir,
+      io,
+    })
+
+    expect(code).toBe(0)
+    expect(stderr.join('\n')).toContain('"text.upper"')
+    const resolver = await readJson(join(tempDir, 'out', 'tokens.resolver.json'))
+    expect(resolver.name).toBe('DS')
+    expect(resolver.resolutionOrder).toEqual([
+      { $ref: '#/sets/core-colors' },
+      { $ref: '#/modifiers/theme' },
+    ])
+  })
+
+  it('requires an input and --out', async () => {
+    const code = await runCli(['migrate', 'tokens.json'], { cwd: tempDir, io })
+
+    expect(code).toBe(1)
+    expect(stderr[0]).toContain('Usage: dispersa migrate')
+  })
+
+  it('reports missing input files', async () => {
+    const code = await runCli(['migrate', 'missing.json', '--out', 'out'], { cwd: tempDir, io })
+
+    expect(code).toBe(1)
+    expect(stderr[0]).toBe('Migration failed.')
+  })
+})
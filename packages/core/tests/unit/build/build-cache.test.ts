@@ -0,0 +1,218 @@
+/**
+ * @fileoverview Unit tests for the persistent build cache
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { BuildConfig } from '../../../src/config/index'
+import { build } from '../../../src/dispersa'
+import { recommendedConfig } from '../../../src/lint'
+import type { RenderContext } from '../../../src/renderers/types'
+
+describe('Build cache', () => {
+  let tempDir: string
+  let resolverPath: string
+  let cacheDir: string
+  let buildPath: string
+
+  const writeJson = (name: string, data: unknown) =>
+    writeFile(join(tempDir, name), JSON.stringify(data), 'utf8')
+
+  const colorToken = (blue: number) => ({
+    $type: 'color',
+    $value: { colorSpace: 'srgb', components: [0, 0, blue] },
+  })
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `dispersa-cache-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    await mkdir(tempDir, { recursive: true })
+    resolverPath = join(tempDir, 'tokens.resolver.json')
+    cacheDir = join(tempDir, '.cache')
+    buildPath = join(tempDir, 'dist')
+
+    await writeJson('colors.json', { color: { primary: colorToken(1) } })
+    await writeJson('spacing.json', {
+      spacing: { sm: { $type: 'dimension', $value: { value: 4, unit: 'px' } } },
+    })
+    await writeJson('tokens.resolver.json', {
+      version: '2025.10',
+      sets: {
+        base: { sources: [{ $ref: './colors.json' }, { $ref: './spacing.json' }] },
+      },
+      resolutionOrder: [{ $ref: '#/sets/base' }],
+    })
+  })
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  function createConfig(cache: BuildConfig['cache'] = { dir: cacheDir }) {
+    const colorsFormat = vi.fn(async (context: RenderContext) =>
+      JSON.stringify(context.permutations[0]!.tokens['color.primary']!.$value),
+    )
+    const spacingFormat = vi.fn(async () => 'spacing')
+    const config: BuildConfig = {
+      resolver: resolverPath,
+      buildPath,
+      cache,
+      outputs: [
+        {
+          name: 'colors',
+          renderer: { format: colorsFormat },
+          file: 'colors.json',
+          filters: [{ filter: (token) => token.$type === 'color' }],
+        },
+        {
+          name: 'spacing',
+          renderer: { format: spacingFormat },
+          file: 'spacing.txt',
+          filters: [{ filter: (token) => token.$type === 'dimension' }],
+        },
+      ],
+    }
+    return { config, colorsFormat, spacingFormat }
+  }
+
+  it('should restore unchanged outputs without rendering them', async () => {
+    const { config, colorsFormat, spacingFormat } = createConfig()
+
+    const first = await build(config)
+    const second = await build(config)
+
+    expect(second.success).toBe(true)
+    expect(colorsFormat).toHaveBeenCalledTimes(1)
+    expect(spacingFormat).toHaveBeenCalledTimes(1)
+    expect(second.outputs).toEqual(first.outputs)
+  })
+
+  it('should re-render when a referenced source file changes', async () => {
+    const { config, colorsFormat } = createConfig()
+
+    await build(config)
+    await writeJson('colors.json', { color: { primary: colorToken(0.5) } })
+    const second = await build(config)
+
+    expect(colorsFormat).toHaveBeenCalledTimes(2)
+    expect(second.outputs.find((o) => o.name === 'colors')?.content).toContain('0.5')
+    expect(await readFile(join(buildPath, 'colors.json'), 'utf8')).toContain('0.5')
+  })
+
+  it('should only re-render outputs whose config changed', async () => {
+    const { config, colorsFormat, spacingFormat } = createConfig()
+
+    await build(config)
+    await build({
+      ...config,
+      outputs: [config.outputs[0]!, { ...config.outputs[1]!, file: 'spacing.css' }],
+    })
+
+    expect(colorsFormat).toHaveBeenCalledTimes(1)
+    expect(spacingFormat).toHaveBeenCalledTimes(2)
+  })
+
+  it('should re-render when only the renderer version changes', async () => {
+    const { config, colorsFormat } = createConfig()
+    const impl = { format: colorsFormat }
+    const withRenderer = (version: string): BuildConfig => ({
+      ...config,
+      outputs: [
+        {
+          ...config.outputs[0]!,
+          renderer: { name: 'colors', version, format: (context) => impl.format(context) },
+        },
+      ],
+    })
+
+    await build(withRenderer('1'))
+    await build(withRenderer('1'))
+    await build(withRenderer('2'))
+
+    expect(colorsFormat).toHaveBeenCalledTimes(2)
+  })
+
+  it('should re-render when the class of a renderer instance changes', async () => {
+    class FirstRenderer {
+      format() {
+        return 'first'
+      }
+    }
+    class SecondRenderer {
+      format() {
+        return 'second'
+      }
+    }
+    const { config } = createConfig()
+    const withRenderer = (renderer: FirstRenderer): BuildConfig => ({
+      ...config,
+      outputs: [{ ...config.outputs[0]!, renderer }],
+    })
+
+    await build(withRenderer(new FirstRenderer()))
+    const second = await build(withRenderer(new SecondRenderer()))
+
+    expect(second.outputs[0]?.content).toBe('second')
+    expect(await readFile(join(buildPath, 'colors.json'), 'utf8')).toBe('second')
+  })
+
+  it('should rewrite restored files that are missing or modified', async () => {
+    const { config, colorsFormat } = createConfig()
+
+    await build(config)
+    await rm(join(buildPath, 'spacing.txt'))
+    await writeFile(join(buildPath, 'colors.json'), 'edited', 'utf8')
+    await build(config)
+
+    expect(colorsFormat).toHaveBeenCalledTimes(1)
+    expect(await readFile(join(buildPath, 'spacing.txt'), 'utf8')).toBe('spacing')
+    expect(await readFile(join(buildPath, 'colors.json'), 'utf8')).not.toBe('edited')
+  })
+
+  it('should lint restored permutations against the current baseline', async () => {
+    const baseline = join(tempDir, 'lint-baseline.json')
+    await writeJson('lint-baseline.json', {
+      version: 1,
+      issues: { 'dispersa/require-description': { 'color.primary': 1, 'spacing.sm': 1 } },
+    })
+    const { config, colorsFormat } = createConfig()
+    config.lint = {
+      enabled: true,
+      plugins: { dispersa: recommendedConfig.plugins?.dispersa },
+      rules: { 'dispersa/require-description': 'error' },
+      baseline,
+    }
+
+    const first = await build(config)
+    await writeJson('lint-baseline.json', { version: 1, issues: {} })
+    const second = await build(config)
+
+    expect(first.success).toBe(true)
+    expect(second.success).toBe(false)
+    expect(colorsFormat).toHaveBeenCalledTimes(1)
+  })
+
+  it('should start over when the manifest is unreadable', async () => {
+    const { config, colorsFormat } = createConfig()
+
+    await build(config)
+    await writeFile(join(cacheDir, 'manifest.json'), '{', 'utf8')
+    const second = await build(config)
+
+    expect(second.success).toBe(true)
+    expect(colorsFormat).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not read or write a cache when disabled', async () => {
+    const { config, colorsFormat } = createConfig(false)
+
+    await build(config)
+    await build(config)
+
+    expect(colorsFormat).toHaveBeenCalledTimes(2)
+    await expect(readFile(join(cacheDir, 'manifest.json'), 'utf8')).rejects.toThrow()
+  })
+})
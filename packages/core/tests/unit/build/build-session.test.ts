@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Unit tests for BuildSession (incremental rebuilds)
+ */
+
+import { mkdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { BuildSession } from '../../../src/build/build-session'
+import type { BuildConfig } from '../../../src/config/index'
+import type { RenderContext } from '../../../src/renderers/types'
+
+describe('BuildSession', () => {
+  let tempDir: string
+  let resolverPath: string
+
+  const writeJson = (name: string, data: unknown) =>
+    writeFile(join(tempDir, name), JSON.stringify(data), 'utf8')
+
+  const colorToken = (blue: number) => ({
+    $type: 'color',
+    $value: { colorSpace: 'srgb', components: [0, 0, blue] },
+  })
+
+  beforeEach(async () => {
+    tempDir = join(
+      tmpdir(),
+      `dispersa-session-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    )
+    await mkdir(tempDir, { recursive: true })
+    resolverPath = join(tempDir, 'tokens.resolver.json')
+
+    await writeJson('colors.json', { color: { primary: colorToken(1) } })
+    await writeJson('spacing.json', {
+      spacing: { sm: { $type: 'dimension', $value: { value: 4, unit: 'px' } } },
+    })
+    await writeJson('tokens.resolver.json', {
+      version: '2025.10',
+      sets: {
+        base: { sources: [{ $ref: './colors.json' }, { $ref: './spacing.json' }] },
+      },
+      resolutionOrder: [{ $ref: '#/sets/base' }],
+    })
+  })
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  function createConfig() {
+    const colorsFormat = vi.fn(async (context: RenderContext) =>
+      JSON.stringify(context.permutations[0]!.tokens['color.primary']!.$value),
+    )
+    const spacingFormat = vi.fn(async () => 'spacing')
+    const config: BuildConfig = {
+      outputs: [
+        {
+          name: 'colors',
+          renderer: { format: colorsFormat },
+          filters: [{ filter: (token) => token.$type === 'color' }],
+        },
+        {
+          name: 'spacing',
+          renderer: { format: spacingFormat },
+          filters: [{ filter: (token) => token.$type === 'dimension' }],
+        },
+      ],
+    }
+    return { config, colorsFormat, spacingFormat }
+  }
+
+  it('should report the resolver and every referenced file as sources', async () => {
+    const { config } = createConfig()
+    const session = new BuildSession(resolverPath, '', config)
+
+    await session.build()
+
+    expect(session.getSourceFiles().sort()).toEqual(
+      [
+        join(tempDir, 'colors.json'),
+        join(tempDir, 'spacing.json'),
+        join(tempDir, 'tokens.resolver.json'),
+      ].sort(),
+    )
+  })
+
+  it('should only re-render outputs whose tokens changed', async () => {
+    const { config, colorsFormat, spacingFormat } = createConfig()
+    const session = new BuildSession(resolverPath, '', config)
+
+    const first = await session.build()
+    expect(first.success).toBe(true)
+
+    await writeJson('colors.json', { color: { primary: colorToken(0.5) } })
+    expect(session.invalidate([join(tempDir, 'colors.json')])).toBe(true)
+
+    const second = await session.build()
+
+    expect(second.success).toBe(true)
+    expect(colorsFormat).toHaveBeenCalledTimes(2)
+    expect(spacingFormat).toHaveBeenCalledTimes(1)
+    expect(second.outputs.find((o) => o.name === 'colors')?.content).toContain('0.5')
+    expect(second.outputs.find((o) => o.name === 'spacing')?.content).toBe('spacing')
+  })
+
+  it('should keep serving cached files until they are invalidated', async () => {
+    const { config, colorsFormat } = createConfig()
+    const session = new BuildSession(resolverPath, '', config)
+
+    await session.build()
+    await writeJson('colors.json', { color: { primary: colorToken(0.5) } })
+    const stale = await session.build()
+
+    expect(colorsFormat).toHaveBeenCalledTimes(1)
+    expect(stale.outputs.find((o) => o.name === 'colors')?.content).not.toContain('0.5')
+  })
+
+  it('should ignore files that are not part of the build', async () => {
+    const { config } = createConfig()
+    const session = new BuildSession(resolverPath, '', config)
+
+    await session.build()
+
+    expect(session.invalidate([join(tempDir, 'unrelated.json')])).toBe(false)
+  })
+
+  it('should re-read all files when the resolver document changes', async () => {
+    const { config, colorsFormat } = createConfig()
+    const session = new BuildSession(resolverPath, '', config)
+
+    await session.build()
+    await writeJson('colors.json', { color: { primary: colorToken(0.5) } })
+
+    expect(session.invalidate([resolverPath])).toBe(true)
+    const result = await session.build()
+
+    expect(colorsFormat).toHaveBeenCalledTimes(2)
+    expect(result.outputs.find((o) => o.name === 'colors')?.content).toContain('0.5')
+  })
+
+  it('should return build errors instead of throwing', async () => {
+    const { config } = createConfig()
+    const session = new BuildSession(resolverPath, '', config)
+
+    await writeFile(join(tempDir, 'colors.json'), '{ invalid', 'utf8')
+    const result = await session.build()
+
+    expect(result.success).toBe(false)
+    expect(result.errors?.length).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+  formatDiffJson,
+  formatDiffMarkdown,
+  formatDiffStylish,
+  formatSemverJson,
+  formatSemverMarkdown,
+  formatSemverStylish,
+} from '../../../src/cli/formatters/diff-formatter'
+import type { SemverCheckResult, TokenDiffResult } from '../../../src/diff/types'
+
+const result: TokenDiffResult = {
+  permutations: [
+    {
+      modifierInputs: { theme: 'dark' },
+      changes: [
+        {
+          kind: 'changed',
+          name: 'color.bg',
+          $type: 'color',
+          before: { colorSpace: 'srgb', components: [1, 1, 1] },
+          after: { colorSpace: 'srgb', components: [0, 0, 0] },
+          delta: { type: 'color', deltaE: 100 },
+        },
+        {
+          kind: 'changed',
+          name: 'spacing.sm',
+          $type: 'dimension',
+          before: { value: 4, unit: 'px' },
+          after: { value: 6, unit: 'px' },
+          delta: { type: 'dimension', value: 2, unit: 'px' },
+        },
+        {
+          kind: 'renamed',
+          name: 'font.body',
+          from: 'font.base',
+          $type: 'fontFamily',
+          value: 'A|B',
+        },
+        { kind: 'added', name: 'radius.sm', $type: 'dimension', after: { value: 2, unit: 'px' } },
+      ],
+    },
+    { modifierInputs: { theme: 'light' }, changes: [] },
+  ],
+  summary: { added: 1, removed: 0, renamed: 1, changed: 2, deprecated: 0 },
+}
+
+const empty: TokenDiffResult = {
+  permutations: [{ modifierInputs: {}, changes: [] }],
+  summary: { added: 0, removed: 0, renamed: 0, changed: 0, deprecated: 0 },
+}
+
+describe('diff-formatter', () => {
+  describe('formatDiffJson', () => {
+    it('should format the result as JSON', () => {
+      expect(JSON.parse(formatDiffJson(result))).toEqual(result)
+    })
+  })
+
+  describe('formatDiffStylish', () => {
+    it('should report no changes', () => {
+      expect(formatDiffStylish(empty)).toBe('✓ No token changes')
+    })
+
+    it('should list changes per permutation with deltas', () => {
+      const output = formatDiffStylish(result)
+
+      expect(output).toContain('  theme=dark')
+      expect(output).not.toContain('theme=light')
+      expect(output).toContain('~ color.bg  #ffffff → #000000  (ΔE 100)')
+      expect(output).toContain('~ spacing.sm  4px → 6px  (+2px)')
+      expect(output).toContain('→ font.base → font.body')
+      expect(output).toContain('+ radius.sm  2px')
+      expect(output).toContain('✖ 1 added, 0 removed, 1 renamed, 2 changed, 0 deprecated')
+    })
+  })
+
+  describe('formatDiffMarkdown', () => {
+    it('should report no changes', () => {
+      expect(formatDiffMarkdown(empty)).toContain('No token changes.')
+    })
+
+    it('should render a table per permutation', () => {
+      const output = formatDiffMarkdown(result)
+
+      expect(output).toContain('### theme=dark')
+      expect(output).toContain('| Changed | `color.bg` | `#ffffff` | `#000000` | ΔE 100 |')
+      expect(output).toContain('| Renamed | `font.base` → `font.body` | `A\\|B` | `A\\|B` |  |')
+      expect(output).toContain('| Added | `radius.sm` |  | `2px` |  |')
+    })
+  })
+})
+
+const semverResult: SemverCheckResult = {
+  recommended: 'major',
+  declared: 'minor',
+  valid: false,
+  changes: [
+    {
+      releaseType: 'major',
+      change: { kind: 'removed', name: 'color.old', $type: 'color', before: 'red' },
+      permutations: [{ theme: 'light' }, { theme: 'dark' }],
+    },
+    {
+      releaseType: 'minor',
+      change: { kind: 'deprecated', name: 'color.legacy', reason: 'Use color.new' },
+      permutations: [{ theme: 'light' }],
+    },
+  ],
+}
+
+describe('semver formatters', () => {
+  it('should group changes by release type in stylish output', () => {
+    const output = formatSemverStylish(semverResult)
+
+    expect(output).toContain('  major\n    - color.old  red')
+    expect(output).toContain('  minor\n    ! color.legacy  deprecated: Use color.new')
+    expect(output).toContain('Recommended release: major')
+    expect(output).toContain('✖ Declared minor release, but these changes require major')
+  })
+
+  it('should report when no release is needed', () => {
+    const output = formatSemverStylish({ recommended: 'none', valid: true, changes: [] })
+
+    expect(output).toBe('✓ No token changes, no release needed')
+  })
+
+  it('should list changes with their permutations in markdown', () => {
+    const output = formatSemverMarkdown(semverResult)
+
+    expect(output).toContain('**Recommended release: major**')
+    expect(output).toContain('| major | Removed | `color.old` |  | theme=light<br>theme=dark |')
+    expect(output).toContain(
+      '| minor | Deprecated | `color.legacy` | Use color.new | theme=light |',
+    )
+  })
+
+  it('should format the result as JSON', () => {
+    expect(JSON.parse(formatSemverJson(semverResult))).toEqual(semverResult)
+  })
+})
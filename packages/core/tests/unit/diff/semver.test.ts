@@ -0,0 +1,91 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { checkReleaseType, getReleaseType } from '../../../src/diff/semver'
+import type { TokenChange, TokenDiffResult } from '../../../src/diff/types'
+
+const diff = (...permutations: [Record<string, string>, TokenChange[]][]): TokenDiffResult => ({
+  permutations: permutations.map(([modifierInputs, changes]) => ({ modifierInputs, changes })),
+  summary: { added: 0, removed: 0, renamed: 0, changed: 0, deprecated: 0 },
+})
+
+const removed: TokenChange = { kind: 'removed', name: 'color.old', before: 'red' }
+const added: TokenChange = { kind: 'added', name: 'color.new', after: 'red' }
+const valueChange: TokenChange = { kind: 'changed', name: 'color.bg', before: 'red', after: 'blue' }
+
+describe('getReleaseType', () => {
+  it('should classify breaking changes as major', () => {
+    expect(getReleaseType(removed)).toBe('major')
+    expect(getReleaseType({ kind: 'renamed', name: 'b', from: 'a', value: 1 })).toBe('major')
+    expect(
+      getReleaseType({
+        kind: 'changed',
+        name: 'size',
+        $type: 'dimension',
+        previousType: 'number',
+        before: 1,
+        after: { value: 1, unit: 'px' },
+      }),
+    ).toBe('major')
+  })
+
+  it('should classify additions and deprecations as minor', () => {
+    expect(getReleaseType(added)).toBe('minor')
+    expect(getReleaseType({ kind: 'deprecated', name: 'color.old' })).toBe('minor')
+  })
+
+  it('should classify value changes as patch', () => {
+    expect(getReleaseType(valueChange)).toBe('patch')
+  })
+})
+
+describe('checkReleaseType', () => {
+  it('should recommend the most severe bump and sort changes by severity', () => {
+    const result = checkReleaseType(diff([{}, [valueChange, added, removed]]))
+
+    expect(result.recommended).toBe('major')
+    expect(result.valid).toBe(true)
+    expect(result.changes.map((entry) => entry.releaseType)).toEqual(['major', 'minor', 'patch'])
+  })
+
+  it('should recommend none without changes', () => {
+    expect(checkReleaseType(diff([{}, []]), 'patch')).toEqual({
+      recommended: 'none',
+      declared: 'patch',
+      valid: true,
+      changes: [],
+    })
+  })
+
+  it('should merge the same change across permutations', () => {
+    const result = checkReleaseType(
+      diff([{ theme: 'light' }, [removed]], [{ theme: 'dark' }, [removed]]),
+    )
+
+    expect(result.changes).toEqual([
+      {
+        releaseType: 'major',
+        change: removed,
+        permutations: [{ theme: 'light' }, { theme: 'dark' }],
+      },
+    ])
+  })
+
+  it('should reject a declared bump lower than required', () => {
+    const result = checkReleaseType(diff([{}, [added, removed]]), 'minor')
+
+    expect(result).toMatchObject({ recommended: 'major', declared: 'minor', valid: false })
+  })
+
+  it('should accept a declared bump at or above the required one', () => {
+    expect(checkReleaseType(diff([{}, [added]]), 'minor').valid).toBe(true)
+    expect(checkReleaseType(diff([{}, [valueChange]]), 'major').valid).toBe(true)
+  })
+})
@@ -0,0 +1,222 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { diffPermutations, diffTokenSets } from '../../../src/diff/token-diff'
+import type { ResolvedToken, ResolvedTokens, TokenType } from '../../../src/tokens/types'
+
+const makeToken = (name: string, value: unknown, type?: TokenType): ResolvedToken => ({
+  $value: value,
+  $type: type,
+  path: name.split('.'),
+  name,
+  originalValue: value,
+})
+
+const tokens = (...list: ResolvedToken[]): ResolvedTokens =>
+  Object.fromEntries(list.map((token) => [token.name, token]))
+
+const red = { colorSpace: 'srgb', components: [1, 0, 0] }
+const darkRed = { colorSpace: 'srgb', components: [0.9, 0, 0] }
+const px = (value: number) => ({ value, unit: 'px' })
+
+describe('diffTokenSets', () => {
+  it('should report added, removed and changed tokens', () => {
+    const changes = diffTokenSets(
+      tokens(makeToken('color.a', red, 'color'), makeToken('spacing.sm', px(4), 'dimension')),
+      tokens(makeToken('color.a', darkRed, 'color'), makeToken('radius.sm', px(2), 'dimension')),
+    )
+
+    expect(changes.map((change) => [change.kind, change.name])).toEqual([
+      ['changed', 'color.a'],
+      ['added', 'radius.sm'],
+      ['removed', 'spacing.sm'],
+    ])
+  })
+
+  it('should not report tokens whose value is deeply equal', () => {
+    const changes = diffTokenSets(
+      tokens(makeToken('color.a', { colorSpace: 'srgb', components: [1, 0, 0] }, 'color')),
+      tokens(makeToken('color.a', { components: [1, 0, 0], colorSpace: 'srgb' }, 'color')),
+    )
+
+    expect(changes).toEqual([])
+  })
+
+  it('should attach ΔE to changed colors', () => {
+    const [change] = diffTokenSets(
+      tokens(makeToken('color.a', red, 'color')),
+      tokens(makeToken('color.a', darkRed, 'color')),
+    )
+
+    expect(change).toMatchObject({ kind: 'changed', delta: { type: 'color' } })
+    const delta = change?.kind === 'changed' ? change.delta : undefined
+    expect(delta?.type === 'color' && delta.deltaE).toBeGreaterThan(0)
+  })
+
+  it('should attach deltas to changed dimensions in the previous unit', () => {
+    const changes = diffTokenSets(
+      tokens(
+        makeToken('spacing.sm', px(4), 'dimension'),
+        makeToken('spacing.md', px(16), 'dimension'),
+      ),
+      tokens(
+        makeToken('spacing.sm', px(6), 'dimension'),
+        makeToken('spacing.md', { value: 0.75, unit: 'rem' }, 'dimension'),
+      ),
+    )
+
+    expect(changes).toMatchObject([
+      { name: 'spacing.md', delta: { type: 'dimension', value: -4, unit: 'px' } },
+      { name: 'spacing.sm', delta: { type: 'dimension', value: 2, unit: 'px' } },
+    ])
+  })
+
+  it('should report type changes without a delta', () => {
+    const [change] = diffTokenSets(
+      tokens(makeToken('size.icon', 24, 'number')),
+      tokens(makeToken('size.icon', px(24), 'dimension')),
+    )
+
+    expect(change).toEqual({
+      kind: 'changed',
+      name: 'size.icon',
+      $type: 'dimension',
+      previousType: 'number',
+      before: 24,
+      after: px(24),
+    })
+  })
+
+  it('should report tokens that became deprecated alongside value changes', () => {
+    const changes = diffTokenSets(
+      tokens(makeToken('color.a', red, 'color'), makeToken('color.b', red, 'color')),
+      tokens(
+        { ...makeToken('color.a', darkRed, 'color'), $deprecated: 'Use color.b' },
+        { ...makeToken('color.b', red, 'color'), $deprecated: true },
+      ),
+    )
+
+    expect(changes.map((change) => change.kind)).toEqual(['changed', 'deprecated', 'deprecated'])
+    expect(changes[1]).toEqual({
+      kind: 'deprecated',
+      name: 'color.a',
+      $type: 'color',
+      reason: 'Use color.b',
+    })
+  })
+
+  it('should detect renames by type and value, preferring the same last segment', () => {
+    const changes = diffTokenSets(
+      tokens(makeToken('color.brand.primary', red, 'color')),
+      tokens(
+        makeToken('color.accent', red, 'color'),
+        makeToken('color.action.primary', red, 'color'),
+      ),
+    )
+
+    expect(changes).toEqual([
+      { kind: 'added', name: 'color.accent', $type: 'color', after: red },
+      {
+        kind: 'renamed',
+        name: 'color.action.primary',
+        from: 'color.brand.primary',
+        $type: 'color',
+        value: red,
+      },
+    ])
+  })
+
+  it('should detect renames within the same parent group', () => {
+    const changes = diffTokenSets(
+      tokens(makeToken('color.brand.primary', red, 'color')),
+      tokens(makeToken('color.brand.main', red, 'color')),
+    )
+
+    expect(changes).toEqual([
+      {
+        kind: 'renamed',
+        name: 'color.brand.main',
+        from: 'color.brand.primary',
+        $type: 'color',
+        value: red,
+      },
+    ])
+  })
+
+  it('should not pair unrelated tokens that share a value', () => {
+    const changes = diffTokenSets(
+      tokens(makeToken('spacing.sm', px(8), 'dimension')),
+      tokens(makeToken('radius.md', px(8), 'dimension')),
+    )
+
+    expect(changes).toEqual([
+      { kind: 'added', name: 'radius.md', $type: 'dimension', after: px(8) },
+      { kind: 'removed', name: 'spacing.sm', $type: 'dimension', before: px(8) },
+    ])
+  })
+})
+
+describe('diffPermutations', () => {
+  it('should match permutations by modifier inputs regardless of key order and case', () => {
+    const result = diffPermutations(
+      [
+        {
+          modifierInputs: { theme: 'Light', density: 'compact' },
+          tokens: tokens(makeToken('color.a', red, 'color')),
+        },
+      ],
+      [
+        {
+          modifierInputs: { density: 'compact', theme: 'light' },
+          tokens: tokens(makeToken('color.a', darkRed, 'color')),
+        },
+      ],
+    )
+
+    expect(result.permutations).toHaveLength(1)
+    expect(result.permutations[0]?.changes).toHaveLength(1)
+  })
+
+  it('should compare one-sided permutations against an empty set', () => {
+    const result = diffPermutations(
+      [],
+      [{ modifierInputs: { theme: 'dark' }, tokens: tokens(makeToken('color.a', red, 'color')) }],
+    )
+
+    expect(result.permutations[0]).toMatchObject({
+      modifierInputs: { theme: 'dark' },
+      changes: [{ kind: 'added', name: 'color.a' }],
+    })
+  })
+
+  it('should count distinct tokens per kind in the summary', () => {
+    const before = tokens(makeToken('color.a', red, 'color'), makeToken('color.b', red, 'number'))
+    const after = tokens(makeToken('color.a', darkRed, 'color'))
+
+    const result = diffPermutations(
+      [
+        { modifierInputs: { theme: 'light' }, tokens: before },
+        { modifierInputs: { theme: 'dark' }, tokens: before },
+      ],
+      [
+        { modifierInputs: { theme: 'light' }, tokens: after },
+        { modifierInputs: { theme: 'dark' }, tokens: after },
+      ],
+    )
+
+    expect(result.summary).toEqual({
+      added: 0,
+      removed: 1,
+      renamed: 0,
+      changed: 1,
+      deprecated: 0,
+    })
+  })
+})
@@ -0,0 +1,201 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { resolveAllPermutations } from '../../../../../src/dispersa'
+import {
+  importFigmaVariables,
+  type FigmaVariable,
+  type FigmaVariablesMeta,
+} from '../../../../../src/processing/preprocessors/built-in/figma-variables'
+import { ConfigurationError } from '../../../../../src/shared/errors/index'
+
+const variable = (
+  id: string,
+  name: string,
+  variableCollectionId: string,
+  resolvedType: FigmaVariable['resolvedType'],
+  valuesByMode: FigmaVariable['valuesByMode'],
+  scopes: string[] = ['ALL_SCOPES'],
+): FigmaVariable => ({ id, name, variableCollectionId, resolvedType, valuesByMode, scopes })
+
+const createExport = (): { meta: FigmaVariablesMeta; status: number; error: boolean } => ({
+  status: 200,
+  error: false,
+  meta: {
+    variableCollections: {
+      'VC:1': {
+        id: 'VC:1',
+        name: 'Primitives',
+        modes: [{ modeId: '1:0', name: 'Value' }],
+        defaultModeId: '1:0',
+        variableIds: ['V:1', 'V:2', 'V:3'],
+      },
+      'VC:2': {
+        id: 'VC:2',
+        name: 'Color Mode',
+        modes: [
+          { modeId: '2:0', name: 'Light' },
+          { modeId: '2:1', name: 'Dark' },
+        ],
+        defaultModeId: '2:0',
+        variableIds: ['V:10', 'V:11'],
+      },
+    },
+    variables: {
+      'V:1': variable('V:1', 'blue/500', 'VC:1', 'COLOR', {
+        '1:0': { r: 0, g: 0.4, b: 1, a: 1 },
+      }),
+      'V:2': variable('V:2', 'gray/900', 'VC:1', 'COLOR', {
+        '1:0': { r: 0.1, g: 0.1, b: 0.1, a: 0.5 },
+      }),
+      'V:3': variable('V:3', 'radius/md', 'VC:1', 'FLOAT', { '1:0': 8.000000298 }, [
+        'CORNER_RADIUS',
+      ]),
+      'V:10': variable('V:10', 'color/background', 'VC:2', 'COLOR', {
+        '2:0': { r: 1, g: 1, b: 1, a: 1 },
+        '2:1': { type: 'VARIABLE_ALIAS', id: 'V:2' },
+      }),
+      'V:11': variable('V:11', 'color/accent', 'VC:2', 'COLOR', {
+        '2:0': { type: 'VARIABLE_ALIAS', id: 'V:1' },
+        '2:1': { type: 'VARIABLE_ALIAS', id: 'V:1' },
+      }),
+    },
+  },
+})
+
+describe('importFigmaVariables', () => {
+  it('should map collections to sets and modes to modifier contexts', () => {
+    const resolver = importFigmaVariables(createExport(), { name: 'Figma' })
+
+    expect(resolver.name).toBe('Figma')
+    expect(resolver.version).toBe('2025.10')
+    expect(Object.keys(resolver.sets ?? {})).toEqual(['primitives', 'color-mode'])
+    expect(resolver.modifiers?.['color-mode']?.default).toBe('light')
+    expect(Object.keys(resolver.modifiers?.['color-mode']?.contexts ?? {})).toEqual([
+      'light',
+      'dark',
+    ])
+    expect(resolver.resolutionOrder).toEqual([
+      { $ref: '#/sets/primitives' },
+      { $ref: '#/sets/color-mode' },
+      { $ref: '#/modifiers/color-mode' },
+    ])
+  })
+
+  it('should convert values and aliases', () => {
+    const resolver = importFigmaVariables(createExport())
+    const primitives = resolver.sets?.primitives?.sources[0] as Record<string, any>
+    const colorMode = resolver.sets?.['color-mode']?.sources[0] as Record<string, any>
+
+    expect(primitives.blue['500']).toMatchObject({
+      $type: 'color',
+      $value: { colorSpace: 'srgb', components: [0, 0.4, 1] },
+      $extensions: { 'com.figma': { variableId: 'V:1', scopes: ['ALL_SCOPES'] } },
+    })
+    expect(primitives.gray['900'].$value.alpha).toBe(0.5)
+    expect(primitives.radius.md).toMatchObject({
+      $type: 'dimension',
+      $value: { value: 8, unit: 'px' },
+    })
+    expect(colorMode.color.accent.$value).toBe('{blue.500}')
+  })
+
+  it('should only put values that differ from the default mode into contexts', () => {
+    const resolver = importFigmaVariables(createExport())
+    const contexts = resolver.modifiers?.['color-mode']?.contexts ?? {}
+
+    expect(contexts.light).toEqual([])
+    expect(contexts.dark).toEqual([
+      {
+        color: {
+          background: expect.objectContaining({ $type: 'color', $value: '{gray.900}' }),
+        },
+      },
+    ])
+  })
+
+  it('should accept the meta object on its own', () => {
+    const resolver = importFigmaVariables(createExport().meta)
+    expect(Object.keys(resolver.sets ?? {})).toEqual(['primitives', 'color-mode'])
+  })
+
+  it('should derive token types from scopes', () => {
+    const data = createExport()
+    data.meta.variables['V:4'] = variable(
+      'V:4',
+      'font/weight/bold',
+      'VC:1',
+      'FLOAT',
+      { '1:0': 700 },
+      ['FONT_WEIGHT'],
+    )
+    data.meta.variables['V:5'] = variable(
+      'V:5',
+      'font/family/body',
+      'VC:1',
+      'STRING',
+      { '1:0': 'Inter' },
+      ['FONT_FAMILY'],
+    )
+    data.meta.variables['V:6'] = variable('V:6', 'opacity/muted', 'VC:1', 'FLOAT', { '1:0': 0.6 })
+    data.meta.variableCollections['VC:1']?.variableIds.push('V:4', 'V:5', 'V:6')
+
+    const resolver = importFigmaVariables(data)
+    const primitives = resolver.sets?.primitives?.sources[0] as Record<string, any>
+
+    expect(primitives.font.weight.bold).toMatchObject({ $type: 'fontWeight', $value: 700 })
+    expect(primitives.font.family.body).toMatchObject({ $type: 'fontFamily', $value: 'Inter' })
+    expect(primitives.opacity.muted).toMatchObject({ $type: 'number', $value: 0.6 })
+  })
+
+  it('should skip variables without a DTCG type and aliases to them', () => {
+    const data = createExport()
+    data.meta.variables['V:7'] = variable('V:7', 'flags/beta', 'VC:1', 'BOOLEAN', { '1:0': true })
+    data.meta.variables['V:8'] = variable('V:8', 'flags/alias', 'VC:1', 'BOOLEAN', {
+      '1:0': { type: 'VARIABLE_ALIAS', id: 'V:7' },
+    })
+    data.meta.variables['V:9'] = variable('V:9', 'color/missing', 'VC:1', 'COLOR', {
+      '1:0': { type: 'VARIABLE_ALIAS', id: 'V:404' },
+    })
+    data.meta.variableCollections['VC:1']?.variableIds.push('V:7', 'V:8', 'V:9')
+    const onWarn = vi.fn()
+
+    const resolver = importFigmaVariables(data, { onWarn })
+    const primitives = resolver.sets?.primitives?.sources[0] as Record<string, any>
+
+    expect(primitives.flags).toBeUndefined()
+    expect(primitives.color).toBeUndefined()
+    expect(onWarn).toHaveBeenCalledTimes(3)
+    expect(onWarn).toHaveBeenCalledWith(expect.stringContaining('"flags/beta"'))
+    expect(onWarn).toHaveBeenCalledWith(expect.stringContaining('"color/missing"'))
+  })
+
+  it('should omit modifiers when every collection has a single mode', () => {
+    const data = createExport()
+    delete data.meta.variableCollections['VC:2']
+
+    const resolver = importFigmaVariables(data)
+
+    expect(resolver.modifiers).toBeUndefined()
+    expect(resolver.resolutionOrder).toEqual([{ $ref: '#/sets/primitives' }])
+  })
+
+  it('should throw a ConfigurationError for data that is not a Figma export', () => {
+    expect(() => importFigmaVariables({ foo: 'bar' } as never)).toThrow(ConfigurationError)
+  })
+
+  it('should produce a resolver that resolves per mode', async () => {
+    const resolver = importFigmaVariables(createExport())
+
+    const permutations = await resolveAllPermutations(resolver)
+    const dark = permutations.find((p) => p.modifierInputs['color-mode'] === 'dark')
+    const light = permutations.find((p) => p.modifierInputs['color-mode'] === 'light')
+
+    expect(permutations).toHaveLength(2)
+    expect(light?.tokens['color.background']?.$value).toMatchObject({ components: [1, 1, 1] })
+    expect(dark?.tokens['color.background']?.$value).toMatchObject({
+      components: [0.1, 0.1, 0.1],
+      alpha: 0.5,
+    })
+    expect(dark?.tokens['color.accent']?.$value).toMatchObject({ components: [0, 0.4, 1] })
+  })
+})
@@ -0,0 +1,223 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { resolveAllPermutations } from '../../../../../src/dispersa'
+import {
+  convertTokensStudioTokens,
+  migrateTokensStudio,
+  tokensStudio,
+  type TokensStudioProject,
+} from '../../../../../src/processing/preprocessors/built-in/tokens-studio'
+
+const createProject = (): TokensStudioProject => ({
+  sets: {
+    global: {
+      color: {
+        blue: { value: '#0066ff', type: 'color' },
+        black: { value: 'rgba(0, 0, 0, 0.5)', type: 'color' },
+      },
+      space: { md: { value: '16', type: 'spacing' } },
+    },
+    light: { color: { background: { value: '#ffffff', type: 'color' } } },
+    dark: { color: { background: { value: '$color.black', type: 'color' } } },
+    compact: { space: { md: { value: '0.5rem', type: 'spacing' } } },
+  },
+  themes: [
+    {
+      name: 'Light',
+      group: 'Color Mode',
+      selectedTokenSets: { global: 'source', light: 'enabled' },
+    },
+    {
+      name: 'Dark',
+      group: 'Color Mode',
+      selectedTokenSets: { global: 'enabled', dark: 'enabled' },
+    },
+    { name: 'Compact', selectedTokenSets: { global: 'enabled', compact: 'enabled' } },
+  ],
+  metadata: { tokenSetOrder: ['global', 'light', 'dark', 'compact'] },
+})
+
+describe('convertTokensStudioTokens', () => {
+  it('should convert value/type tokens to DTCG', () => {
+    const tokens = convertTokensStudioTokens({
+      color: {
+        primary: { value: '{color.blue}', type: 'color', description: 'Brand' },
+        blue: { value: '#0066ff', type: 'color', id: 'internal' },
+      },
+      size: { sm: { value: '4px', type: 'sizing' }, root: { value: '1rem', type: 'fontSizes' } },
+      weight: { bold: { value: 'Semi Bold', type: 'fontWeights' } },
+      family: { body: { value: 'Inter, sans-serif', type: 'fontFamilies' } },
+      line: { normal: { value: '150%', type: 'lineHeights' } },
+      motion: { fast: { value: '200ms', type: 'duration' } },
+      $themes: [],
+    }) as Record<string, any>
+
+    expect(tokens.$themes).toBeUndefined()
+    expect(tokens.color.primary).toEqual({
+      $type: 'color',
+      $value: '{color.blue}',
+      $description: 'Brand',
+    })
+    expect(tokens.color.blue).toEqual({
+      $type: 'color',
+      $value: { colorSpace: 'srgb', components: [0, 0.4, 1], hex: '#0066ff' },
+    })
+    expect(tokens.size.sm).toEqual({ $type: 'dimension', $value: { value: 4, unit: 'px' } })
+    expect(tokens.size.root.$value).toEqual({ value: 1, unit: 'rem' })
+    expect(tokens.weight.bold).toEqual({ $type: 'fontWeight', $value: 'semi-bold' })
+    expect(tokens.family.body).toEqual({ $type: 'fontFamily', $value: ['Inter', 'sans-serif'] })
+    expect(tokens.line.normal).toEqual({ $type: 'number', $value: 1.5 })
+    expect(tokens.motion.fast.$value).toEqual({ value: 200, unit: 'ms' })
+  })
+
+  it('should convert composite tokens', () => {
+    const tokens = convertTokensStudioTokens({
+      shadow: {
+        card: {
+          type: 'boxShadow',
+          value: [
+            { x: '0', y: '2', blur: '4', spread: '0', color: '#00000033', type: 'dropShadow' },
+            { x: 0, y: 1, blur: 1, spread: 0, color: '{color.black}', type: 'innerShadow' },
+          ],
+        },
+      },
+      text: {
+        body: {
+          type: 'typography',
+          value: {
+            fontFamily: '{font.body}',
+            fontWeight: '400',
+            fontSize: '16px',
+            lineHeight: '24px',
+            letterSpacing: '-2%',
+          },
+        },
+      },
+      border: { focus: { type: 'border', value: { color: '#0066ff', width: '2px' } } },
+    }) as Record<string, any>
+
+    expect(tokens.shadow.card.$type).toBe('shadow')
+    expect(tokens.shadow.card.$value[0]).toMatchObject({
+      offsetX: { value: 0, unit: 'px' },
+      offsetY: { value: 2, unit: 'px' },
+      color: { alpha: 0.2 },
+    })
+    expect(tokens.shadow.card.$value[1]).toMatchObject({ color: '{color.black}', inset: true })
+    expect(tokens.text.body.$value).toEqual({
+      fontFamily: '{font.body}',
+      fontWeight: 400,
+      fontSize: { value: 16, unit: 'px' },
+      lineHeight: 1.5,
+      letterSpacing: { value: -0.32, unit: 'px' },
+    })
+    expect(tokens.border.focus.$value).toMatchObject({
+      width: { value: 2, unit: 'px' },
+      style: 'solid',
+    })
+  })
+
+  it('should skip tokens it cannot convert', () => {
+    const onWarn = vi.fn()
+    const tokens = convertTokensStudioTokens(
+      {
+        space: {
+          double: { value: '{space.md} * 2', type: 'spacing' },
+          md: { value: '8', type: 'spacing' },
+        },
+        text: { upper: { value: 'uppercase', type: 'textCase' } },
+      },
+      { onWarn },
+    ) as Record<string, any>
+
+    expect(Object.keys(tokens.space)).toEqual(['md'])
+    expect(tokens.text).toEqual({})
+    expect(onWarn).toHaveBeenCalledTimes(2)
+    expect(onWarn).toHaveBeenCalledWith(expect.stringContaining('"space.double"'))
+  })
+
+  it('should map types of tokens that already use $value', () => {
+    const tokens = convertTokensStudioTokens({
+      space: { sm: { $value: '4', $type: 'spacing' } },
+    }) as Record<string, any>
+
+    expect(tokens.space.sm).toEqual({ $type: 'dimension', $value: { value: 4, unit: 'px' } })
+  })
+})
+
+describe('tokensStudio', () => {
+  it('should be a preprocessor converting the raw token document', async () => {
+    const preprocessor = tokensStudio()
+    const result = (await preprocessor.preprocess({
+      space: { md: { value: '16', type: 'spacing' } },
+    } as never)) as Record<string, any>
+
+    expect(preprocessor.name).toBe('tokens-studio')
+    expect(result.space.md.$value).toEqual({ value: 16, unit: 'px' })
+  })
+})
+
+describe('migrateTokensStudio', () => {
+  it('should turn always active sets into resolver sets and theme groups into modifiers', () => {
+    const { files, resolver } = migrateTokensStudio(createProject(), { name: 'Migrated' })
+
+    expect(Object.keys(files)).toEqual(['global.json', 'light.json', 'dark.json', 'compact.json'])
+    expect(resolver).toEqual({
+      name: 'Migrated',
+      version: '2025.10',
+      sets: {
+        global: { sources: [{ $ref: 'global.json' }] },
+        compact: { sources: [{ $ref: 'compact.json' }] },
+      },
+      modifiers: {
+        'color-mode': {
+          default: 'light',
+          contexts: { light: [{ $ref: 'light.json' }], dark: [{ $ref: 'dark.json' }] },
+        },
+      },
+      resolutionOrder: [
+        { $ref: '#/sets/global' },
+        { $ref: '#/sets/compact' },
+        { $ref: '#/modifiers/color-mode' },
+      ],
+    })
+  })
+
+  it('should use every set in token set order without themes', () => {
+    const project = createProject()
+    delete project.themes
+    project.metadata = { tokenSetOrder: ['compact', 'global'] }
+
+    const { resolver } = migrateTokensStudio(project)
+
+    expect(resolver.modifiers).toBeUndefined()
+    expect(resolver.resolutionOrder).toEqual([
+      { $ref: '#/sets/compact' },
+      { $ref: '#/sets/global' },
+      { $ref: '#/sets/light' },
+      { $ref: '#/sets/dark' },
+    ])
+  })
+
+  it('should kebab-case nested set names for files and set names', () => {
+    const { files, resolver } = migrateTokensStudio({
+      sets: { 'Core/Base Colors': { color: { red: { value: '#ff0000', type: 'color' } } } },
+    })
+
+    expect(Object.keys(files)).toEqual(['core/base-colors.json'])
+    expect(resolver.sets).toEqual({
+      'core-base-colors': { sources: [{ $ref: 'core/base-colors.json' }] },
+    })
+  })
+
+  it('should produce an inline resolver that resolves per theme', async () => {
+    const { files, resolver } = migrateTokensStudio(createProject(), { inline: true })
+
+    const permutations = await resolveAllPermutations(resolver)
+    const dark = permutations.find((p) => p.modifierInputs['color-mode'] === 'dark')
+
+    expect(files).toEqual({})
+    expect(permutations).toHaveLength(2)
+    expect(dark?.tokens['color.background']?.$value).toMatchObject({ alpha: 0.5 })
+    expect(dark?.tokens['space.md']?.$value).toEqual({ value: 0.5, unit: 'rem' })
+  })
+})
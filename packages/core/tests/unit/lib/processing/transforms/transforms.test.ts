@@ -101,6 +101,30 @@ describe('Transform Integration Tests', () => {
       expect(result.$value).toBe('16px')
     })
 
+    it('should convert the fluid range of a dimension', () => {
+      const fluid = {
+        min: { value: 1, unit: 'rem' },
+        max: { value: 2, unit: 'rem' },
+        minViewport: { value: 320, unit: 'px' },
+        maxViewport: { value: 1280, unit: 'px' },
+      }
+      const token: ResolvedToken = {
+        $type: 'dimension',
+        $value: { value: 1, unit: 'rem' },
+        $extensions: { 'dispersa.fluid': fluid },
+        path: ['size', 'lg'],
+        name: 'size.lg',
+        originalValue: { value: 1, unit: 'rem' },
+      }
+
+      const result = dimensionToPx().transform(token)
+      expect(result.$extensions?.['dispersa.fluid']).toEqual({
+        ...fluid,
+        min: { value: 16, unit: 'px' },
+        max: { value: 32, unit: 'px' },
+      })
+    })
+
     it('should transform dimension to rem', () => {
       const transform = dimensionToRem()
       expect(transform).toBeDefined()
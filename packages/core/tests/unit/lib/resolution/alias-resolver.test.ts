@@ -7,6 +7,7 @@ import { ResolverParser } from '../../../../src/adapters/filesystem/resolver-par
 import { ReferenceResolver, ResolutionEngine } from '../../../../src/resolution'
 import { AliasResolver } from '../../../../src/resolution/alias-resolver'
 import { TokenParser } from '../../../../src/tokens/token-parser'
+import type { InternalResolvedTokens } from '../../../../src/tokens/types'
 import { getFixturePath } from '../../../utils/test-helpers'
 
 describe('Alias Resolver Integration Tests', () => {
@@ -320,6 +321,33 @@ describe('Alias Resolver Integration Tests', () => {
         // Error message should contain the missing reference
       }
     })
+
+    it('should attach the location of the token containing the missing reference', () => {
+      const tokens: InternalResolvedTokens = {
+        'token.a': {
+          $type: 'color',
+          $value: '{token.b}',
+          path: ['token', 'a'],
+          name: 'token.a',
+          originalValue: '{token.b}',
+          _source: { file: '/tokens/a.json', pointer: '/token/a', line: 3, column: 5 },
+        },
+        'token.b': {
+          $type: 'color',
+          $value: '{token.missing}',
+          path: ['token', 'b'],
+          name: 'token.b',
+          originalValue: '{token.missing}',
+          _source: { file: '/tokens/b.json', pointer: '/token/b', line: 7, column: 5 },
+        },
+      }
+
+      expect(() => aliasResolver.resolve(tokens)).toThrow(
+        expect.objectContaining({
+          location: { file: '/tokens/b.json', pointer: '/token/b', line: 7, column: 5 },
+        }),
+      )
+    })
   })
 
   describe('Edge Cases', () => {
@@ -455,4 +483,68 @@ describe('Alias Resolver Integration Tests', () => {
       })
     })
   })
+
+  describe('Fluid Dimensions', () => {
+    const fluidRange = {
+      max: { value: 2, unit: 'rem' },
+      minViewport: { value: 320, unit: 'px' },
+      maxViewport: { value: 1280, unit: 'px' },
+    }
+    const parse = (collection: Record<string, unknown>) =>
+      new TokenParser({ validation: { mode: 'error' } }).flatten(collection as never)
+
+    it('should carry the fluid range of the referenced token to aliases', () => {
+      const resolved = aliasResolver.resolve(
+        parse({
+          size: {
+            $type: 'dimension',
+            lg: {
+              $value: { value: 1, unit: 'rem' },
+              $extensions: { 'dispersa.fluid': fluidRange },
+            },
+            heading: { $value: '{size.lg}' },
+          },
+        }),
+      )
+
+      expect(resolved['size.heading'].$value).toEqual({ value: 1, unit: 'rem' })
+      expect(resolved['size.heading'].$extensions?.['dispersa.fluid']).toEqual({
+        min: { value: 1, unit: 'rem' },
+        ...fluidRange,
+      })
+    })
+
+    it('should take min of a fluid alias from the referenced value', () => {
+      const resolved = aliasResolver.resolve(
+        parse({
+          size: {
+            $type: 'dimension',
+            md: { $value: { value: 16, unit: 'px' } },
+            heading: { $value: '{size.md}', $extensions: { 'dispersa.fluid': fluidRange } },
+          },
+        }),
+      )
+
+      expect(resolved['size.heading'].$value).toEqual({ value: 16, unit: 'px' })
+      expect(resolved['size.heading'].$extensions?.['dispersa.fluid']).toEqual({
+        min: { value: 16, unit: 'px' },
+        ...fluidRange,
+      })
+    })
+
+    it('should reject a fluid alias whose referenced value is not in px or rem', () => {
+      const strictResolver = new AliasResolver({ validation: { mode: 'error' } })
+      const tokens = parse({
+        size: {
+          $type: 'dimension',
+          md: { $value: { value: 1, unit: 'em' } },
+          heading: { $value: '{size.md}', $extensions: { 'dispersa.fluid': fluidRange } },
+        },
+      })
+
+      expect(() => strictResolver.resolve(tokens)).toThrow(
+        '"min" must be a dimension object in px or rem',
+      )
+    })
+  })
 })
@@ -0,0 +1,169 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { ReferenceResolver, ResolutionEngine } from '../../../../src/resolution'
+import {
+  PermutationConstraints,
+  type PermutationConstraint,
+} from '../../../../src/resolution/permutation-constraints'
+import type { ResolverDocument } from '../../../../src/resolution/types'
+import { ValidationHandler } from '../../../../src/shared/utils/validation-handler'
+
+function createResolver(
+  themeConstraints: PermutationConstraint[] | unknown,
+  densityConstraints?: PermutationConstraint[],
+): ResolverDocument {
+  const color = (hex: string) => ({
+    color: { bg: { $type: 'color', $value: { colorSpace: 'srgb', components: [0, 0, 0], hex } } },
+  })
+  return {
+    version: '2025.10',
+    modifiers: {
+      brand: {
+        default: 'core',
+        contexts: { core: [], 'partner-a': [], 'partner-b': [] },
+      },
+      theme: {
+        default: 'light',
+        contexts: { light: [color('#ffffff')], dark: [color('#000000')] },
+        $extensions: { 'dispersa.permutations': themeConstraints },
+      },
+      density: {
+        default: 'regular',
+        contexts: { regular: [], compact: [] },
+        ...(densityConstraints && {
+          $extensions: { 'dispersa.permutations': densityConstraints },
+        }),
+      },
+    },
+    resolutionOrder: [
+      { $ref: '#/modifiers/brand' },
+      { $ref: '#/modifiers/theme' },
+      { $ref: '#/modifiers/density' },
+    ],
+  }
+}
+
+function createEngine(resolver: ResolverDocument, mode: 'error' | 'warn' | 'off' = 'error') {
+  return new ResolutionEngine(resolver, new ReferenceResolver(process.cwd()), {
+    validation: { mode },
+  })
+}
+
+describe('PermutationConstraints', () => {
+  const modifiers = createResolver([]).modifiers
+
+  it('should allow only listed contexts when the condition matches', () => {
+    const constraints = new PermutationConstraints(
+      createResolver([{ when: { brand: 'partner-b' }, allow: ['light'] }]).modifiers,
+      new ValidationHandler(),
+    )
+
+    expect(constraints.findViolation({ brand: 'partner-b', theme: 'light' })).toBeUndefined()
+    expect(constraints.findViolation({ brand: 'partner-a', theme: 'dark' })).toBeUndefined()
+    expect(constraints.findViolation({ brand: 'partner-b', theme: 'dark' })).toBe(
+      'theme=dark is not allowed when brand=partner-b',
+    )
+  })
+
+  it('should reject denied contexts for any of the listed conditions', () => {
+    const constraints = new PermutationConstraints(
+      createResolver([{ when: { brand: ['partner-a', 'Partner-B'] }, deny: ['Dark'] }]).modifiers,
+      new ValidationHandler(),
+    )
+
+    expect(constraints.findViolation({ brand: 'partner-a', theme: 'dark' })).toBeDefined()
+    expect(constraints.findViolation({ brand: 'partner-b', theme: 'dark' })).toBeDefined()
+    expect(constraints.findViolation({ brand: 'core', theme: 'dark' })).toBeUndefined()
+  })
+
+  it('should require every modifier in "when" to match', () => {
+    const constraints = new PermutationConstraints(
+      createResolver([], [{ when: { brand: 'core', theme: 'dark' }, deny: ['compact'] }]).modifiers,
+      new ValidationHandler(),
+    )
+
+    expect(
+      constraints.findViolation({ brand: 'core', theme: 'light', density: 'compact' }),
+    ).toBeUndefined()
+    expect(
+      constraints.findViolation({ brand: 'core', theme: 'dark', density: 'compact' }),
+    ).toBeDefined()
+  })
+
+  it.each([
+    [{ when: { brand: 'core' } }, 'expected "allow" or "deny"'],
+    [{ when: {}, allow: ['light'] }, '"when" must map at least one modifier'],
+    [{ when: { size: 'large' }, allow: ['light'] }, 'unknown modifier "size"'],
+    [{ when: { brand: 'partner-c' }, allow: ['light'] }, 'unknown context "partner-c"'],
+    [{ when: { brand: 'core' }, deny: ['dim'] }, 'unknown context "dim" of modifier "theme"'],
+    [{ when: { theme: 'dark' }, deny: ['light'] }, 'cannot refer to the modifier itself'],
+  ])('should reject invalid constraint %j', (constraint, message) => {
+    expect(
+      () =>
+        new PermutationConstraints(createResolver([constraint]).modifiers, new ValidationHandler()),
+    ).toThrow(message)
+  })
+
+  it('should skip invalid constraints in warn mode', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const constraints = new PermutationConstraints(
+      createResolver({ when: { brand: 'core' }, deny: ['dark'] }).modifiers,
+      new ValidationHandler({ mode: 'warn' }),
+    )
+
+    expect(constraints.hasConstraints()).toBe(false)
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('must be an array of constraints'))
+    warn.mockRestore()
+  })
+
+  it('should have no constraints without the extension', () => {
+    const constraints = new PermutationConstraints(
+      { ...modifiers, theme: { contexts: { light: [], dark: [] } } },
+      new ValidationHandler(),
+    )
+
+    expect(constraints.hasConstraints()).toBe(false)
+  })
+})
+
+describe('ResolutionEngine with permutation constraints', () => {
+  const resolver = createResolver(
+    [{ when: { brand: 'partner-b' }, allow: ['light'] }],
+    [{ when: { brand: ['partner-a', 'partner-b'] }, deny: ['compact'] }],
+  )
+
+  it('should not generate excluded permutations', () => {
+    const permutations = createEngine(resolver).generatePermutations()
+
+    expect(permutations).toEqual([
+      { brand: 'core', theme: 'light', density: 'regular' },
+      { brand: 'core', theme: 'light', density: 'compact' },
+      { brand: 'core', theme: 'dark', density: 'regular' },
+      { brand: 'core', theme: 'dark', density: 'compact' },
+      { brand: 'partner-a', theme: 'light', density: 'regular' },
+      { brand: 'partner-a', theme: 'dark', density: 'regular' },
+      { brand: 'partner-b', theme: 'light', density: 'regular' },
+    ])
+  })
+
+  it('should reject excluded modifier inputs', async () => {
+    const engine = createEngine(resolver)
+
+    await expect(engine.resolve({ brand: 'Partner-B', theme: 'dark' })).rejects.toThrow(
+      'Modifier inputs excluded by a permutation constraint: theme=dark is not allowed when brand=partner-b',
+    )
+    await expect(engine.resolve({ brand: 'partner-b' })).resolves.toHaveProperty('color.bg')
+  })
+
+  it('should resolve excluded modifier inputs with a warning in warn mode', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const engine = createEngine(resolver, 'warn')
+
+    const tokens = await engine.resolve({ brand: 'partner-b', theme: 'dark' })
+
+    expect(tokens).toHaveProperty('color.bg')
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('theme=dark is not allowed'))
+    warn.mockRestore()
+  })
+})
@@ -1,3 +1,5 @@
+import * as path from 'node:path'
+
 import { describe, expect, it } from 'vitest'
 
 import { ReferenceResolver } from '../../../../src/resolution/reference-resolver'
@@ -115,6 +117,44 @@ describe('ReferenceResolver', () => {
     })
   })
 
+  describe('locate()', () => {
+    it('returns the file, pointer, line and column of a token in a resolved file', async () => {
+      const resolver = new ReferenceResolver(fixturesDir)
+      await resolver.resolve('./tokens/colors.json')
+
+      expect(resolver.locate('./tokens/colors.json', ['color', 'primitive', 'green'])).toEqual({
+        file: path.join(fixturesDir, 'tokens/colors.json'),
+        pointer: '/color/primitive/green',
+        line: 12,
+        column: 7,
+      })
+    })
+
+    it('prefixes the pointer with the reference fragment', async () => {
+      const resolver = new ReferenceResolver(fixturesDir)
+      await resolver.resolve('./tokens/colors.json#/color')
+
+      expect(resolver.locate('./tokens/colors.json#/color', ['primitive', 'red'])).toMatchObject({
+        pointer: '/color/primitive/red',
+        line: 4,
+      })
+    })
+
+    it('omits the line and column for files that were not resolved', () => {
+      const resolver = new ReferenceResolver(fixturesDir)
+
+      expect(resolver.locate('./tokens/colors.json', ['color'])).toEqual({
+        file: path.join(fixturesDir, 'tokens/colors.json'),
+        pointer: '/color',
+      })
+    })
+
+    it('returns undefined for fragment-only references', () => {
+      const resolver = new ReferenceResolver(fixturesDir)
+      expect(resolver.locate('#/sets/base')).toBeUndefined()
+    })
+  })
+
   describe('resolve() with local property overrides', () => {
     it('merges local properties alongside $ref', async () => {
       const resolver = new ReferenceResolver(fixturesDir)
@@ -260,6 +260,106 @@ describe('Token Parser Integration Tests', () => {
 
       expect(() => validatingParser.flatten(collection)).not.toThrow()
     })
+
+    it('should point Tokens Studio tokens to the migration', () => {
+      const validatingParser = new TokenParser({ validation: { mode: 'error' } })
+      const collection = {
+        color: { primary: { value: '#ff0000', type: 'color' } },
+      }
+
+      expect(() => validatingParser.flatten(collection as never)).toThrow(
+        /"color\.primary" uses the Tokens Studio format.*tokensStudio\(\) preprocessor/,
+      )
+    })
+  })
+
+  describe('Fluid Dimensions', () => {
+    const fluidRange = {
+      max: { value: 2, unit: 'rem' },
+      minViewport: { value: 320, unit: 'px' },
+      maxViewport: { value: 1280, unit: 'px' },
+    }
+
+    it('should default min to $value', () => {
+      const tokens = parser.flatten({
+        size: {
+          lg: {
+            $type: 'dimension',
+            $value: { value: 1, unit: 'rem' },
+            $extensions: { 'dispersa.fluid': fluidRange },
+          },
+        },
+      })
+
+      expect(tokens['size.lg'].$extensions?.['dispersa.fluid']).toEqual({
+        min: { value: 1, unit: 'rem' },
+        ...fluidRange,
+      })
+    })
+
+    it('should replace $value with an explicit min', () => {
+      const tokens = parser.flatten({
+        size: {
+          $type: 'dimension',
+          lg: {
+            $value: { value: 2, unit: 'rem' },
+            $extensions: { 'dispersa.fluid': { ...fluidRange, min: { value: 12, unit: 'px' } } },
+          },
+        },
+      })
+
+      expect(tokens['size.lg'].$value).toEqual({ value: 12, unit: 'px' })
+      expect(tokens['size.lg'].originalValue).toEqual({ value: 12, unit: 'px' })
+    })
+
+    it('should leave min of an aliased value to alias resolution', () => {
+      const validatingParser = new TokenParser({ validation: { mode: 'error' } })
+
+      const tokens = validatingParser.flatten({
+        size: {
+          heading: { $value: '{size.lg}', $extensions: { 'dispersa.fluid': fluidRange } },
+        },
+      })
+
+      expect(tokens['size.heading'].$value).toBe('{size.lg}')
+      expect(tokens['size.heading'].$extensions?.['dispersa.fluid']).toEqual(fluidRange)
+    })
+
+    it('should reject fluid ranges on other token types', () => {
+      const validatingParser = new TokenParser({ validation: { mode: 'error' } })
+
+      expect(() =>
+        validatingParser.flatten({
+          weight: {
+            $type: 'fontWeight',
+            $value: 400,
+            $extensions: { 'dispersa.fluid': fluidRange },
+          },
+        }),
+      ).toThrow('only dimension tokens can be fluid')
+    })
+
+    it('should drop invalid fluid ranges in warn mode', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const validatingParser = new TokenParser({ validation: { mode: 'warn' } })
+
+      const tokens = validatingParser.flatten({
+        size: {
+          $type: 'dimension',
+          $value: { value: 1, unit: 'rem' },
+          $extensions: {
+            'dispersa.fluid': { ...fluidRange, maxViewport: { value: 320, unit: 'px' } },
+            'com.example': true,
+          },
+        },
+      })
+
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('"maxViewport" must be larger than "minViewport"'),
+      )
+      expect(tokens.size.$extensions).toEqual({ 'com.example': true })
+      warn.mockRestore()
+    })
   })
 
   describe('Token Paths', () => {
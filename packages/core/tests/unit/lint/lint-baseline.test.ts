@@ -0,0 +1,176 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  applyLintBaseline,
+  createLintBaseline,
+  pruneLintBaseline,
+  readLintBaseline,
+  writeLintBaseline,
+} from '../../../src/lint/lint-baseline'
+import type { LintIssue, LintResult } from '../../../src/lint/types'
+import { ConfigurationError } from '../../../src/shared/errors'
+
+function createIssue(ruleId: string, tokenName: string, severity: 'error' | 'warn' = 'error') {
+  return {
+    ruleId,
+    severity,
+    message: 'test',
+    tokenName,
+    tokenPath: tokenName.split('.'),
+  } satisfies LintIssue
+}
+
+function createResult(issues: LintIssue[]): LintResult {
+  return {
+    issues,
+    errorCount: issues.filter((issue) => issue.severity === 'error').length,
+    warningCount: issues.filter((issue) => issue.severity === 'warn').length,
+  }
+}
+
+describe('lint baseline', () => {
+  describe('createLintBaseline', () => {
+    it('should count issues by rule and token in sorted order', () => {
+      const baseline = createLintBaseline([
+        createIssue('b/rule', 'spacing.md'),
+        createIssue('a/rule', 'color.secondary'),
+        createIssue('a/rule', 'color.primary'),
+        createIssue('a/rule', 'color.primary'),
+      ])
+
+      expect(baseline).toEqual({
+        version: 1,
+        issues: {
+          'a/rule': { 'color.primary': 2, 'color.secondary': 1 },
+          'b/rule': { 'spacing.md': 1 },
+        },
+      })
+      expect(Object.keys(baseline.issues)).toEqual(['a/rule', 'b/rule'])
+      expect(Object.keys(baseline.issues['a/rule'] ?? {})).toEqual([
+        'color.primary',
+        'color.secondary',
+      ])
+    })
+  })
+
+  describe('applyLintBaseline', () => {
+    const baseline = createLintBaseline([
+      createIssue('a/rule', 'color.primary'),
+      createIssue('a/rule', 'color.secondary'),
+    ])
+
+    it('should only report issues missing from the baseline', () => {
+      const result = applyLintBaseline(
+        createResult([
+          createIssue('a/rule', 'color.primary'),
+          createIssue('a/rule', 'color.secondary'),
+          createIssue('a/rule', 'color.tertiary', 'warn'),
+        ]),
+        baseline,
+        '/project/lint-baseline.json',
+      )
+
+      expect(result.issues.map((issue) => issue.tokenName)).toEqual(['color.tertiary'])
+      expect(result.errorCount).toBe(0)
+      expect(result.warningCount).toBe(1)
+      expect(result.baseline).toEqual({
+        file: '/project/lint-baseline.json',
+        suppressedCount: 2,
+        fixed: [],
+      })
+    })
+
+    it('should report issues beyond the baselined count', () => {
+      const result = applyLintBaseline(
+        createResult([
+          createIssue('a/rule', 'color.primary'),
+          createIssue('a/rule', 'color.primary'),
+        ]),
+        baseline,
+        'lint-baseline.json',
+      )
+
+      expect(result.errorCount).toBe(1)
+      expect(result.baseline?.suppressedCount).toBe(1)
+    })
+
+    it('should report baseline entries that have been fixed', () => {
+      const result = applyLintBaseline(
+        createResult([createIssue('a/rule', 'color.primary')]),
+        baseline,
+        'lint-baseline.json',
+      )
+
+      expect(result.issues).toHaveLength(0)
+      expect(result.baseline?.fixed).toEqual([
+        { ruleId: 'a/rule', tokenName: 'color.secondary', count: 1 },
+      ])
+    })
+  })
+
+  describe('pruneLintBaseline', () => {
+    it('should drop fixed issues without adding new ones', () => {
+      const baseline = createLintBaseline([
+        createIssue('a/rule', 'color.primary'),
+        createIssue('a/rule', 'color.primary'),
+        createIssue('a/rule', 'color.secondary'),
+      ])
+
+      const pruned = pruneLintBaseline(baseline, [
+        createIssue('a/rule', 'color.primary'),
+        createIssue('b/rule', 'color.primary'),
+      ])
+
+      expect(pruned).toEqual({ version: 1, issues: { 'a/rule': { 'color.primary': 1 } } })
+    })
+  })
+
+  describe('baseline files', () => {
+    let tempDir: string
+
+    beforeEach(async () => {
+      tempDir = join(
+        tmpdir(),
+        `dispersa-baseline-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      )
+      await mkdir(tempDir, { recursive: true })
+    })
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true })
+    })
+
+    it('should write and read a baseline', async () => {
+      const file = join(tempDir, 'nested', 'lint-baseline.json')
+      const baseline = createLintBaseline([createIssue('a/rule', 'color.primary')])
+
+      await writeLintBaseline(file, baseline)
+
+      expect(await readFile(file, 'utf8')).toMatch(/\n$/)
+      expect(await readLintBaseline(file)).toEqual(baseline)
+    })
+
+    it('should return undefined for a missing file', async () => {
+      expect(await readLintBaseline(join(tempDir, 'missing.json'))).toBeUndefined()
+    })
+
+    it('should reject an invalid baseline', async () => {
+      const file = join(tempDir, 'lint-baseline.json')
+      await writeFile(file, JSON.stringify({ version: 1, issues: { 'a/rule': { x: 0 } } }))
+
+      await expect(readLintBaseline(file)).rejects.toThrow(ConfigurationError)
+    })
+  })
+})
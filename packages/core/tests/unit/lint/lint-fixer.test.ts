@@ -0,0 +1,239 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { LintFixer } from '../../../src/lint/lint-fixer'
+import type { LintFix, LintIssue } from '../../../src/lint/types'
+import type { InternalResolvedTokens } from '../../../src/tokens/types'
+import { createMockToken } from './lint-test-helpers'
+
+describe('LintFixer', () => {
+  let tempDir: string
+
+  const red = { colorSpace: 'srgb', components: [1, 0, 0] }
+
+  const writeJson = (name: string, data: unknown) =>
+    writeFile(join(tempDir, name), `${JSON.stringify(data, null, 2)}\n`, 'utf8')
+
+  const readJson = async (name: string) =>
+    JSON.parse(await readFile(join(tempDir, name), 'utf8')) as Record<string, any>
+
+  const tokensIn = (file: string, names: string[]): InternalResolvedTokens => {
+    const tokens: InternalResolvedTokens = {}
+    for (const name of names) {
+      tokens[name] = {
+        ...createMockToken(name, { type: 'color', value: red }),
+        _source: { file: join(tempDir, file), pointer: `/${name.split('.').join('/')}` },
+      }
+    }
+    return tokens
+  }
+
+  const issue = (tokenName: string, fix: LintFix): LintIssue => ({
+    ruleId: 'test/rule',
+    severity: 'warn',
+    message: 'test',
+    tokenName,
+    tokenPath: tokenName.split('.'),
+    fix,
+  })
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `dispersa-fixer-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    await mkdir(tempDir, { recursive: true })
+  })
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  describe('rename', () => {
+    it('should rename keys in place and update references', async () => {
+      await writeJson('base.json', {
+        Color: {
+          primary: { $type: 'color', $value: red },
+          link: { $type: 'color', $value: '{Color.primary}' },
+          border: { $ref: '#/Color/primary' },
+        },
+        other: { $type: 'color', $value: red },
+      })
+      const tokens = tokensIn('base.json', ['Color.primary', 'Color.link', 'Color.border'])
+
+      const changes = await new LintFixer().fix(
+        [issue('Color.primary', { type: 'rename', name: 'color.primary' })],
+        [tokens],
+      )
+
+      const data = await readJson('base.json')
+      expect(Object.keys(data)).toEqual(['color', 'other'])
+      expect(data.color.link.$value).toBe('{color.primary}')
+      expect(data.color.border.$ref).toBe('#/color/primary')
+      expect(changes.map((change) => change.description)).toEqual([
+        "rename 'Color' to 'color'",
+        "update reference '{Color.primary}' to '{color.primary}'",
+        "update reference '#/Color/primary' to '#/color/primary'",
+      ])
+    })
+
+    it('should rename the key in every file defining the token', async () => {
+      await writeJson('light.json', { Brand: { $type: 'color', $value: red } })
+      await writeJson('dark.json', { Brand: { $type: 'color', $value: red } })
+
+      const changes = await new LintFixer().fix(
+        [issue('Brand', { type: 'rename', name: 'brand' })],
+        [tokensIn('light.json', ['Brand']), tokensIn('dark.json', ['Brand'])],
+      )
+
+      expect(changes).toHaveLength(2)
+      expect(Object.keys(await readJson('light.json'))).toEqual(['brand'])
+      expect(Object.keys(await readJson('dark.json'))).toEqual(['brand'])
+    })
+
+    it('should update $ref pointers into the renamed file from other files', async () => {
+      await writeJson('base.json', { Color: { blue: { $type: 'color', $value: red } } })
+      await writeJson('semantic.json', {
+        link: { $ref: './base.json#/Color/blue' },
+        other: { $ref: './other.json#/Color/blue' },
+      })
+
+      await new LintFixer({ baseDir: tempDir }).fix(
+        [issue('Color.blue', { type: 'rename', name: 'color.blue' })],
+        [tokensIn('base.json', ['Color.blue'])],
+        [join(tempDir, 'semantic.json')],
+      )
+
+      const data = await readJson('semantic.json')
+      expect(data.link.$ref).toBe('./base.json#/color/blue')
+      expect(data.other.$ref).toBe('./other.json#/Color/blue')
+    })
+
+    it('should only update aliases in $value', async () => {
+      await writeJson('base.json', {
+        Brand: { $type: 'color', $value: red },
+        link: {
+          $type: 'color',
+          $value: '{Brand}',
+          $description: 'Same as {Brand}',
+        },
+        shadow: {
+          $type: 'shadow',
+          $value: { color: '{Brand}', offsetX: '0px', offsetY: '0px', blur: '0px', spread: '0px' },
+        },
+      })
+
+      await new LintFixer().fix(
+        [issue('Brand', { type: 'rename', name: 'brand' })],
+        [tokensIn('base.json', ['Brand', 'link', 'shadow'])],
+      )
+
+      const data = await readJson('base.json')
+      expect(data.link.$value).toBe('{brand}')
+      expect(data.link.$description).toBe('Same as {Brand}')
+      expect(data.shadow.$value.color).toBe('{brand}')
+    })
+
+    it('should skip renames onto an existing key', async () => {
+      await writeJson('base.json', {
+        Primary: { $type: 'color', $value: red },
+        primary: { $type: 'color', $value: red },
+      })
+
+      const changes = await new LintFixer().fix(
+        [issue('Primary', { type: 'rename', name: 'primary' })],
+        [tokensIn('base.json', ['Primary', 'primary'])],
+      )
+
+      expect(changes).toHaveLength(0)
+      expect(Object.keys(await readJson('base.json'))).toEqual(['Primary', 'primary'])
+    })
+  })
+
+  describe('alias', () => {
+    it('should replace the value with a reference', async () => {
+      await writeJson('base.json', {
+        red: { $type: 'color', $value: red },
+        danger: { $type: 'color', $value: red },
+      })
+
+      const changes = await new LintFixer().fix(
+        [issue('danger', { type: 'alias', token: 'red' })],
+        [tokensIn('base.json', ['red', 'danger'])],
+      )
+
+      expect((await readJson('base.json')).danger.$value).toBe('{red}')
+      expect(changes[0]).toMatchObject({
+        file: join(tempDir, 'base.json'),
+        pointer: '/danger',
+        description: "replace value with '{red}'",
+      })
+    })
+
+    it('should not alias a token that is aliased itself', async () => {
+      await writeJson('base.json', {
+        a: { $type: 'color', $value: red },
+        b: { $type: 'color', $value: red },
+        c: { $type: 'color', $value: red },
+      })
+
+      await new LintFixer().fix(
+        [issue('b', { type: 'alias', token: 'a' }), issue('c', { type: 'alias', token: 'b' })],
+        [tokensIn('base.json', ['a', 'b', 'c'])],
+      )
+
+      const data = await readJson('base.json')
+      expect(data.b.$value).toBe('{a}')
+      expect(data.c.$value).toEqual(red)
+    })
+  })
+
+  describe('set', () => {
+    it('should set a token property', async () => {
+      await writeJson('base.json', { red: { $type: 'color', $value: red } })
+
+      await new LintFixer().fix(
+        [issue('red', { type: 'set', property: '$description', value: 'Red' })],
+        [tokensIn('base.json', ['red'])],
+      )
+
+      expect((await readJson('base.json')).red.$description).toBe('Red')
+    })
+  })
+
+  describe('dry run', () => {
+    it('should report changes without writing files', async () => {
+      await writeJson('base.json', { Red: { $type: 'color', $value: red } })
+      const before = await readFile(join(tempDir, 'base.json'), 'utf8')
+
+      const changes = await new LintFixer({ dryRun: true }).fix(
+        [issue('Red', { type: 'rename', name: 'red' })],
+        [tokensIn('base.json', ['Red'])],
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(await readFile(join(tempDir, 'base.json'), 'utf8')).toBe(before)
+    })
+  })
+
+  it('should keep the indentation and trailing newline of the file', async () => {
+    await writeFile(join(tempDir, 'base.json'), '{\n    "Red": { "$type": "color" }\n}\n', 'utf8')
+
+    await new LintFixer().fix(
+      [issue('Red', { type: 'rename', name: 'red' })],
+      [tokensIn('base.json', ['Red'])],
+    )
+
+    expect(await readFile(join(tempDir, 'base.json'), 'utf8')).toBe(
+      '{\n    "red": {\n        "$type": "color"\n    }\n}\n',
+    )
+  })
+})
@@ -6,12 +6,19 @@
  * LICENSE file in the root directory of this source tree.
  */
 
-import { describe, expect, it } from 'vitest'
+import { mkdirSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
 import {
   formatLintJson,
   formatLintStylish,
   formatLintCompact,
+  formatLintSarif,
+  formatLintJunit,
 } from '../../../src/cli/formatters/lint-formatter'
 import type { LintIssue, LintResult } from '../../../src/lint/types'
 
@@ -168,6 +175,74 @@ describe('lint-formatter', () => {
 
       expect(output).toContain('color.brand.primary')
     })
+
+    it('should count fixable issues', () => {
+      const result = createResult({
+        issues: [
+          createIssue({ fix: { type: 'rename', name: 'color.primary' } }),
+          createIssue({ tokenName: 'color.secondary' }),
+        ],
+        errorCount: 2,
+      })
+      const output = formatLintStylish(result)
+
+      expect(output).toContain('1 potentially fixable with the `--fix` option')
+    })
+
+    it('should show where each token is defined', () => {
+      const location = { file: join(process.cwd(), 'tokens/dark.json'), pointer: '/color/link' }
+      const result = createResult({
+        issues: [
+          createIssue({ location: { ...location, line: 12, column: 5 } }),
+          createIssue({
+            location: { ...location, file: join(process.cwd(), 'tokens/light.json') },
+          }),
+        ],
+        errorCount: 2,
+      })
+      const output = formatLintStylish(result)
+
+      expect(output).toContain(`color.primary  ${join('tokens', 'dark.json')}:12:5`)
+      expect(output).toContain(`color.primary  ${join('tokens', 'light.json')}#/color/link`)
+    })
+
+    it('should list the permutations an issue occurs in', () => {
+      const result = createResult({
+        issues: [
+          createIssue({ modifierInputs: [{ brand: 'partner-a', theme: 'dark' }] }),
+          createIssue({
+            tokenName: 'color.secondary',
+            modifierInputs: [
+              { brand: 'partner-a', theme: 'dark' },
+              { brand: 'partner-a', theme: 'light' },
+            ],
+          }),
+        ],
+        errorCount: 2,
+        permutationCount: 2,
+      })
+      const output = formatLintStylish(result)
+
+      expect(output).toContain('        in brand=partner-a,theme=dark\n')
+      expect(output).not.toContain('theme=light')
+    })
+
+    it('should summarize the applied baseline', () => {
+      const result = createResult({
+        baseline: {
+          file: join(process.cwd(), 'lint-baseline.json'),
+          suppressedCount: 3,
+          fixed: [{ ruleId: 'dispersa/test-rule', tokenName: 'color.secondary', count: 1 }],
+        },
+      })
+      const output = formatLintStylish(result)
+
+      expect(output).toContain('✓ No lint issues found')
+      expect(output).toContain('3 baselined issue(s) hidden (lint-baseline.json)')
+      expect(output).toContain('1 baseline entry fixed:')
+      expect(output).toContain('✓ color.secondary [dispersa/test-rule]')
+      expect(output).toContain('dispersa lint --baseline update')
+    })
   })
 
   describe('formatLintCompact', () => {
@@ -235,5 +310,175 @@ describe('lint-formatter', () => {
         expect(line).toMatch(/^(ERROR|WARN): /)
       }
     })
+
+    it('should include the source location', () => {
+      const location = { file: join(process.cwd(), 'base.json'), pointer: '/a', line: 2, column: 3 }
+      const output = formatLintCompact(
+        createResult({ issues: [createIssue({ location })], errorCount: 1 }),
+      )
+
+      expect(output).toContain('(token: color.primary, base.json:2:3)')
+    })
+
+    it('should include the permutations of partial issues', () => {
+      const output = formatLintCompact(
+        createResult({
+          issues: [createIssue({ modifierInputs: [{ theme: 'dark' }, { theme: 'hc' }] })],
+          errorCount: 1,
+          permutationCount: 3,
+        }),
+      )
+
+      expect(output).toContain('(token: color.primary, in theme=dark; theme=hc)')
+    })
+
+    it('should include the baseline summary', () => {
+      const output = formatLintCompact(
+        createResult({ baseline: { file: 'lint-baseline.json', suppressedCount: 2, fixed: [] } }),
+      )
+
+      expect(output).toBe('BASELINE: 2 suppressed, 0 fixed')
+    })
+  })
+
+  describe('formatLintSarif', () => {
+    let repoDir: string
+    let location: NonNullable<LintIssue['location']>
+
+    beforeEach(() => {
+      // Run from a package inside a git repository
+      repoDir = mkdtempSync(join(tmpdir(), 'dispersa-sarif-'))
+      mkdirSync(join(repoDir, '.git'))
+      mkdirSync(join(repoDir, 'packages', 'tokens'), { recursive: true })
+      vi.spyOn(process, 'cwd').mockReturnValue(join(repoDir, 'packages', 'tokens'))
+      location = {
+        file: join(repoDir, 'packages', 'tokens', 'src', 'base.json'),
+        pointer: '/color/primary',
+        line: 4,
+        column: 5,
+      }
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+      rmSync(repoDir, { recursive: true, force: true })
+    })
+
+    it('should produce a SARIF 2.1.0 log', () => {
+      const sarif = JSON.parse(formatLintSarif(createResult()))
+
+      expect(sarif.version).toBe('2.1.0')
+      expect(sarif.runs).toHaveLength(1)
+      expect(sarif.runs[0].tool.driver.name).toBe('dispersa')
+      expect(sarif.runs[0].results).toEqual([])
+    })
+
+    it('should report issues with their rule, level and location', () => {
+      const result = createResult({
+        issues: [
+          createIssue({ location }),
+          createIssue({ ruleId: 'dispersa/other', severity: 'warn', tokenName: 'spacing.md' }),
+        ],
+        errorCount: 1,
+        warningCount: 1,
+      })
+      const sarif = JSON.parse(formatLintSarif(result))
+      const [error, warning] = sarif.runs[0].results
+
+      expect(sarif.runs[0].tool.driver.rules).toEqual([
+        { id: 'dispersa/test-rule' },
+        { id: 'dispersa/other' },
+      ])
+      expect(error).toEqual({
+        ruleId: 'dispersa/test-rule',
+        ruleIndex: 0,
+        level: 'error',
+        message: { text: 'Test error message' },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: 'packages/tokens/src/base.json', uriBaseId: '%SRCROOT%' },
+              region: { startLine: 4, startColumn: 5 },
+            },
+            logicalLocations: [{ fullyQualifiedName: 'color.primary', kind: 'member' }],
+          },
+        ],
+      })
+      expect(warning.level).toBe('warning')
+      expect(warning.ruleIndex).toBe(1)
+      expect(warning.locations[0].physicalLocation).toBeUndefined()
+      expect(sarif.runs[0].originalUriBaseIds).toEqual({
+        '%SRCROOT%': { uri: pathToFileURL(`${repoDir}/`).href },
+      })
+    })
+
+    it('should locate issues without a source location at the resolver', () => {
+      const result = createResult({ issues: [createIssue()], errorCount: 1 })
+      const sarif = JSON.parse(
+        formatLintSarif(result, { resolver: join(repoDir, 'tokens.resolver.json') }),
+      )
+
+      expect(sarif.runs[0].results[0].locations[0].physicalLocation).toEqual({
+        artifactLocation: { uri: 'tokens.resolver.json', uriBaseId: '%SRCROOT%' },
+      })
+    })
+
+    it('should keep absolute uris for files outside the repository', () => {
+      const file = join(tmpdir(), 'shared', 'base.json')
+      const result = createResult({
+        issues: [createIssue({ location: { file, pointer: '/color/primary' } })],
+        errorCount: 1,
+      })
+      const sarif = JSON.parse(formatLintSarif(result))
+
+      expect(sarif.runs[0].results[0].locations[0].physicalLocation).toEqual({
+        artifactLocation: { uri: pathToFileURL(file).href },
+      })
+    })
+  })
+
+  describe('formatLintJunit', () => {
+    it('should produce an empty report without issues', () => {
+      const output = formatLintJunit(createResult())
+
+      expect(output).toContain('<?xml version="1.0" encoding="UTF-8"?>')
+      expect(output).toContain(
+        '<testsuites name="dispersa lint" tests="0" failures="0" errors="0">',
+      )
+    })
+
+    it('should group failures by rule', () => {
+      const result = createResult({
+        issues: [
+          createIssue(),
+          createIssue({ tokenName: 'color.secondary', severity: 'warn' }),
+          createIssue({ ruleId: 'dispersa/other', tokenName: 'spacing.md' }),
+        ],
+        errorCount: 2,
+        warningCount: 1,
+      })
+      const output = formatLintJunit(result)
+
+      expect(output).toContain('tests="3" failures="3"')
+      expect(output).toContain(
+        '<testsuite name="dispersa/test-rule" tests="2" failures="2" errors="0">',
+      )
+      expect(output).toContain('<testcase name="color.secondary" classname="dispersa/test-rule">')
+      expect(output).toContain('type="warn"')
+    })
+
+    it('should include the file and escape XML', () => {
+      const location = { file: join(process.cwd(), 'base.json'), pointer: '/a', line: 2, column: 3 }
+      const output = formatLintJunit(
+        createResult({
+          issues: [createIssue({ message: 'Use <a> & "b"', location })],
+          errorCount: 1,
+        }),
+      )
+
+      expect(output).toContain('file="base.json"')
+      expect(output).toContain('message="Use &lt;a&gt; &amp; &quot;b&quot;"')
+      expect(output).toContain('at base.json:2:3</failure>')
+    })
   })
 })
@@ -329,6 +329,296 @@ describe('LintRunner', () => {
     })
   })
 
+  describe('runMultiple', () => {
+    it('should pass the modifier inputs of each token set to rules', async () => {
+      const seen: unknown[] = []
+      runner = new LintRunner({
+        plugins: {
+          test: createTestPlugin({
+            inputs: createTestRule('inputs', ({ modifierInputs }) => {
+              seen.push(modifierInputs)
+            }),
+          }),
+        },
+        rules: { 'test/inputs': 'warn' },
+      })
+      const tokens = createMockTokens({ 'color.primary': { type: 'color' } })
+
+      await runner.runMultiple([tokens, tokens], [{ theme: 'light' }, { theme: 'dark' }])
+      await runner.runMultiple([tokens])
+
+      expect(seen).toEqual([{ theme: 'light' }, { theme: 'dark' }, undefined])
+    })
+
+    it('should run rules with scope "all" once across every token set', async () => {
+      const calls: { tokens: string[]; permutations: number }[] = []
+      const rule = createTestRule('all', ({ tokens, permutations }) => {
+        calls.push({ tokens: Object.keys(tokens), permutations: permutations.length })
+      })
+      rule.meta.scope = 'all'
+      runner = new LintRunner({
+        plugins: { test: createTestPlugin({ all: rule }) },
+        rules: { 'test/all': 'warn' },
+      })
+
+      await runner.runMultiple(
+        [
+          createMockTokens({ 'color.light': { type: 'color' } }),
+          createMockTokens({ 'color.dark': { type: 'color' } }),
+        ],
+        [{ theme: 'light' }, { theme: 'dark' }],
+      )
+
+      expect(calls).toEqual([{ tokens: ['color.light', 'color.dark'], permutations: 2 }])
+    })
+
+    it('should report a token once per definition with its location', async () => {
+      runner = new LintRunner({
+        plugins: {
+          test: createTestPlugin({
+            error: createTestRule('error', ({ tokens, report }) => {
+              for (const token of Object.values(tokens)) {
+                report({ token, messageId: 'TEST_ERROR', data: { name: token.name } })
+              }
+            }),
+          }),
+        },
+        rules: { 'test/error': 'error' },
+      })
+      const withSource = (file: string) => {
+        const tokens = createMockTokens({ 'color.link': { type: 'color' } })
+        tokens['color.link']!._source = { file, pointer: '/color/link', line: 3, column: 5 }
+        return tokens
+      }
+
+      const result = await runner.runMultiple([
+        withSource('/tokens/light.json'),
+        withSource('/tokens/light.json'),
+        withSource('/tokens/dark.json'),
+      ])
+
+      expect(result.issues.map((issue) => issue.location?.file)).toEqual([
+        '/tokens/light.json',
+        '/tokens/dark.json',
+      ])
+      expect(result.issues[0]?.location).toEqual({
+        file: '/tokens/light.json',
+        pointer: '/color/link',
+        line: 3,
+        column: 5,
+      })
+    })
+  })
+
+  describe('permutation selectors', () => {
+    const reportAll = (scope?: 'all') => {
+      const calls: { tokens: string[]; permutations: number }[] = []
+      const rule = createTestRule('error', ({ tokens, permutations, report }) => {
+        calls.push({ tokens: Object.keys(tokens), permutations: permutations.length })
+        for (const token of Object.values(tokens)) {
+          report({ token, messageId: 'TEST_ERROR', data: { name: token.name } })
+        }
+      })
+      rule.meta.scope = scope
+      return { plugin: createTestPlugin({ error: rule }), calls }
+    }
+
+    const tokenSets = [
+      createMockTokens({ 'color.text': { type: 'color' } }),
+      createMockTokens({ 'color.text': { type: 'color' }, 'color.glow': { type: 'color' } }),
+      createMockTokens({ 'color.text': { type: 'color' } }),
+    ]
+    const inputs = [
+      { brand: 'default', theme: 'light' },
+      { brand: 'default', theme: 'dark' },
+      { brand: 'partner-a', theme: 'dark' },
+    ]
+
+    it('should only run rules in permutations matching a selector', async () => {
+      const { plugin, calls } = reportAll()
+      runner = new LintRunner({
+        plugins: { test: plugin },
+        rules: { 'test/error': ['error', { permutations: [{ theme: 'Dark' }] }] },
+      })
+
+      const result = await runner.runMultiple(tokenSets, inputs)
+
+      expect(calls).toHaveLength(2)
+      expect(result.permutationCount).toBe(3)
+      expect(result.issues.map((issue) => [issue.tokenName, issue.modifierInputs])).toEqual([
+        ['color.text', [inputs[1], inputs[2]]],
+        ['color.glow', [inputs[1]]],
+      ])
+    })
+
+    it('should match any selector and any listed context', async () => {
+      const { plugin, calls } = reportAll()
+      runner = new LintRunner({
+        plugins: { test: plugin },
+        rules: {
+          'test/error': [
+            'error',
+            { permutations: [{ theme: 'light' }, { brand: ['partner-a', 'partner-b'] }] },
+          ],
+        },
+      })
+
+      const result = await runner.runMultiple(tokenSets, inputs)
+
+      expect(calls).toHaveLength(2)
+      expect(result.issues[0]?.modifierInputs).toEqual([inputs[0], inputs[2]])
+    })
+
+    it('should pass only the selected permutations to rules with scope "all"', async () => {
+      const { plugin, calls } = reportAll('all')
+      runner = new LintRunner({
+        plugins: { test: plugin },
+        rules: { 'test/error': ['error', { permutations: [{ brand: 'default' }] }] },
+      })
+
+      const result = await runner.runMultiple(tokenSets, inputs)
+
+      expect(calls).toEqual([{ tokens: ['color.text', 'color.glow'], permutations: 2 }])
+      expect(result.issues.map((issue) => issue.modifierInputs)).toEqual([
+        [inputs[0], inputs[1]],
+        [inputs[1]],
+      ])
+    })
+
+    it('should not pass the selectors to the rule options', async () => {
+      let seen: Record<string, unknown> | undefined
+      runner = new LintRunner({
+        plugins: {
+          test: createTestPlugin({
+            options: createTestRule('options', ({ options }) => {
+              seen = options
+            }),
+          }),
+        },
+        rules: {
+          'test/options': ['warn', { format: 'kebab-case', permutations: [{ theme: 'dark' }] }],
+        },
+      })
+
+      await runner.run(tokenSets[0]!, { theme: 'dark' })
+
+      expect(seen).toEqual({ format: 'kebab-case' })
+    })
+  })
+
+  describe('suppressions', () => {
+    const reportAll = () =>
+      createTestPlugin({
+        error: createTestRule('error', ({ tokens, report }) => {
+          for (const token of Object.values(tokens)) {
+            report({ token, messageId: 'TEST_ERROR', data: { name: token.name } })
+          }
+        }),
+        other: createTestRule('other', () => {}),
+      })
+
+    const createTokens = () => {
+      const tokens = createMockTokens({
+        'color.brand.primary': { type: 'color' },
+        'color.brand.secondary': { type: 'color' },
+        'color.link': { type: 'color' },
+      })
+      for (const token of Object.values(tokens)) {
+        token._source = {
+          file: '/tokens/base.json',
+          pointer: `/${token.path.join('/')}`,
+          line: 1,
+          column: 1,
+        }
+      }
+      return tokens
+    }
+
+    it('should drop issues of rules disabled on the token or its groups', async () => {
+      runner = new LintRunner({
+        plugins: { test: reportAll() },
+        rules: { 'test/error': 'error' },
+      })
+      const tokens = createTokens()
+      const groupSuppression = { path: ['color', 'brand'], rules: ['test/error'] }
+      tokens['color.brand.primary']!._lintSuppressions = [groupSuppression]
+      tokens['color.brand.secondary']!._lintSuppressions = [groupSuppression]
+
+      const result = await runner.run(tokens)
+
+      expect(result.issues.map((issue) => issue.tokenName)).toEqual(['color.link'])
+      expect(result.errorCount).toBe(1)
+    })
+
+    it('should report suppressions of enabled rules that drop no issue', async () => {
+      runner = new LintRunner({
+        plugins: { test: reportAll() },
+        rules: { 'test/error': 'error', 'test/other': 'warn' },
+      })
+      const tokens = createTokens()
+      const groupSuppression = {
+        path: ['color', 'brand'],
+        rules: ['test/error', 'test/other', 'test/disabled'],
+      }
+      tokens['color.brand.primary']!._lintSuppressions = [groupSuppression]
+      tokens['color.brand.secondary']!._lintSuppressions = [groupSuppression]
+
+      const result = await runner.run(tokens)
+      const unused = result.issues.filter((issue) => issue.ruleId === 'lint/unused-suppression')
+
+      expect(unused).toEqual([
+        {
+          ruleId: 'lint/unused-suppression',
+          severity: 'warn',
+          message: "Unused suppression: 'test/other' reports no issues for 'color.brand'",
+          tokenName: 'color.brand',
+          tokenPath: ['color', 'brand'],
+          location: { file: '/tokens/base.json', pointer: '/color/brand' },
+        },
+      ])
+    })
+
+    it('should not report unused suppressions when turned off', async () => {
+      runner = new LintRunner({
+        plugins: { test: reportAll() },
+        rules: { 'test/other': 'warn' },
+        reportUnusedSuppressions: 'off',
+      })
+      const tokens = createTokens()
+      tokens['color.link']!._lintSuppressions = [{ path: ['color', 'link'], rules: ['test/other'] }]
+
+      const result = await runner.run(tokens)
+
+      expect(result.issues).toEqual([])
+    })
+
+    it('should count a suppression as used when it drops an issue in any token set', async () => {
+      const rule = createTestRule('dark', ({ tokens, modifierInputs, report }) => {
+        for (const token of Object.values(tokens)) {
+          if (modifierInputs?.theme === 'dark') {
+            report({ token, messageId: 'TEST_ERROR', data: { name: token.name } })
+          }
+        }
+      })
+      runner = new LintRunner({
+        plugins: { test: createTestPlugin({ dark: rule }) },
+        rules: { 'test/dark': 'error' },
+      })
+      const tokens = createTokens()
+      tokens['color.link']!._lintSuppressions = [{ path: ['color', 'link'], rules: ['test/dark'] }]
+
+      const result = await runner.runMultiple(
+        [tokens, tokens],
+        [{ theme: 'light' }, { theme: 'dark' }],
+      )
+
+      expect(result.issues.map((issue) => issue.tokenName)).toEqual([
+        'color.brand.primary',
+        'color.brand.secondary',
+      ])
+    })
+  })
+
   describe('clearCache', () => {
     it('should clear plugin cache', () => {
       runner = new LintRunner({})
@@ -12,6 +12,7 @@
 
 import type {
   AnyLintRule,
+  LintFix,
   LintPlugin,
   LintReportDescriptor,
   LintRuleContext,
@@ -101,24 +102,34 @@ export async function collectReports(
   rule: AnyLintRule,
   tokens: InternalResolvedTokens,
   options: Record<string, unknown> = {},
+  modifierInputs?: Record<string, string>,
 ): Promise<
-  Array<{ tokenName: string; messageId: string; data?: Record<string, string | number> }>
+  Array<{
+    tokenName: string
+    messageId: string
+    data?: Record<string, string | number>
+    fix?: LintFix
+  }>
 > {
   const reports: Array<{
     tokenName: string
     messageId: string
     data?: Record<string, string | number>
+    fix?: LintFix
   }> = []
 
   const context: LintRuleContext<string, Record<string, unknown>> = {
     id: `test/${rule.meta.name}`,
     options: { ...rule.defaultOptions, ...options },
     tokens,
+    modifierInputs,
+    permutations: [{ tokens, modifierInputs }],
     report: (descriptor: LintReportDescriptor<string>) => {
       reports.push({
         tokenName: descriptor.token.name,
         messageId: descriptor.messageId,
         data: descriptor.data,
+        ...(descriptor.fix && { fix: descriptor.fix }),
       })
     },
   }
@@ -0,0 +1,146 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { colorContrast } from '../../../../src/lint/rules/color-contrast'
+import { collectReports, createMockTokens } from '../lint-test-helpers'
+
+const srgb = (r: number, g: number, b: number, alpha?: number) => ({
+  colorSpace: 'srgb',
+  components: [r, g, b],
+  ...(alpha !== undefined && { alpha }),
+})
+
+const white = srgb(1, 1, 1)
+const black = srgb(0, 0, 0)
+// #777777: 4.48:1 on white
+const gray = srgb(0x77 / 255, 0x77 / 255, 0x77 / 255)
+
+describe('color-contrast rule', () => {
+  const tokens = createMockTokens({
+    'color.text.default': { type: 'color', value: black },
+    'color.text.muted': { type: 'color', value: gray },
+    'color.background.default': { type: 'color', value: white },
+    'color.background.inverse': { type: 'color', value: black },
+    'size.base': { type: 'dimension', value: { value: 4, unit: 'px' } },
+  })
+
+  describe('wcag2', () => {
+    it('should report pairs below 4.5:1 by default', async () => {
+      const reports = await collectReports(colorContrast, tokens, {
+        pairs: [{ foreground: 'color.text.muted', background: 'color.background.default' }],
+      })
+
+      expect(reports).toEqual([
+        {
+          tokenName: 'color.text.muted',
+          messageId: 'LOW_CONTRAST',
+          data: {
+            foreground: 'color.text.muted',
+            background: 'color.background.default',
+            contrast: '4.47:1',
+            min: '4.5:1',
+          },
+        },
+      ])
+    })
+
+    it('should match foregrounds and backgrounds by glob', async () => {
+      const reports = await collectReports(colorContrast, tokens, {
+        pairs: [{ foreground: 'color.text.*', background: 'color.background.*' }],
+      })
+
+      expect(reports.map((r) => [r.data?.foreground, r.data?.background])).toEqual([
+        ['color.text.default', 'color.background.inverse'],
+        ['color.text.muted', 'color.background.default'],
+      ])
+    })
+
+    it('should use the pair minimum over the rule minimum', async () => {
+      const reports = await collectReports(colorContrast, tokens, {
+        min: 7,
+        pairs: [
+          { foreground: 'color.text.muted', background: 'color.background.default', min: 3 },
+          { foreground: 'color.text.default', background: 'color.background.default' },
+        ],
+      })
+
+      expect(reports).toHaveLength(0)
+    })
+
+    it('should composite translucent foregrounds over the background', async () => {
+      const reports = await collectReports(
+        colorContrast,
+        createMockTokens({
+          'color.text.subtle': { type: 'color', value: srgb(0, 0, 0, 0.3) },
+          'color.background.default': { type: 'color', value: white },
+        }),
+        { pairs: [{ foreground: 'color.text.subtle', background: 'color.background.default' }] },
+      )
+
+      expect(reports[0]?.data?.contrast).toBe('2.1:1')
+    })
+  })
+
+  describe('apca', () => {
+    it('should report the absolute Lc below 60 by default', async () => {
+      const reports = await collectReports(colorContrast, tokens, {
+        algorithm: 'apca',
+        pairs: [{ foreground: 'color.text.*', background: 'color.background.*' }],
+      })
+
+      expect(
+        reports.map((r) => [r.data?.foreground, r.data?.background, r.data?.contrast]),
+      ).toEqual([
+        ['color.text.default', 'color.background.inverse', 'Lc 0'],
+        ['color.text.muted', 'color.background.inverse', 'Lc 30.5'],
+      ])
+      expect(reports[0]?.data?.min).toBe('Lc 60')
+    })
+
+    it('should compare light text on dark backgrounds by absolute Lc', async () => {
+      const inverse = createMockTokens({
+        'color.text.inverse': { type: 'color', value: white },
+        'color.background.inverse': { type: 'color', value: black },
+      })
+      const pairs = [{ foreground: 'color.text.inverse', background: 'color.background.inverse' }]
+
+      const passing = await collectReports(colorContrast, inverse, {
+        algorithm: 'apca',
+        min: 100,
+        pairs,
+      })
+      const failing = await collectReports(colorContrast, inverse, {
+        algorithm: 'apca',
+        min: 110,
+        pairs,
+      })
+
+      expect(passing).toHaveLength(0)
+      expect(failing[0]?.data?.contrast).toBe('Lc 107.8')
+    })
+  })
+
+  it('should report the same message in every permutation', async () => {
+    const pairs = [{ foreground: 'color.text.muted', background: 'color.background.default' }]
+    const light = await collectReports(colorContrast, tokens, { pairs }, { theme: 'light' })
+    const dark = await collectReports(colorContrast, tokens, { pairs }, { theme: 'dark' })
+
+    expect(dark[0]?.data).toEqual(light[0]?.data)
+  })
+
+  it('should skip non-color tokens and do nothing without pairs', async () => {
+    expect(await collectReports(colorContrast, tokens)).toHaveLength(0)
+    expect(
+      await collectReports(colorContrast, tokens, {
+        pairs: [{ foreground: 'size.*', background: 'color.background.*' }],
+      }),
+    ).toHaveLength(0)
+  })
+})
@@ -18,6 +18,9 @@ import {
   noDeprecatedUsage,
   noDuplicateValues,
   pathSchema,
+  colorContrast,
+  tokenTiers,
+  noUnusedTokens,
 } from '../../../../src/lint/rules'
 
 describe('lint/rules', () => {
@@ -26,13 +29,16 @@ describe('lint/rules', () => {
       expect(dispersaPlugin.meta.name).toBe('dispersa')
     })
 
-    it('should have all 5 built-in rules', () => {
+    it('should have all 8 built-in rules', () => {
       expect(dispersaPlugin.rules).toBeDefined()
       expect(dispersaPlugin.rules['require-description']).toBe(requireDescription)
       expect(dispersaPlugin.rules['naming-convention']).toBe(namingConvention)
       expect(dispersaPlugin.rules['no-deprecated-usage']).toBe(noDeprecatedUsage)
       expect(dispersaPlugin.rules['no-duplicate-values']).toBe(noDuplicateValues)
       expect(dispersaPlugin.rules['path-schema']).toBe(pathSchema)
+      expect(dispersaPlugin.rules['color-contrast']).toBe(colorContrast)
+      expect(dispersaPlugin.rules['token-tiers']).toBe(tokenTiers)
+      expect(dispersaPlugin.rules['no-unused-tokens']).toBe(noUnusedTokens)
     })
 
     it('should have configs attached', () => {
@@ -135,5 +141,23 @@ describe('lint/rules', () => {
       expect(pathSchema.meta.name).toBe('path-schema')
       expect(typeof pathSchema.create).toBe('function')
     })
+
+    it('should export colorContrast rule', () => {
+      expect(colorContrast).toBeDefined()
+      expect(colorContrast.meta.name).toBe('color-contrast')
+      expect(typeof colorContrast.create).toBe('function')
+    })
+
+    it('should export tokenTiers rule', () => {
+      expect(tokenTiers).toBeDefined()
+      expect(tokenTiers.meta.name).toBe('token-tiers')
+      expect(typeof tokenTiers.create).toBe('function')
+    })
+
+    it('should export noUnusedTokens rule', () => {
+      expect(noUnusedTokens).toBeDefined()
+      expect(noUnusedTokens.meta.name).toBe('no-unused-tokens')
+      expect(typeof noUnusedTokens.create).toBe('function')
+    })
   })
 })
@@ -255,4 +255,41 @@ describe('naming-convention rule', () => {
       expect(reports[0]?.data?.segment).toBe('Brand-Primary')
     })
   })
+
+  describe('fix', () => {
+    it('should suggest a rename to the configured format', async () => {
+      const tokens = createMockTokens({
+        'Color.brandPrimary': { type: 'color' },
+        'spacing.Large_2': { type: 'dimension' },
+      })
+
+      const reports = await collectReports(namingConvention, tokens)
+
+      expect(reports.map((report) => report.fix)).toEqual([
+        { type: 'rename', name: 'color.brand-primary' },
+        { type: 'rename', name: 'spacing.large-2' },
+      ])
+    })
+
+    it('should convert to camelCase', async () => {
+      const tokens = createMockTokens({
+        'color.brand-primary': { type: 'color' },
+      })
+
+      const reports = await collectReports(namingConvention, tokens, { format: 'camelCase' })
+
+      expect(reports[0]?.fix).toEqual({ type: 'rename', name: 'color.brandPrimary' })
+    })
+
+    it('should not suggest a fix for custom patterns', async () => {
+      const tokens = createMockTokens({
+        'color.Primary': { type: 'color' },
+      })
+
+      const reports = await collectReports(namingConvention, tokens, { pattern: '^[a-z]+$' })
+
+      expect(reports).toHaveLength(1)
+      expect(reports[0]?.fix).toBeUndefined()
+    })
+  })
 })
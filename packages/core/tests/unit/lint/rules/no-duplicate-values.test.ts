@@ -128,4 +128,40 @@ describe('no-duplicate-values rule', () => {
       expect(reports).toHaveLength(1)
     })
   })
+
+  describe('fix', () => {
+    it('should suggest aliasing the first token with the value', async () => {
+      const tokens = createMockTokens({
+        'color.primary': { type: 'color', value: red },
+        'color.accent': { type: 'color', value: red },
+      })
+
+      const reports = await collectReports(noDuplicateValues, tokens)
+
+      expect(reports[0]?.fix).toEqual({ type: 'alias', token: 'color.primary' })
+    })
+
+    it('should not suggest a fix when values differ in another permutation', async () => {
+      const light = createMockTokens({
+        'color.primary': { type: 'color', value: red },
+        'color.accent': { type: 'color', value: red },
+      })
+      const dark = createMockTokens({
+        'color.primary': { type: 'color', value: red },
+        'color.accent': { type: 'color', value: green },
+      })
+      const reports: Array<{ fix?: unknown }> = []
+
+      await noDuplicateValues.create({
+        id: 'test/no-duplicate-values',
+        options: { ...noDuplicateValues.defaultOptions },
+        tokens: light,
+        permutations: [{ tokens: light }, { tokens: dark }],
+        report: (descriptor) => reports.push(descriptor),
+      })
+
+      expect(reports).toHaveLength(1)
+      expect(reports[0]?.fix).toBeUndefined()
+    })
+  })
 })
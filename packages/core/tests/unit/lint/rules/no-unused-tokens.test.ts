@@ -0,0 +1,99 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { LintRunner } from '../../../../src/lint/lint-runner'
+import { dispersaPlugin } from '../../../../src/lint/rules'
+import { noUnusedTokens } from '../../../../src/lint/rules/no-unused-tokens'
+import { collectReports, createMockTokens } from '../lint-test-helpers'
+
+describe('no-unused-tokens rule', () => {
+  const red = { colorSpace: 'srgb', components: [1, 0, 0] }
+  const alias = (ref: string) => ({
+    type: 'color',
+    value: red,
+    originalValue: `{${ref}}`,
+    isAlias: true,
+  })
+
+  it('should report primitives that no token references', async () => {
+    const tokens = createMockTokens({
+      'palette.red': { type: 'color', value: red },
+      'palette.blue': { type: 'color', value: red },
+      'color.danger': alias('palette.red'),
+    })
+
+    const reports = await collectReports(noUnusedTokens, tokens, { primitives: ['palette.*'] })
+
+    expect(reports).toEqual([
+      { tokenName: 'palette.blue', messageId: 'UNUSED_TOKEN', data: { name: 'palette.blue' } },
+    ])
+  })
+
+  it('should report primitives only referenced by unused primitives', async () => {
+    const tokens = createMockTokens({
+      'palette.red': { type: 'color', value: red },
+      'palette.crimson': alias('palette.red'),
+      'palette.blue': { type: 'color', value: red },
+      'palette.ocean': alias('palette.blue'),
+      'color.link': alias('palette.ocean'),
+    })
+
+    const reports = await collectReports(noUnusedTokens, tokens, { primitives: ['palette.*'] })
+
+    expect(reports.map((r) => r.tokenName)).toEqual(['palette.red', 'palette.crimson'])
+  })
+
+  it('should not report public tokens and what they reference', async () => {
+    const tokens = createMockTokens({
+      'palette.red': { type: 'color', value: red },
+      'palette.brand': alias('palette.red'),
+    })
+
+    const reports = await collectReports(noUnusedTokens, tokens, {
+      primitives: ['palette.*'],
+      allow: ['palette.brand'],
+    })
+
+    expect(reports).toHaveLength(0)
+  })
+
+  it('should do nothing without primitives', async () => {
+    const tokens = createMockTokens({ 'palette.red': { type: 'color', value: red } })
+
+    expect(await collectReports(noUnusedTokens, tokens)).toHaveLength(0)
+    expect(await collectReports(noUnusedTokens, tokens, { primitives: [] })).toHaveLength(0)
+  })
+
+  it('should count references from any permutation', async () => {
+    const runner = new LintRunner({
+      plugins: { dispersa: dispersaPlugin },
+      rules: { 'dispersa/no-unused-tokens': ['warn', { primitives: ['palette.*'] }] },
+    })
+    const palette = {
+      'palette.white': { type: 'color', value: red },
+      'palette.black': { type: 'color', value: red },
+      'palette.gray': { type: 'color', value: red },
+    }
+
+    const result = await runner.runMultiple(
+      [
+        createMockTokens({ ...palette, 'color.bg': alias('palette.white') }),
+        createMockTokens({ ...palette, 'color.bg': alias('palette.black') }),
+      ],
+      [{ theme: 'light' }, { theme: 'dark' }],
+    )
+
+    expect(result.issues).toHaveLength(1)
+    expect(result.issues[0]).toMatchObject({
+      ruleId: 'dispersa/no-unused-tokens',
+      tokenName: 'palette.gray',
+    })
+  })
+})
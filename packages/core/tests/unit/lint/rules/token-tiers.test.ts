@@ -0,0 +1,170 @@
+/**
+ * @license MIT
+ * Copyright (c) 2025-present Dispersa
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { tokenTiers } from '../../../../src/lint/rules/token-tiers'
+import { collectReports, createMockTokens } from '../lint-test-helpers'
+
+describe('token-tiers rule', () => {
+  const blue = { colorSpace: 'srgb', components: [0, 0, 1] }
+  const alias = (ref: string) => ({
+    type: 'color',
+    value: blue,
+    originalValue: `{${ref}}`,
+    isAlias: true,
+  })
+
+  const tiers = [
+    { name: 'primitive', tokens: 'color.base.*' },
+    { name: 'semantic', tokens: ['color.bg.*', 'color.text.*'] },
+    { name: 'component', tokens: 'button.*' },
+  ]
+
+  it('should accept references to the tier directly below', async () => {
+    const tokens = createMockTokens({
+      'color.base.blue': { type: 'color', value: blue },
+      'color.bg.accent': alias('color.base.blue'),
+      'button.bg': alias('color.bg.accent'),
+    })
+
+    const reports = await collectReports(tokenTiers, tokens, { tiers })
+
+    expect(reports).toHaveLength(0)
+  })
+
+  it('should report raw values above the first tier', async () => {
+    const tokens = createMockTokens({
+      'color.base.blue': { type: 'color', value: blue },
+      'color.bg.accent': { type: 'color', value: blue },
+      'button.bg': { type: 'color', value: blue },
+    })
+
+    const reports = await collectReports(tokenTiers, tokens, { tiers })
+
+    expect(reports).toEqual([
+      {
+        tokenName: 'color.bg.accent',
+        messageId: 'RAW_VALUE',
+        data: { name: 'color.bg.accent', tier: 'semantic', expected: 'primitive' },
+      },
+      {
+        tokenName: 'button.bg',
+        messageId: 'RAW_VALUE',
+        data: { name: 'button.bg', tier: 'component', expected: 'semantic' },
+      },
+    ])
+  })
+
+  it('should respect requireAlias per tier', async () => {
+    const tokens = createMockTokens({
+      'color.base.blue': alias('color.base.brand'),
+      'button.bg': { type: 'color', value: blue },
+    })
+
+    const reports = await collectReports(tokenTiers, tokens, {
+      tiers: [
+        { name: 'primitive', tokens: 'color.base.*', requireAlias: true },
+        { name: 'semantic', tokens: ['color.bg.*'] },
+        { name: 'component', tokens: 'button.*', requireAlias: false },
+      ],
+    })
+
+    expect(reports).toHaveLength(0)
+  })
+
+  it('should report upward references', async () => {
+    const tokens = createMockTokens({
+      'color.base.blue': alias('color.bg.accent'),
+      'color.bg.accent': alias('button.bg'),
+      'button.bg': { type: 'color', value: blue, originalValue: blue },
+    })
+
+    const reports = await collectReports(tokenTiers, tokens, {
+      tiers: tiers.map((tier) => ({ ...tier, requireAlias: false })),
+    })
+
+    expect(reports.map((r) => [r.tokenName, r.messageId, r.data?.refTier])).toEqual([
+      ['color.base.blue', 'UPWARD_REFERENCE', 'semantic'],
+      ['color.bg.accent', 'UPWARD_REFERENCE', 'component'],
+    ])
+  })
+
+  it('should report references that skip a tier unless allowed', async () => {
+    const tokens = createMockTokens({
+      'color.base.blue': { type: 'color', value: blue },
+      'button.bg': alias('color.base.blue'),
+    })
+
+    const reports = await collectReports(tokenTiers, tokens, { tiers })
+    const allowed = await collectReports(tokenTiers, tokens, { tiers, allowSkip: true })
+
+    expect(reports).toEqual([
+      {
+        tokenName: 'button.bg',
+        messageId: 'SKIPPED_TIER',
+        data: {
+          name: 'button.bg',
+          tier: 'component',
+          ref: 'color.base.blue',
+          refTier: 'primitive',
+          skipped: 'semantic',
+        },
+      },
+    ])
+    expect(allowed).toHaveLength(0)
+  })
+
+  it('should check every reference of composite values', async () => {
+    const tokens = createMockTokens({
+      'button.border': {
+        type: 'border',
+        value: {},
+        originalValue: { color: '{color.base.blue}', width: '{button.width}', style: 'solid' },
+      },
+      'button.width': { type: 'dimension', value: { value: 1, unit: 'px' } },
+    })
+
+    const reports = await collectReports(tokenTiers, tokens, {
+      tiers: [...tiers.slice(0, 2), { ...tiers[2], requireAlias: false }],
+    })
+
+    expect(reports.map((r) => [r.tokenName, r.messageId])).toEqual([
+      ['button.border', 'SKIPPED_TIER'],
+    ])
+  })
+
+  it('should report same-tier references only when disallowed', async () => {
+    const tokens = createMockTokens({
+      'color.base.blue': { type: 'color', value: blue },
+      'color.bg.accent': alias('color.base.blue'),
+      'color.text.accent': alias('color.bg.accent'),
+    })
+
+    const allowed = await collectReports(tokenTiers, tokens, { tiers })
+    const reports = await collectReports(tokenTiers, tokens, { tiers, allowSameTier: false })
+
+    expect(allowed).toHaveLength(0)
+    expect(reports.map((r) => [r.tokenName, r.messageId])).toEqual([
+      ['color.text.accent', 'SAME_TIER_REFERENCE'],
+    ])
+  })
+
+  it('should skip ignored tokens, tokens outside tiers and run without tiers', async () => {
+    const tokens = createMockTokens({
+      'color.bg.legacy': { type: 'color', value: blue },
+      'spacing.md': { type: 'dimension', value: { value: 8, unit: 'px' } },
+      'button.bg': alias('spacing.md'),
+    })
+
+    expect(
+      await collectReports(tokenTiers, tokens, { tiers, ignore: ['color.bg.legacy'] }),
+    ).toHaveLength(0)
+    expect(await collectReports(tokenTiers, tokens)).toHaveLength(0)
+  })
+})
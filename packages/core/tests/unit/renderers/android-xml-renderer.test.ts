@@ -0,0 +1,243 @@
+import { describe, expect, it } from 'vitest'
+
+import { androidXml } from '../../../src/builders'
+import type { OutputConfig } from '../../../src/config'
+import { isOutputTree } from '../../../src/renderers'
+import { AndroidXmlRenderer } from '../../../src/renderers/android-xml'
+import type { AndroidXmlRendererOptions } from '../../../src/renderers/android-xml'
+import type { PermutationData, RenderContext } from '../../../src/renderers/types'
+import type { ResolverDocument } from '../../../src/resolution/types'
+import type { ResolvedToken, ResolvedTokens } from '../../../src/tokens/types'
+
+const makeToken = (
+  path: string,
+  value: unknown,
+  type?: string,
+  extra: Partial<ResolvedToken> = {},
+): ResolvedToken => ({
+  $value: value,
+  $type: type,
+  path: path.split('.'),
+  name: path.replace(/\./g, '_'),
+  originalValue: value as string,
+  ...extra,
+})
+
+const mockResolver: ResolverDocument = {
+  version: '2025.10',
+  resolutionOrder: [],
+}
+
+const red = { colorSpace: 'srgb', components: [1, 0, 0] }
+const blue = { colorSpace: 'srgb', components: [0, 0, 1] }
+
+const buildContext = (
+  permutations: PermutationData[],
+  options: AndroidXmlRendererOptions,
+  renderer: AndroidXmlRenderer,
+  defaults: Record<string, string> = {},
+): RenderContext => {
+  const output: OutputConfig = {
+    name: 'android-xml',
+    renderer,
+    file: 'res',
+    options,
+  }
+
+  return {
+    permutations,
+    output,
+    resolver: mockResolver,
+    meta: { dimensions: Object.keys(defaults), defaults, basePermutation: defaults },
+  }
+}
+
+describe('Android XML Renderer', () => {
+  const renderer = new AndroidXmlRenderer()
+
+  const render = (
+    permutations: PermutationData[],
+    options: AndroidXmlRendererOptions = {},
+    defaults: Record<string, string> = {},
+  ): Record<string, string> => {
+    const result = renderer.format(buildContext(permutations, options, renderer, defaults), options)
+    return isOutputTree(result) ? result.files : {}
+  }
+
+  const renderTokens = (tokens: ResolvedTokens, options: AndroidXmlRendererOptions = {}) =>
+    render([{ tokens, modifierInputs: {} }], options)
+
+  describe('values resources', () => {
+    it('should write colors with alpha first', () => {
+      const files = renderTokens({
+        'color.primary': makeToken('color.primary', red, 'color'),
+        'color.overlay': makeToken('color.overlay', { ...blue, alpha: 0.5 }, 'color'),
+      })
+
+      expect(files['res/values/colors.xml']).toBe(
+        [
+          '<?xml version="1.0" encoding="utf-8"?>',
+          '<!-- Generated by Dispersa - do not edit manually -->',
+          '<resources>',
+          '    <color name="color_overlay">#800000FF</color>',
+          '    <color name="color_primary">#FF0000</color>',
+          '</resources>',
+          '',
+        ].join('\n'),
+      )
+    })
+
+    it('should write dimensions in dp and fractional numbers as float items', () => {
+      const files = renderTokens({
+        'spacing.sm': makeToken('spacing.sm', { value: 4, unit: 'px' }, 'dimension'),
+        'spacing.lg': makeToken('spacing.lg', { value: 1.5, unit: 'rem' }, 'dimension'),
+        'opacity.muted': makeToken('opacity.muted', 0.6, 'number'),
+      })
+
+      const dimens = files['res/values/dimens.xml']
+      expect(dimens).toContain('<dimen name="spacing_sm">4dp</dimen>')
+      expect(dimens).toContain('<dimen name="spacing_lg">24dp</dimen>')
+      expect(dimens).toContain('<item name="opacity_muted" format="float" type="dimen">0.6</item>')
+    })
+
+    it('should write integers, font weights and durations to integers.xml', () => {
+      const files = renderTokens({
+        'layer.modal': makeToken('layer.modal', 100, 'number'),
+        'font.weight.bold': makeToken('font.weight.bold', 700, 'fontWeight'),
+        'motion.fast': makeToken('motion.fast', { value: 0.2, unit: 's' }, 'duration'),
+      })
+
+      const integers = files['res/values/integers.xml']
+      expect(integers).toContain('<integer name="layer_modal">100</integer>')
+      expect(integers).toContain('<integer name="font_weight_bold">700</integer>')
+      expect(integers).toContain('<integer name="motion_fast">200</integer>')
+    })
+
+    it('should write typography tokens as TextAppearance styles', () => {
+      const files = renderTokens({
+        'typography.heading': makeToken(
+          'typography.heading',
+          {
+            fontFamily: ['Inter Display', 'sans-serif'],
+            fontSize: { value: 20, unit: 'px' },
+            fontWeight: 600,
+            lineHeight: 1.5,
+            letterSpacing: { value: 1, unit: 'px' },
+          },
+          'typography',
+        ),
+      })
+
+      expect(files['res/values/styles.xml']).toContain(
+        [
+          '    <style name="TextAppearance.DesignTokens.TypographyHeading">',
+          '        <item name="android:fontFamily">sans-serif</item>',
+          '        <item name="android:textSize">20sp</item>',
+          '        <item name="android:textFontWeight">600</item>',
+          '        <item name="android:lineHeight">30sp</item>',
+          '        <item name="android:letterSpacing">0.05</item>',
+          '    </style>',
+        ].join('\n'),
+      )
+    })
+
+    it('should map custom font families to font resources when enabled', () => {
+      const heading = makeToken(
+        'typography.heading',
+        { fontFamily: ['Inter Display', 'sans-serif'], fontSize: { value: 20, unit: 'px' } },
+        'typography',
+      )
+
+      const files = renderTokens({ 'typography.heading': heading }, { fontResources: true })
+
+      expect(files['res/values/styles.xml']).toContain(
+        '<item name="android:fontFamily">@font/inter_display</item>',
+      )
+    })
+
+    it('should omit the font family when the stack has no generic family', () => {
+      const body = makeToken(
+        'typography.body',
+        { fontFamily: 'Inter', fontSize: { value: 16, unit: 'px' } },
+        'typography',
+      )
+
+      const files = renderTokens({ 'typography.body': body })
+
+      expect(files['res/values/styles.xml']).toContain('android:textSize')
+      expect(files['res/values/styles.xml']).not.toContain('android:fontFamily')
+    })
+
+    it('should emit description and deprecation comments', () => {
+      const files = renderTokens({
+        'color.legacy': makeToken('color.legacy', red, 'color', {
+          $description: 'Old -- brand red',
+          $deprecated: true,
+        }),
+      })
+
+      expect(files['res/values/colors.xml']).toContain(
+        '    <!-- DEPRECATED -->\n    <!-- Old - brand red -->\n    <color name="color_legacy">',
+      )
+    })
+
+    it('should only write files for resource kinds that have tokens', () => {
+      const files = renderTokens({ 'color.primary': makeToken('color.primary', red, 'color') })
+
+      expect(Object.keys(files)).toEqual(['res/values/colors.xml'])
+    })
+
+    it('should reject tokens that map to the same resource name', () => {
+      expect(() =>
+        renderTokens({
+          'color.primary': makeToken('color.primary', red, 'color'),
+          'color-primary': makeToken('color-primary', blue, 'color'),
+        }),
+      ).toThrow('tokens "color-primary" and "color_primary" both map to the Android resource')
+    })
+  })
+
+  describe('night resources', () => {
+    const permutations: PermutationData[] = [
+      {
+        tokens: {
+          'color.bg': makeToken('color.bg', red, 'color'),
+          'color.brand': makeToken('color.brand', blue, 'color'),
+        },
+        modifierInputs: { theme: 'light' },
+      },
+      {
+        tokens: {
+          'color.bg': makeToken('color.bg', blue, 'color'),
+          'color.brand': makeToken('color.brand', blue, 'color'),
+        },
+        modifierInputs: { theme: 'dark' },
+      },
+    ]
+
+    it('should write changed resources for dark contexts to values-night', () => {
+      const files = render(permutations, {}, { theme: 'light' })
+
+      expect(files['res/values/colors.xml']).toContain('<color name="color_bg">#FF0000</color>')
+      expect(files['res/values-night/colors.xml']).toContain(
+        '<color name="color_bg">#0000FF</color>',
+      )
+      expect(files['res/values-night/colors.xml']).not.toContain('color_brand')
+    })
+
+    it('should use custom night contexts', () => {
+      const files = render(permutations, { nightContexts: ['midnight'] }, { theme: 'light' })
+
+      expect(files['res/values-night/colors.xml']).toBeUndefined()
+    })
+  })
+
+  describe('androidXml() builder', () => {
+    it('should pass options through and snake-case names', () => {
+      const config = androidXml({ name: 'android-xml', file: 'res', stylePrefix: 'Acme' })
+
+      expect(config.options).toEqual({ stylePrefix: 'Acme' })
+      expect(config.transforms).toHaveLength(1)
+    })
+  })
+})
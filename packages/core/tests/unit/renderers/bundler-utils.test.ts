@@ -3,12 +3,15 @@ import { describe, expect, it } from 'vitest'
 import {
   buildMetadata,
   buildStablePermutationKey,
+  findContextPermutation,
   generatePermutationKey,
   normalizeModifierInputs,
   resolveBaseFileName,
   resolveMediaQuery,
+  resolveOutputDirectory,
   resolveSelector,
 } from '../../../src/renderers/bundlers/utils'
+import type { PermutationData, RenderContext } from '../../../src/renderers/types'
 
 describe('Bundler Utils - Selector and Media Query Resolution', () => {
   const mockModifierInputs = {
@@ -273,4 +276,47 @@ describe('Bundler Utils - Selector and Media Query Resolution', () => {
       expect(key).toBe('brand=dark|theme=dark')
     })
   })
+
+  describe('findContextPermutation', () => {
+    const permutation = (modifierInputs: Record<string, string>): PermutationData => ({
+      tokens: {},
+      modifierInputs,
+    })
+    const base = permutation({ theme: 'light', density: 'regular' })
+
+    it('should find the permutation switching one modifier to a listed context', () => {
+      const dark = permutation({ theme: 'Dark', density: 'regular' })
+      const permutations = [base, permutation({ theme: 'dark', density: 'compact' }), dark]
+
+      expect(findContextPermutation(permutations, base, ['dark', 'night'])).toBe(dark)
+    })
+
+    it('should return undefined when no single-modifier permutation matches', () => {
+      const permutations = [base, permutation({ theme: 'dark', density: 'compact' })]
+
+      expect(findContextPermutation(permutations, base, ['dark'])).toBeUndefined()
+    })
+  })
+
+  describe('resolveOutputDirectory', () => {
+    const context = (file: RenderContext['output']['file']): RenderContext =>
+      ({
+        output: { name: 'tokens', renderer: {} as never, file },
+        meta: { basePermutation: { theme: 'light' } },
+      }) as RenderContext
+
+    it('should fall back when the output has no file', () => {
+      expect(resolveOutputDirectory(context(undefined), 'tokens.xcassets')).toBe('tokens.xcassets')
+    })
+
+    it('should interpolate patterns and trim trailing slashes', () => {
+      expect(resolveOutputDirectory(context('res/{theme}//'), 'res')).toBe('res/light')
+      expect(
+        resolveOutputDirectory(
+          context((inputs) => `out/${inputs.theme}/`),
+          'out',
+        ),
+      ).toBe('out/light')
+    })
+  })
 })
@@ -3,7 +3,7 @@ import { describe, expect, it, vi } from 'vitest'
 import type { ResolverDocument } from '../../../../src/resolution/types'
 import type { ResolvedTokens } from '../../../../src/tokens/types'
 import type { BundleDataItem } from '../../../../src/renderers/bundlers/types'
-import { bundleAsJsModule } from '../../../../src/renderers/bundlers/js'
+import { bundleAsJsDeclarations, bundleAsJsModule } from '../../../../src/renderers/bundlers/js'
 
 describe('JavaScript Module Bundler', () => {
   const mockResolver: ResolverDocument = {
@@ -39,14 +39,21 @@ describe('JavaScript Module Bundler', () => {
         ),
       )
 
-  function evalBundle(code: string): { tokenBundle: any; getTokens?: (modifiers?: any) => any } {
+  function evalBundle(code: string): {
+    tokenBundle: any
+    getTokens?: (modifiers?: any) => any
+    applyTheme?: (element: any, modifiers?: any) => void
+  } {
     // The bundler outputs ESM syntax; convert it to a callable function body for testing.
     const transformed = code
-      .replace(/export function getTokens/g, 'function getTokens')
+      .replace(/export function (\w+)/g, 'function $1')
       .replace(/export default tokenBundle/g, '')
 
+    const exported = code.includes('function applyTheme')
+      ? '{ tokenBundle, getTokens, applyTheme }'
+      : '{ tokenBundle, getTokens }'
     // eslint-disable-next-line no-new-func
-    const fn = new Function(`${transformed}\nreturn { tokenBundle, getTokens }`)
+    const fn = new Function(`${transformed}\nreturn ${exported}`)
     return fn() as any
   }
 
@@ -113,4 +120,116 @@ describe('JavaScript Module Bundler', () => {
     await bundleAsJsModule(bundleData, mockResolver, { generateHelper: false }, formatTokens)
     expect(formatTokens).toHaveBeenCalledTimes(2)
   })
+
+  describe('runtime API', () => {
+    const themeTokens = (primary: string): ResolvedTokens => ({
+      'color-primary': {
+        $value: primary,
+        $type: 'color',
+        path: ['color', 'primary'],
+        name: 'color-primary',
+        originalValue: primary,
+      },
+      'space-sm': {
+        $value: '4px',
+        $type: 'dimension',
+        path: ['space', 'sm'],
+        name: 'space-sm',
+        originalValue: '4px',
+      },
+    })
+
+    const bundleData: BundleDataItem[] = [
+      { tokens: themeTokens('#000000'), modifierInputs: { theme: 'light' }, isBase: true },
+      { tokens: themeTokens('#ffffff'), modifierInputs: { theme: 'dark' }, isBase: false },
+    ]
+
+    const nestedFormatter = (primary: string) =>
+      [
+        'const tokens = {',
+        `  color: { primary: '${primary}' },`,
+        "  space: { sm: '4px' }",
+        '}',
+        '',
+        'export default tokens',
+      ].join('\n')
+
+    it('applyTheme() should set the CSS custom properties of a combination', async () => {
+      const formatTokens = vi
+        .fn()
+        .mockResolvedValueOnce(nestedFormatter('#000000'))
+        .mockResolvedValueOnce(nestedFormatter('#ffffff'))
+      const output = await bundleAsJsModule(
+        bundleData,
+        mockResolver,
+        { runtime: true },
+        formatTokens,
+      )
+
+      const evaluated = evalBundle(output)
+      const properties = new Map<string, string>()
+      const element = {
+        style: { setProperty: (name: string, value: string) => properties.set(name, value) },
+      }
+
+      evaluated.applyTheme?.(element, { theme: 'dark' })
+      expect(Object.fromEntries(properties)).toEqual({
+        '--color-primary': '#ffffff',
+        '--space-sm': '4px',
+      })
+
+      evaluated.applyTheme?.(element)
+      expect(properties.get('--color-primary')).toBe('#000000')
+    })
+
+    it('should not emit applyTheme() without the runtime option', async () => {
+      const output = await bundleAsJsModule(
+        bundleData,
+        mockResolver,
+        { generateHelper: true },
+        createFormatter(),
+      )
+
+      expect(output).toContain('export function getTokens')
+      expect(output).not.toContain('applyTheme')
+    })
+
+    it('should declare modifier inputs and per-combination token types', () => {
+      const declarations = bundleAsJsDeclarations(bundleData, mockResolver, { runtime: true })
+
+      expect(declarations).toContain('export type ModifierInputs = { theme?: "light" | "dark" }')
+      expect(declarations).toContain('export type ModifierDefaults = { theme: "light" }')
+      expect(declarations).toContain(
+        'export type Tokens = { color: { primary: string }; space: { sm: string } }',
+      )
+      expect(declarations).toContain(
+        'export type TokensByPermutation = { "light": Tokens; "dark": Tokens }',
+      )
+      expect(declarations).toContain(
+        'export declare function getTokens<I extends ModifierInputs = {}>(modifiers?: I): TokensFor<I>',
+      )
+      expect(declarations).toContain('export declare function applyTheme(')
+    })
+
+    it('should declare a token type per distinct shape', () => {
+      const flatData: BundleDataItem[] = [
+        bundleData[0]!,
+        {
+          tokens: {
+            'color-primary': { ...themeTokens('#ffffff')['color-primary']!, $value: 1 },
+          },
+          modifierInputs: { theme: 'dark' },
+          isBase: false,
+        },
+      ]
+
+      const declarations = bundleAsJsDeclarations(flatData, mockResolver, { structure: 'flat' })
+
+      expect(declarations).toContain(
+        'export type Tokens1 = { "color-primary": string; "space-sm": string }',
+      )
+      expect(declarations).toContain('export type Tokens2 = { "color-primary": number }')
+      expect(declarations).toContain('"light": Tokens1; "dark": Tokens2')
+    })
+  })
 })
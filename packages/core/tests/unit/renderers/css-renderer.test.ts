@@ -590,4 +590,223 @@ describe('CSS Renderer', () => {
       expect(baseFileName).toBeDefined()
     })
   })
+
+  describe('fluid dimensions', () => {
+    const createFluidToken = (fluid: Record<string, unknown>): ResolvedToken => ({
+      $value: fluid.min,
+      $type: 'dimension',
+      $extensions: { 'dispersa.fluid': fluid },
+      name: 'size-lg',
+      path: ['size', 'lg'],
+      originalValue: fluid.min,
+    })
+
+    it('should emit clamp() scaling between the viewports', async () => {
+      const output = await renderCss(
+        {
+          'size.lg': createFluidToken({
+            min: { value: 1, unit: 'rem' },
+            max: { value: 2, unit: 'rem' },
+            minViewport: { value: 320, unit: 'px' },
+            maxViewport: { value: 1280, unit: 'px' },
+          }),
+        },
+        { preset: 'standalone' },
+      )
+
+      expect(output).toContain('--size-lg: clamp(1rem, 0.6667rem + 1.6667vw, 2rem);')
+    })
+
+    it('should order the bounds of shrinking values', async () => {
+      const output = await renderCss(
+        {
+          'size.lg': createFluidToken({
+            min: { value: 48, unit: 'px' },
+            max: { value: 32, unit: 'px' },
+            minViewport: { value: 400, unit: 'px' },
+            maxViewport: { value: 1200, unit: 'px' },
+          }),
+        },
+        { preset: 'standalone' },
+      )
+
+      expect(output).toContain('--size-lg: clamp(32px, 56px - 2vw, 48px);')
+    })
+
+    it('should keep the own range of a fluid alias when preserving references', async () => {
+      const range = {
+        max: { value: 2, unit: 'rem' },
+        minViewport: { value: 320, unit: 'px' },
+        maxViewport: { value: 1280, unit: 'px' },
+      }
+      const lg = createFluidToken({ min: { value: 1, unit: 'rem' }, ...range })
+      const output = await renderCss(
+        {
+          'size.lg': lg,
+          'size.heading': {
+            ...lg,
+            name: 'size-heading',
+            path: ['size', 'heading'],
+            originalValue: '{size.lg}',
+          },
+          'size.display': {
+            ...createFluidToken({
+              min: { value: 1, unit: 'rem' },
+              ...range,
+              max: { value: 3, unit: 'rem' },
+            }),
+            name: 'size-display',
+            path: ['size', 'display'],
+            originalValue: '{size.lg}',
+          },
+        },
+        { preset: 'standalone', preserveReferences: true },
+      )
+
+      expect(output).toContain('--size-heading: var(--size-lg);')
+      expect(output).toContain('--size-display: clamp(1rem, 0.3333rem + 3.3333vw, 3rem);')
+    })
+  })
+
+  describe('typography classes', () => {
+    const createTypographyToken = (
+      name: string,
+      value: Record<string, unknown>,
+      originalValue: unknown = value,
+    ): ResolvedToken => ({
+      $value: value,
+      $type: 'typography',
+      name,
+      path: name.split('-'),
+      originalValue,
+    })
+
+    const headingValue = {
+      fontFamily: ['Inter', 'sans-serif'],
+      fontSize: { value: 2, unit: 'rem' },
+      fontWeight: 700,
+      lineHeight: 1.2,
+      letterSpacing: { value: -0.02, unit: 'em' },
+    }
+
+    it('should not emit classes by default', async () => {
+      const output = await renderCss(
+        { 'heading.lg': createTypographyToken('heading-lg', headingValue) },
+        { preset: 'standalone' },
+      )
+
+      expect(output).not.toContain('.heading-lg')
+    })
+
+    it('should emit a class with the font shorthand referencing the leaf properties', async () => {
+      const output = await renderCss(
+        { 'heading.lg': createTypographyToken('heading-lg', headingValue) },
+        { preset: 'standalone', typographyClasses: { prefix: 'text-' } },
+      )
+
+      expect(output).toContain('--heading-lg-fontSize: 2rem;')
+      expect(output.replace(/\s+/g, ' ')).toContain(
+        '.text-heading-lg { font: var(--heading-lg-fontWeight) ' +
+          'var(--heading-lg-fontSize)/var(--heading-lg-lineHeight) ' +
+          'var(--heading-lg-fontFamily-0), var(--heading-lg-fontFamily-1); ' +
+          'letter-spacing: var(--heading-lg-letterSpacing); }',
+      )
+    })
+
+    it('should use longhand properties without a font size and family', async () => {
+      const output = await renderCss(
+        {
+          'label.weight': createTypographyToken('label-weight', {
+            fontWeight: 500,
+            letterSpacing: { value: 0.1, unit: 'em' },
+          }),
+        },
+        { preset: 'standalone', typographyClasses: true },
+      )
+
+      expect(output).toContain('.label-weight {')
+      expect(output).toContain('font-weight: var(--label-weight-fontWeight);')
+      expect(output).toContain('letter-spacing: var(--label-weight-letterSpacing);')
+      expect(output).not.toContain('font:')
+    })
+
+    it('should wrap classes in a layer and scope them to the selector', async () => {
+      const output = await renderCss(
+        { 'heading.lg': createTypographyToken('heading-lg', headingValue) },
+        {
+          preset: 'standalone',
+          selector: '[data-theme="dark"]',
+          mediaQuery: '(min-width: 768px)',
+          typographyClasses: { layer: 'utilities' },
+        },
+      )
+
+      expect(output).toMatch(
+        /@media \(min-width: 768px\) \{\n {2}\[data-theme="dark"\] \{[\s\S]*\n {2}\}\n {2}@layer utilities \{\n {4}:where\(\[data-theme="dark"\]\) \.heading-lg \{/,
+      )
+    })
+
+    it('should scope classes to modifier selectors in bundles', async () => {
+      const lightHeading = {
+        ...createTypographyToken('heading-lg', headingValue),
+        _sourceModifier: 'base',
+      } as ResolvedToken
+      const darkHeading = {
+        ...createTypographyToken('heading-lg', { ...headingValue, fontWeight: 600 }),
+        _sourceModifier: 'theme-dark',
+      } as ResolvedToken
+
+      const output: OutputConfig = {
+        name: 'css',
+        renderer,
+        file: 'tokens.css',
+        options: {
+          preset: 'bundle',
+          selector: (modifier: string, context: string, isBase: boolean) =>
+            isBase ? ':root' : `[data-${modifier}="${context}"]`,
+          typographyClasses: true,
+        },
+      }
+      const context: RenderContext = {
+        permutations: [
+          {
+            tokens: { 'heading.lg': lightHeading },
+            modifierInputs: { theme: 'light', scale: 'tablet' },
+          },
+          {
+            tokens: { 'heading.lg': darkHeading },
+            modifierInputs: { theme: 'dark', scale: 'tablet' },
+          },
+        ],
+        output,
+        resolver: resolverDocument,
+        meta: {
+          dimensions: ['theme', 'scale'],
+          defaults: { theme: 'light', scale: 'tablet' },
+          basePermutation: { theme: 'light', scale: 'tablet' },
+        },
+      }
+
+      const result = await renderer.format(context, context.output.options)
+      const content = typeof result === 'string' ? result : ''
+
+      expect(content).toContain('\n.heading-lg {')
+      expect(content).toContain(':where([data-theme="dark"]) .heading-lg {')
+    })
+
+    it('should reference the leaves of an aliased token with preserveReferences', async () => {
+      const output = await renderCss(
+        {
+          'heading.lg': createTypographyToken('heading-lg', headingValue),
+          'title.page': createTypographyToken('title-page', headingValue, '{heading.lg}'),
+        },
+        { preset: 'standalone', preserveReferences: true, typographyClasses: true },
+      )
+
+      expect(output).toContain('--title-page: var(--heading-lg);')
+      expect(output.replace(/\s+/g, ' ')).toContain(
+        '.title-page { font: var(--heading-lg-fontWeight) var(--heading-lg-fontSize)',
+      )
+    })
+  })
 })
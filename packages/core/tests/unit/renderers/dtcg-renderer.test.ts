@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest'
+
+import { dtcg } from '../../../src/builders'
+import type { OutputConfig } from '../../../src/config'
+import { build } from '../../../src/dispersa'
+import { isOutputTree } from '../../../src/renderers'
+import { DtcgRenderer } from '../../../src/renderers/dtcg'
+import type { DtcgRendererOptions } from '../../../src/renderers/dtcg'
+import type { PermutationData, RenderContext } from '../../../src/renderers/types'
+import type { ResolverDocument } from '../../../src/resolution/types'
+import type { InternalResolvedToken, ResolvedTokens } from '../../../src/tokens/types'
+
+const makeToken = (
+  path: string,
+  value: unknown,
+  type?: string,
+  extra: Partial<InternalResolvedToken> = {},
+): InternalResolvedToken => ({
+  $value: value,
+  $type: type,
+  path: path.split('.'),
+  name: path.replace(/\./g, '-'),
+  originalValue: value as string,
+  ...extra,
+})
+
+const toTokens = (...tokens: InternalResolvedToken[]): ResolvedTokens =>
+  Object.fromEntries(tokens.map((token) => [token.name, token]))
+
+const mockResolver: ResolverDocument = {
+  version: '2025.10',
+  resolutionOrder: [],
+}
+
+const blue = { colorSpace: 'srgb', components: [0, 0, 1] }
+
+describe('DTCG Renderer', () => {
+  const renderer = new DtcgRenderer()
+
+  const render = async (
+    permutations: PermutationData[],
+    options: DtcgRendererOptions = {},
+    file: OutputConfig['file'] = 'tokens.json',
+  ): Promise<Record<string, string>> => {
+    const context: RenderContext = {
+      permutations,
+      output: { name: 'dtcg', renderer, file, options },
+      resolver: mockResolver,
+      meta: { dimensions: [], defaults: {}, basePermutation: {} },
+    }
+    const result = await renderer.format(context, options)
+    return isOutputTree(result) ? result.files : {}
+  }
+
+  const renderTokens = async (tokens: ResolvedTokens, options: DtcgRendererOptions = {}) =>
+    JSON.parse((await render([{ tokens, modifierInputs: {} }], options))['tokens.json']!)
+
+  it('should nest tokens by path regardless of their name', async () => {
+    const output = await renderTokens(
+      toTokens(
+        makeToken('color.blue.500', blue, 'color'),
+        makeToken('spacing.sm', { value: 4, unit: 'px' }, 'dimension'),
+      ),
+    )
+
+    expect(output).toEqual({
+      color: { blue: { '500': { $value: blue, $type: 'color' } } },
+      spacing: { sm: { $value: { value: 4, unit: 'px' }, $type: 'dimension' } },
+    })
+  })
+
+  it('should keep description, deprecation and extensions but not internal metadata', async () => {
+    const output = await renderTokens(
+      toTokens(
+        makeToken('color.legacy', blue, 'color', {
+          $description: 'Old brand blue',
+          $deprecated: 'Use color.brand',
+          $extensions: { 'com.example': { figmaId: '1:2' } },
+          _isAlias: false,
+          _sourceSet: 'base',
+        }),
+      ),
+    )
+
+    expect(output.color.legacy).toEqual({
+      $value: blue,
+      $type: 'color',
+      $description: 'Old brand blue',
+      $deprecated: 'Use color.brand',
+      $extensions: { 'com.example': { figmaId: '1:2' } },
+    })
+  })
+
+  it('should write alias references only with preserveReferences', async () => {
+    const tokens = toTokens(
+      makeToken('color.blue', blue, 'color'),
+      makeToken('color.action', blue, 'color', { originalValue: '{color.blue}', _isAlias: true }),
+    )
+
+    expect((await renderTokens(tokens)).color.action.$value).toEqual(blue)
+    expect((await renderTokens(tokens, { preserveReferences: true })).color.action.$value).toBe(
+      '{color.blue}',
+    )
+  })
+
+  it('should resolve references to tokens missing from the output', async () => {
+    const output = await renderTokens(
+      toTokens(
+        makeToken('color.action', blue, 'color', { originalValue: '{color.blue}', _isAlias: true }),
+      ),
+      { preserveReferences: true },
+    )
+
+    expect(output.color.action.$value).toEqual(blue)
+  })
+
+  it('should write one file per permutation', async () => {
+    const files = await render(
+      [
+        {
+          tokens: toTokens(makeToken('color.bg', blue, 'color')),
+          modifierInputs: { theme: 'light' },
+        },
+        {
+          tokens: toTokens(makeToken('color.bg', blue, 'color')),
+          modifierInputs: { theme: 'dark' },
+        },
+      ],
+      {},
+      'tokens-{theme}.json',
+    )
+
+    expect(Object.keys(files).sort()).toEqual(['tokens-dark.json', 'tokens-light.json'])
+  })
+
+  it('should minify output', async () => {
+    const files = await render(
+      [{ tokens: toTokens(makeToken('size', 1, 'number')), modifierInputs: {} }],
+      { minify: true },
+    )
+
+    expect(files['tokens.json']).toBe('{"size":{"$value":1,"$type":"number"}}')
+  })
+
+  it('should keep references of resolved alias tokens in a build', async () => {
+    const result = await build({
+      resolver: {
+        version: '2025.10',
+        sets: {
+          base: {
+            sources: [
+              {
+                color: {
+                  $type: 'color',
+                  blue: { $value: blue },
+                  action: { $value: '{color.blue}' },
+                },
+              },
+            ],
+          },
+        },
+        resolutionOrder: [{ $ref: '#/sets/base' }],
+      },
+      outputs: [dtcg({ name: 'dtcg', preserveReferences: true })],
+    })
+
+    expect(result.success).toBe(true)
+    const output = JSON.parse(result.outputs[0]!.content)
+    expect(output.color.action).toEqual({ $value: '{color.blue}', $type: 'color' })
+    expect(output.color.blue).toEqual({ $value: blue, $type: 'color' })
+  })
+})
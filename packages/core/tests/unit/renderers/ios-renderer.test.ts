@@ -550,6 +550,131 @@ describe('iOS/SwiftUI Renderer', () => {
     })
   })
 
+  describe('assetCatalog preset', () => {
+    const renderCatalog = async (
+      permutations: RenderContext['permutations'],
+      options: IosRendererOptions = {},
+    ): Promise<Record<string, string>> => {
+      const output: OutputConfig = {
+        name: 'ios',
+        renderer,
+        file: 'Assets.xcassets',
+        options: { preset: 'assetCatalog', ...options },
+      }
+      const context: RenderContext = {
+        permutations,
+        output,
+        resolver: mockResolver,
+        meta: {
+          dimensions: ['theme'],
+          defaults: { theme: 'light' },
+          basePermutation: { theme: 'light' },
+        },
+      }
+
+      const result = await renderer.format(context, context.output.options as IosRendererOptions)
+      return isOutputTree(result) ? result.files : {}
+    }
+
+    const light: ResolvedTokens = {
+      'color.bg': makeToken('color.bg', { colorSpace: 'srgb', components: [1, 1, 1] }, 'color'),
+      'color.brand': makeToken(
+        'color.brand',
+        { colorSpace: 'srgb', components: [1, 0, 0], alpha: 0.5 },
+        'color',
+      ),
+      'spacing.sm': makeToken('spacing.sm', { value: 8, unit: 'px' }, 'dimension'),
+    }
+    const dark: ResolvedTokens = {
+      ...light,
+      'color.bg': makeToken('color.bg', { colorSpace: 'srgb', components: [0, 0, 0] }, 'color'),
+    }
+
+    it('should write a colorset per color token with a dark appearance', async () => {
+      const files = await renderCatalog([
+        { tokens: light, modifierInputs: { theme: 'light' } },
+        { tokens: dark, modifierInputs: { theme: 'dark' } },
+      ])
+
+      expect(Object.keys(files).sort()).toEqual([
+        'Assets.xcassets/Contents.json',
+        'Assets.xcassets/colorBg.colorset/Contents.json',
+        'Assets.xcassets/colorBrand.colorset/Contents.json',
+      ])
+      expect(JSON.parse(files['Assets.xcassets/colorBg.colorset/Contents.json']!)).toEqual({
+        colors: [
+          {
+            color: {
+              'color-space': 'srgb',
+              components: { alpha: '1.000', blue: '1.000', green: '1.000', red: '1.000' },
+            },
+            idiom: 'universal',
+          },
+          {
+            appearances: [{ appearance: 'luminosity', value: 'dark' }],
+            color: {
+              'color-space': 'srgb',
+              components: { alpha: '1.000', blue: '0.000', green: '0.000', red: '0.000' },
+            },
+            idiom: 'universal',
+          },
+        ],
+        info: { author: 'xcode', version: 1 },
+      })
+    })
+
+    it('should omit the dark appearance when the color does not change', async () => {
+      const files = await renderCatalog([
+        { tokens: light, modifierInputs: { theme: 'light' } },
+        { tokens: dark, modifierInputs: { theme: 'dark' } },
+      ])
+
+      const brand = JSON.parse(files['Assets.xcassets/colorBrand.colorset/Contents.json']!)
+      expect(brand.colors).toHaveLength(1)
+      expect(brand.colors[0].color.components.alpha).toBe('0.500')
+    })
+
+    it('should use the display-p3 color space when configured', async () => {
+      const files = await renderCatalog([{ tokens: light, modifierInputs: { theme: 'light' } }], {
+        colorSpace: 'displayP3',
+      })
+
+      const bg = JSON.parse(files['Assets.xcassets/colorBg.colorset/Contents.json']!)
+      expect(bg.colors[0].color['color-space']).toBe('display-p3')
+    })
+
+    it('should accept hex strings from color transforms', async () => {
+      const files = await renderCatalog([
+        {
+          tokens: { 'color.accent': makeToken('color.accent', '#ff0000', 'color') },
+          modifierInputs: { theme: 'light' },
+        },
+      ])
+
+      const accent = JSON.parse(files['Assets.xcassets/colorAccent.colorset/Contents.json']!)
+      expect(accent.colors[0].color.components).toEqual({
+        alpha: '1.000',
+        blue: '0.000',
+        green: '0.000',
+        red: '1.000',
+      })
+    })
+
+    it('should reject tokens that map to the same colorset', async () => {
+      await expect(
+        renderCatalog([
+          {
+            tokens: {
+              'color.bg': makeToken('color.bg', '#ffffff', 'color'),
+              'color-bg': makeToken('color-bg', '#000000', 'color'),
+            },
+            modifierInputs: { theme: 'light' },
+          },
+        ]),
+      ).rejects.toThrow('both map to the colorset "colorBg"')
+    })
+  })
+
   describe('swiftVersion', () => {
     it('should omit nonisolated(unsafe) for Swift 5.9 (default)', async () => {
       const tokens: ResolvedTokens = {
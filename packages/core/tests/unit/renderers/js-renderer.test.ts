@@ -98,4 +98,25 @@ describe('JS Module Renderer', () => {
     expect(output).toContain('primitive:')
     expect(output).toMatchSnapshot()
   })
+
+  it('should pair a runtime bundle with a declaration file', async () => {
+    const context: RenderContext = {
+      ...buildContext({ preset: 'bundle', runtime: true }),
+      meta: {
+        dimensions: ['theme', 'scale'],
+        defaults: { theme: 'light', scale: 'tablet' },
+        basePermutation: { theme: 'light', scale: 'tablet' },
+      },
+    }
+
+    const result = await renderer.format(context, context.output.options)
+
+    expect(isOutputTree(result)).toBe(true)
+    if (!isOutputTree(result)) {
+      return
+    }
+    expect(Object.keys(result.files)).toEqual(['tokens.js', 'tokens.d.ts'])
+    expect(result.files['tokens.js']).toContain('export function applyTheme')
+    expect(result.files['tokens.d.ts']).toContain('export type ModifierInputs')
+  })
 })
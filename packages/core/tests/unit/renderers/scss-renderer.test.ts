@@ -0,0 +1,330 @@
+import { describe, expect, it } from 'vitest'
+
+import { scss } from '../../../src/builders'
+import type { OutputConfig } from '../../../src/config'
+import { isOutputTree } from '../../../src/renderers'
+import { ScssRenderer } from '../../../src/renderers/scss'
+import type { ScssRendererOptions } from '../../../src/renderers/scss'
+import type { PermutationData, RenderContext } from '../../../src/renderers/types'
+import type { ResolverDocument } from '../../../src/resolution/types'
+import type { ResolvedToken, ResolvedTokens } from '../../../src/tokens/types'
+
+const makeToken = (
+  path: string,
+  value: unknown,
+  type?: string,
+  extra: Partial<ResolvedToken> = {},
+): ResolvedToken => ({
+  $value: value,
+  $type: type,
+  path: path.split('.'),
+  name: path.replace(/\./g, '-'),
+  originalValue: value as string,
+  ...extra,
+})
+
+const themedResolver: ResolverDocument = {
+  version: '2025.10',
+  modifiers: {
+    theme: {
+      contexts: { light: [], dark: [] },
+      default: 'light',
+    },
+  },
+  resolutionOrder: [],
+}
+
+const buildContext = (
+  permutations: PermutationData[],
+  options: ScssRendererOptions,
+  renderer: ScssRenderer,
+  resolver: ResolverDocument = { version: '2025.10', resolutionOrder: [] },
+  defaults: Record<string, string> = {},
+): RenderContext => {
+  const output: OutputConfig = {
+    name: 'scss',
+    renderer,
+    file: '_tokens.scss',
+    options,
+  }
+
+  return {
+    permutations,
+    output,
+    resolver,
+    meta: { dimensions: Object.keys(defaults), defaults, basePermutation: defaults },
+  }
+}
+
+const red = { colorSpace: 'srgb', components: [1, 0, 0] }
+const blue = { colorSpace: 'srgb', components: [0, 0, 1] }
+
+describe('SCSS Renderer', () => {
+  const renderer = new ScssRenderer()
+
+  const render = async (tokens: ResolvedTokens, options: ScssRendererOptions = {}) => {
+    const context = buildContext([{ tokens, modifierInputs: {} }], options, renderer)
+    return (await renderer.format(context, options)) as string
+  }
+
+  describe('variables', () => {
+    it('should emit one variable per token using the token name', async () => {
+      const result = await render({
+        'color.primary': makeToken('color.primary', red, 'color'),
+        'spacing.sm': makeToken('spacing.sm', { value: 4, unit: 'px' }, 'dimension'),
+      })
+
+      expect(result).toContain('$color-primary: #ff0000;')
+      expect(result).toContain('$spacing-sm: 4px;')
+    })
+
+    it('should format shadows, font stacks and cubic beziers as CSS values', async () => {
+      const result = await render({
+        'shadow.card': makeToken(
+          'shadow.card',
+          {
+            offsetX: { value: 0, unit: 'px' },
+            offsetY: { value: 1, unit: 'px' },
+            blur: { value: 2, unit: 'px' },
+            color: red,
+          },
+          'shadow',
+        ),
+        'font.body': makeToken('font.body', ['Helvetica Neue', 'Arial'], 'fontFamily'),
+        'ease.out': makeToken('ease.out', [0, 0, 0.58, 1], 'cubicBezier'),
+      })
+
+      expect(result).toContain('$shadow-card: 0px 1px 2px #ff0000;')
+      expect(result).toContain('$font-body: "Helvetica Neue", Arial;')
+      expect(result).toContain('$ease-out: cubic-bezier(0, 0, 0.58, 1);')
+    })
+
+    it('should add !default when defaultFlag is set', async () => {
+      const result = await render(
+        { 'color.primary': makeToken('color.primary', red, 'color') },
+        { defaultFlag: true },
+      )
+
+      expect(result).toContain('$color-primary: #ff0000 !default;')
+      expect(result).toMatch(/\$tokens: \([\s\S]*\) !default;/)
+    })
+
+    it('should emit description and deprecation comments', async () => {
+      const result = await render({
+        'color.old': makeToken('color.old', red, 'color', {
+          $description: 'Legacy brand color',
+          $deprecated: 'Use color.primary',
+        }),
+      })
+
+      expect(result).toContain(
+        '// DEPRECATED: Use color.primary\n// Legacy brand color\n$color-old',
+      )
+    })
+
+    it('should omit variables when disabled', async () => {
+      const result = await render(
+        { 'color.primary': makeToken('color.primary', red, 'color') },
+        { variables: false },
+      )
+
+      expect(result).not.toContain('$color-primary')
+      expect(result).toContain('$tokens:')
+    })
+  })
+
+  describe('maps', () => {
+    it('should nest the root map following the token path', async () => {
+      const result = await render({
+        'color.brand.primary': makeToken('color.brand.primary', red, 'color'),
+        'color.brand.secondary': makeToken('color.brand.secondary', blue, 'color'),
+        'spacing.sm': makeToken('spacing.sm', { value: 4, unit: 'px' }, 'dimension'),
+      })
+
+      expect(result).toContain(
+        [
+          '$tokens: (',
+          "  'color': (",
+          "    'brand': (",
+          "      'primary': #ff0000,",
+          "      'secondary': #0000ff,",
+          '    ),',
+          '  ),',
+          "  'spacing': (",
+          "    'sm': 4px,",
+          '  ),',
+          ');',
+        ].join('\n'),
+      )
+    })
+
+    it('should wrap comma-separated lists in parentheses inside maps', async () => {
+      const result = await render({
+        'font.body': makeToken('font.body', ['Inter', 'sans-serif'], 'fontFamily'),
+      })
+
+      expect(result).toContain("'body': (Inter, sans-serif),")
+    })
+
+    it('should keep group values under $root when a group is also a token', async () => {
+      const result = await render({
+        'color.accent': makeToken('color.accent', red, 'color'),
+        'color.accent.hover': makeToken('color.accent.hover', blue, 'color'),
+      })
+
+      expect(result).toContain("'accent': (\n      '$root': #ff0000,\n      'hover': #0000ff,")
+    })
+
+    it('should use a custom map name', async () => {
+      const result = await render(
+        { 'color.primary': makeToken('color.primary', red, 'color') },
+        { mapName: 'ds-tokens' },
+      )
+
+      expect(result).toContain('$ds-tokens: (')
+    })
+  })
+
+  describe('mixins', () => {
+    const typography = makeToken(
+      'typography.heading',
+      {
+        fontFamily: ['Inter', 'sans-serif'],
+        fontSize: { value: 24, unit: 'px' },
+        fontWeight: 700,
+        lineHeight: 1.2,
+        letterSpacing: { value: 0.5, unit: 'px' },
+      },
+      'typography',
+    )
+
+    it('should emit typography tokens as mixins', async () => {
+      const result = await render({ 'typography.heading': typography })
+
+      expect(result).toContain(
+        [
+          '@mixin typography-heading {',
+          '  font-family: Inter, sans-serif;',
+          '  font-size: 24px;',
+          '  font-weight: 700;',
+          '  line-height: 1.2;',
+          '  letter-spacing: 0.5px;',
+          '}',
+        ].join('\n'),
+      )
+    })
+
+    it('should represent typography as a nested map in variables and maps', async () => {
+      const result = await render({ 'typography.heading': typography })
+
+      expect(result).toContain(
+        "$typography-heading: ('font-family': (Inter, sans-serif), 'font-size': 24px,",
+      )
+      expect(result).toContain("'heading': ('font-family': (Inter, sans-serif)")
+    })
+
+    it('should kebab-case property keys like the CSS renderer', async () => {
+      const token = makeToken(
+        'typography.code',
+        { fontFamily: 'mono', font_feature_settings: '"tnum"' },
+        'typography',
+      )
+      const result = await render({ 'typography.code': token })
+
+      expect(result).toContain('  font-feature-settings: "tnum";')
+      expect(result).toContain('\'font-feature-settings\': "tnum"')
+    })
+
+    it('should omit mixins when disabled', async () => {
+      const result = await render({ 'typography.heading': typography }, { mixins: false })
+
+      expect(result).not.toContain('@mixin')
+    })
+  })
+
+  describe('bundle preset', () => {
+    it('should emit a map per modifier context and an index map', async () => {
+      const permutations: PermutationData[] = [
+        {
+          tokens: { 'color.bg': makeToken('color.bg', red, 'color') },
+          modifierInputs: { theme: 'light' },
+        },
+        {
+          tokens: { 'color.bg': makeToken('color.bg', blue, 'color') },
+          modifierInputs: { theme: 'dark' },
+        },
+      ]
+      const options: ScssRendererOptions = { preset: 'bundle' }
+      const context = buildContext(permutations, options, renderer, themedResolver, {
+        theme: 'light',
+      })
+
+      const result = (await renderer.format(context, options)) as string
+
+      expect(result).toContain('$color-bg: #ff0000;')
+      expect(result).toContain('// Modifier: theme=dark\n$tokens-theme-dark: (')
+      expect(result).toContain("'bg': #0000ff,")
+      expect(result).toContain(
+        "$tokens-theme: (\n  'light': $tokens,\n  'dark': $tokens-theme-dark,\n);",
+      )
+      // Variables and mixins come from the base permutation only
+      expect(result).not.toContain('$color-bg: #0000ff')
+    })
+
+    it('should skip permutations that differ in more than one modifier', async () => {
+      const permutations: PermutationData[] = [
+        { tokens: {}, modifierInputs: { theme: 'light', density: 'comfortable' } },
+        { tokens: {}, modifierInputs: { theme: 'dark', density: 'compact' } },
+      ]
+      const options: ScssRendererOptions = { preset: 'bundle' }
+      const context = buildContext(permutations, options, renderer, themedResolver, {
+        theme: 'light',
+        density: 'comfortable',
+      })
+
+      const result = (await renderer.format(context, options)) as string
+
+      expect(result).not.toContain('$tokens-theme-dark')
+    })
+  })
+
+  describe('standalone preset', () => {
+    it('should render one file per permutation', async () => {
+      const permutations: PermutationData[] = [
+        {
+          tokens: { 'color.bg': makeToken('color.bg', red, 'color') },
+          modifierInputs: { theme: 'light' },
+        },
+        {
+          tokens: { 'color.bg': makeToken('color.bg', blue, 'color') },
+          modifierInputs: { theme: 'dark' },
+        },
+      ]
+      const options: ScssRendererOptions = { preset: 'standalone' }
+      const context = buildContext(permutations, options, renderer, themedResolver, {
+        theme: 'light',
+      })
+      context.output.file = '_tokens-{theme}.scss'
+
+      const result = await renderer.format(context, options)
+
+      expect(isOutputTree(result)).toBe(true)
+      if (isOutputTree(result)) {
+        expect(Object.keys(result.files).sort()).toEqual([
+          '_tokens-dark.scss',
+          '_tokens-light.scss',
+        ])
+        expect(result.files['_tokens-dark.scss']).toContain('$color-bg: #0000ff;')
+      }
+    })
+  })
+
+  describe('scss() builder', () => {
+    it('should default to the bundle preset and kebab-case names', () => {
+      const config = scss({ name: 'scss', file: '_tokens.scss', mapName: 'ds' })
+
+      expect(config.options).toEqual({ preset: 'bundle', mapName: 'ds' })
+      expect(config.transforms).toHaveLength(1)
+    })
+  })
+})
@@ -121,6 +121,30 @@ describe('Tailwind CSS v4 Renderer', () => {
       expect(result).toContain('--spacing-md')
       expect(result).toContain('1rem')
     })
+
+    it('should generate clamp() for fluid dimensions', async () => {
+      const tokens: ResolvedTokens = {
+        lg: {
+          ...makeToken('lg', { value: 1, unit: 'rem' }, 'dimension'),
+          $extensions: {
+            'dispersa.fluid': {
+              min: { value: 1, unit: 'rem' },
+              max: { value: 2, unit: 'rem' },
+              minViewport: { value: 320, unit: 'px' },
+              maxViewport: { value: 1280, unit: 'px' },
+            },
+          },
+        },
+      }
+
+      const context = buildContext(tokens, { preset: 'bundle', includeImport: false }, renderer)
+      const result = await renderer.format(
+        context,
+        context.output.options as TailwindRendererOptions,
+      )
+
+      expect(result).toContain('--spacing-lg: clamp(1rem, 0.6667rem + 1.6667vw, 2rem);')
+    })
   })
 
   describe('font tokens', () => {
@@ -919,4 +943,276 @@ describe('Tailwind CSS v4 Renderer', () => {
       expect(variantIndex).toBeLessThan(themeIndex)
     })
   })
+
+  describe('namespaces option', () => {
+    it('should route tokens matching a pattern to the mapped namespace', async () => {
+      const tokens: ResolvedTokens = {
+        'radius.sm': makeToken('radius.sm', { value: 4, unit: 'px' }, 'dimension'),
+        gap: makeToken('gap', { value: 8, unit: 'px' }, 'dimension'),
+      }
+
+      const context = buildContext(
+        tokens,
+        { preset: 'bundle', includeImport: false, namespaces: { 'radius.*': 'radius' } },
+        renderer,
+      )
+      const result = await renderer.format(
+        context,
+        context.output.options as TailwindRendererOptions,
+      )
+
+      expect(result).toContain('--radius-sm: 4px;')
+      expect(result).toContain('--spacing-gap: 8px;')
+    })
+
+    it('should name nested matches after every wildcard segment', async () => {
+      const tokens: ResolvedTokens = {
+        'size.screen.tablet': makeToken(
+          'size.screen.tablet',
+          { value: 48, unit: 'rem' },
+          'dimension',
+        ),
+      }
+
+      const context = buildContext(
+        tokens,
+        { preset: 'bundle', includeImport: false, namespaces: { 'size.*.*': 'breakpoint' } },
+        renderer,
+      )
+      const result = await renderer.format(
+        context,
+        context.output.options as TailwindRendererOptions,
+      )
+
+      expect(result).toContain('--breakpoint-screen-tablet: 48rem;')
+    })
+
+    it('should use the first matching pattern', async () => {
+      const tokens: ResolvedTokens = {
+        'radius.sm': makeToken('radius.sm', { value: 4, unit: 'px' }, 'dimension'),
+      }
+
+      const context = buildContext(
+        tokens,
+        {
+          preset: 'bundle',
+          includeImport: false,
+          namespaces: { 'radius.*': 'radius', '*': 'spacing' },
+        },
+        renderer,
+      )
+      const result = await renderer.format(
+        context,
+        context.output.options as TailwindRendererOptions,
+      )
+
+      expect(result).toContain('--radius-sm: 4px;')
+      expect(result).not.toContain('--spacing-')
+    })
+  })
+
+  describe('typography tokens', () => {
+    it('should emit a text size with line-height, letter-spacing and font-weight sub-properties', async () => {
+      const tokens: ResolvedTokens = {
+        heading: makeToken(
+          'heading',
+          {
+            fontFamily: ['Inter', 'sans-serif'],
+            fontSize: { value: 2, unit: 'rem' },
+            fontWeight: 700,
+            lineHeight: 1.2,
+            letterSpacing: { value: -0.5, unit: 'px' },
+          },
+          'typography',
+        ),
+      }
+
+      const context = buildContext(tokens, { preset: 'bundle', includeImport: false }, renderer)
+      const result = await renderer.format(
+        context,
+        context.output.options as TailwindRendererOptions,
+      )
+
+      expect(result).toContain('--text-heading: 2rem;')
+      expect(result).toContain('--text-heading--line-height: 1.2;')
+      expect(result).toContain('--text-heading--letter-spacing: -0.5px;')
+      expect(result).toContain('--text-heading--font-weight: 700;')
+      expect(result).not.toContain('Inter')
+    })
+
+    it('should skip typography tokens without a font size', async () => {
+      const tokens: ResolvedTokens = {
+        body: makeToken('body', { fontFamily: 'Inter', lineHeight: 1.5 }, 'typography'),
+      }
+
+      const context = buildContext(tokens, { preset: 'bundle', includeImport: false }, renderer)
+      const result = await renderer.format(
+        context,
+        context.output.options as TailwindRendererOptions,
+      )
+
+      expect(result).not.toContain('--text-body')
+    })
+  })
+
+  describe('context utilities', () => {
+    const modifierResolver: ResolverDocument = {
+      resolutionOrder: [{ $ref: '#/sets/core' }, { $ref: '#/modifiers/theme' }],
+      modifiers: {
+        theme: {
+          contexts: { light: [], dark: [] },
+          default: 'light',
+        },
+      },
+    }
+
+    const buildThemeContext = (options: TailwindRendererOptions): RenderContext => ({
+      permutations: [
+        {
+          tokens: {
+            primary: makeInternalToken('primary', '#3b63fb', 'color', 'theme-light'),
+          } as unknown as ResolvedTokens,
+          modifierInputs: { theme: 'light' },
+        },
+        {
+          tokens: {
+            primary: makeInternalToken('primary', '#729efd', 'color', 'theme-dark'),
+          } as unknown as ResolvedTokens,
+          modifierInputs: { theme: 'dark' },
+        },
+      ],
+      output: { name: 'tailwind', renderer, file: 'theme.css', options },
+      resolver: modifierResolver,
+      meta: {
+        dimensions: ['theme'],
+        defaults: { theme: 'light' },
+        basePermutation: { theme: 'light' },
+      },
+    })
+
+    it('should emit an @utility class per modifier context', async () => {
+      const options: TailwindRendererOptions = {
+        preset: 'bundle',
+        includeImport: false,
+        contextUtilities: true,
+      }
+      const result = (await renderer.format(buildThemeContext(options), options)) as string
+
+      expect(result).toMatch(/@utility theme-dark \{\s*--color-primary: #729efd;\s*\}/)
+      expect(result).toContain('@custom-variant theme-dark')
+      expect(result).toContain('.theme-dark, .theme-dark *')
+    })
+
+    it('should not emit utilities by default', async () => {
+      const options: TailwindRendererOptions = { preset: 'bundle', includeImport: false }
+      const result = (await renderer.format(buildThemeContext(options), options)) as string
+
+      expect(result).not.toContain('@utility')
+      expect(result).not.toContain('.theme-dark')
+    })
+  })
+
+  describe('config preset', () => {
+    it('should export a Tailwind v3 theme.extend referencing CSS variables', async () => {
+      const tokens: ResolvedTokens = {
+        'color-primary': makeToken(
+          'color-primary',
+          { colorSpace: 'srgb', components: [1, 0, 0] },
+          'color',
+        ),
+        gap: makeToken('gap', { value: 8, unit: 'px' }, 'dimension'),
+        'font-sans': makeToken('font-sans', ['Inter', 'sans-serif'], 'fontFamily'),
+        'duration-fast': makeToken('duration-fast', { value: 100, unit: 'ms' }, 'duration'),
+      }
+
+      const context = buildContext(tokens, { preset: 'config' }, renderer)
+      const result = (await renderer.format(
+        context,
+        context.output.options as TailwindRendererOptions,
+      )) as string
+
+      expect(result).toContain('export default preset')
+      expect(result).toMatch(/colors: \{\s*primary: 'var\(--color-primary\)',?\s*\}/)
+      expect(result).toMatch(/spacing: \{\s*gap: 'var\(--gap\)',?\s*\}/)
+      expect(result).toMatch(/fontFamily: \{\s*sans: 'var\(--font-sans\)',?\s*\}/)
+      expect(result).toMatch(/transitionDuration: \{\s*fast: 'var\(--duration-fast\)',?\s*\}/)
+      expect(result).not.toContain('@theme')
+    })
+
+    it('should evaluate to a preset object', async () => {
+      const tokens: ResolvedTokens = {
+        'radius-sm': {
+          ...makeToken('radius.sm', { value: 4, unit: 'px' }, 'dimension'),
+          name: 'radius-sm',
+        },
+        heading: makeToken(
+          'heading',
+          { fontFamily: 'Inter', fontSize: { value: 2, unit: 'rem' }, lineHeight: 1.2 },
+          'typography',
+        ),
+        body: makeToken('body', { fontFamily: 'Inter' }, 'typography'),
+      }
+
+      const context = buildContext(
+        tokens,
+        { preset: 'config', minify: true, namespaces: { 'radius.*': 'radius' } },
+        renderer,
+      )
+      const result = (await renderer.format(
+        context,
+        context.output.options as TailwindRendererOptions,
+      )) as string
+
+      const module = (await import(`data:text/javascript,${encodeURIComponent(result)}`)) as {
+        default: unknown
+      }
+      expect(module.default).toEqual({
+        theme: {
+          extend: {
+            borderRadius: { sm: 'var(--radius-sm)' },
+            fontSize: {
+              heading: ['var(--heading-fontSize)', { lineHeight: 'var(--heading-lineHeight)' }],
+            },
+          },
+        },
+      })
+    })
+
+    it('should use the base permutation only', async () => {
+      const output: OutputConfig = {
+        name: 'tailwind',
+        renderer,
+        file: 'tailwind.preset.js',
+        options: { preset: 'config' },
+      }
+      const context: RenderContext = {
+        permutations: [
+          {
+            tokens: { primary: makeToken('primary', '#000000', 'color') },
+            modifierInputs: { theme: 'light' },
+          },
+          {
+            tokens: {
+              primary: makeToken('primary', '#ffffff', 'color'),
+              overlay: makeToken('overlay', '#333333', 'color'),
+            },
+            modifierInputs: { theme: 'dark' },
+          },
+        ],
+        output,
+        resolver: mockResolver,
+        meta: {
+          dimensions: ['theme'],
+          defaults: { theme: 'light' },
+          basePermutation: { theme: 'light' },
+        },
+      }
+
+      const result = (await renderer.format(context, { preset: 'config' })) as string
+
+      expect(result).toContain("primary: 'var(--primary)'")
+      expect(result).not.toContain('overlay')
+      expect(isOutputTree(result)).toBe(false)
+    })
+  })
 })
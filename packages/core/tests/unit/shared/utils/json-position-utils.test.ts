@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+
+import { getJsonPositions } from '../../../../src/shared/utils/json-position-utils'
+
+describe('getJsonPositions', () => {
+  it('should locate object members at their key', () => {
+    const text = '{\n  "color": {\n    "primary": { "$value": "#fff" }\n  }\n}\n'
+    const positions = getJsonPositions(text)
+
+    expect(positions.get('/color')).toEqual({ line: 2, column: 3 })
+    expect(positions.get('/color/primary')).toEqual({ line: 3, column: 5 })
+    expect(positions.get('/color/primary/$value')).toEqual({ line: 3, column: 18 })
+  })
+
+  it('should locate array items at their value', () => {
+    const positions = getJsonPositions('{"components": [1, 0.5,\n  0]}')
+
+    expect(positions.get('/components/0')).toEqual({ line: 1, column: 17 })
+    expect(positions.get('/components/1')).toEqual({ line: 1, column: 20 })
+    expect(positions.get('/components/2')).toEqual({ line: 2, column: 3 })
+  })
+
+  it('should escape keys as JSON Pointer segments', () => {
+    const positions = getJsonPositions('{"a/b": {"c~d": true}}')
+
+    expect(positions.get('/a~1b/c~0d')).toEqual({ line: 1, column: 10 })
+  })
+
+  it('should skip over escaped quotes and nested containers', () => {
+    const text = '{"a": "say \\"hi\\"", "b": {}, "c": [], "d": [{"e": null}]}'
+    const positions = getJsonPositions(text)
+
+    expect(positions.get('/b')).toEqual({ line: 1, column: 21 })
+    expect(positions.get('/d/0/e')).toEqual({ line: 1, column: 46 })
+  })
+
+  it('should handle CRLF line endings', () => {
+    const positions = getJsonPositions('{\r\n  "a": 1,\r\n  "b": 2\r\n}')
+
+    expect(positions.get('/b')).toEqual({ line: 3, column: 3 })
+  })
+})
@@ -149,4 +149,21 @@ describe('toBuildError', () => {
 
     expect(result.message).toBe('Bad config')
   })
+
+  it('should include the source location of the error', () => {
+    const error = new TokenReferenceError('color.missing')
+    error.location = { file: '/tokens/base.json', pointer: '/color/link', line: 4, column: 5 }
+    const result = toBuildError(error)
+
+    expect(result.location).toEqual({
+      file: '/tokens/base.json',
+      pointer: '/color/link',
+      line: 4,
+      column: 5,
+    })
+  })
+
+  it('should omit the location when unknown', () => {
+    expect(toBuildError(new ValidationError('Invalid', []))).not.toHaveProperty('location')
+  })
 })
@@ -23,6 +23,7 @@ const pathAliases = {
   '@resolution': path.resolve(__dirname, './src/resolution'),
   '@validation': path.resolve(__dirname, './src/validation'),
   '@lint': path.resolve(__dirname, './src/lint'),
+  '@diff': path.resolve(__dirname, './src/diff'),
   '@cli': path.resolve(__dirname, './src/cli'),
 }
 
@@ -37,6 +37,7 @@ export default defineConfig({
       '@shared': path.resolve(__dirname, './src/shared'),
       '@config': path.resolve(__dirname, './src/config'),
       '@lint': path.resolve(__dirname, './src/lint'),
+      '@diff': path.resolve(__dirname, './src/diff'),
       '@cli': path.resolve(__dirname, './src/cli'),
     },
   },